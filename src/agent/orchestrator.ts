@@ -87,7 +87,9 @@ export function parseXmlStyleToolCalls(text: string): ToolCallSpec[] {
       name !== "page_navigate" &&
       name !== "open_search_tab" &&
       name !== "web_search" &&
-      name !== "web_research"
+      name !== "web_research" &&
+      name !== "knowledge_search" &&
+      name !== "knowledge_read"
     )
       continue;
     const resolvedName = name === "web_search" ? "open_search_tab" : name;
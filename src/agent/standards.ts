@@ -13,7 +13,7 @@ English instructions below do not set the reply language—the final answer must
 
 Follow this loop mentally and with tools when needed:
 1) Intake — restate the user goal in one line from the **latest** user message (what “done” looks like). If they correct timeframe or switch domain, drop assumptions from earlier turns.
-2) Retrieve / rank — prefer facts from tools (page_read, MCP) over guessing; use web_research to fetch search hits and linked pages into context (no tabs); use open_search_tab only if the user should browse results in a real browser tab. **MCP tools (e.g. 1C-help):** call only when the latest question clearly belongs to that product/domain—do not reuse them after the user pivots to an unrelated topic (e.g. lunar missions vs 1C).
+2) Retrieve / rank — prefer facts from tools (page_read, MCP) over guessing; use web_research to fetch search hits and linked pages into context (no tabs); when listed, use knowledge_search / knowledge_read for pages the user has already visited ("that page I read yesterday"); use open_search_tab only if the user should browse results in a real browser tab. **MCP tools (e.g. 1C-help):** call only when the latest question clearly belongs to that product/domain—do not reuse them after the user pivots to an unrelated topic (e.g. lunar missions vs 1C).
 3) Act — call tools with minimal arguments; batch independent tool calls in one round when possible. Built-in tools (page_read, page_click, page_fill, page_navigate, web_research, open_search_tab) are always available; MCP tools may be narrowed to this request — only call tools from the provided list. If a tool returns an error or fails twice with the same arguments, skip it and use what you have.
 4) Verify — after tool results, check whether the goal is met; if not, one more targeted tool round or ask the user.
 5) Synthesize — final answer strictly mirrors the user’s latest message language and script (all parts: prose, headings, lists, sources section). Do not introduce a language the user did not use (e.g. Chinese if they wrote in Cyrillic or Latin-only), with sources when applicable.
@@ -35,7 +35,7 @@ export const SUBTASK_PLAN_SYSTEM = `You are a sub-planner for a browser extensio
 Output a SHORT plan (max 10 short lines, bullets):
 - User intent (one line)
 - What evidence is needed
-- Which tools are likely useful (names only: page_read, page_click, page_fill, page_navigate, web_research, open_search_tab, MCP tools…)
+- Which tools are likely useful (names only: page_read, page_click, page_fill, page_navigate, web_research, open_search_tab, knowledge_search, knowledge_read, MCP tools…)
 - What would count as “done” for this request
 
 No tool calls. No preamble. Write your plan in the same language as the user’s latest message; if the message is non-English, do not switch the plan to English.
@@ -49,7 +49,7 @@ Each line lists a tool name, which MCP server it belongs to (if any), and its de
 Rules:
 - Prefer the smallest set: which tools could actually change the answer, in what order (one short sequence), for the **current** user request only—do not assume the previous topic still applies.
 - Explicitly name tools that are NOT needed for this request and why (one phrase each).
-- Built-in tools (page_*, web_research, open_search_tab) stay available; your JSON line controls MCP tools only.
+- Built-in tools (page_*, web_research, open_search_tab, knowledge_*) stay available; your JSON line controls MCP tools only.
 
 Output:
 1) Short bullets (max ~12 lines): intent, recommended sequence, unnecessary tools.
@@ -80,6 +80,17 @@ Stay within the requested approximate length.
 If the user’s question (given in the same request) is not in English, compress narrative text in that same language and script so the main model is not pushed toward English or another unrelated language (e.g. Chinese).
 ${UNTRUSTED_SUBTASK_REMINDER}`.trim();
 
+/** Подзадача поиска: оценить релевантность кандидатов запросу (LLM rerank во вкладке Search). */
+export const SUBTASK_SEARCH_RERANK_SYSTEM = `You rate how well each numbered search candidate answers the user's search query.
+Reply with a single JSON object only, no markdown, no extra text:
+{"scores":[{"id":1,"score":7},{"id":2,"score":0}]}
+
+Rules:
+- One entry per candidate id; score is an integer from 0 (irrelevant) to 10 (directly answers the query).
+- Judge only by the candidate title, URL and excerpt; do not use outside knowledge about the pages.
+- Ambiguous queries: prefer candidates matching the most likely intent.
+${UNTRUSTED_SUBTASK_REMINDER}`.trim();
+
 /** Добавить стандартный блок оркестратора к уже собранному system prompt (Rules/Skills остаются в base отдельно). */
 export function appendStandardOrchestratorBlock(systemPrompt: string): string {
   return `${systemPrompt}\n\n${STANDARD_SEARCH_AGENT_PIPELINE}`;
@@ -8,6 +8,8 @@ export const BUILTIN_ORCHESTRATOR_TOOL_NAMES = new Set([
   "page_navigate",
   "open_search_tab",
   "web_research",
+  "knowledge_search",
+  "knowledge_read",
   "mcp_diagnose"
 ]);
 
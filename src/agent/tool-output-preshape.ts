@@ -1,42 +1,5 @@
 import type { LlmMessageForApi } from "../llm/client";
-
-const STOP = new Set([
-  "the",
-  "and",
-  "for",
-  "that",
-  "this",
-  "with",
-  "from",
-  "have",
-  "what",
-  "when",
-  "your",
-  "как",
-  "что",
-  "это",
-  "для",
-  "или",
-  "все",
-  "вот",
-  "так",
-  "где",
-  "при",
-  "ли",
-  "не",
-  "на",
-  "по",
-  "из",
-  "за",
-  "до",
-  "от",
-  "об",
-  "вы",
-  "мы",
-  "он",
-  "она",
-  "они"
-]);
+import { isCjkToken, isStopWord, normalizeForSearch, tokenize } from "../search/tokenizer";
 
 /** Последний user-текст в треде (для выбора релевантных строк из сырого tool output). */
 export function lastUserContentFromApiMessages(messages: LlmMessageForApi[]): string {
@@ -47,18 +10,17 @@ export function lastUserContentFromApiMessages(messages: LlmMessageForApi[]): st
   return "";
 }
 
-/** Токены из запроса пользователя для «мягкого grep» (без regex). */
+/**
+ * Токены из запроса пользователя для «мягкого grep» (без regex): слова без стоп-слов и коротких,
+ * CJK — биграммами. Основы слов не берутся — подсказки ищутся подстрокой в исходных строках.
+ */
 export function tokenizeQueryHints(userGoal: string, maxHints = 24): string[] {
-  const raw = userGoal
-    .toLowerCase()
-    .replace(/https?:\/\/\S+/gi, " ")
-    .replace(/[^\p{L}\p{N}\s-]/gu, " ");
-  const parts = raw.split(/\s+/).filter(Boolean);
+  const parts = tokenize(userGoal.replace(/https?:\/\/\S+/gi, " "));
   const out: string[] = [];
   const seen = new Set<string>();
   for (const p of parts) {
-    if (p.length < 3) continue;
-    if (STOP.has(p)) continue;
+    if (p.length < 3 && !isCjkToken(p)) continue;
+    if (isStopWord(p)) continue;
     if (seen.has(p)) continue;
     seen.add(p);
     out.push(p);
@@ -68,7 +30,7 @@ export function tokenizeQueryHints(userGoal: string, maxHints = 24): string[] {
 }
 
 function lineMatches(line: string, hints: string[]): boolean {
-  const low = line.toLowerCase();
+  const low = normalizeForSearch(line);
   return hints.some((h) => low.includes(h));
 }
 
@@ -1,5 +1,5 @@
-import { MessageFromContent, MessageFromPanel, ChatMessage, Page, type ReasoningStep } from "../types/messages";
-import { Storage } from "../storage/indexdb";
+import { MessageFromContent, MessageFromPanel, ChatMessage, Page, type ChatSource, type ReasoningStep, type ActiveTabChangedMessage } from "../types/messages";
+import { Storage, webFetchCache } from "../storage/indexdb";
 import {
   summarizePages,
   chatWithLLM,
@@ -9,7 +9,7 @@ import {
   chatWithLLMSubtask,
   type LlmMessageForApi
 } from "../llm/client";
-import { buildSummaryPrompt } from "../llm/prompts";
+import { buildPageChangesPrompt, buildSourceAwarePrompt, buildSummaryPrompt } from "../llm/prompts";
 import {
   getEnabledMcpToolsWithMap,
   type OpenAITool,
@@ -41,11 +41,24 @@ import { createToolContentFinalizer } from "../agent/context-compress";
 import { lastUserContentFromApiMessages } from "../agent/tool-output-preshape";
 import type { OrchestrationMetrics } from "../agent/pipeline";
 import { getBrowserTools } from "../browser-tools";
+import { getKnowledgeTools, runKnowledgeRead, runKnowledgeSearch } from "../knowledge-tools";
 import { callMcpTool } from "../mcp/client";
-import { buildAgentConversationFromChatHistory, CHAT_ROLLING_SUMMARY_KEYS } from "../chat/chat-llm-context";
-import { maybeRefreshRollingChatSummary } from "../chat/rolling-summary";
-import { CHAT_CONTEXT_SYNC_DEFAULTS } from "../chat/chat-context-sync";
-import { runWebResearch } from "../search/web-research";
+import { buildAgentConversationFromChatHistory } from "../chat/chat-llm-context";
+import { loadRollingChatSummaryState, maybeRefreshRollingChatSummary } from "../chat/rolling-summary";
+import { CHAT_CONTEXT_SYNC_DEFAULTS, parseChatThreadMode } from "../chat/chat-context-sync";
+import { StorageLockedError } from "../storage/crypto";
+import { collectionForUrl, loadCollectionRules } from "../storage/collections";
+import { searchCollectionPages } from "../search/hybrid-search";
+import { retrieveRagPassages, validateCitations, type RagPassage } from "../search/rag";
+import { parseLlmResponse } from "../search/sources";
+import { PAGE_RETENTION_SYNC_DEFAULTS, isUrlNeverIndexed, parsePageRetention, type PageRetentionLimits } from "../storage/retention";
+import { runWebResearchDetailed } from "../search/web-research";
+import { loadSerpProvider } from "../search/serp-providers";
+import { loadWebCacheSettings } from "../search/fetch-cache";
+import { diffLines, formatLineDiff } from "../search/text-diff";
+import { EMBEDDING_SYNC_DEFAULTS } from "../search/embedding";
+import { loadEmbeddingProvider, runEmbeddingQueue, saveEmbeddingStatus } from "../search/embedding-queue";
+import { llmRerankCandidates } from "../search/llm-rerank";
 import { UNTRUSTED_CONTENT_SECURITY_BLOCK, wrapUntrustedWebPageContent } from "../agent/untrusted-content";
 
 const storage = new Storage();
@@ -69,19 +82,104 @@ async function loadChatContextPolicy(): Promise<{
   };
 }
 
-function scheduleRollingSummaryUpdate(policy: {
+function loadPageRetention(): Promise<PageRetentionLimits> {
+  return new Promise((resolve) =>
+    chrome.storage.sync.get(PAGE_RETENTION_SYNC_DEFAULTS, (items) => resolve(parsePageRetention(items)))
+  );
+}
+
+/** Лимиты pages проверяются не чаще раза в PAGE_RETENTION_DEBOUNCE_MS: PAGE_INDEX приходит на каждую загрузку страницы. */
+const PAGE_RETENTION_DEBOUNCE_MS = 30_000;
+let pageRetentionTimer: ReturnType<typeof setTimeout> | null = null;
+
+function schedulePageRetention(delayMs = PAGE_RETENTION_DEBOUNCE_MS): void {
+  if (pageRetentionTimer) return;
+  pageRetentionTimer = setTimeout(() => {
+    pageRetentionTimer = null;
+    void loadPageRetention()
+      .then((limits) => storage.enforcePageRetention(limits))
+      .catch((err) => console.warn("Page retention failed:", err));
+  }, delayMs);
+}
+
+/** Эмбеддинги считаются пачкой через EMBEDDING_DEBOUNCE_MS после индексации; один проход за раз. */
+const EMBEDDING_DEBOUNCE_MS = 5_000;
+let embeddingTimer: ReturnType<typeof setTimeout> | null = null;
+let embeddingRun: Promise<void> | null = null;
+let embeddingRerun = false;
+
+function scheduleEmbeddingRun(delayMs = EMBEDDING_DEBOUNCE_MS): void {
+  if (embeddingTimer) clearTimeout(embeddingTimer);
+  embeddingTimer = setTimeout(() => {
+    embeddingTimer = null;
+    void runEmbeddingsNow();
+  }, delayMs);
+}
+
+async function runEmbeddingsNow(): Promise<void> {
+  if (embeddingRun) {
+    // Страницы пришли во время прохода — ещё один проход после текущего
+    embeddingRerun = true;
+    return embeddingRun;
+  }
+  embeddingRun = (async () => {
+    do {
+      embeddingRerun = false;
+      const provider = await loadEmbeddingProvider();
+      await runEmbeddingQueue(storage, provider, { onStatus: saveEmbeddingStatus });
+    } while (embeddingRerun);
+  })()
+    .catch((err) => console.warn("Embedding queue failed:", err))
+    .finally(() => {
+      embeddingRun = null;
+    });
+  return embeddingRun;
+}
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== "sync") return;
+  if (Object.keys(PAGE_RETENTION_SYNC_DEFAULTS).some((k) => k in changes)) schedulePageRetention(0);
+  if (Object.keys(EMBEDDING_SYNC_DEFAULTS).some((k) => k in changes)) scheduleEmbeddingRun(0);
+});
+scheduleEmbeddingRun();
+
+/** «Что изменилось»: объяснение diff двух снимков страницы; по умолчанию — текущая версия против предыдущей. */
+async function explainPageChanges(
+  payload: Extract<MessageFromPanel, { type: "PAGE_WHAT_CHANGED" }>["payload"]
+): Promise<{ text: string } | { error: string }> {
+  const snapshots = await storage.listPageSnapshots(payload.pageId);
+  const toIndex = payload.toSnapshotId
+    ? snapshots.findIndex((s) => s.id === payload.toSnapshotId)
+    : snapshots.length - 1;
+  const fromIndex = payload.fromSnapshotId ? snapshots.findIndex((s) => s.id === payload.fromSnapshotId) : toIndex - 1;
+  if (snapshots.length < 2) {
+    return { error: "Only one version of this page is saved so far. Visit it again after it changes." };
+  }
+  if (toIndex < 0 || fromIndex < 0) return { error: "Snapshot not found." };
+  if (toIndex === fromIndex) return { error: "Pick two different versions to compare." };
+  const from = snapshots[fromIndex];
+  const to = snapshots[toIndex];
+  const diff = formatLineDiff(diffLines(from.contentText, to.contentText));
+  const prompt = buildPageChangesPrompt(to, diff, { from: from.lastSeenAt, to: to.lastSeenAt });
+  const result = await chatWithLLM([{ role: "user", content: prompt }]);
+  return "error" in result ? { error: result.error } : { text: result.text };
+}
+
+function scheduleRollingSummaryUpdate(conversationId: string, policy: {
   enabled: boolean;
   everyMessages: number;
   batchMessages: number;
 }): void {
   if (!policy.enabled) return;
-  void storage.getChatHistory().then((h) =>
-    maybeRefreshRollingChatSummary(h, {
+  void storage.getChatHistory(conversationId).then((h) =>
+    maybeRefreshRollingChatSummary(conversationId, h, {
       enabled: policy.enabled,
       everyMessages: policy.everyMessages,
       batchMessages: policy.batchMessages
     }).catch(() => {})
-  );
+  ).catch(() => {
+    /* хранилище заперто — саммари обновится после ввода пароля */
+  });
 }
 
 /** Диагностический инструмент: модель вызывает его по запросу "проверь инструменты". */
@@ -321,11 +419,14 @@ function buildSystemPromptWithToolStatus(
       sections.push(`[MCP TOOLS] ${mcpList.join("; ")}`);
     }
     const toolsBlock = sections.join("\n\n");
+    const knowledgeIntent = (browserTools ?? []).some((t) => t.function.name === "knowledge_search")
+      ? ", knowledge_search / knowledge_read (pages the user visited before, saved locally; args: query, site?, after?; page_id, from_passage?)"
+      : "";
     return `${basePrompt}
 
 ${toolsBlock}
 
-[INTENT] Infer from natural language: page_read (read/understand page), page_click (click element), page_fill (fill field; args: field, value), page_navigate (navigate; arg: url), web_research (fetch web excerpts into context, no tabs; args: query, max_depth?, max_pages?), open_search_tab (open search site in a background tab; args: query, engine?). Legacy name web_search is accepted as alias. Use tool_calls.`;
+[INTENT] Infer from natural language: page_read (read/understand page), page_click (click element), page_fill (fill field; args: field, value), page_navigate (navigate; arg: url), web_research (fetch web excerpts into context, no tabs; args: query, max_depth?, max_pages?), open_search_tab (open search site in a background tab; args: query, engine?)${knowledgeIntent}. Legacy name web_search is accepted as alias. Use tool_calls.`;
   }
   if (!hasMcp && loaded.mcpConfigured) {
     const errLines =
@@ -378,10 +479,11 @@ async function loadAgentToolsAndPrompt(): Promise<{
   orchestrator: OrchestratorSyncSettings;
 }> {
   const [settings, mcpLoadedRaw, basePrompt, orchestratorStored, mcpPromptsPack] = await Promise.all([
-    new Promise<{ browserAutomationEnabled: boolean }>((resolve) => {
-      chrome.storage.sync.get({ browserAutomationEnabled: false }, (items) => {
+    new Promise<{ browserAutomationEnabled: boolean; knowledgeToolsEnabled: boolean }>((resolve) => {
+      chrome.storage.sync.get({ browserAutomationEnabled: false, knowledgeToolsEnabled: false }, (items) => {
         resolve({
-          browserAutomationEnabled: Boolean(items.browserAutomationEnabled)
+          browserAutomationEnabled: Boolean(items.browserAutomationEnabled),
+          knowledgeToolsEnabled: Boolean(items.knowledgeToolsEnabled)
         });
       });
     }),
@@ -409,9 +511,12 @@ async function loadAgentToolsAndPrompt(): Promise<{
   }
   const baseWithMcpPrompts =
     mcpPromptsPack.block.trim() !== "" ? `${basePrompt}\n\n${mcpPromptsPack.block}` : basePrompt;
-  const browserTools = getBrowserTools({
-    browserAutomationEnabled: settings.browserAutomationEnabled
-  });
+  const browserTools = [
+    ...getBrowserTools({
+      browserAutomationEnabled: settings.browserAutomationEnabled
+    }),
+    ...getKnowledgeTools({ knowledgeToolsEnabled: settings.knowledgeToolsEnabled })
+  ];
   const orchestrator = mergeOrchestratorSettings(orchestratorStored);
   const pipelineBlock = appendStandardOrchestratorBlock(
     buildSystemPromptWithToolStatus(mcpLoaded, browserTools, baseWithMcpPrompts)
@@ -491,7 +596,12 @@ async function executeToolCallsAndAppendMessages(
   toolToServer: Map<string, ToolServerBinding>,
   messages: LlmMessageForApi[],
   finalizeToolContent: (toolName: string, raw: string, userGoal?: string) => Promise<string> = async (_, r) => r,
-  hooks?: { onToolStart?: (tc: ToolCallSpec) => void; onToolEnd?: (tc: ToolCallSpec) => void }
+  hooks?: {
+    onToolStart?: (tc: ToolCallSpec) => void;
+    onToolEnd?: (tc: ToolCallSpec) => void;
+    /** Сохранённые страницы из knowledge_* и документы web_research — для ChatMessage.sources */
+    onSources?: (sources: ChatSource[]) => void;
+  }
 ): Promise<ToolExecutionResult[]> {
   const assistantToolCalls = toolCalls.map((tc) => ({
     id: tc.id,
@@ -784,18 +894,56 @@ async function executeToolCallsAndAppendMessages(
       const sl = Number(args.serp_limit);
       const serpLimit = Number.isFinite(sl) ? Math.max(1, Math.min(10, Math.floor(sl))) : 6;
       try {
-        const raw = await runWebResearch(rq, fetch, {
-          maxDepth,
-          maxPages,
-          serpLimit
+        const [serpProvider, cacheSettings] = await Promise.all([loadSerpProvider(), loadWebCacheSettings()]);
+        const research =
+          "error" in serpProvider
+            ? { text: serpProvider.error, documents: [] }
+            : await runWebResearchDetailed(rq, fetch, {
+                maxDepth,
+                maxPages,
+                serpLimit,
+                serpProvider,
+                // В offline кеш читается и при выключенном сохранении
+                cache: cacheSettings.enabled || cacheSettings.offline ? webFetchCache : null,
+                cacheTtlMs: cacheSettings.ttlMs,
+                offline: cacheSettings.offline
+              });
+        if (research.documents.length > 0) {
+          hooks?.onSources?.(research.documents.map((d) => ({ kind: "web" as const, ...d })));
+        }
+        await appendFinalizedToolMessage(finalizeToolContent, tc, research.text, messages, results, {
+          name: tc.name,
+          serverName: "builtin",
+          args: argsStr
         });
+      } catch (err) {
+        const raw = (err instanceof Error ? err.message : String(err)) || "web_research failed.";
         await appendFinalizedToolMessage(finalizeToolContent, tc, raw, messages, results, {
           name: tc.name,
           serverName: "builtin",
           args: argsStr
         });
+      }
+      continue;
+    }
+    if (tc.name === "knowledge_search" || tc.name === "knowledge_read") {
+      let args: Record<string, unknown> = {};
+      try {
+        if (argsStr) args = JSON.parse(argsStr) as Record<string, unknown>;
+      } catch {
+        /* leave args {} */
+      }
+      try {
+        const out =
+          tc.name === "knowledge_search" ? await runKnowledgeSearch(storage, args) : await runKnowledgeRead(storage, args);
+        if (out.sources.length > 0) hooks?.onSources?.(out.sources);
+        await appendFinalizedToolMessage(finalizeToolContent, tc, out.text, messages, results, {
+          name: tc.name,
+          serverName: "builtin",
+          args: argsStr
+        });
       } catch (err) {
-        const raw = (err instanceof Error ? err.message : String(err)) || "web_research failed.";
+        const raw = (err instanceof Error ? err.message : String(err)) || `${tc.name} failed.`;
         await appendFinalizedToolMessage(finalizeToolContent, tc, raw, messages, results, {
           name: tc.name,
           serverName: "builtin",
@@ -889,6 +1037,13 @@ async function executeToolCallsAndAppendMessages(
   return results;
 }
 
+/** Источники ответа без повторов по url: сначала текущая страница, затем прочитанные knowledge_* страницы. */
+function mergeChatSources(...lists: (ChatSource[] | undefined)[]): ChatSource[] {
+  const byUrl = new Map<string, ChatSource>();
+  for (const list of lists) for (const s of list ?? []) if (!byUrl.has(s.url)) byUrl.set(s.url, s);
+  return Array.from(byUrl.values());
+}
+
 /**
  * Стриминг с MCP: цикл (стрим -> при tool_calls выполняем инструменты -> снова стрим) с передачей чанков в port.
  * Отправляет reasoning_step после каждого раунда с tool_calls, чтобы UI сохранял все размышления и вызовы.
@@ -904,9 +1059,13 @@ async function runAgentStreamWithMcpTools(
   },
   port: chrome.runtime.Port,
   signal?: AbortSignal
-): Promise<{ text: string; reasoningSteps: ReasoningStep[]; metrics?: OrchestrationMetrics } | { error: string }> {
+): Promise<
+  | { text: string; reasoningSteps: ReasoningStep[]; metrics?: OrchestrationMetrics; sources?: ChatSource[] }
+  | { error: string }
+> {
   const { mcpLoaded: loaded, browserTools, systemPrompt, agentContextForSubtasks, orchestrator } = toolsContext;
   const finalizeToolContent = createToolContentFinalizer(orchestrator, signal);
+  const knowledgeSources: ChatSource[] = [];
   let { tools, toolToServer } = loaded;
   if (tools.length === 0 && loaded.mcpConfigured) {
     tools = [MCP_DIAGNOSE_TOOL];
@@ -931,7 +1090,7 @@ async function runAgentStreamWithMcpTools(
     return { text: result.text, reasoningSteps: steps };
   }
   const toolCatalogMarkdown = buildEnrichedToolCatalogMarkdown(openAITools, toolToServer);
-  return orchestrateStreamingAgent(
+  const result = await orchestrateStreamingAgent(
     conversation,
     {
       systemPrompt,
@@ -961,7 +1120,8 @@ async function runAgentStreamWithMcpTools(
               name: tc.name
             }),
           onToolEnd: (tc) =>
-            safePortPost(port, { type: "tool_exec", phase: "end", toolCallId: tc.id, name: tc.name })
+            safePortPost(port, { type: "tool_exec", phase: "end", toolCallId: tc.id, name: tc.name }),
+          onSources: (sources) => knowledgeSources.push(...sources)
         }),
       onToolRoundComplete: (steps) => {
         safePortPost(port, { type: "reasoning_step", steps });
@@ -974,6 +1134,8 @@ async function runAgentStreamWithMcpTools(
       )
     }
   );
+  if ("error" in result || knowledgeSources.length === 0) return result;
+  return { ...result, sources: mergeChatSources(knowledgeSources) };
 }
 
 /**
@@ -988,9 +1150,10 @@ async function runAgentWithMcpTools(
     agentContextForSubtasks: string;
     orchestrator: OrchestratorSyncSettings;
   }
-): Promise<{ text: string } | { error: string }> {
+): Promise<{ text: string; sources?: ChatSource[] } | { error: string }> {
   const { mcpLoaded: loaded, browserTools, systemPrompt, agentContextForSubtasks, orchestrator } = toolsContext;
   const finalizeToolContent = createToolContentFinalizer(orchestrator);
+  const knowledgeSources: ChatSource[] = [];
   let { tools, toolToServer } = loaded;
   if (tools.length === 0 && loaded.mcpConfigured) {
     tools = [MCP_DIAGNOSE_TOOL];
@@ -1011,7 +1174,7 @@ async function runAgentWithMcpTools(
   }
 
   const toolCatalogMarkdownSync = buildEnrichedToolCatalogMarkdown(openAIToolsForAgent, toolToServer);
-  return orchestrateSyncAgent(
+  const result = await orchestrateSyncAgent(
     userMessage,
     {
       systemPrompt,
@@ -1028,7 +1191,9 @@ async function runAgentWithMcpTools(
           tools: opts.tools
         }),
       executeTools: (calls, map, msgs) =>
-        executeToolCallsAndAppendMessages(calls, map, msgs, finalizeToolContent),
+        executeToolCallsAndAppendMessages(calls, map, msgs, finalizeToolContent, {
+          onSources: (sources) => knowledgeSources.push(...sources)
+        }),
       subtasks: createDefaultOrchestratorSubtasks(
         orchestrator,
         undefined,
@@ -1037,6 +1202,27 @@ async function runAgentWithMcpTools(
       )
     }
   );
+  if ("error" in result || knowledgeSources.length === 0) return result;
+  return { ...result, sources: mergeChatSources(knowledgeSources) };
+}
+
+/** Страниц коллекции в промпте беседы «с коллекцией». */
+const COLLECTION_CHAT_MAX_PAGES = 5;
+
+/**
+ * Итоговый текст и источники ответа. В беседе «Ask my pages» (есть пассажи) в тексте остаются только
+ * ссылки [n] на пассажи контекста, а источники — процитированные пассажи, затем прочие без повторов по url.
+ */
+function finalizeAnswer(
+  text: string,
+  ragPassages: RagPassage[] | null,
+  otherSources: ChatSource[]
+): { content: string; sources: ChatSource[] } {
+  if (!ragPassages) return { content: text, sources: otherSources };
+  // Раздел «Источники:», если модель его всё же написала, заменяется проверенным списком
+  const cited = validateCitations(parseLlmResponse(text).content, ragPassages);
+  const citedUrls = new Set(cited.sources.map((s) => s.url));
+  return { content: cited.text, sources: [...cited.sources, ...otherSources.filter((s) => !citedUrls.has(s.url))] };
 }
 
 const PING_RUNNER_URL = "ping-runner.html";
@@ -1107,6 +1293,8 @@ const MAX_CONCURRENT_CHAT_TASKS = 2;
 interface ChatStreamTask {
   id: string;
   queryText: string;
+  /** Беседа, в которую уходит ответ (и из которой берётся контекст) */
+  conversationId: string;
   port: chrome.runtime.Port;
   abortController: AbortController;
 }
@@ -1114,13 +1302,14 @@ const chatTaskQueue: ChatStreamTask[] = [];
 let activeChatTasks = 0;
 
 async function runOneChatStreamTask(task: ChatStreamTask): Promise<void> {
-  const { port, queryText, abortController } = task;
+  const { port, queryText, conversationId, abortController } = task;
   let keepaliveOffscreenOpened = false;
   try {
     keepaliveOffscreenOpened = await openStreamKeepaliveOffscreen();
 
-    let sourcesForDone: { title: string; url: string }[] | undefined;
+    let sourcesForDone: ChatSource[] | undefined;
     let lastUserOverride: string | null = null;
+    let ragPassages: RagPassage[] | null = null;
 
     if (isQuestionAboutCurrentPage(queryText)) {
       const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -1144,19 +1333,27 @@ async function runOneChatStreamTask(task: ChatStreamTask): Promise<void> {
       sourcesForDone = [{ title: currentPage.title, url: currentPage.url }];
     }
 
+    const scope = lastUserOverride == null ? await storage.getConversation(conversationId) : null;
+    if (scope?.collection) {
+      // Беседа «с коллекцией»: контекст — найденные по вопросу страницы этой коллекции
+      const pages = await searchCollectionPages(storage, scope.collection, queryText, COLLECTION_CHAT_MAX_PAGES);
+      if (pages.length > 0) {
+        lastUserOverride = buildSummaryPrompt(pages, queryText);
+        sourcesForDone = pages.map((p) => ({ title: p.title, url: p.url }));
+      }
+    } else if (scope?.askPages) {
+      // «Ask my pages»: пронумерованные пассажи всего индекса, ссылки [n] ответа проверяются по ним
+      ragPassages = await retrieveRagPassages(storage, queryText);
+      lastUserOverride = buildSourceAwarePrompt(queryText, ragPassages);
+    }
+
     const chatPolicy = await loadChatContextPolicy();
-    const localRolling = await chrome.storage.local.get({
-      [CHAT_ROLLING_SUMMARY_KEYS.text]: "",
-      [CHAT_ROLLING_SUMMARY_KEYS.covers]: 0
-    });
-    const fullHistory = await storage.getChatHistory();
+    const rolling = await loadRollingChatSummaryState(conversationId);
+    const fullHistory = await storage.getChatHistory(conversationId);
     let conversation = buildAgentConversationFromChatHistory(fullHistory, {
       maxMessages: chatPolicy.maxMessages,
       maxChars: chatPolicy.maxChars,
-      rolling: {
-        summaryText: String(localRolling[CHAT_ROLLING_SUMMARY_KEYS.text] ?? ""),
-        coversCount: Number(localRolling[CHAT_ROLLING_SUMMARY_KEYS.covers]) || 0
-      },
+      rolling,
       summaryEnabled: chatPolicy.rollingEnabled
     });
     if (conversation.length === 0) {
@@ -1183,12 +1380,14 @@ async function runOneChatStreamTask(task: ChatStreamTask): Promise<void> {
         safePortPost(port, { type: "error", error: result.error });
         return;
       }
+      const { content, sources } = finalizeAnswer(result.text, ragPassages, mergeChatSources(sourcesForDone, result.sources));
       const doneMessage: ChatMessage = {
+        conversationId,
         role: "assistant",
-        content: result.text,
+        content,
         timestamp: new Date().toISOString(),
         ...(result.reasoningSteps.length > 0 ? { reasoningSteps: result.reasoningSteps } : {}),
-        ...(sourcesForDone ? { sources: sourcesForDone } : {}),
+        ...(sources.length > 0 ? { sources } : {}),
         ...(result.metrics != null ? { orchestrationMetrics: result.metrics } : {})
       };
       const sentMcp = tryPortPost(port, { type: "done", message: doneMessage });
@@ -1196,7 +1395,7 @@ async function runOneChatStreamTask(task: ChatStreamTask): Promise<void> {
         await storage.saveChatMessage(doneMessage);
         showChatReadyNotification();
       }
-      scheduleRollingSummaryUpdate({
+      scheduleRollingSummaryUpdate(conversationId, {
         enabled: chatPolicy.rollingEnabled,
         everyMessages: chatPolicy.rollingEvery,
         batchMessages: chatPolicy.rollingBatch
@@ -1216,19 +1415,21 @@ async function runOneChatStreamTask(task: ChatStreamTask): Promise<void> {
       safePortPost(port, { type: "error", error: result.error });
       return;
     }
+    const answer = finalizeAnswer(result.text, ragPassages, sourcesForDone ?? []);
     const doneMsg: ChatMessage = {
+      conversationId,
       role: "assistant",
-      content: result.text,
+      content: answer.content,
       timestamp: new Date().toISOString(),
       ...(result.thinking != null && result.thinking !== "" ? { thinking: result.thinking } : {}),
-      ...(sourcesForDone ? { sources: sourcesForDone } : {})
+      ...(answer.sources.length > 0 ? { sources: answer.sources } : {})
     };
     const sentStream = tryPortPost(port, { type: "done", message: doneMsg });
     if (!sentStream) {
       await storage.saveChatMessage(doneMsg);
       showChatReadyNotification();
     }
-    scheduleRollingSummaryUpdate({
+    scheduleRollingSummaryUpdate(conversationId, {
       enabled: chatPolicy.rollingEnabled,
       everyMessages: chatPolicy.rollingEvery,
       batchMessages: chatPolicy.rollingBatch
@@ -1258,6 +1459,30 @@ function enqueueChatStreamTask(task: ChatStreamTask): void {
   }
 }
 
+/** Режим тредов по странице/сайту: сообщить panel о смене активной вкладки, чтобы беседа следовала за ней. */
+function notifyActiveTabChanged(tab: chrome.tabs.Tab): void {
+  if (tab.id == null || !tab.url) return;
+  chrome.storage.sync.get({ chatThreadMode: CHAT_CONTEXT_SYNC_DEFAULTS.chatThreadMode }, (items) => {
+    if (parseChatThreadMode(items.chatThreadMode) === "off") return;
+    const message: ActiveTabChangedMessage = {
+      type: "ACTIVE_TAB_CHANGED",
+      payload: { tabId: tab.id!, windowId: tab.windowId, url: tab.url!, title: tab.title ?? "" }
+    };
+    chrome.runtime.sendMessage(message).catch(() => {
+      /* panel не открыта — получателя нет */
+    });
+  });
+}
+
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+  chrome.tabs.get(tabId).then(notifyActiveTabChanged).catch(() => {});
+});
+
+chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+  if (!tab.active) return;
+  if (changeInfo.url || changeInfo.status === "complete") notifyActiveTabChanged(tab);
+});
+
 chrome.runtime.onConnect.addListener((port) => {
   if (port.name === "pageai-stream-keepalive") {
     port.onMessage.addListener(() => { /* пинги от ping-runner окна — только сброс idle таймера SW */ });
@@ -1265,13 +1490,13 @@ chrome.runtime.onConnect.addListener((port) => {
   }
   if (port.name !== "pageai-chat-stream") return;
   const abortController = new AbortController();
-  port.onMessage.addListener((msg: { type: string; payload?: { text: string } }) => {
+  port.onMessage.addListener((msg: { type: string; payload?: { text: string; conversationId?: string } }) => {
     if (msg.type === "ping") return;
     if (msg.type === "STOP_STREAM") {
       abortController.abort();
       return;
     }
-    if (msg.type !== "CHAT_STREAM_REQUEST" || !msg.payload?.text?.trim()) {
+    if (msg.type !== "CHAT_STREAM_REQUEST" || !msg.payload?.text?.trim() || !msg.payload.conversationId) {
       safePortPost(port, { type: "error", error: "Invalid request" });
       return;
     }
@@ -1279,6 +1504,7 @@ chrome.runtime.onConnect.addListener((port) => {
     const task: ChatStreamTask = {
       id: `stream-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
       queryText,
+      conversationId: msg.payload.conversationId,
       port,
       abortController
     };
@@ -1290,7 +1516,25 @@ chrome.runtime.onMessage.addListener((message: MessageFromContent | MessageFromP
   (async () => {
     if (message.type === "PAGE_INDEX") {
       const msg = message as Extract<MessageFromContent, { type: "PAGE_INDEX" }>;
-      await storage.savePage(msg.payload);
+      const retention = await loadPageRetention();
+      if (isUrlNeverIndexed(msg.payload.url, retention.neverIndexDomains)) {
+        sendResponse({ ok: true, skipped: true });
+        return;
+      }
+      try {
+        // Правила коллекций — для страниц без коллекции; у уже сохранённой savePage оставляет прежнюю
+        const spaceKey = msg.payload.spaceKey || collectionForUrl(msg.payload.url, await loadCollectionRules());
+        await storage.savePage(spaceKey ? { ...msg.payload, spaceKey } : msg.payload);
+      } catch (err) {
+        // Шифрование включено, а пароль в этой сессии не введён — открытым текстом не сохраняем
+        if (err instanceof StorageLockedError) {
+          sendResponse({ ok: true, skipped: true });
+          return;
+        }
+        throw err;
+      }
+      schedulePageRetention();
+      scheduleEmbeddingRun();
       sendResponse({ ok: true });
       return;
     }
@@ -1328,6 +1572,7 @@ chrome.runtime.onMessage.addListener((message: MessageFromContent | MessageFromP
               content: finalText,
               timestamp: new Date().toISOString(),
               ...(thinking != null && thinking !== "" ? { thinking } : {}),
+              ...("sources" in result && result.sources ? { sources: result.sources } : {}),
               ...(hasAnyTools && "metrics" in result ? { orchestrationMetrics: result.metrics } : {})
             }
           });
@@ -1394,6 +1639,38 @@ chrome.runtime.onMessage.addListener((message: MessageFromContent | MessageFromP
       return;
     }
 
+    if (message.type === "EMBEDDINGS_REINDEX") {
+      const msg = message as { type: "EMBEDDINGS_REINDEX"; payload?: { reset?: boolean } };
+      try {
+        if (msg.payload?.reset) await storage.clearPageEmbeddings();
+        void runEmbeddingsNow();
+        sendResponse({ ok: true });
+      } catch (err) {
+        sendResponse({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+      return;
+    }
+
+    if (message.type === "SEARCH_LLM_RERANK") {
+      const { query, candidates, timeoutMs } = (message as MessageFromPanel & { type: "SEARCH_LLM_RERANK" }).payload;
+      try {
+        sendResponse({ ok: true, result: await llmRerankCandidates(query, candidates, { timeoutMs }) });
+      } catch (err) {
+        sendResponse({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+      return;
+    }
+
+    if (message.type === "PAGE_WHAT_CHANGED") {
+      const msg = message as MessageFromPanel & { type: "PAGE_WHAT_CHANGED" };
+      try {
+        sendResponse({ ok: true, result: await explainPageChanges(msg.payload) });
+      } catch (err) {
+        sendResponse({ ok: false, error: err instanceof Error ? err.message : String(err) });
+      }
+      return;
+    }
+
     if (message.type === "OPEN_SIDE_PANEL") {
       try {
         if (chrome.sidePanel) {
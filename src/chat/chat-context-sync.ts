@@ -1,11 +1,19 @@
 /** Ключи и дефолты для лимитов чата и rolling-summary (`chrome.storage.sync`). */
 
+/** Привязка бесед к вкладке: off — ручной выбор, page — беседа на страницу (extractPageId), origin — на сайт. */
+export type ChatThreadMode = "off" | "page" | "origin";
+
 export const CHAT_CONTEXT_SYNC_DEFAULTS = {
   chatContextMaxMessages: 56,
   chatContextMaxChars: 100_000,
   chatRollingSummaryEnabled: true,
   chatRollingSummaryEvery: 16,
-  chatRollingSummaryBatch: 8
+  chatRollingSummaryBatch: 8,
+  chatThreadMode: "off" as ChatThreadMode
 } as const;
 
+export function parseChatThreadMode(raw: unknown): ChatThreadMode {
+  return raw === "page" || raw === "origin" ? raw : "off";
+}
+
 export type ChatContextSyncDefaultsKey = keyof typeof CHAT_CONTEXT_SYNC_DEFAULTS;
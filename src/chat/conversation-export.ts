@@ -0,0 +1,269 @@
+/**
+ * Экспорт беседы в Markdown (для вставки в тикет) и в самодостаточный HTML-файл.
+ * Шаги рассуждения и вызовы инструментов сворачиваются в <details>, источники и метрики агента — под ответом.
+ */
+import type { ChatMessage, Conversation, OrchestrationMetrics, ReasoningStep } from "../types/messages";
+import { markdownToHtml } from "../ui/markdown";
+
+export type ConversationExportFormat = "markdown" | "html";
+
+/** Подписи в экспортируемом документе (panel/popup подставляют переводы). */
+export interface ConversationExportLabels {
+  untitled: string;
+  you: string;
+  assistant: string;
+  system: string;
+  reasoning: string;
+  toolCall: string;
+  args: string;
+  result: string;
+  sources: string;
+  page: string;
+  exportedAt: string;
+}
+
+export const DEFAULT_EXPORT_LABELS: ConversationExportLabels = {
+  untitled: "New chat",
+  you: "You",
+  assistant: "Assistant",
+  system: "System",
+  reasoning: "Reasoning",
+  toolCall: "Tool call",
+  args: "Arguments",
+  result: "Result",
+  sources: "Sources",
+  page: "Page",
+  exportedAt: "Exported"
+};
+
+export interface ConversationExportOptions {
+  labels?: Partial<ConversationExportLabels>;
+  now?: Date;
+}
+
+function resolveLabels(opts: ConversationExportOptions): ConversationExportLabels {
+  return { ...DEFAULT_EXPORT_LABELS, ...opts.labels };
+}
+
+function roleLabel(role: ChatMessage["role"], labels: ConversationExportLabels): string {
+  if (role === "user") return labels.you;
+  if (role === "assistant") return labels.assistant;
+  return labels.system;
+}
+
+/** ISO → «YYYY-MM-DD HH:MM» (UTC), без зависимости от локали среды. */
+function formatTimestamp(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/** Ограда блока кода длиннее любой серии обратных кавычек внутри текста. */
+function codeFence(text: string): string {
+  const longest = (text.match(/`+/g) ?? []).reduce((max, run) => Math.max(max, run.length), 0);
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+function fencedBlock(text: string, lang = ""): string {
+  const fence = codeFence(text);
+  return `${fence}${lang}\n${text.replace(/\n+$/, "")}\n${fence}`;
+}
+
+/** Аргументы инструмента — JSON-строка; красиво форматируем, если парсится. */
+function prettyArgs(args: string): { text: string; lang: string } {
+  try {
+    return { text: JSON.stringify(JSON.parse(args), null, 2), lang: "json" };
+  } catch {
+    return { text: args, lang: "" };
+  }
+}
+
+function toolTitle(step: Extract<ReasoningStep, { type: "tool_call" }>, labels: ConversationExportLabels): string {
+  const name = step.serverName ? `${step.serverName}/${step.name}` : step.name;
+  return `${labels.toolCall}: ${name}`;
+}
+
+/** Шаги рассуждения сообщения; старые записи хранят размышления только в `thinking`. */
+function messageSteps(msg: ChatMessage): ReasoningStep[] {
+  if (msg.reasoningSteps && msg.reasoningSteps.length > 0) return msg.reasoningSteps;
+  if (msg.thinking?.trim()) return [{ type: "thinking", text: msg.thinking }];
+  return [];
+}
+
+/** Одна строка итогов цикла агента; null — у сообщения нет метрик. */
+export function formatOrchestrationMetrics(m: OrchestrationMetrics | undefined): string | null {
+  if (!m) return null;
+  const parts = [`LLM rounds: ${m.mainLlmRounds}`, `tool rounds: ${m.toolExecutionRounds}`];
+  if (m.subtasks.planExecuted) parts.push("plan");
+  if (m.subtasks.verifyRuns > 0) parts.push(`verify: ${m.subtasks.verifyRuns}`);
+  if (m.subtasks.toolsNarrowed) parts.push("tools narrowed");
+  parts.push(`stop: ${m.stopReason}`);
+  if (m.lastVerify) parts.push(`verify ${m.lastVerify.sufficient ? "ok" : "insufficient"}: ${m.lastVerify.reason}`);
+  return parts.join(" · ");
+}
+
+function stepToMarkdown(step: ReasoningStep, labels: ConversationExportLabels): string {
+  if (step.type === "thinking") {
+    return `<details><summary>${labels.reasoning}</summary>\n\n${step.text.trim()}\n\n</details>`;
+  }
+  const lines = [`<details><summary>${toolTitle(step, labels)}</summary>`, ""];
+  if (step.args?.trim()) {
+    const args = prettyArgs(step.args);
+    lines.push(`**${labels.args}**`, "", fencedBlock(args.text, args.lang), "");
+  }
+  if (step.result?.trim()) {
+    lines.push(`**${labels.result}**`, "", fencedBlock(step.result), "");
+  }
+  lines.push("</details>");
+  return lines.join("\n");
+}
+
+function messageToMarkdown(msg: ChatMessage, labels: ConversationExportLabels): string {
+  const parts = [`### ${roleLabel(msg.role, labels)} · ${formatTimestamp(msg.timestamp)}`];
+  for (const step of messageSteps(msg)) parts.push(stepToMarkdown(step, labels));
+  if (msg.content.trim()) parts.push(msg.content.trim());
+  if (msg.sources && msg.sources.length > 0) {
+    const list = msg.sources.map((s, i) => `${i + 1}. [${s.title || s.url}](${s.url})`);
+    parts.push(`**${labels.sources}**\n\n${list.join("\n")}`);
+  }
+  const metrics = formatOrchestrationMetrics(msg.orchestrationMetrics);
+  if (metrics) parts.push(`<sub>${metrics}</sub>`);
+  return parts.join("\n\n");
+}
+
+function headerLines(conv: Conversation, labels: ConversationExportLabels, now: Date): string[] {
+  const lines: string[] = [];
+  if (conv.pageUrl) lines.push(`${labels.page}: ${conv.pageUrl}`);
+  lines.push(`${labels.exportedAt}: ${formatTimestamp(now.toISOString())}`);
+  return lines;
+}
+
+/** Беседа целиком в Markdown: заголовок, страница, затем сообщения по порядку. */
+export function conversationToMarkdown(
+  conv: Conversation,
+  messages: ChatMessage[],
+  opts: ConversationExportOptions = {}
+): string {
+  const labels = resolveLabels(opts);
+  const head = [`# ${conv.title || labels.untitled}`, "", ...headerLines(conv, labels, opts.now ?? new Date()).map((l) => `- ${l}`)];
+  const body = messages.map((m) => messageToMarkdown(m, labels));
+  return [head.join("\n"), ...body].join("\n\n---\n\n") + "\n";
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function safeHref(url: string): string | null {
+  try {
+    const u = new URL(url);
+    return u.protocol === "http:" || u.protocol === "https:" ? u.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function stepToHtml(step: ReasoningStep, labels: ConversationExportLabels): string {
+  if (step.type === "thinking") {
+    return `<details class="step"><summary>${escapeHtml(labels.reasoning)}</summary><pre>${escapeHtml(step.text.trim())}</pre></details>`;
+  }
+  let inner = "";
+  if (step.args?.trim()) {
+    inner += `<div class="step-label">${escapeHtml(labels.args)}</div><pre>${escapeHtml(prettyArgs(step.args).text)}</pre>`;
+  }
+  if (step.result?.trim()) {
+    inner += `<div class="step-label">${escapeHtml(labels.result)}</div><pre>${escapeHtml(step.result)}</pre>`;
+  }
+  return `<details class="step"><summary>${escapeHtml(toolTitle(step, labels))}</summary>${inner}</details>`;
+}
+
+function messageToHtml(msg: ChatMessage, labels: ConversationExportLabels): string {
+  const parts = [
+    `<header><strong>${escapeHtml(roleLabel(msg.role, labels))}</strong> <time>${escapeHtml(formatTimestamp(msg.timestamp))}</time></header>`
+  ];
+  for (const step of messageSteps(msg)) parts.push(stepToHtml(step, labels));
+  if (msg.content.trim()) {
+    // Реплики пользователя показываем как есть, ответы модели — через тот же markdown-рендер, что и в панели.
+    parts.push(
+      msg.role === "assistant"
+        ? `<div class="content">${markdownToHtml(msg.content)}</div>`
+        : `<div class="content plain">${escapeHtml(msg.content)}</div>`
+    );
+  }
+  if (msg.sources && msg.sources.length > 0) {
+    const items = msg.sources.map((s) => {
+      const href = safeHref(s.url);
+      const text = escapeHtml(s.title || s.url);
+      return href ? `<li><a href="${escapeHtml(href)}">${text}</a></li>` : `<li>${text}</li>`;
+    });
+    parts.push(`<div class="sources"><div class="step-label">${escapeHtml(labels.sources)}</div><ol>${items.join("")}</ol></div>`);
+  }
+  const metrics = formatOrchestrationMetrics(msg.orchestrationMetrics);
+  if (metrics) parts.push(`<div class="metrics">${escapeHtml(metrics)}</div>`);
+  return `<section class="message ${msg.role}">${parts.join("")}</section>`;
+}
+
+const EXPORT_CSS = `
+:root { color-scheme: light dark; --bg: #fff; --text: #1f2328; --muted: #656d76; --border: #d0d7de; --soft: #f6f8fa; --accent: #0969da; }
+@media (prefers-color-scheme: dark) { :root { --bg: #0d1117; --text: #e6edf3; --muted: #8d96a0; --border: #30363d; --soft: #161b22; --accent: #4493f8; } }
+body { margin: 0; background: var(--bg); color: var(--text); font: 14px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 24px 16px 48px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+.meta { color: var(--muted); font-size: 12px; margin-bottom: 16px; word-break: break-all; }
+.message { border: 1px solid var(--border); border-radius: 10px; padding: 10px 14px; margin: 12px 0; }
+.message.user { background: var(--soft); }
+.message header { display: flex; gap: 8px; align-items: baseline; margin-bottom: 6px; }
+.message time, .metrics { color: var(--muted); font-size: 12px; }
+.content.plain { white-space: pre-wrap; }
+details.step { border-left: 3px solid var(--border); padding: 2px 10px; margin: 6px 0; color: var(--muted); }
+details.step summary { cursor: pointer; }
+.step-label { font-weight: 600; font-size: 12px; margin-top: 6px; }
+pre, .md-code-block { background: var(--soft); border: 1px solid var(--border); border-radius: 6px; padding: 8px 10px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; word-break: break-word; }
+.md-code-inline { background: var(--soft); border-radius: 4px; padding: 1px 4px; font-size: 0.92em; }
+.md-code-block .language { display: block; color: var(--muted); font-size: 11px; }
+.md-link, a { color: var(--accent); }
+.md-quote { border-left: 3px solid var(--border); margin: 8px 0; padding-left: 10px; color: var(--muted); }
+.md-table { border-collapse: collapse; margin: 8px 0; }
+.md-table th, .md-table td { border: 1px solid var(--border); padding: 4px 8px; }
+.md-hr { border: none; border-top: 1px solid var(--border); }
+.sources ol { margin: 4px 0 0; padding-left: 20px; }
+`.trim();
+
+/** Самодостаточная HTML-страница: стили встроены, внешних ресурсов и скриптов нет. */
+export function conversationToHtml(
+  conv: Conversation,
+  messages: ChatMessage[],
+  opts: ConversationExportOptions = {}
+): string {
+  const labels = resolveLabels(opts);
+  const title = escapeHtml(conv.title || labels.untitled);
+  const meta = headerLines(conv, labels, opts.now ?? new Date()).map((l) => `<div>${escapeHtml(l)}</div>`).join("");
+  const body = messages.map((m) => messageToHtml(m, labels)).join("\n");
+  return [
+    "<!DOCTYPE html>",
+    '<html><head><meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${title}</title>`,
+    `<style>${EXPORT_CSS}</style>`,
+    "</head><body><main>",
+    `<h1>${title}</h1><div class="meta">${meta}</div>`,
+    body,
+    "</main></body></html>",
+    ""
+  ].join("\n");
+}
+
+/** Имя файла из заголовка беседы: безопасные для ФС символы, дата экспорта в конце. */
+export function conversationExportFileName(conv: Conversation, format: ConversationExportFormat, now = new Date()): string {
+  const slug =
+    (conv.title || "chat")
+      .replace(/[\\/:*?"<>|\p{Cc}]+/gu, " ")
+      .replace(/\s+/g, "-")
+      .replace(/^[-.]+|[-.]+$/g, "")
+      .slice(0, 60) || "chat";
+  return `${slug}-${now.toISOString().slice(0, 10)}.${format === "html" ? "html" : "md"}`;
+}
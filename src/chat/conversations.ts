@@ -0,0 +1,98 @@
+import type { Conversation } from "../types/messages";
+import { CHAT_ROLLING_SUMMARY_KEYS } from "./chat-llm-context";
+import type { ChatThreadMode } from "./chat-context-sync";
+import { extractPageId } from "../content/page-extractor";
+
+/** Беседа, в которую миграция БД переносит историю, накопленную до появления бесед. */
+export const LEGACY_CONVERSATION_ID = "legacy";
+export const LEGACY_CONVERSATION_TITLE = "Legacy";
+
+/** Ключ chrome.storage.local: id активной беседы (общий для panel и popup). */
+export const ACTIVE_CONVERSATION_STORAGE_KEY = "activeConversationId";
+
+const TITLE_MAX_LEN = 60;
+
+export function newConversationId(): string {
+  return `conv-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createConversationRecord(opts: {
+  title?: string;
+  pageUrl?: string;
+  threadKey?: string;
+  collection?: string;
+  askPages?: boolean;
+  now?: Date;
+} = {}): Conversation {
+  const ts = (opts.now ?? new Date()).toISOString();
+  const conv: Conversation = {
+    id: newConversationId(),
+    title: (opts.title ?? "").trim(),
+    createdAt: ts,
+    updatedAt: ts
+  };
+  if (opts.pageUrl) {
+    conv.pageUrl = opts.pageUrl;
+    const origin = originOfUrl(opts.pageUrl);
+    if (origin) conv.pageOrigin = origin;
+  }
+  if (opts.threadKey) conv.threadKey = opts.threadKey;
+  if (opts.collection) conv.collection = opts.collection;
+  if (opts.askPages) conv.askPages = true;
+  return conv;
+}
+
+export function originOfUrl(url: string): string | undefined {
+  try {
+    const u = new URL(url);
+    if (u.protocol !== "http:" && u.protocol !== "https:") return undefined;
+    return u.origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ключ треда для URL вкладки: страница (origin+pathname) или сайт (origin).
+ * null — режим выключен или URL не http(s) (chrome://, file:// и т.п.).
+ */
+export function threadKeyForUrl(url: string, mode: ChatThreadMode): string | null {
+  if (mode === "off") return null;
+  const origin = originOfUrl(url);
+  if (!origin) return null;
+  return mode === "origin" ? `origin:${origin}` : `page:${extractPageId(url)}`;
+}
+
+/** Заголовок по первой реплике пользователя: одна строка, не длиннее TITLE_MAX_LEN. */
+export function titleFromFirstMessage(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  if (line.length <= TITLE_MAX_LEN) return line;
+  return line.slice(0, TITLE_MAX_LEN - 1).trimEnd() + "…";
+}
+
+/** Закреплённые сверху, внутри групп — по updatedAt (новые первыми). */
+export function sortConversations(list: Conversation[]): Conversation[] {
+  return [...list].sort((a, b) => {
+    const pa = a.pinned ? 1 : 0;
+    const pb = b.pinned ? 1 : 0;
+    if (pa !== pb) return pb - pa;
+    return b.updatedAt.localeCompare(a.updatedAt);
+  });
+}
+
+/**
+ * Ключи rolling-summary в chrome.storage.local для беседы.
+ * Legacy-беседа продолжает использовать прежние глобальные ключи — её память переносится без копирования.
+ */
+export function chatRollingSummaryKeys(conversationId: string): {
+  text: string;
+  covers: string;
+  epoch: string;
+} {
+  if (conversationId === LEGACY_CONVERSATION_ID) return { ...CHAT_ROLLING_SUMMARY_KEYS };
+  return {
+    text: `${CHAT_ROLLING_SUMMARY_KEYS.text}:${conversationId}`,
+    covers: `${CHAT_ROLLING_SUMMARY_KEYS.covers}:${conversationId}`,
+    epoch: `${CHAT_ROLLING_SUMMARY_KEYS.epoch}:${conversationId}`
+  };
+}
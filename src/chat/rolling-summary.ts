@@ -1,7 +1,9 @@
 import { chatWithLLMSubtask } from "../llm/client";
 import { SUBTASK_CHAT_HISTORY_SUMMARY_SYSTEM } from "../agent/standards";
 import type { ChatMessage } from "../types/messages";
-import { CHAT_ROLLING_SUMMARY_KEYS } from "./chat-llm-context";
+import { chatRollingSummaryKeys } from "./conversations";
+import { decryptText, encryptText, isEncryptedValue } from "../storage/crypto";
+import { getEncryptionKeyState } from "../storage/encryption-session";
 
 export interface RollingSummaryPolicy {
   enabled: boolean;
@@ -29,39 +31,78 @@ function storageLocalSet(items: Record<string, unknown>): Promise<void> {
   });
 }
 
-/** Сброс rolling-summary в chrome.storage.local (и смена epoch, чтобы фон не дописал старое саммари после очистки чата). */
-export async function resetRollingChatSummaryStorage(): Promise<void> {
-  const cur = await storageLocalGet({ [CHAT_ROLLING_SUMMARY_KEYS.epoch]: 0 });
-  const next = (Number(cur[CHAT_ROLLING_SUMMARY_KEYS.epoch]) || 0) + 1;
+/** Текст саммари из storage: при включённом шифровании он хранится зашифрованным; заперто — пустая память. */
+async function openSummaryText(raw: unknown): Promise<string> {
+  if (!isEncryptedValue(raw)) return String(raw ?? "");
+  const state = await getEncryptionKeyState();
+  if (state.mode !== "unlocked") return "";
+  return decryptText(state.key, raw).catch(() => "");
+}
+
+/** Значение для записи; null — хранилище заперто, открытым текстом не пишем. */
+async function sealSummaryText(text: string): Promise<unknown> {
+  const state = await getEncryptionKeyState();
+  if (state.mode === "off") return text;
+  if (state.mode === "locked") return null;
+  return encryptText(state.key, text);
+}
+
+/** Сброс rolling-summary беседы в chrome.storage.local (и смена epoch, чтобы фон не дописал старое саммари после очистки чата). */
+export async function resetRollingChatSummaryStorage(conversationId: string): Promise<void> {
+  const keys = chatRollingSummaryKeys(conversationId);
+  const cur = await storageLocalGet({ [keys.epoch]: 0 });
+  const next = (Number(cur[keys.epoch]) || 0) + 1;
   await storageLocalSet({
-    [CHAT_ROLLING_SUMMARY_KEYS.text]: "",
-    [CHAT_ROLLING_SUMMARY_KEYS.covers]: 0,
-    [CHAT_ROLLING_SUMMARY_KEYS.epoch]: next
+    [keys.text]: "",
+    [keys.covers]: 0,
+    [keys.epoch]: next
   });
 }
 
+/** Удалить rolling-summary беседы целиком (при удалении беседы). */
+export async function removeRollingChatSummaryStorage(conversationId: string): Promise<void> {
+  const keys = chatRollingSummaryKeys(conversationId);
+  await new Promise<void>((resolve) => {
+    chrome.storage.local.remove([keys.text, keys.covers, keys.epoch], () => resolve());
+  });
+}
+
+/** Текущее rolling-summary беседы для сборки контекста модели. */
+export async function loadRollingChatSummaryState(
+  conversationId: string
+): Promise<{ summaryText: string; coversCount: number }> {
+  const keys = chatRollingSummaryKeys(conversationId);
+  const local = await storageLocalGet({ [keys.text]: "", [keys.covers]: 0 });
+  return {
+    summaryText: await openSummaryText(local[keys.text]),
+    coversCount: Number(local[keys.covers]) || 0
+  };
+}
+
 /**
  * Эвристика без сигнала от модели: если с прошлого саммари накопилось ≥ everyMessages сообщений — сжимаем пачку в local storage.
  * Вызывать после успешного ответа ассистента (fire-and-forget).
  */
 export async function maybeRefreshRollingChatSummary(
+  conversationId: string,
   history: ChatMessage[],
   policy: RollingSummaryPolicy,
   signal?: AbortSignal
 ): Promise<void> {
   if (!policy.enabled || history.length < 2) return;
 
+  const keys = chatRollingSummaryKeys(conversationId);
   const local = await storageLocalGet({
-    [CHAT_ROLLING_SUMMARY_KEYS.text]: "",
-    [CHAT_ROLLING_SUMMARY_KEYS.covers]: 0,
-    [CHAT_ROLLING_SUMMARY_KEYS.epoch]: 0
+    [keys.text]: "",
+    [keys.covers]: 0,
+    [keys.epoch]: 0
   });
-  const epochStart = Number(local[CHAT_ROLLING_SUMMARY_KEYS.epoch]) || 0;
-  const covers = Number(local[CHAT_ROLLING_SUMMARY_KEYS.covers]) || 0;
-  const prevSummary = String(local[CHAT_ROLLING_SUMMARY_KEYS.text] ?? "");
+  const epochStart = Number(local[keys.epoch]) || 0;
+  const covers = Number(local[keys.covers]) || 0;
+  const prevSummary = await openSummaryText(local[keys.text]);
 
   if (covers > history.length) {
-    await resetRollingChatSummaryStorage();
+    await resetRollingChatSummaryStorage(conversationId);
     return;
   }
 
@@ -91,13 +132,15 @@ export async function maybeRefreshRollingChatSummary(
   if ("error" in r || !r.text.trim()) return;
 
   const epochNow = Number(
-    (await storageLocalGet({ [CHAT_ROLLING_SUMMARY_KEYS.epoch]: 0 }))[CHAT_ROLLING_SUMMARY_KEYS.epoch]
+    (await storageLocalGet({ [keys.epoch]: 0 }))[keys.epoch]
   ) || 0;
   if (epochNow !== epochStart) return;
 
+  const sealed = await sealSummaryText(r.text.trim());
+  if (sealed == null) return;
   const nextCovers = covers + batch.length;
   await storageLocalSet({
-    [CHAT_ROLLING_SUMMARY_KEYS.text]: r.text.trim(),
-    [CHAT_ROLLING_SUMMARY_KEYS.covers]: nextCovers
+    [keys.text]: sealed,
+    [keys.covers]: nextCovers
   });
 }
@@ -1,4 +1,5 @@
-import type { PageIndexPayload } from "../types/messages";
+import type { PageHeading, PageIndexPayload } from "../types/messages";
+import { locateHeadings } from "../search/passages";
 
 export function extractPageId(url: string): string {
   // Используем URL как ID, но убираем хэш и query параметры для стабильности
@@ -10,7 +11,7 @@ export function extractPageId(url: string): string {
   }
 }
 
-function extractTextFromPage(): string {
+function extractTextFromPage(): { text: string; root: HTMLElement } {
   // Удаляем элементы, которые обычно не содержат полезного контента
   const unwantedSelectors = [
     "script",
@@ -63,7 +64,7 @@ function extractTextFromPage(): string {
     if (el) {
       const text = el.textContent?.trim() ?? "";
       if (text.length > 100) { // Минимум 100 символов для считания контентом
-        return text;
+        return { text, root: el as HTMLElement };
       }
     }
   }
@@ -74,7 +75,30 @@ function extractTextFromPage(): string {
   // Убираем слишком короткие строки (вероятно, навигация)
   const lines = allText.split('\n').filter(line => line.trim().length > 10);
   
-  return lines.join('\n');
+  return { text: lines.join('\n'), root: bodyClone };
+}
+
+/** Заголовки основного контента со смещениями в его тексте (границы пассажей). */
+function extractHeadings(root: HTMLElement, text: string): PageHeading[] {
+  const found = Array.from(root.querySelectorAll("h1, h2, h3, h4, h5, h6")).map((h) => ({
+    level: Number(h.tagName.slice(1)),
+    text: h.textContent ?? ""
+  }));
+  return locateHeadings(text, found);
+}
+
+/** Абсолютный http(s) URL из href `<link rel="canonical">`; undefined — нет, битый или совпадает со страницей. */
+export function resolveCanonicalUrl(href: string | null | undefined, pageUrl: string): string | undefined {
+  if (!href?.trim()) return undefined;
+  try {
+    const canonical = new URL(href.trim(), pageUrl);
+    if (canonical.protocol !== "http:" && canonical.protocol !== "https:") return undefined;
+    canonical.hash = "";
+    const out = canonical.toString();
+    return extractPageId(out) === extractPageId(pageUrl) ? undefined : out;
+  } catch {
+    return undefined;
+  }
 }
 
 function extractTitle(): string {
@@ -92,15 +116,17 @@ export function buildPagePayload(): PageIndexPayload {
   const url = window.location.href;
   const title = extractTitle();
   const now = new Date().toISOString();
-  const contentText = extractTextFromPage();
+  const { text: contentText, root } = extractTextFromPage();
 
   return {
     id: extractPageId(url),
     url,
     title,
-    spaceKey: undefined, // Не используется для обычных страниц
+    spaceKey: undefined, // Коллекцию назначает фон (правила) или пользователь
+    canonicalUrl: resolveCanonicalUrl(document.querySelector('link[rel~="canonical"]')?.getAttribute("href"), url),
     createdAt: now,
     updatedAt: now,
-    contentText
+    contentText,
+    headings: extractHeadings(root, contentText)
   };
 }
@@ -0,0 +1,181 @@
+import type { OpenAITool } from "../mcp/agent-tools";
+import type { Page } from "../types/messages";
+import type { Storage } from "../storage/indexdb";
+import { StorageLockedError } from "../storage/crypto";
+import { wrapUntrustedToolPayload } from "../agent/untrusted-content";
+import { searchSavedPages } from "../search/hybrid-search";
+import { pagePassages, passageText } from "../search/passages";
+
+export interface KnowledgeToolsConfig {
+  knowledgeToolsEnabled: boolean;
+}
+
+export const KNOWLEDGE_TOOL_NAMES = ["knowledge_search", "knowledge_read"] as const;
+
+/** Текст для модели и страницы, попавшие в него, — они уходят в ChatMessage.sources. */
+export interface KnowledgeToolResult {
+  text: string;
+  sources: { title: string; url: string }[];
+}
+
+const SEARCH_DEFAULT_LIMIT = 5;
+const SEARCH_MAX_LIMIT = 10;
+const SEARCH_EXCERPT_MAX_CHARS = 700;
+const READ_MAX_CHARS = 8000;
+
+/**
+ * OpenAI-compatible tool definitions over the user's saved pages (local IndexedDB),
+ * registered next to the browser tools.
+ */
+export function getKnowledgeTools(config: KnowledgeToolsConfig): OpenAITool[] {
+  if (!config.knowledgeToolsEnabled) return [];
+
+  return [
+    {
+      type: "function",
+      function: {
+        name: "knowledge_search",
+        description:
+          "Search pages the user has visited before (saved locally by the extension). Use for questions like \"what did that Confluence page I read yesterday say about X\". Returns page ids, URLs and the best matching passages. Supports \"exact phrase\", -exclude and title: inside `query`.",
+        parameters: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Keywords or phrase to look for." },
+            limit: { type: "number", description: `Max pages to return (default ${SEARCH_DEFAULT_LIMIT}, max ${SEARCH_MAX_LIMIT}).` },
+            site: { type: "string", description: "Optional: only pages of this domain and its subdomains, e.g. confluence.example.com." },
+            after: { type: "string", description: "Optional: only pages visited on or after this date (YYYY-MM-DD)." },
+            before: { type: "string", description: "Optional: only pages visited before this date (YYYY-MM-DD)." }
+          },
+          required: ["query"]
+        }
+      }
+    },
+    {
+      type: "function",
+      function: {
+        name: "knowledge_read",
+        description:
+          "Read passages of a saved page found with knowledge_search. Pass the page id; optionally a passage range to read a specific part (passages are numbered from 0).",
+        parameters: {
+          type: "object",
+          properties: {
+            page_id: { type: "string", description: "Page id from knowledge_search." },
+            from_passage: { type: "number", description: "First passage to read (default 0)." },
+            to_passage: { type: "number", description: "Last passage to read, inclusive (default: as many as fit)." }
+          },
+          required: ["page_id"]
+        }
+      }
+    }
+  ];
+}
+
+function lockedResult(): KnowledgeToolResult {
+  return { text: "Saved pages are encrypted and locked. Ask the user to unlock storage in the extension, then try again.", sources: [] };
+}
+
+function visitedDate(page: Page): string {
+  return page.updatedAt ? page.updatedAt.slice(0, 10) : "unknown";
+}
+
+function clip(text: string, max: number): string {
+  const t = text.replace(/[ \t]+/g, " ").trim();
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+}
+
+/** knowledge_search: поиск как во вкладке Search (фильтры site/after/before — операторы запроса). */
+export async function runKnowledgeSearch(
+  storage: Storage,
+  args: { query?: unknown; limit?: unknown; site?: unknown; after?: unknown; before?: unknown }
+): Promise<KnowledgeToolResult> {
+  const query = typeof args.query === "string" ? args.query.trim() : "";
+  if (!query) return { text: "Missing query for knowledge_search.", sources: [] };
+  const n = Math.floor(Number(args.limit));
+  const limit = Number.isFinite(n) && n > 0 ? Math.min(n, SEARCH_MAX_LIMIT) : SEARCH_DEFAULT_LIMIT;
+  const filters = (["site", "after", "before"] as const)
+    .map((name) => {
+      const value = args[name];
+      return typeof value === "string" && value.trim() ? `${name}:${value.trim()}` : "";
+    })
+    .filter(Boolean);
+
+  let search: Awaited<ReturnType<typeof searchSavedPages>>;
+  try {
+    search = await searchSavedPages(storage, [query, ...filters].join(" "), { limit });
+  } catch (err) {
+    if (err instanceof StorageLockedError) return lockedResult();
+    throw err;
+  }
+  if ("error" in search) return { text: `Invalid knowledge_search query: ${search.error}`, sources: [] };
+  if (search.results.length === 0) {
+    return { text: `No saved pages match "${query}"${filters.length ? ` (${filters.join(" ")})` : ""}.`, sources: [] };
+  }
+
+  const body = search.results
+    .map(({ page, passage }, i) => {
+      const lines = [`[${i + 1}] ${page.title || page.url}`, `URL: ${page.url}`, `Page id: ${page.id}`, `Visited: ${visitedDate(page)}`];
+      if (passage) {
+        if (passage.sectionPath.length > 0) lines.push(`Section: ${passage.sectionPath.join(" › ")}`);
+        lines.push(`Passage ${passage.index}:`, clip(passageText(page, passage), SEARCH_EXCERPT_MAX_CHARS));
+      } else {
+        lines.push(clip(page.contentText ?? "", SEARCH_EXCERPT_MAX_CHARS));
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+  return {
+    text: wrapUntrustedToolPayload("knowledge_search (user's saved pages)", `${body}\n\nUse knowledge_read with a page id to read more.`),
+    sources: search.results.map(({ page }) => ({ title: page.title || page.url, url: page.url }))
+  };
+}
+
+/** knowledge_read: пассажи from..to страницы (пока помещаются в READ_MAX_CHARS). */
+export async function runKnowledgeRead(
+  storage: Storage,
+  args: { page_id?: unknown; from_passage?: unknown; to_passage?: unknown }
+): Promise<KnowledgeToolResult> {
+  const pageId = typeof args.page_id === "string" ? args.page_id.trim() : "";
+  if (!pageId) return { text: "Missing page_id for knowledge_read.", sources: [] };
+  let page: Page | undefined;
+  try {
+    [page] = await storage.getPagesByIds([pageId]);
+  } catch (err) {
+    if (err instanceof StorageLockedError) return lockedResult();
+    throw err;
+  }
+  if (!page) return { text: `No saved page with id "${pageId}". Use knowledge_search to find page ids.`, sources: [] };
+
+  const passages = pagePassages(page);
+  const pageHeader = [`Title: ${page.title || page.url}`, `URL: ${page.url}`, `Visited: ${visitedDate(page)}`];
+  const sources = [{ title: page.title || page.url, url: page.url }];
+  if (passages.length === 0) {
+    return {
+      text: wrapUntrustedToolPayload("knowledge_read (user's saved page)", [...pageHeader, "Page has no text."].join("\n")),
+      sources
+    };
+  }
+  const last = passages.length - 1;
+  const from = Math.max(0, Math.min(last, Math.floor(Number(args.from_passage)) || 0));
+  const toRaw = Math.floor(Number(args.to_passage));
+  const to = Number.isFinite(toRaw) ? Math.min(last, Math.max(from, toRaw)) : last;
+  const parts: string[] = [];
+  let used = 0;
+  let end = from - 1;
+  for (let i = from; i <= to; i++) {
+    const p = passages[i];
+    const text = passageText(page, p);
+    if (used > 0 && used + text.length > READ_MAX_CHARS) break;
+    const label = p.sectionPath.length > 0 ? ` [${p.sectionPath.join(" › ")}]` : "";
+    parts.push(`--- Passage ${p.index}${label} ---\n${text.slice(0, READ_MAX_CHARS)}`);
+    used += text.length;
+    end = i;
+  }
+  const header = [
+    ...pageHeader,
+    `Passages ${from}–${end} of ${passages.length} (0–${last})${end < last ? "; call knowledge_read again with from_passage to continue" : ""}`
+  ].join("\n");
+  return {
+    text: wrapUntrustedToolPayload("knowledge_read (user's saved page)", `${header}\n\n${parts.join("\n\n")}`),
+    sources
+  };
+}
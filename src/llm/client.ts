@@ -2,6 +2,7 @@ import type { Page, SummarizePayload } from "../types/messages";
 import { getStoredLocale } from "../i18n";
 import { buildSummaryPrompt, buildChatSystemPrompt } from "./prompts";
 import { getCachedLlmResponse, setCachedLlmResponse } from "../storage/indexdb";
+import { LLM_CACHE_SYNC_DEFAULTS, llmRequestCacheKey, parseLlmCacheMaxEntries, type LlmCacheRequest } from "./response-cache";
 import { appendReplyLanguageToSystemPrompt, findLastUserPlainText } from "./reply-language";
 
 export interface LlmConfig {
@@ -10,6 +11,8 @@ export interface LlmConfig {
   model: string;
   temperature?: number;
   maxTokens?: number;
+  /** Кеш ответов для этого профиля (по умолчанию включён) */
+  cacheEnabled: boolean;
 }
 
 /** Одна запись конфига LLM в настройках (имя, endpoint, модель и т.д.). API key хранится отдельно в local. */
@@ -19,6 +22,8 @@ export interface LlmConfigEntry {
   endpoint: string;
   endpointType: "chat" | "custom";
   model: string;
+  /** false — ответы этого профиля не кешируются; не задано — кеш включён */
+  cacheEnabled?: boolean;
 }
 
 export interface LlmChatMessage {
@@ -239,10 +244,25 @@ async function getLlmConfig(): Promise<LlmConfig | null> {
     model: entry.model,
     apiKey: apiKey && String(apiKey).trim() ? String(apiKey).trim() : undefined,
     temperature,
-    maxTokens
+    maxTokens,
+    cacheEnabled: entry.cacheEnabled !== false
   };
 }
 
+/** Ключ кеша для запроса; null — кеш выключен в профиле. */
+async function responseCacheKey(config: LlmConfig, request: Omit<LlmCacheRequest, "endpoint" | "model">): Promise<string | null> {
+  if (!config.cacheEnabled) return null;
+  return llmRequestCacheKey({ ...request, endpoint: config.endpoint, model: config.model });
+}
+
+async function storeCachedResponse(cacheKey: string | null, text: string): Promise<void> {
+  if (!cacheKey || !text) return;
+  const items = await new Promise<Record<string, unknown>>((resolve) => {
+    chrome.storage.sync.get(LLM_CACHE_SYNC_DEFAULTS, resolve);
+  });
+  await setCachedLlmResponse(cacheKey, text, { maxEntries: parseLlmCacheMaxEntries(items.llmCacheMaxEntries) });
+}
+
 // Проверить доступность LM Studio (по сохранённому конфигу)
 export async function checkLmStudioHealth(): Promise<{ available: boolean; error?: string }> {
   const config = await getLlmConfig();
@@ -351,14 +371,22 @@ export async function chatWithLLM(
     return { error: "LLM endpoint is not configured. Configure LM Studio at localhost:1234" };
   }
 
-  // Проверить кеш для последнего пользовательского сообщения
-  if (messages.length > 0) {
-    const lastUserMsg = [...messages].reverse().find(m => m.role === "user");
-    if (lastUserMsg) {
-      const cached = await getCachedLlmResponse(lastUserMsg.content);
-      if (cached) {
-        return { text: cached, cached: true };
-      }
+  const baseSystem = options.systemPrompt || buildChatSystemPrompt();
+  const systemPrompt = await mergeSystemPromptWithReplyLanguage(baseSystem, messages);
+  const messagesWithSystem = [
+    { role: "system" as const, content: systemPrompt },
+    ...messages
+  ];
+  const temperature = options.temperature ?? config.temperature ?? 0.7;
+  const maxTokens = options.maxTokens ?? config.maxTokens ?? 2048;
+
+  const cacheKey = options.stream
+    ? null
+    : await responseCacheKey(config, { messages: messagesWithSystem, temperature, maxTokens });
+  if (cacheKey) {
+    const cached = await getCachedLlmResponse(cacheKey);
+    if (cached) {
+      return { text: cached, cached: true };
     }
   }
 
@@ -368,13 +396,6 @@ export async function chatWithLLM(
   const { signal, cleanup } = timeout;
 
   try {
-    const baseSystem = options.systemPrompt || buildChatSystemPrompt();
-    const systemPrompt = await mergeSystemPromptWithReplyLanguage(baseSystem, messages);
-    const messagesWithSystem = [
-      { role: "system" as const, content: systemPrompt },
-      ...messages
-    ];
-
     const response = await fetch(config.endpoint, {
       method: "POST",
       signal,
@@ -385,8 +406,8 @@ export async function chatWithLLM(
       body: JSON.stringify({
         model: config.model,
         messages: messagesWithSystem,
-        temperature: options.temperature ?? config.temperature ?? 0.7,
-        max_tokens: options.maxTokens ?? config.maxTokens ?? 2048,
+        temperature,
+        max_tokens: maxTokens,
         stream: options.stream ?? false
       })
     });
@@ -404,13 +425,7 @@ export async function chatWithLLM(
       data.choices?.[0]?.message?.content ??
       (typeof data === "string" ? data : JSON.stringify(data, null, 2));
 
-    // Кешировать ответ если был пользовательский запрос
-    if (messages.length > 0) {
-      const lastUserMsg = [...messages].reverse().find(m => m.role === "user");
-      if (lastUserMsg) {
-        await setCachedLlmResponse(lastUserMsg.content, text);
-      }
-    }
+    await storeCachedResponse(cacheKey, text);
 
     return { text };
   } catch (error) {
@@ -424,13 +439,14 @@ export async function chatWithLLM(
 }
 
 /**
- * One round of chat with optional tools. Does not use cache.
+ * One round of chat with optional tools. Uses the response cache only with `cache: true`
+ * (and the profile's cache switch on); only text answers are cached, never tool_calls.
  * Returns either final text, or tool_calls to execute, or error.
  * Used by the agent loop when MCP tools are enabled.
  */
 export async function chatWithLLMOneRound(
   messages: LlmMessageForApi[],
-  options: { systemPrompt?: string; temperature?: number; maxTokens?: number; tools?: LlmToolDef[] } = {}
+  options: { systemPrompt?: string; temperature?: number; maxTokens?: number; tools?: LlmToolDef[]; cache?: boolean } = {}
 ): Promise<{ text: string } | { tool_calls: LlmToolCall[] } | { error: string }> {
   const config = await getLlmConfig();
   if (!config) {
@@ -457,6 +473,19 @@ export async function chatWithLLMOneRound(
     body.tool_choice = "auto";
   }
 
+  const cacheKey = options.cache
+    ? await responseCacheKey(config, {
+        messages: messagesWithSystem,
+        temperature: body.temperature as number,
+        maxTokens: body.max_tokens as number,
+        tools: options.tools
+      })
+    : null;
+  if (cacheKey) {
+    const cached = await getCachedLlmResponse(cacheKey);
+    if (cached) return { text: cached };
+  }
+
   const { signal, cleanup } = abortSignalWithTimeout(DEFAULT_REQUEST_TIMEOUT_MS);
 
   try {
@@ -503,6 +532,7 @@ export async function chatWithLLMOneRound(
         : msg.content != null
           ? String(msg.content)
           : "";
+    await storeCachedResponse(cacheKey, text);
     return { text };
   } catch (error) {
     cleanup();
@@ -515,8 +545,8 @@ export async function chatWithLLMOneRound(
 }
 
 /**
- * Короткая подзадача без истории чата и без кеша (план / проверка оркестратора).
- * Не передаёт tools — только system + один user.
+ * Короткая подзадача без истории чата (план / проверка оркестратора / сжатие контекста).
+ * Не передаёт tools — только system + один user; одинаковый запрос берётся из кеша, если он включён в профиле.
  */
 export async function chatWithLLMSubtask(
   userContent: string,
@@ -530,7 +560,8 @@ export async function chatWithLLMSubtask(
   const r = await chatWithLLMOneRound([{ role: "user", content: userContent }], {
     systemPrompt: options.systemPrompt,
     maxTokens: options.maxTokens ?? 512,
-    temperature: options.temperature ?? 0.3
+    temperature: options.temperature ?? 0.3,
+    cache: true
   });
   if ("error" in r) return r;
   if ("tool_calls" in r && r.tool_calls.length > 0) {
@@ -625,12 +656,6 @@ export async function chatWithLLMStream(
     const finalText = thinkMatch ? thinkMatch[2].trim() : fullContent;
     const thinkingText = thinkMatch ? thinkMatch[1].trim() : undefined;
 
-    if (messages.length > 0) {
-      const lastUserMsg = [...messages].reverse().find(m => m.role === "user");
-      if (lastUserMsg) {
-        await setCachedLlmResponse(lastUserMsg.content, fullContent);
-      }
-    }
       return { text: finalText, thinking: thinkingText };
     } finally {
       signal?.removeEventListener("abort", onAbort);
@@ -0,0 +1,55 @@
+/**
+ * Ключ кеша ответов LLM: SHA-256 от полного запроса (endpoint, модель, system prompt и все сообщения,
+ * temperature, max_tokens, tools). Разные модели, промпты или история не делят одну запись.
+ */
+
+export const LLM_CACHE_SYNC_DEFAULTS = {
+  /** Максимум записей в кеше; самые давно использованные вытесняются */
+  llmCacheMaxEntries: 500
+};
+
+export const LLM_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES_LIMIT = 100_000;
+
+/** Поля тела запроса, от которых зависит ответ модели. */
+export interface LlmCacheRequest {
+  endpoint: string;
+  model: string;
+  /** Сообщения вместе с system prompt — ровно то, что уходит в API */
+  messages: ReadonlyArray<unknown>;
+  temperature: number;
+  maxTokens?: number;
+  tools?: ReadonlyArray<unknown>;
+}
+
+export function parseLlmCacheMaxEntries(raw: unknown): number {
+  const n = Math.floor(Number(raw));
+  if (!Number.isFinite(n) || n < 0) return LLM_CACHE_SYNC_DEFAULTS.llmCacheMaxEntries;
+  return Math.min(n, MAX_ENTRIES_LIMIT);
+}
+
+/** JSON с отсортированными ключами объектов: порядок полей не влияет на ключ кеша. */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const obj = value as Record<string, unknown>;
+  const parts = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`);
+  return `{${parts.join(",")}}`;
+}
+
+export async function llmRequestCacheKey(request: LlmCacheRequest): Promise<string> {
+  const canonical = stableStringify({
+    endpoint: request.endpoint.trim(),
+    model: request.model.trim(),
+    messages: request.messages,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens ?? null,
+    tools: request.tools && request.tools.length > 0 ? request.tools : null
+  });
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical)));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,74 @@
+/**
+ * Ранжирование BM25 по постингам инвертированного индекса.
+ * Заголовок — отдельное поле с весом TITLE_WEIGHT (упрощённый BM25F): его частоты и длина входят в частоты
+ * и длину документа с этим множителем, поэтому совпадение в заголовке весит больше совпадения в тексте.
+ */
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+export const TITLE_WEIGHT = 3;
+
+/** Вхождения терма в одну страницу. */
+export interface Posting {
+  pageId: string;
+  /** Вхождений в тексте */
+  tf: number;
+  /** Вхождений в заголовке */
+  titleTf: number;
+}
+
+export interface CorpusStats {
+  /** Страниц в индексе */
+  docCount: number;
+  /** Средняя взвешенная длина страницы */
+  avgLength: number;
+}
+
+export interface Bm25Hit {
+  pageId: string;
+  score: number;
+}
+
+/** Взвешенная длина: токены текста плюс TITLE_WEIGHT × токены заголовка. */
+export function weightedLength(bodyLength: number, titleLength: number): number {
+  return bodyLength + TITLE_WEIGHT * titleLength;
+}
+
+/** IDF в варианте Lucene: всегда положительный, даже для терма из большинства страниц. */
+export function bm25Idf(docFreq: number, docCount: number): number {
+  return Math.log(1 + (docCount - docFreq + 0.5) / (docFreq + 0.5));
+}
+
+export function bm25TermScore(posting: Posting, idf: number, length: number, avgLength: number): number {
+  const tf = posting.tf + TITLE_WEIGHT * posting.titleTf;
+  if (tf <= 0) return 0;
+  const norm = 1 - BM25_B + BM25_B * (avgLength > 0 ? length / avgLength : 1);
+  return (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+}
+
+/**
+ * Лучшие limit страниц по сумме BM25 всех термов запроса.
+ * postingsByTerm — постинги каждого (уникального) терма запроса; длина страницы без записи в lengths — средняя.
+ */
+export function rankBm25(
+  postingsByTerm: readonly (readonly Posting[])[],
+  lengths: ReadonlyMap<string, number>,
+  stats: CorpusStats,
+  limit = 20
+): Bm25Hit[] {
+  const docCount = Math.max(stats.docCount, 1);
+  const scores = new Map<string, number>();
+  for (const postings of postingsByTerm) {
+    if (postings.length === 0) continue;
+    const idf = bm25Idf(Math.min(postings.length, docCount), docCount);
+    for (const p of postings) {
+      const length = lengths.get(p.pageId) ?? stats.avgLength;
+      scores.set(p.pageId, (scores.get(p.pageId) ?? 0) + bm25TermScore(p, idf, length, stats.avgLength));
+    }
+  }
+  return [...scores]
+    .filter(([, score]) => score > 0)
+    .map(([pageId, score]) => ({ pageId, score }))
+    .sort((a, b) => b.score - a.score || a.pageId.localeCompare(b.pageId))
+    .slice(0, limit);
+}
@@ -0,0 +1,184 @@
+/**
+ * Почти одинаковые страницы (зеркала, версии для печати, AMP): 64-битный SimHash по парам
+ * соседних слов текста и общий `<link rel="canonical">`. Отпечаток считается при сохранении
+ * страницы; группы дублей — для списка на вкладке Search, схлопывание — для выдачи поиска.
+ */
+import type { Page, SearchResult } from "../types/messages";
+import { extractPageId } from "../content/page-extractor";
+import { analyze } from "./tokenizer";
+
+/**
+ * Наибольшее расстояние Хэмминга между отпечатками, при котором страницы считаются дублями.
+ * У статьи с меню и подписью по краям — до 8 бит, у разных текстов — от 20.
+ */
+export const SIMHASH_MAX_DISTANCE = 8;
+/** Короче (в словах после стоп-слов) — отпечаток не строится: у коротких страниц он слишком случаен. */
+const SIMHASH_MIN_TOKENS = 20;
+const SHINGLE_SIZE = 2;
+
+/** Поля страницы, нужные для поиска дублей. */
+export type DuplicateCandidate = Pick<Page, "id" | "url" | "updatedAt"> & Partial<Pick<Page, "canonicalUrl" | "simhash" | "contentText">>;
+
+/** Две независимые 32-битные FNV-1a (разный seed) — 64 бита признака. */
+function featureHash(feature: string): [number, number] {
+  let a = 0x811c9dc5;
+  let b = 0x01000193 ^ 0x9e3779b9;
+  for (let i = 0; i < feature.length; i++) {
+    const c = feature.charCodeAt(i);
+    a = Math.imul(a ^ c, 0x01000193);
+    b = Math.imul(b ^ c, 0x01000193) ^ (b >>> 15);
+  }
+  return [a >>> 0, b >>> 0];
+}
+
+function toHex(n: number): string {
+  return (n >>> 0).toString(16).padStart(8, "0");
+}
+
+/** SimHash текста (16 hex-символов); пустая строка — текст слишком короткий. */
+export function simhash(text: string): string {
+  const tokens = analyze(text);
+  if (tokens.length < SIMHASH_MIN_TOKENS) return "";
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const [hi, lo] = featureHash(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+    for (let bit = 0; bit < 32; bit++) {
+      weights[bit] += (hi >>> bit) & 1 ? 1 : -1;
+      weights[bit + 32] += (lo >>> bit) & 1 ? 1 : -1;
+    }
+  }
+  let hi = 0;
+  let lo = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    if (weights[bit] > 0) hi |= 1 << bit;
+    if (weights[bit + 32] > 0) lo |= 1 << bit;
+  }
+  return toHex(hi) + toHex(lo);
+}
+
+function popcount32(n: number): number {
+  let x = n - ((n >>> 1) & 0x55555555);
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24) & 0xff;
+}
+
+/** Расстояние Хэмминга между двумя отпечатками simhash. */
+export function hammingDistance(a: string, b: string): number {
+  const hi = parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16);
+  const lo = parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16);
+  return popcount32(hi) + popcount32(lo);
+}
+
+/** Отпечатки страниц, сохранённых до появления simhash, считаются на лету — один раз на объект. */
+const computedFingerprints = new WeakMap<DuplicateCandidate, string>();
+
+function fingerprintOf(page: DuplicateCandidate): string {
+  if (page.simhash != null) return page.simhash;
+  let fp = computedFingerprints.get(page);
+  if (fp == null) {
+    fp = simhash(page.contentText ?? "");
+    computedFingerprints.set(page, fp);
+  }
+  return fp;
+}
+
+function canonicalKey(page: DuplicateCandidate): string | null {
+  return page.canonicalUrl ? extractPageId(page.canonicalUrl) : null;
+}
+
+/** Дубли: общий canonical URL или отпечатки, отличающиеся не больше чем на maxDistance бит. */
+export function areNearDuplicates(a: DuplicateCandidate, b: DuplicateCandidate, maxDistance = SIMHASH_MAX_DISTANCE): boolean {
+  const ca = canonicalKey(a);
+  if (ca && (ca === canonicalKey(b) || ca === b.id)) return true;
+  const cb = canonicalKey(b);
+  if (cb && cb === a.id) return true;
+  const fa = fingerprintOf(a);
+  const fb = fingerprintOf(b);
+  return fa !== "" && fb !== "" && hammingDistance(fa, fb) <= maxDistance;
+}
+
+/**
+ * Группы почти одинаковых страниц (от двух страниц), внутри группы — предпочтительная первой
+ * (см. preferredDuplicate). Отпечатки сравниваются попарно: на тысячи страниц это миллионы XOR.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate>(pages: readonly T[], maxDistance = SIMHASH_MAX_DISTANCE): T[][] {
+  const parent = pages.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const byCanonical = new Map<string, number>();
+  const joinCanonical = (key: string, i: number) => {
+    const first = byCanonical.get(key);
+    if (first == null) byCanonical.set(key, i);
+    else union(first, i);
+  };
+  pages.forEach((page, i) => {
+    // Страницы с одним canonical и страница, чей id с ним совпадает
+    const canonical = canonicalKey(page);
+    if (canonical) joinCanonical(canonical, i);
+    joinCanonical(page.id, i);
+  });
+
+  const fingerprints = pages.map((page) => {
+    const fp = fingerprintOf(page);
+    return fp ? [parseInt(fp.slice(0, 8), 16), parseInt(fp.slice(8, 16), 16)] : null;
+  });
+  for (let a = 0; a < pages.length; a++) {
+    const fa = fingerprints[a];
+    if (!fa) continue;
+    for (let b = a + 1; b < pages.length; b++) {
+      const fb = fingerprints[b];
+      if (fb && popcount32(fa[0] ^ fb[0]) + popcount32(fa[1] ^ fb[1]) <= maxDistance) union(a, b);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  pages.forEach((page, i) => {
+    const root = find(i);
+    const list = groups.get(root);
+    if (list) list.push(page);
+    else groups.set(root, [page]);
+  });
+  return [...groups.values()].filter((g) => g.length > 1).map(orderGroup);
+}
+
+/** Какую страницу группы оставить: ту, на которую указывает canonical, иначе самую свежую. */
+export function preferredDuplicate<T extends DuplicateCandidate>(group: readonly T[]): T {
+  return orderGroup(group)[0];
+}
+
+function orderGroup<T extends DuplicateCandidate>(group: readonly T[]): T[] {
+  const canonicalIds = new Set(group.map(canonicalKey).filter((c): c is string => c != null));
+  return [...group].sort((a, b) => {
+    const ca = canonicalIds.has(a.id) ? 1 : 0;
+    const cb = canonicalIds.has(b.id) ? 1 : 0;
+    return cb - ca || b.updatedAt.localeCompare(a.updatedAt) || a.id.localeCompare(b.id);
+  });
+}
+
+/**
+ * Выдача поиска без повторов содержимого: дубль более высокого результата не показывается отдельно,
+ * а попадает в его `duplicates`.
+ */
+export function collapseDuplicates(results: readonly SearchResult[], maxDistance = SIMHASH_MAX_DISTANCE): SearchResult[] {
+  const kept: SearchResult[] = [];
+  for (const result of results) {
+    const main = kept.find((k) => areNearDuplicates(k.page, result.page, maxDistance));
+    if (!main) {
+      kept.push({ ...result });
+      continue;
+    }
+    main.duplicates = [...(main.duplicates ?? []), { id: result.page.id, url: result.page.url, title: result.page.title }];
+  }
+  return kept;
+}
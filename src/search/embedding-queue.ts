@@ -0,0 +1,150 @@
+/**
+ * Фоновая очередь эмбеддингов страниц: страницы без вектора, с вектором другой модели или с изменившимся
+ * текстом считаются пачками, прогресс пишется в chrome.storage.local (Options → LLM → Embeddings).
+ * Что пересчитать, каждый запуск определяет заново по хешам — перезапуск service worker ничего не теряет.
+ */
+import type { PageEmbedding } from "../types/messages";
+import { contentHashFor, type Storage } from "../storage/indexdb";
+import { getEncryptionKey } from "../storage/encryption-session";
+import {
+  EMBEDDING_API_KEY_STORAGE_KEY,
+  EMBEDDING_SYNC_DEFAULTS,
+  embedTexts,
+  embeddingInputForPage,
+  parseEmbeddingProfile,
+  type EmbeddingProfile,
+  type EmbeddingProviderConfig
+} from "./embedding";
+
+/** Ключ в chrome.storage.local: последнее состояние очереди. */
+export const EMBEDDING_STATUS_STORAGE_KEY = "embeddingIndexStatus";
+
+export interface EmbeddingIndexStatus {
+  state: "disabled" | "idle" | "running" | "error";
+  model: string;
+  dimensions: number | null;
+  /** Страниц с текстом */
+  total: number;
+  /** Из них с актуальным вектором */
+  embedded: number;
+  lastError?: string;
+  updatedAt: string;
+}
+
+export interface EmbeddingProvider {
+  profile: EmbeddingProfile;
+  config: EmbeddingProviderConfig;
+}
+
+export interface EmbeddingWorkItem {
+  pageId: string;
+  text: string;
+  contentHash: string;
+}
+
+/** Страницы, которым нужен новый вектор: записи нет, она от другой модели или текст изменился. */
+export function selectPagesToEmbed(
+  items: readonly EmbeddingWorkItem[],
+  existing: readonly Omit<PageEmbedding, "vector">[],
+  model: string
+): EmbeddingWorkItem[] {
+  const byPage = new Map(existing.map((e) => [e.pageId, e]));
+  return items.filter((item) => {
+    const e = byPage.get(item.pageId);
+    return !e || e.model !== model || e.contentHash !== item.contentHash;
+  });
+}
+
+export async function loadEmbeddingProvider(): Promise<EmbeddingProvider> {
+  const [sync, local] = await Promise.all([
+    new Promise<Record<string, unknown>>((resolve) => chrome.storage.sync.get(EMBEDDING_SYNC_DEFAULTS, resolve)),
+    new Promise<Record<string, unknown>>((resolve) =>
+      chrome.storage.local.get({ [EMBEDDING_API_KEY_STORAGE_KEY]: "" }, resolve)
+    )
+  ]);
+  const profile = parseEmbeddingProfile(sync);
+  const apiKey = String(local[EMBEDDING_API_KEY_STORAGE_KEY] ?? "").trim();
+  return { profile, config: { endpoint: profile.endpoint, model: profile.model, ...(apiKey ? { apiKey } : {}) } };
+}
+
+export function saveEmbeddingStatus(status: EmbeddingIndexStatus): Promise<void> {
+  return chrome.storage.local.set({ [EMBEDDING_STATUS_STORAGE_KEY]: status });
+}
+
+export function loadEmbeddingStatus(): Promise<EmbeddingIndexStatus | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get({ [EMBEDDING_STATUS_STORAGE_KEY]: null }, (items) => {
+      resolve((items[EMBEDDING_STATUS_STORAGE_KEY] as EmbeddingIndexStatus | null) ?? null);
+    });
+  });
+}
+
+/**
+ * Один проход очереди: досчитать недостающие векторы и удалить векторы удалённых страниц.
+ * Ошибка пачки (после повторов в embedTexts) останавливает проход со state "error"; посчитанное сохраняется.
+ */
+export async function runEmbeddingQueue(
+  storage: Storage,
+  provider: EmbeddingProvider,
+  options: { signal?: AbortSignal; onStatus?: (status: EmbeddingIndexStatus) => void | Promise<void> } = {}
+): Promise<EmbeddingIndexStatus> {
+  const { profile, config } = provider;
+  let status: EmbeddingIndexStatus = {
+    state: "idle",
+    model: profile.model,
+    dimensions: null,
+    total: 0,
+    embedded: 0,
+    updatedAt: new Date().toISOString()
+  };
+  const report = async (patch: Partial<EmbeddingIndexStatus>): Promise<EmbeddingIndexStatus> => {
+    status = { ...status, ...patch, updatedAt: new Date().toISOString() };
+    await options.onStatus?.(status);
+    return status;
+  };
+  if (!profile.enabled || !profile.endpoint || !profile.model) return report({ state: "disabled" });
+
+  try {
+    const pages = await storage.getAllPages();
+    const key = await getEncryptionKey();
+    const items: EmbeddingWorkItem[] = [];
+    for (const page of pages) {
+      const text = embeddingInputForPage(page);
+      if (text) items.push({ pageId: page.id, text, contentHash: await contentHashFor(key, text) });
+    }
+    const existing = await storage.listPageEmbeddingMeta();
+    const pageIds = new Set(pages.map((p) => p.id));
+    await storage.deletePageEmbeddings(existing.filter((e) => !pageIds.has(e.pageId)).map((e) => e.pageId));
+
+    const pending = selectPagesToEmbed(items, existing, profile.model);
+    let dimensions = existing.find((e) => e.model === profile.model)?.dimensions ?? null;
+    await report({ state: pending.length > 0 ? "running" : "idle", dimensions, total: items.length, embedded: items.length - pending.length });
+
+    for (let start = 0; start < pending.length; start += profile.batchSize) {
+      if (options.signal?.aborted) return report({ state: "idle" });
+      const batch = pending.slice(start, start + profile.batchSize);
+      const result = await embedTexts(
+        batch.map((b) => b.text),
+        config,
+        { batchSize: profile.batchSize, expectedDimensions: dimensions ?? undefined, signal: options.signal }
+      );
+      if ("error" in result) return report({ state: "error", lastError: result.error });
+      dimensions = result.dimensions;
+      const embeddedAt = new Date().toISOString();
+      await storage.savePageEmbeddings(
+        batch.map((b, i) => ({
+          pageId: b.pageId,
+          model: profile.model,
+          dimensions: result.dimensions,
+          contentHash: b.contentHash,
+          vector: result.vectors[i],
+          embeddedAt
+        }))
+      );
+      await report({ state: "running", dimensions, embedded: status.embedded + batch.length });
+    }
+    return report({ state: "idle", lastError: undefined });
+  } catch (err) {
+    return report({ state: "error", lastError: err instanceof Error ? err.message : String(err) });
+  }
+}
@@ -1,8 +1,36 @@
-// Placeholder for optional semantic search via local embeddings.
-// Архитектурно: этот модуль НЕ обязателен для MVP.
-// Если будешь подключать embeddings, соблюдай:
-// - локальный провайдер
-// - явный индекс в IndexedDB/FAISS WASM
+/**
+ * Локальные эмбеддинги через OpenAI-совместимый `/v1/embeddings` (LM Studio, Ollama).
+ * Профиль эмбеддингов отдельный от профилей чата: своя модель и свой endpoint, ключи в chrome.storage.sync,
+ * API key — в local (`embeddingApiKey`). Тексты уходят пачками, временные ошибки повторяются с паузой.
+ */
+import type { Page } from "../types/messages";
+
+export const EMBEDDING_SYNC_DEFAULTS = {
+  embeddingEnabled: false,
+  /** Базовый адрес сервера или полный URL `/v1/embeddings` */
+  embeddingEndpoint: "",
+  embeddingModel: "",
+  /** Текстов в одном запросе */
+  embeddingBatchSize: 16
+};
+
+/** Ключ в chrome.storage.local: API key профиля эмбеддингов (как llmApiKeys — не экспортируется по умолчанию). */
+export const EMBEDDING_API_KEY_STORAGE_KEY = "embeddingApiKey";
+
+const EMBEDDINGS_PATH = "/v1/embeddings";
+const MAX_BATCH_SIZE = 256;
+/** Символов страницы на входе модели: заголовок и начало текста. */
+export const EMBEDDING_INPUT_MAX_CHARS = 2000;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export interface EmbeddingProfile {
+  enabled: boolean;
+  endpoint: string;
+  model: string;
+  batchSize: number;
+}
 
 export interface EmbeddingProviderConfig {
   endpoint: string;
@@ -10,8 +38,150 @@ export interface EmbeddingProviderConfig {
   model: string;
 }
 
-export async function embedTexts(_texts: string[], _config: EmbeddingProviderConfig): Promise<number[][]> {
-  // Реализацию можно добавить позже.
-  return [];
+export interface EmbedOptions {
+  batchSize?: number;
+  /** Повторы одной пачки при сетевой ошибке, 429 и 5xx */
+  maxRetries?: number;
+  /** Пауза перед первым повтором; дальше удваивается */
+  retryDelayMs?: number;
+  /** Размерность уже сохранённых векторов этой модели: другой ответ — ошибка */
+  expectedDimensions?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export type EmbedResult = { vectors: number[][]; dimensions: number } | { error: string };
+
+export function parseEmbeddingProfile(items: Record<string, unknown>): EmbeddingProfile {
+  const batch = Math.floor(Number(items.embeddingBatchSize));
+  return {
+    enabled: items.embeddingEnabled === true,
+    endpoint: String(items.embeddingEndpoint ?? "").trim(),
+    model: String(items.embeddingModel ?? "").trim(),
+    batchSize:
+      Number.isFinite(batch) && batch > 0 ? Math.min(batch, MAX_BATCH_SIZE) : EMBEDDING_SYNC_DEFAULTS.embeddingBatchSize
+  };
+}
+
+/** Базовый адрес (или адрес chat completions) → `<base>/v1/embeddings`; готовый `/v1/embeddings` не меняется. */
+export function normalizeEmbeddingsEndpoint(raw: string): string {
+  const trimmed = raw.trim().replace(/\/+$/, "");
+  if (!trimmed) return "";
+  const base = trimmed.replace(/\/v1(\/chat\/completions|\/embeddings)?$/i, "");
+  return base + EMBEDDINGS_PATH;
 }
 
+/** Текст страницы для эмбеддинга: заголовок и начало текста. */
+export function embeddingInputForPage(page: Pick<Page, "title" | "contentText">, maxChars = EMBEDDING_INPUT_MAX_CHARS): string {
+  const title = page.title?.trim() ?? "";
+  const body = (page.contentText ?? "").replace(/\s+/g, " ").trim();
+  return (title ? `${title}\n\n${body}` : body).slice(0, maxChars);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(t);
+      resolve();
+    });
+  });
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** Векторы ответа в порядке входа (`index`), с проверкой числа и содержимого. */
+function parseEmbeddingsResponse(data: unknown, expectedCount: number): number[][] | { error: string } {
+  const items = (data as { data?: unknown })?.data;
+  if (!Array.isArray(items)) return { error: "Embeddings response has no data array" };
+  if (items.length !== expectedCount) {
+    return { error: `Embeddings response has ${items.length} vector(s) for ${expectedCount} input(s)` };
+  }
+  const out: number[][] = new Array(expectedCount);
+  items.forEach((item: { index?: unknown; embedding?: unknown }, i) => {
+    const index = typeof item?.index === "number" ? item.index : i;
+    out[index] = item?.embedding as number[];
+  });
+  for (const v of out) {
+    if (!Array.isArray(v) || v.length === 0 || !v.every((x) => typeof x === "number" && Number.isFinite(x))) {
+      return { error: "Embeddings response contains an invalid vector" };
+    }
+  }
+  return out;
+}
+
+async function embedBatch(
+  texts: string[],
+  config: EmbeddingProviderConfig,
+  options: EmbedOptions
+): Promise<number[][] | { error: string }> {
+  const endpoint = normalizeEmbeddingsEndpoint(config.endpoint);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  let lastError = "";
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) await sleep(retryDelayMs * 2 ** (attempt - 1), options.signal);
+    if (options.signal?.aborted) return { error: "Embedding request aborted" };
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort);
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: config.model, input: texts })
+      });
+      if (!response.ok) {
+        lastError = `Embedding request failed: ${response.status} ${response.statusText}`;
+        if (isRetryableStatus(response.status)) continue;
+        return { error: lastError };
+      }
+      return parseEmbeddingsResponse(await response.json(), texts.length);
+    } catch (err) {
+      if (options.signal?.aborted) return { error: "Embedding request aborted" };
+      lastError = controller.signal.aborted
+        ? "Embedding request timed out"
+        : `Embedding request error: ${(err as Error).message}`;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+  return { error: lastError || "Embedding request failed" };
+}
+
+/**
+ * Эмбеддинги текстов пачками по batchSize. Все векторы обязаны иметь одну размерность
+ * (и совпадать с expectedDimensions, если задана) — иначе ошибка, частичный результат не возвращается.
+ */
+export async function embedTexts(
+  texts: string[],
+  config: EmbeddingProviderConfig,
+  options: EmbedOptions = {}
+): Promise<EmbedResult> {
+  if (!config.endpoint.trim() || !config.model.trim()) return { error: "Embedding endpoint and model are required" };
+  if (texts.length === 0) return { vectors: [], dimensions: options.expectedDimensions ?? 0 };
+  const batchSize = Math.max(1, Math.min(options.batchSize ?? EMBEDDING_SYNC_DEFAULTS.embeddingBatchSize, MAX_BATCH_SIZE));
+  let dimensions = options.expectedDimensions ?? 0;
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = await embedBatch(texts.slice(start, start + batchSize), config, options);
+    if ("error" in batch) return batch;
+    for (const v of batch) {
+      if (dimensions === 0) dimensions = v.length;
+      if (v.length !== dimensions) {
+        return { error: `Embedding dimension mismatch: expected ${dimensions}, got ${v.length}` };
+      }
+      vectors.push(v);
+    }
+  }
+  return { vectors, dimensions };
+}
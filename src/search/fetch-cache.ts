@@ -0,0 +1,67 @@
+/**
+ * Кеш web_research: выдача провайдера (разобранные ссылки) и страницы (извлечённый текст) по URL.
+ * Свежая запись берётся без сети, устаревшая перепроверяется условным запросом (ETag / Last-Modified),
+ * в режиме offline используются только записи кеша. Хранилище — стор `web_cache` (src/storage/indexdb.ts).
+ */
+import type { SerpHit } from "./serp-providers";
+import type { ExtractedPage } from "./web-research";
+
+export const WEB_CACHE_SYNC_DEFAULTS = {
+  /** Сохранять выдачу и загруженные страницы web_research */
+  webCacheEnabled: true,
+  /** Сколько часов запись свежая; после — условный запрос к сайту */
+  webCacheTtlHours: 6,
+  /** Не ходить в сеть: выдача и страницы только из кеша */
+  webOfflineMode: false
+};
+
+/** Записей в кеше; самые давно загруженные вытесняются. */
+export const WEB_CACHE_MAX_ENTRIES = 2000;
+const MAX_TTL_HOURS = 24 * 30;
+
+export interface WebCacheSettings {
+  enabled: boolean;
+  ttlMs: number;
+  offline: boolean;
+}
+
+interface WebCacheMeta {
+  url: string;
+  /** Валидаторы ответа для условного запроса */
+  etag?: string;
+  lastModified?: string;
+  /** Когда ответ получен или подтверждён (304) */
+  fetchedAt: number;
+}
+
+export type WebCacheRecord =
+  | (WebCacheMeta & { kind: "serp"; hits: SerpHit[] })
+  | (WebCacheMeta & { kind: "page"; mime: string; charset: string; page: ExtractedPage });
+
+export interface WebFetchCache {
+  get(url: string): Promise<WebCacheRecord | null>;
+  put(record: WebCacheRecord): Promise<void>;
+}
+
+export function parseWebCacheSettings(items: Record<string, unknown>): WebCacheSettings {
+  const hours = Number(items.webCacheTtlHours);
+  const ttlHours =
+    Number.isFinite(hours) && hours > 0 ? Math.min(hours, MAX_TTL_HOURS) : WEB_CACHE_SYNC_DEFAULTS.webCacheTtlHours;
+  return {
+    enabled: items.webCacheEnabled !== false,
+    ttlMs: ttlHours * 60 * 60 * 1000,
+    offline: items.webOfflineMode === true
+  };
+}
+
+export function loadWebCacheSettings(): Promise<WebCacheSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(WEB_CACHE_SYNC_DEFAULTS, (items) => {
+      resolve(parseWebCacheSettings(items));
+    });
+  });
+}
+
+export function isCacheFresh(record: WebCacheRecord, ttlMs: number, now = Date.now()): boolean {
+  return now - record.fetchedAt < ttlMs;
+}
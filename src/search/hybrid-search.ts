@@ -0,0 +1,65 @@
+/**
+ * Поиск по сохранённым страницам целиком: разбор языка запросов, BM25 по индексу и векторный поиск
+ * с фильтрами запроса, слияние через rerank и схлопывание почти одинаковых страниц.
+ * Общий для вкладки Search и инструмента knowledge_search.
+ */
+import type { Page, SearchResult } from "../types/messages";
+import type { Storage } from "../storage/indexdb";
+import { loadEmbeddingProvider } from "./embedding-queue";
+import { hasFilters, isQuerySyntaxError, matchesSearchQuery, parseSearchQuery, rankingText, type QuerySyntaxError } from "./query";
+import { collapseDuplicates } from "./duplicates";
+import { loadRerankSettings, rerank } from "./rerank";
+import { vectorSearch } from "./vector-search";
+
+/** Кандидатов из каждого списка (keyword и векторного) до слияния в rerank. */
+export const SEARCH_CANDIDATES = 50;
+
+export interface SavedPagesSearch {
+  results: SearchResult[];
+  /** Слова и фразы запроса без операторов — для подсветки и LLM-rerank */
+  text: string;
+  /** Сервер эмбеддингов недоступен — выдача только по keyword-списку */
+  vectorError: string | null;
+}
+
+export async function searchSavedPages(
+  storage: Storage,
+  query: string,
+  options: { limit?: number } = {}
+): Promise<SavedPagesSearch | QuerySyntaxError> {
+  const parsed = parseSearchQuery(query);
+  if (isQuerySyntaxError(parsed)) return parsed;
+  // В ранжирование идут только слова и фразы; операторы и исключения проверяются фильтром по странице
+  const text = rankingText(parsed);
+  const filter = hasFilters(parsed) ? (page: Page) => matchesSearchQuery(page, parsed) : undefined;
+  const [keyword, vector, settings] = await Promise.all([
+    storage.searchPages(text, { limit: SEARCH_CANDIDATES, filter }),
+    loadEmbeddingProvider().then((provider) => vectorSearch(storage, provider, text, { limit: SEARCH_CANDIDATES })),
+    loadRerankSettings()
+  ]);
+  const vectorError = "error" in vector ? vector.error : null;
+  const vectorHits = "error" in vector ? [] : filter ? vector.filter((r) => filter(r.page)) : vector;
+  // Зеркала и копии одной статьи схлопываются в лучший по счёту результат
+  const fused = collapseDuplicates(rerank({ keyword, vector: vectorHits }, settings, { limit: SEARCH_CANDIDATES }));
+  return {
+    results: fused.slice(0, options.limit ?? 20),
+    text,
+    vectorError
+  };
+}
+
+/**
+ * Страницы коллекции для чата «с коллекцией»: поиск по вопросу внутри `space:` коллекции,
+ * а если вопрос ничего не нашёл (или не разбирается как запрос) — последние страницы коллекции.
+ */
+export async function searchCollectionPages(
+  storage: Storage,
+  collection: string,
+  question: string,
+  limit: number
+): Promise<Page[]> {
+  const scope = `space:${collection}`;
+  const byQuestion = await searchSavedPages(storage, `${question} ${scope}`, { limit });
+  if (!("error" in byQuestion) && byQuestion.results.length > 0) return byQuestion.results.map((r) => r.page);
+  return storage.getCollectionPages(collection, limit);
+}
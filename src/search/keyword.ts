@@ -1,39 +1,70 @@
 import type { Page, SearchResult } from "../types/messages";
+import { rankBm25, weightedLength, type Posting } from "./bm25";
+import { analyze } from "./tokenizer";
 
 interface KeywordSearchOptions {
   limit?: number;
 }
 
-export function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .split(/[^a-zA-Zа-яА-Я0-9]+/u)
-    .filter(Boolean);
+/** Токены длиннее — чаще base64, хеши и склеенная вёрстка; в индекс они не попадают. */
+export const MAX_TERM_LENGTH = 64;
+
+/** Термы страницы для инвертированного индекса: частоты в тексте и заголовке и взвешенная длина. */
+export interface DocumentTerms {
+  terms: Map<string, { tf: number; titleTf: number }>;
+  length: number;
+}
+
+/** Термы индекса: основы слов без стоп-слов (см. tokenizer.ts). */
+function indexTokens(text: string): string[] {
+  return analyze(text).filter((t) => t.length <= MAX_TERM_LENGTH);
+}
+
+export function documentTerms(page: Pick<Page, "title" | "contentText">): DocumentTerms {
+  const terms = new Map<string, { tf: number; titleTf: number }>();
+  const titleTokens = indexTokens(page.title ?? "");
+  const bodyTokens = indexTokens(page.contentText ?? "");
+  for (const t of titleTokens) {
+    const entry = terms.get(t) ?? { tf: 0, titleTf: 0 };
+    entry.titleTf += 1;
+    terms.set(t, entry);
+  }
+  for (const t of bodyTokens) {
+    const entry = terms.get(t) ?? { tf: 0, titleTf: 0 };
+    entry.tf += 1;
+    terms.set(t, entry);
+  }
+  return { terms, length: weightedLength(bodyTokens.length, titleTokens.length) };
 }
 
+/** Уникальные термы запроса в порядке появления. */
+export function queryTerms(query: string): string[] {
+  return [...new Set(indexTokens(query))];
+}
+
+/** BM25 по страницам в памяти (без индекса в IndexedDB): небольшие наборы и тесты. */
 export function keywordSearch(
   query: string,
   pages: Page[],
   options: KeywordSearchOptions = {}
 ): SearchResult[] {
   const { limit = 20 } = options;
-  const queryTokens = new Set(tokenize(query));
-  if (queryTokens.size === 0) return [];
-
-  const scored: SearchResult[] = pages.map((page) => {
-    const pageTokens = tokenize(`${page.title} ${page.contentText}`);
-    let score = 0;
-    for (const token of pageTokens) {
-      if (queryTokens.has(token)) {
-        score += 1;
-      }
-    }
-    return { page, score };
-  });
-
-  return scored
-    .filter((r) => r.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
-}
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
 
+  const byId = new Map(pages.map((p) => [p.id, p]));
+  const lengths = new Map<string, number>();
+  const postings: Posting[][] = terms.map(() => []);
+  let totalLength = 0;
+  for (const page of byId.values()) {
+    const doc = documentTerms(page);
+    lengths.set(page.id, doc.length);
+    totalLength += doc.length;
+    terms.forEach((term, i) => {
+      const entry = doc.terms.get(term);
+      if (entry) postings[i].push({ pageId: page.id, ...entry });
+    });
+  }
+  const stats = { docCount: byId.size, avgLength: byId.size > 0 ? totalLength / byId.size : 0 };
+  return rankBm25(postings, lengths, stats, limit).map((hit) => ({ page: byId.get(hit.pageId)!, score: hit.score }));
+}
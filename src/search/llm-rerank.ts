@@ -0,0 +1,181 @@
+/**
+ * Необязательный LLM-rerank верхних результатов поиска: заголовок и пассаж каждого кандидата уходят
+ * в chatWithLLMSubtask со строгим JSON-промптом, оценки 0–10 переставляют кандидатов.
+ * Оценки кешируются в памяти по запросу и набору кандидатов; при ошибке, таймауте или неразборчивом
+ * ответе порядок остаётся прежним.
+ */
+import { chatWithLLMSubtask } from "../llm/client";
+import { SUBTASK_SEARCH_RERANK_SYSTEM } from "../agent/standards";
+import { wrapUntrustedToolPayload } from "../agent/untrusted-content";
+
+export const LLM_RERANK_SYNC_DEFAULTS = {
+  llmRerankEnabled: false,
+  /** Сколько верхних результатов оценивает модель */
+  llmRerankTopN: 10,
+  llmRerankTimeoutMs: 15_000
+};
+
+export interface LlmRerankSettings {
+  enabled: boolean;
+  topN: number;
+  timeoutMs: number;
+}
+
+export interface LlmRerankCandidate {
+  id: string;
+  title: string;
+  url: string;
+  /** Путь раздела пассажа */
+  section?: string;
+  text: string;
+}
+
+export interface LlmRerankOutcome {
+  /** Id всех кандидатов в новом порядке (при неудаче — в исходном) */
+  order: string[];
+  applied: boolean;
+  cached: boolean;
+  error?: string;
+}
+
+type Subtask = typeof chatWithLLMSubtask;
+
+const MAX_TOP_N = 30;
+const CANDIDATE_TEXT_MAX_CHARS = 600;
+const SCORE_CACHE_MAX_ENTRIES = 50;
+
+/** Оценки по ключу «запрос + кандидаты»; Map хранит порядок вставки — старейший вытесняется первым. */
+const scoreCache = new Map<string, Map<number, number>>();
+
+export function parseLlmRerankSettings(items: Record<string, unknown>): LlmRerankSettings {
+  const topN = Math.floor(Number(items.llmRerankTopN));
+  const timeoutMs = Number(items.llmRerankTimeoutMs);
+  return {
+    enabled: items.llmRerankEnabled === true,
+    topN: Number.isFinite(topN) && topN >= 2 ? Math.min(topN, MAX_TOP_N) : LLM_RERANK_SYNC_DEFAULTS.llmRerankTopN,
+    timeoutMs:
+      Number.isFinite(timeoutMs) && timeoutMs >= 1000 ? Math.min(timeoutMs, 120_000) : LLM_RERANK_SYNC_DEFAULTS.llmRerankTimeoutMs
+  };
+}
+
+export function loadLlmRerankSettings(): Promise<LlmRerankSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(LLM_RERANK_SYNC_DEFAULTS, (items) => resolve(parseLlmRerankSettings(items)));
+  });
+}
+
+export function buildLlmRerankPrompt(query: string, candidates: readonly LlmRerankCandidate[]): string {
+  const list = candidates
+    .map((c, i) => {
+      const text = c.text.replace(/\s+/g, " ").trim().slice(0, CANDIDATE_TEXT_MAX_CHARS);
+      return `[${i + 1}] ${c.title || c.url}\nURL: ${c.url}\n${c.section ? `Section: ${c.section}\n` : ""}Excerpt: ${text}`;
+    })
+    .join("\n\n");
+  return `Search query: ${query.trim()}\n\nCandidates (ids 1–${candidates.length}):\n${wrapUntrustedToolPayload("saved page search candidates", list)}`;
+}
+
+/**
+ * Оценки из ответа подзадачи (устойчиво к тексту вокруг JSON, как parseVerifySubtaskJson):
+ * `{"scores":[{"id":1,"score":7}]}` или просто массив. Id вне 1..count отбрасываются, оценки сжимаются в 0–10.
+ */
+export function parseLlmRerankJson(text: string, count: number): Map<number, number> | null {
+  const toScores = (value: unknown): Map<number, number> | null => {
+    const list = Array.isArray(value) ? value : (value as { scores?: unknown })?.scores;
+    if (!Array.isArray(list)) return null;
+    const out = new Map<number, number>();
+    for (const item of list as { id?: unknown; score?: unknown }[]) {
+      const id = Number(item?.id);
+      const score = Number(item?.score);
+      if (!Number.isInteger(id) || id < 1 || id > count || !Number.isFinite(score)) continue;
+      out.set(id, Math.min(10, Math.max(0, score)));
+    }
+    return out.size > 0 ? out : null;
+  };
+  const tryParse = (s: string): Map<number, number> | null => {
+    try {
+      return toScores(JSON.parse(s));
+    } catch {
+      return null;
+    }
+  };
+  const trimmed = text.trim();
+  let parsed = tryParse(trimmed);
+  if (parsed) return parsed;
+  for (const [open, close] of [["{", "}"], ["[", "]"]]) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start >= 0 && end > start) parsed = tryParse(trimmed.slice(start, end + 1));
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+/** Порядок по оценкам: выше оценка — выше место; без оценки — после оценённых; при равенстве — прежний порядок. */
+export function orderByScores(ids: readonly string[], scores: ReadonlyMap<number, number>): string[] {
+  return ids
+    .map((id, i) => ({ id, i, score: scores.get(i + 1) ?? -1 }))
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map((x) => x.id);
+}
+
+function cacheKey(query: string, candidates: readonly LlmRerankCandidate[]): string {
+  return JSON.stringify([query.trim().toLowerCase(), candidates.map((c) => c.id)]);
+}
+
+function rememberScores(key: string, scores: Map<number, number>): void {
+  scoreCache.delete(key);
+  scoreCache.set(key, scores);
+  while (scoreCache.size > SCORE_CACHE_MAX_ENTRIES) scoreCache.delete(scoreCache.keys().next().value!);
+}
+
+export function clearLlmRerankCache(): void {
+  scoreCache.clear();
+}
+
+/** Переставить кандидатов по оценкам модели; ошибка и таймаут (timeoutMs) возвращают исходный порядок. */
+export async function llmRerankCandidates(
+  query: string,
+  candidates: readonly LlmRerankCandidate[],
+  options: { timeoutMs?: number; subtask?: Subtask } = {}
+): Promise<LlmRerankOutcome> {
+  const ids = candidates.map((c) => c.id);
+  const fallback = (error?: string): LlmRerankOutcome => ({ order: ids, applied: false, cached: false, ...(error ? { error } : {}) });
+  if (candidates.length < 2 || !query.trim()) return fallback();
+  const key = cacheKey(query, candidates);
+  const cached = scoreCache.get(key);
+  if (cached) {
+    rememberScores(key, cached);
+    return { order: orderByScores(ids, cached), applied: true, cached: true };
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutMs = options.timeoutMs ?? LLM_RERANK_SYNC_DEFAULTS.llmRerankTimeoutMs;
+  const timeout = new Promise<{ error: string }>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({ error: `LLM rerank timed out after ${Math.round(timeoutMs / 1000)} s` });
+    }, timeoutMs);
+  });
+  try {
+    const subtask = options.subtask ?? chatWithLLMSubtask;
+    const r = await Promise.race([
+      subtask(buildLlmRerankPrompt(query, candidates), {
+        systemPrompt: SUBTASK_SEARCH_RERANK_SYSTEM,
+        maxTokens: 40 + candidates.length * 16,
+        temperature: 0,
+        signal: controller.signal
+      }),
+      timeout
+    ]);
+    if ("error" in r) return fallback(r.error);
+    const scores = parseLlmRerankJson(r.text, candidates.length);
+    if (!scores) return fallback("LLM rerank returned no usable scores");
+    rememberScores(key, scores);
+    return { order: orderByScores(ids, scores), applied: true, cached: false };
+  } catch (err) {
+    return fallback(err instanceof Error ? err.message : String(err));
+  } finally {
+    clearTimeout(timer);
+  }
+}
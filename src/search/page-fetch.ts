@@ -0,0 +1,240 @@
+/**
+ * Загрузка страниц для web_research: декодирование по charset, отсев нечитаемых типов и очередь
+ * с общим и похостовым пределом параллельности, robots.txt и общим бюджетом времени.
+ */
+import { robotsAllows } from "./robots";
+
+export const RESEARCH_USER_AGENT = "PageAI/1.0 (local research; +https://github.com/mussolene/pageai)";
+const MAX_RESPONSE_BYTES = 2_500_000;
+/** robots.txt ждём недолго: его загрузка занимает слот хоста. */
+const ROBOTS_TIMEOUT_MS = 4_000;
+/** Меньше этого до конца бюджета новая загрузка не начинается. */
+const MIN_FETCH_MS = 500;
+
+export type FetchTextResult =
+  | { ok: true; html: string; status: number; mime: string; charset: string; validators: CacheValidators }
+  | { ok: false; error: string; status?: number; body?: string; mime?: string };
+
+/** Типы, которые читаются как страница; остальное (PDF, картинки, архивы) пропускается. */
+export function isReadableMime(mime: string): boolean {
+  return mime === "text/html" || mime === "application/xhtml+xml" || mime === "text/plain";
+}
+
+function mimeOf(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+function charsetParam(contentType: string): string | null {
+  const m = contentType.match(/;\s*charset\s*=\s*["']?([\w.:-]+)/i);
+  return m ? m[1].toLowerCase() : null;
+}
+
+/** Тип по первым байтам, когда сервер не указал его или прислал `application/octet-stream`. */
+export function sniffMime(bytes: Uint8Array): string {
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 512));
+  if (head.startsWith("%PDF-")) return "application/pdf";
+  if (/^\s*(?:ï»¿)?\s*<(?:!doctype html|html|head|body|!--)/i.test(head)) return "text/html";
+  // Нулевые байты в начале — почти наверняка двоичный файл
+  return bytes.subarray(0, 512).includes(0) ? "application/octet-stream" : "text/plain";
+}
+
+/**
+ * Кодировка ответа: BOM, charset из Content-Type, затем `<meta charset>` /
+ * `<meta http-equiv="Content-Type">` в первых 1024 байтах HTML; по умолчанию UTF-8.
+ */
+export function detectCharset(contentType: string, bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  const fromHeader = charsetParam(contentType);
+  if (fromHeader) return fromHeader;
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  const meta = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i);
+  return meta ? meta[1].toLowerCase() : "utf-8";
+}
+
+/** Текст в заданной кодировке; неизвестная кодировка читается как UTF-8. */
+export function decodeBody(bytes: Uint8Array, charset: string): { text: string; charset: string } {
+  try {
+    return { text: new TextDecoder(charset).decode(bytes), charset };
+  } catch {
+    return { text: new TextDecoder("utf-8").decode(bytes), charset: "utf-8" };
+  }
+}
+
+/** Валидаторы кешированного ответа для условного запроса. */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetchTextOptions {
+  timeoutMs: number;
+  accept?: string;
+  /** Читаемый ли тип; по умолчанию — любой */
+  readable?: (mime: string) => boolean;
+  /** С ними запрос условный: неизменившийся ответ приходит как HTTP 304 */
+  validators?: CacheValidators;
+}
+
+/**
+ * GET с таймаутом. Тело читается байтами и декодируется по charset; ответ, тип которого по заголовку
+ * уже нечитаем (`readable` вернул false), не скачивается. Тело HTTP-ошибки нужно для распознавания
+ * капчи в выдаче.
+ */
+export async function fetchText(fetchImpl: typeof fetch, url: string, options: FetchTextOptions): Promise<FetchTextResult> {
+  const { timeoutMs, accept = "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8", readable = () => true, validators } = options;
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const res = await fetchImpl(url, {
+      signal: ctrl.signal,
+      headers: {
+        Accept: accept,
+        "User-Agent": RESEARCH_USER_AGENT,
+        ...(validators?.etag ? { "If-None-Match": validators.etag } : {}),
+        ...(validators?.lastModified ? { "If-Modified-Since": validators.lastModified } : {})
+      }
+    });
+    const contentType = res.headers.get("content-type") ?? "";
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      return { ok: false, error: `HTTP ${res.status}`, status: res.status, body: body.slice(0, 200_000) };
+    }
+    const declared = mimeOf(contentType);
+    if (declared && declared !== "application/octet-stream" && !readable(declared)) {
+      void res.body?.cancel().catch(() => {});
+      return { ok: false, error: `unsupported content type ${declared}`, status: res.status, mime: declared };
+    }
+    if (Number(res.headers.get("content-length") ?? 0) > MAX_RESPONSE_BYTES) {
+      void res.body?.cancel().catch(() => {});
+      return { ok: false, error: "response too large", status: res.status };
+    }
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (bytes.byteLength > MAX_RESPONSE_BYTES) return { ok: false, error: "response too large", status: res.status };
+    const mime = declared && declared !== "application/octet-stream" ? declared : sniffMime(bytes);
+    if (!readable(mime)) return { ok: false, error: `unsupported content type ${mime}`, status: res.status, mime };
+    const { text, charset } = decodeBody(bytes, detectCharset(contentType, bytes));
+    const etag = res.headers.get("etag");
+    const lastModified = res.headers.get("last-modified");
+    return {
+      ok: true,
+      html: text,
+      status: res.status,
+      mime,
+      charset,
+      validators: { ...(etag ? { etag } : {}), ...(lastModified ? { lastModified } : {}) }
+    };
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: msg.includes("abort") ? "timeout" : msg };
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/** Итог загрузки одного URL очередью — он же строка статуса в отчёте. */
+export type PageFetchOutcome =
+  | { state: "ok"; url: string; status: number; mime: string; charset: string; text: string; validators: CacheValidators; ms: number }
+  | { state: "not-modified"; url: string; ms: number }
+  | { state: "failed"; url: string; error: string; status?: number; ms: number }
+  | { state: "unsupported"; url: string; mime: string }
+  | { state: "robots"; url: string }
+  | { state: "budget"; url: string };
+
+export interface FetchQueueOptions {
+  fetchImpl: typeof fetch;
+  /** Одновременных загрузок всего */
+  concurrency: number;
+  /** Одновременных загрузок с одного хоста (вместе с robots.txt) */
+  perHostConcurrency: number;
+  /** Таймаут одной загрузки; урезается до остатка бюджета */
+  timeoutMs: number;
+  /** Момент (Date.now()), после которого новые загрузки не начинаются */
+  deadline: number;
+  respectRobots: boolean;
+}
+
+export interface FetchQueue {
+  /** validators — от кешированной копии: тогда неизменившаяся страница вернётся как `not-modified` */
+  fetch(url: string, validators?: CacheValidators): Promise<PageFetchOutcome>;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Очередь загрузок: URL ждут, пока освободится общий слот и слот их хоста; порядок старта — порядок
+ * постановки (хост, упёршийся в предел, не задерживает остальные). После дедлайна ожидающие URL
+ * получают `budget`, а таймаут идущих загрузок не выходит за дедлайн.
+ */
+export function createFetchQueue(opt: FetchQueueOptions): FetchQueue {
+  const waiting: { url: string; host: string; validators?: CacheValidators; resolve: (o: PageFetchOutcome) => void }[] = [];
+  const perHost = new Map<string, number>();
+  let active = 0;
+  const remaining = () => opt.deadline - Date.now();
+
+  async function load(url: string, validators?: CacheValidators): Promise<PageFetchOutcome> {
+    if (opt.respectRobots && !(await robotsAllows(url, opt.fetchImpl, Math.min(ROBOTS_TIMEOUT_MS, remaining()), RESEARCH_USER_AGENT))) {
+      return { state: "robots", url };
+    }
+    if (remaining() < MIN_FETCH_MS) return { state: "budget", url };
+    const started = Date.now();
+    const res = await fetchText(opt.fetchImpl, url, {
+      timeoutMs: Math.min(opt.timeoutMs, remaining()),
+      readable: isReadableMime,
+      validators
+    });
+    const ms = Date.now() - started;
+    if (res.ok) {
+      return { state: "ok", url, status: res.status, mime: res.mime, charset: res.charset, text: res.html, validators: res.validators, ms };
+    }
+    if (res.status === 304 && validators) return { state: "not-modified", url, ms };
+    if (res.mime) return { state: "unsupported", url, mime: res.mime };
+    return { state: "failed", url, error: res.error, ...(res.status != null ? { status: res.status } : {}), ms };
+  }
+
+  function pump(): void {
+    let i = 0;
+    while (i < waiting.length && active < opt.concurrency) {
+      const job = waiting[i];
+      if (remaining() < MIN_FETCH_MS) {
+        waiting.splice(i, 1);
+        job.resolve({ state: "budget", url: job.url });
+        continue;
+      }
+      const busy = perHost.get(job.host) ?? 0;
+      if (busy >= opt.perHostConcurrency) {
+        i++;
+        continue;
+      }
+      waiting.splice(i, 1);
+      active++;
+      perHost.set(job.host, busy + 1);
+      void load(job.url, job.validators)
+        .catch((e): PageFetchOutcome => ({ state: "failed", url: job.url, error: e instanceof Error ? e.message : String(e), ms: 0 }))
+        .then((outcome) => {
+          active--;
+          const left = (perHost.get(job.host) ?? 1) - 1;
+          if (left > 0) perHost.set(job.host, left);
+          else perHost.delete(job.host);
+          job.resolve(outcome);
+          pump();
+        });
+    }
+  }
+
+  return {
+    fetch(url, validators) {
+      return new Promise((resolve) => {
+        waiting.push({ url, host: hostOf(url), validators, resolve });
+        pump();
+      });
+    }
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Пассажи страницы: текст режется по заголовкам на разделы, разделы — по абзацам и предложениям на куски
+ * около PASSAGE_TARGET_TOKENS токенов. У пассажа есть путь разделов, смещения в contentText и оценка токенов;
+ * сам текст отдельно не хранится — это contentText.slice(start, end).
+ */
+import type { Page, PageHeading, PagePassage } from "../types/messages";
+import { rankBm25, type Posting } from "./bm25";
+import { documentTerms, queryTerms } from "./keyword";
+
+export const PASSAGE_TARGET_TOKENS = 200;
+export const PASSAGE_MAX_TOKENS = 400;
+/** Символов на токен в оценке (порядок величины для латиницы и кириллицы) */
+const CHARS_PER_TOKEN = 4;
+
+type Range = [number, number];
+
+/** Грубая оценка числа токенов: не меньше числа слов и длины в символах / 4. */
+export function estimateTokens(text: string): number {
+  const words = text.match(/\S+/g)?.length ?? 0;
+  return Math.max(words, Math.ceil(text.length / CHARS_PER_TOKEN));
+}
+
+/**
+ * Смещения заголовков в тексте: каждый ищется после предыдущего. Заголовки, которых в тексте нет
+ * (отфильтрованы вместе с короткими строками, скрыты), пропускаются.
+ */
+export function locateHeadings(text: string, headings: readonly { level: number; text: string }[]): PageHeading[] {
+  const out: PageHeading[] = [];
+  let from = 0;
+  for (const h of headings) {
+    const title = h.text.replace(/\s+/g, " ").trim();
+    if (!title) continue;
+    const offset = text.indexOf(title, from);
+    if (offset < 0) continue;
+    out.push({ level: Math.min(6, Math.max(1, Math.round(h.level))), text: title, offset });
+    from = offset + title.length;
+  }
+  return out;
+}
+
+function trimRange(text: string, [start, end]: Range): Range | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? [start, end] : null;
+}
+
+/** Части диапазона между разделителями separator (глобальный RegExp), без крайних пробелов. */
+function splitRange(text: string, [start, end]: Range, separator: RegExp): Range[] {
+  const out: Range[] = [];
+  const slice = text.slice(start, end);
+  let last = 0;
+  for (const m of slice.matchAll(separator)) {
+    const part = trimRange(text, [start + last, start + m.index! + m[0].length]);
+    if (part) out.push(part);
+    last = m.index! + m[0].length;
+  }
+  const tail = trimRange(text, [start + last, end]);
+  if (tail) out.push(tail);
+  return out;
+}
+
+/** Жёсткая нарезка слишком длинного куска, по возможности на пробеле. */
+function hardSplit(text: string, [start, end]: Range, maxChars: number): Range[] {
+  const out: Range[] = [];
+  let pos = start;
+  while (end - pos > maxChars) {
+    let cut = text.lastIndexOf(" ", pos + maxChars);
+    if (cut <= pos + maxChars / 2) cut = pos + maxChars;
+    const part = trimRange(text, [pos, cut]);
+    if (part) out.push(part);
+    pos = cut;
+  }
+  const tail = trimRange(text, [pos, end]);
+  if (tail) out.push(tail);
+  return out;
+}
+
+/** Абзацы раздела; слишком длинные — по предложениям, затем жёстко. */
+function sectionUnits(text: string, range: Range, maxTokens: number): Range[] {
+  const units: Range[] = [];
+  for (const para of splitRange(text, range, /\n+/g)) {
+    if (estimateTokens(text.slice(para[0], para[1])) <= maxTokens) {
+      units.push(para);
+      continue;
+    }
+    for (const sentence of splitRange(text, para, /(?<=[.!?…])\s+/g)) {
+      if (estimateTokens(text.slice(sentence[0], sentence[1])) <= maxTokens) units.push(sentence);
+      else units.push(...hardSplit(text, sentence, maxTokens * CHARS_PER_TOKEN));
+    }
+  }
+  return units;
+}
+
+/** Разбить текст на пассажи: границы разделов — заголовки, внутри раздела соседние абзацы склеиваются до targetTokens. */
+export function splitIntoPassages(
+  text: string,
+  headings: readonly PageHeading[] = [],
+  options: { targetTokens?: number; maxTokens?: number } = {}
+): PagePassage[] {
+  const target = options.targetTokens ?? PASSAGE_TARGET_TOKENS;
+  const max = Math.max(target, options.maxTokens ?? PASSAGE_MAX_TOKENS);
+  const sorted = headings.filter((h) => h.offset >= 0 && h.offset < text.length).sort((a, b) => a.offset - b.offset);
+  const sections: { range: Range; path: string[] }[] = [];
+  const stack: PageHeading[] = [];
+  let sectionStart = 0;
+  let path: string[] = [];
+  for (const h of sorted) {
+    if (h.offset > sectionStart) sections.push({ range: [sectionStart, h.offset], path });
+    while (stack.length > 0 && stack[stack.length - 1].level >= h.level) stack.pop();
+    stack.push(h);
+    path = stack.map((s) => s.text);
+    sectionStart = h.offset;
+  }
+  sections.push({ range: [sectionStart, text.length], path });
+
+  const passages: PagePassage[] = [];
+  for (const section of sections) {
+    let current: Range | null = null;
+    const flush = () => {
+      if (!current) return;
+      passages.push({
+        index: passages.length,
+        sectionPath: section.path,
+        start: current[0],
+        end: current[1],
+        tokenEstimate: estimateTokens(text.slice(current[0], current[1]))
+      });
+      current = null;
+    };
+    for (const unit of sectionUnits(text, section.range, max)) {
+      if (current && estimateTokens(text.slice(current[0], unit[1])) > target) flush();
+      current = current ? [current[0], unit[1]] : unit;
+    }
+    flush();
+  }
+  return passages;
+}
+
+/** Сохранённые пассажи страницы или посчитанные заново (страница сохранена до их появления). */
+export function pagePassages(page: Pick<Page, "contentText" | "headings" | "passages">): PagePassage[] {
+  return page.passages ?? splitIntoPassages(page.contentText ?? "", page.headings ?? []);
+}
+
+export function passageText(page: Pick<Page, "contentText">, passage: Pick<PagePassage, "start" | "end">): string {
+  return (page.contentText ?? "").slice(passage.start, passage.end);
+}
+
+/** Пассажи страницы по убыванию BM25 для запроса; путь разделов считается заголовком пассажа. */
+export function rankPassages(page: Page, query: string, limit = 3): PagePassage[] {
+  const terms = queryTerms(query);
+  const passages = pagePassages(page);
+  if (terms.length === 0 || passages.length === 0) return [];
+  const postings: Posting[][] = terms.map(() => []);
+  const lengths = new Map<string, number>();
+  let total = 0;
+  for (const p of passages) {
+    const doc = documentTerms({ title: p.sectionPath.join(" "), contentText: passageText(page, p) });
+    const id = String(p.index);
+    lengths.set(id, doc.length);
+    total += doc.length;
+    terms.forEach((term, i) => {
+      const entry = doc.terms.get(term);
+      if (entry) postings[i].push({ pageId: id, ...entry });
+    });
+  }
+  const stats = { docCount: passages.length, avgLength: total / passages.length };
+  return rankBm25(postings, lengths, stats, limit).map((hit) => passages[Number(hit.pageId)]);
+}
+
+/**
+ * Пассажи для промпта в пределах maxChars: с запросом — самые подходящие (в порядке текста),
+ * без запроса или без совпадений — начало страницы. Последний пассаж обрезается по бюджету.
+ */
+export function selectPassages(page: Page, query: string | undefined, maxChars: number): PagePassage[] {
+  const ranked = query ? rankPassages(page, query, Number.MAX_SAFE_INTEGER) : [];
+  const fromHead = ranked.length === 0;
+  const candidates = fromHead ? pagePassages(page) : ranked;
+  const chosen: PagePassage[] = [];
+  let remaining = maxChars;
+  for (const p of candidates) {
+    if (remaining <= 0) break;
+    // Подряд идущие пассажи с начала страницы склеиваются — разделитель между ними тоже в бюджете
+    const from = fromHead && chosen.length > 0 ? chosen[chosen.length - 1].end : p.start;
+    const cost = p.end - from;
+    if (cost <= remaining) {
+      chosen.push(p);
+      remaining -= cost;
+    } else if (fromHead || chosen.length === 0) {
+      if (from + remaining > p.start) chosen.push({ ...p, end: from + remaining });
+      break;
+    }
+  }
+  return chosen.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Текст выбранных пассажей: соседние сливаются в один фрагмент, между несмежными — «[…]»;
+ * фрагмент из середины страницы подписывается путём своего раздела.
+ */
+export function formatPassageExcerpt(page: Page, passages: readonly PagePassage[]): string {
+  const text = page.contentText ?? "";
+  const parts: { start: number; end: number; path: string[] }[] = [];
+  for (const p of passages) {
+    const last = parts[parts.length - 1];
+    if (last && !text.slice(last.end, p.start).trim()) last.end = Math.max(last.end, p.end);
+    else parts.push({ start: p.start, end: p.end, path: p.sectionPath });
+  }
+  return parts
+    .map((part) => {
+      const label = part.start > 0 && part.path.length > 0 ? `[${part.path.join(" › ")}]\n` : "";
+      return label + text.slice(part.start, part.end);
+    })
+    .join("\n[…]\n");
+}
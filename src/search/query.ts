@@ -0,0 +1,178 @@
+/**
+ * Язык запросов вкладки Search: слова, `"точная фраза"`, `-исключение`, `site:домен`, `space:KEY`,
+ * `after:ГГГГ-ММ-ДД` / `before:ГГГГ-ММ-ДД`, `title:слово` или `title:"фраза"`.
+ * Разбор даёт типизированное дерево запроса; фильтры проверяются по полям сохранённой страницы,
+ * а положительные слова и фразы идут в ранжирование (BM25 и векторный поиск).
+ */
+import type { Page } from "../types/messages";
+import { hostMatchesDomain, hostOfUrl, parseDomainList } from "../storage/retention";
+import { analyze, tokenize } from "./tokenizer";
+
+export type QueryField = "any" | "title";
+
+export type QueryClause =
+  | { kind: "term"; text: string; field: QueryField; negated: boolean }
+  | { kind: "phrase"; text: string; field: QueryField; negated: boolean }
+  | { kind: "site"; domain: string; negated: boolean }
+  | { kind: "space"; key: string; negated: boolean }
+  /** Граница по updatedAt: after — не раньше начала дня, before — раньше начала дня (локальное время) */
+  | { kind: "date"; op: "after" | "before"; date: string; time: number };
+
+export interface SearchQuery {
+  clauses: QueryClause[];
+}
+
+export interface QuerySyntaxError {
+  error: string;
+  /** Позиция символа в строке запроса */
+  position: number;
+}
+
+const OPERATOR_RE = /^(site|space|after|before|title):/i;
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseDay(value: string): number | null {
+  const m = value.match(DATE_RE);
+  if (!m) return null;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const date = new Date(y, mo - 1, d);
+  return date.getFullYear() === y && date.getMonth() === mo - 1 && date.getDate() === d ? date.getTime() : null;
+}
+
+/** Разобрать строку запроса; ошибка синтаксиса — `{ error, position }`. Неизвестные `слово:` остаются словами. */
+export function parseSearchQuery(input: string): SearchQuery | QuerySyntaxError {
+  const clauses: QueryClause[] = [];
+  let i = 0;
+  const readQuoted = (): string | QuerySyntaxError => {
+    const start = i;
+    const end = input.indexOf('"', i + 1);
+    if (end < 0) return { error: "Unclosed quote", position: start };
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+  const readWord = (): string => {
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    return input.slice(start, i);
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const phrase = readQuoted();
+      if (typeof phrase !== "string") return phrase;
+      if (phrase.trim()) clauses.push({ kind: "phrase", text: phrase.trim(), field: "any", negated });
+      continue;
+    }
+
+    const op = input.slice(i).match(OPERATOR_RE);
+    if (!op) {
+      const word = readWord();
+      if (tokenize(word).length > 0) clauses.push({ kind: "term", text: word, field: "any", negated });
+      continue;
+    }
+
+    const name = op[1].toLowerCase();
+    i += op[0].length;
+    const quoted = input[i] === '"';
+    const raw = quoted ? readQuoted() : readWord();
+    if (typeof raw !== "string") return raw;
+    const value = raw.trim();
+    if (!value) return { error: `${name}: needs a value`, position: start };
+
+    if (name === "title") {
+      clauses.push({ kind: quoted ? "phrase" : "term", text: value, field: "title", negated });
+    } else if (name === "site") {
+      const [domain] = parseDomainList(value);
+      if (!domain) return { error: `site: expects a domain, got "${value}"`, position: start };
+      clauses.push({ kind: "site", domain, negated });
+    } else if (name === "space") {
+      clauses.push({ kind: "space", key: value, negated });
+    } else {
+      if (negated) return { error: `${name}: cannot be excluded`, position: start };
+      const time = parseDay(value);
+      if (time == null) return { error: `${name}: expects a date like 2026-01-31, got "${value}"`, position: start };
+      clauses.push({ kind: "date", op: name as "after" | "before", date: value, time });
+    }
+  }
+
+  const after = Math.max(...clauses.flatMap((c) => (c.kind === "date" && c.op === "after" ? [c.time] : [-Infinity])));
+  const before = Math.min(...clauses.flatMap((c) => (c.kind === "date" && c.op === "before" ? [c.time] : [Infinity])));
+  if (after >= before) return { error: "after: date must be earlier than before: date", position: 0 };
+  return { clauses };
+}
+
+export function isQuerySyntaxError(value: SearchQuery | QuerySyntaxError): value is QuerySyntaxError {
+  return "error" in value;
+}
+
+/** Текст для ранжирования: положительные слова и фразы (в т.ч. title:), без операторов и исключений. */
+export function rankingText(query: SearchQuery): string {
+  return query.clauses
+    .flatMap((c) => ((c.kind === "term" || c.kind === "phrase") && !c.negated ? [c.text] : []))
+    .join(" ");
+}
+
+/** Есть ли в запросе что-то кроме ранжирования — иначе фильтровать страницы не нужно. */
+export function hasFilters(query: SearchQuery): boolean {
+  return query.clauses.some((c) => c.kind !== "term" || c.negated || c.field !== "any");
+}
+
+function containsSequence(haystack: readonly string[], needle: readonly string[]): boolean {
+  if (needle.length === 0) return true;
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (haystack[i + j] !== needle[j]) continue outer;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Проверка страницы по всем условиям запроса. Слова сравниваются по основам (как в индексе),
+ * фраза — как подряд идущие токены без учёта регистра и пунктуации.
+ */
+export function matchesSearchQuery(page: Page, query: SearchQuery): boolean {
+  const cache = new Map<string, unknown>();
+  const memo = <T>(key: string, compute: () => T): T => {
+    if (!cache.has(key)) cache.set(key, compute());
+    return cache.get(key) as T;
+  };
+  const fieldText = (field: QueryField) => (field === "title" ? page.title ?? "" : `${page.title ?? ""}\n${page.contentText ?? ""}`);
+  const host = hostOfUrl(page.url);
+
+  return query.clauses.every((c) => {
+    let hit: boolean;
+    switch (c.kind) {
+      case "term": {
+        const stems = memo(`stems:${c.field}`, () => new Set(analyze(fieldText(c.field))));
+        const terms = analyze(c.text);
+        // Стоп-слово само по себе не фильтрует
+        hit = terms.length === 0 || terms.every((t) => stems.has(t));
+        break;
+      }
+      case "phrase": {
+        const tokens = memo(`tokens:${c.field}`, () => tokenize(fieldText(c.field)));
+        hit = containsSequence(tokens, tokenize(c.text));
+        break;
+      }
+      case "site":
+        hit = host != null && hostMatchesDomain(host, c.domain);
+        break;
+      case "space":
+        hit = (page.spaceKey ?? "").toLowerCase() === c.key.toLowerCase();
+        break;
+      case "date": {
+        const t = Date.parse(page.updatedAt);
+        return Number.isFinite(t) && (c.op === "after" ? t >= c.time : t < c.time);
+      }
+    }
+    return c.negated ? !hit : hit;
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Ответ «по моим страницам» (RAG): лучшие пассажи из локального индекса получают номера [1]…[n]
+ * для промпта (buildSourceAwarePrompt), а ссылки в ответе модели сверяются с этими номерами.
+ */
+import type { ChatSource } from "../types/messages";
+import type { Storage } from "../storage/indexdb";
+import { searchSavedPages } from "./hybrid-search";
+import { pagePassages, passageText, rankPassages } from "./passages";
+
+/** Страниц из поиска, из которых берутся пассажи. */
+export const RAG_MAX_PAGES = 6;
+/** Пассажей в контексте ответа (номера ссылок 1…RAG_MAX_PASSAGES). */
+export const RAG_MAX_PASSAGES = 8;
+const RAG_PASSAGES_PER_PAGE = 2;
+/** Символов одного пассажа в промпте. */
+export const RAG_PASSAGE_MAX_CHARS = 1500;
+/** Символов выдержки в источнике под ответом. */
+const RAG_EXCERPT_MAX_CHARS = 240;
+
+/** Пассаж контекста с номером для ссылки `[id]`. */
+export interface RagPassage {
+  id: number;
+  pageId: string;
+  title: string;
+  url: string;
+  /** Путь разделов страницы, в котором лежит пассаж */
+  sectionPath: string[];
+  text: string;
+}
+
+export interface CitationCheck {
+  /** Ответ без ссылок на несуществующие номера */
+  text: string;
+  /** Процитированные пассажи по возрастанию номера */
+  sources: ChatSource[];
+  /** Номера из ответа, которых нет в контексте */
+  invalid: number[];
+}
+
+function clip(text: string, max: number): string {
+  const t = text.replace(/\s+/g, " ").trim();
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+}
+
+/**
+ * Пассажи для ответа на вопрос: поиск как во вкладке Search (язык запросов, BM25, векторы, дубли
+ * схлопнуты), затем до двух лучших пассажей каждой найденной страницы. Первыми идут лучшие пассажи
+ * всех страниц по порядку выдачи, затем вторые — так контекст не забирает одна длинная страница.
+ * Вопрос, который не разбирается как запрос (например, с незакрытой кавычкой), ищется без кавычек.
+ */
+export async function retrieveRagPassages(
+  storage: Storage,
+  question: string,
+  maxPassages = RAG_MAX_PASSAGES
+): Promise<RagPassage[]> {
+  let search = await searchSavedPages(storage, question, { limit: RAG_MAX_PAGES });
+  if ("error" in search) search = await searchSavedPages(storage, question.replace(/"/g, " "), { limit: RAG_MAX_PAGES });
+  if ("error" in search) return [];
+  const { results, text } = search;
+
+  const perPage = results.map(({ page, passage }) => {
+    const ranked = rankPassages(page, text, RAG_PASSAGES_PER_PAGE);
+    // Страница найдена только по вектору — берём пассаж из выдачи или начало страницы
+    const chosen = ranked.length > 0 ? ranked : passage ? [passage] : pagePassages(page).slice(0, 1);
+    return chosen.map((p) => ({ page, passage: p }));
+  });
+
+  const out: RagPassage[] = [];
+  for (let round = 0; round < RAG_PASSAGES_PER_PAGE && out.length < maxPassages; round++) {
+    for (const list of perPage) {
+      const hit = list[round];
+      if (!hit || out.length >= maxPassages) continue;
+      const body = passageText(hit.page, hit.passage).trim();
+      if (!body) continue;
+      out.push({
+        id: out.length + 1,
+        pageId: hit.page.id,
+        title: hit.page.title || hit.page.url,
+        url: hit.page.url,
+        sectionPath: hit.passage.sectionPath,
+        text: body.length > RAG_PASSAGE_MAX_CHARS ? `${body.slice(0, RAG_PASSAGE_MAX_CHARS)}…` : body
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * `[1]`, `[2, 5]`, `[3-4]` вместе с пробелами перед ними. Индекс в коде (`items[1]`), ссылка Markdown
+ * `[1](url)` и числа длиннее двух цифр (`[2024]`) ссылками на пассаж не считаются.
+ */
+const CITATION_RE = /([ \t]*)(?<!\w)\[(\d{1,2}(?:\s*[,–-]\s*\d{1,2})*)\](?!\()/g;
+
+function citedNumbers(group: string): number[] {
+  const out: number[] = [];
+  for (const part of group.split(",")) {
+    const [from, to] = part.split(/[–-]/).map((n) => Number(n.trim()));
+    if (to == null) out.push(from);
+    // Диапазон разворачивается, только если он короткий: «[1-90]» — не ссылка
+    else if (to >= from && to - from < RAG_MAX_PASSAGES * 2) for (let n = from; n <= to; n++) out.push(n);
+    else out.push(from, to);
+  }
+  return out;
+}
+
+/**
+ * Проверка ссылок ответа: каждая `[n]` должна указывать на пассаж контекста. Несуществующие номера
+ * удаляются из текста (скобка без верных номеров — целиком), источники — только реально процитированные
+ * пассажи с заголовком, URL и выдержкой.
+ */
+export function validateCitations(answer: string, passages: readonly RagPassage[]): CitationCheck {
+  const byId = new Map(passages.map((p) => [p.id, p]));
+  const cited = new Set<number>();
+  const invalid = new Set<number>();
+  const text = answer.replace(CITATION_RE, (_, space: string, group: string) => {
+    const valid: number[] = [];
+    for (const n of citedNumbers(group)) {
+      if (!byId.has(n)) invalid.add(n);
+      else if (!valid.includes(n)) valid.push(n);
+    }
+    valid.forEach((n) => cited.add(n));
+    // Убранная целиком ссылка уносит и пробел перед собой: «факт [9].» → «факт.»
+    return valid.length > 0 ? space + valid.map((n) => `[${n}]`).join("") : "";
+  });
+  const sources = Array.from(cited)
+    .sort((a, b) => a - b)
+    .map((n) => {
+      const p = byId.get(n)!;
+      return { id: p.id, title: p.title, url: p.url, excerpt: clip(p.text, RAG_EXCERPT_MAX_CHARS) };
+    });
+  return {
+    text,
+    sources,
+    invalid: Array.from(invalid).sort((a, b) => a - b)
+  };
+}
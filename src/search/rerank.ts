@@ -1,9 +1,148 @@
-import type { SearchResult } from "../types/messages.js";
+/**
+ * Второй этап поиска: слияние списков keyword (BM25) и векторного поиска через reciprocal rank fusion,
+ * затем множители за свежесть страницы и за домен. Страница попадает в выдачу один раз — с лучшим пассажем.
+ * Веса — в chrome.storage.sync (Options → LLM → Search ranking).
+ */
+import type { SearchResult } from "../types/messages";
+import { hostMatchesDomain, hostOfUrl, parseDomainList } from "../storage/retention";
 
-// Семантический rerank — опциональный этап.
-// Сейчас просто возвращаем keyword-результаты без изменений.
+export const RERANK_SYNC_DEFAULTS = {
+  rerankKeywordWeight: 1,
+  rerankVectorWeight: 1,
+  /** k в 1 / (k + rank): чем больше, тем меньше разница между соседними местами */
+  rerankRrfK: 60,
+  /** Надбавка совсем свежей страницы (доля счёта); убывает вдвое за каждый период полураспада */
+  rerankRecencyWeight: 0.1,
+  rerankRecencyHalfLifeDays: 30,
+  /** По строке «домен множитель»: `docs.example.com 1.5`, `spam.example 0.5`; поддомены тоже */
+  rerankDomainBoosts: ""
+};
 
-export function rerank(results: SearchResult[]): SearchResult[] {
-  return results;
+export interface DomainBoost {
+  domain: string;
+  factor: number;
 }
 
+export interface RerankSettings {
+  keywordWeight: number;
+  vectorWeight: number;
+  rrfK: number;
+  recencyWeight: number;
+  recencyHalfLifeDays: number;
+  domainBoosts: DomainBoost[];
+}
+
+/** Списки первого этапа: каждый отсортирован по убыванию своего счёта, страница может встречаться несколько раз. */
+export interface RerankInput {
+  keyword: readonly SearchResult[];
+  vector?: readonly SearchResult[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DOMAIN_FACTOR = 10;
+
+function clampNumber(raw: unknown, fallback: number, min: number, max: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/** Строки «домен множитель» (или `домен=множитель`); строки без числа и с отрицательным множителем пропускаются. */
+export function parseDomainBoosts(text: string): DomainBoost[] {
+  const out: DomainBoost[] = [];
+  for (const line of text.split(/\n|;/)) {
+    const m = line.trim().match(/^(\S+?)\s*[=\s]\s*(\d+(?:\.\d+)?)$/);
+    if (!m) continue;
+    const [domain] = parseDomainList(m[1]);
+    if (domain) out.push({ domain, factor: Math.min(MAX_DOMAIN_FACTOR, Number(m[2])) });
+  }
+  return out;
+}
+
+export function parseRerankSettings(items: Record<string, unknown>): RerankSettings {
+  const d = RERANK_SYNC_DEFAULTS;
+  return {
+    keywordWeight: clampNumber(items.rerankKeywordWeight, d.rerankKeywordWeight, 0, 10),
+    vectorWeight: clampNumber(items.rerankVectorWeight, d.rerankVectorWeight, 0, 10),
+    rrfK: clampNumber(items.rerankRrfK, d.rerankRrfK, 1, 1000),
+    recencyWeight: clampNumber(items.rerankRecencyWeight, d.rerankRecencyWeight, 0, 10),
+    recencyHalfLifeDays: clampNumber(items.rerankRecencyHalfLifeDays, d.rerankRecencyHalfLifeDays, 0.1, 3650),
+    domainBoosts: parseDomainBoosts(String(items.rerankDomainBoosts ?? ""))
+  };
+}
+
+export const DEFAULT_RERANK_SETTINGS: RerankSettings = parseRerankSettings(RERANK_SYNC_DEFAULTS);
+
+export function loadRerankSettings(): Promise<RerankSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(RERANK_SYNC_DEFAULTS, (items) => resolve(parseRerankSettings(items)));
+  });
+}
+
+/** Множитель свежести: 1 + recencyWeight для страницы, обновлённой только что, и к 1 для старых. */
+export function recencyFactor(updatedAt: string, now: number, settings: Pick<RerankSettings, "recencyWeight" | "recencyHalfLifeDays">): number {
+  const t = Date.parse(updatedAt);
+  if (!Number.isFinite(t) || settings.recencyWeight <= 0) return 1;
+  const ageDays = Math.max(0, now - t) / DAY_MS;
+  return 1 + settings.recencyWeight * 0.5 ** (ageDays / settings.recencyHalfLifeDays);
+}
+
+/** Множитель самого точного подходящего домена (самый длинный); без совпадений — 1. */
+export function domainFactor(url: string, boosts: readonly DomainBoost[]): number {
+  const host = hostOfUrl(url);
+  if (!host) return 1;
+  let best: DomainBoost | null = null;
+  for (const b of boosts) {
+    if (hostMatchesDomain(host, b.domain) && (!best || b.domain.length > best.domain.length)) best = b;
+  }
+  return best ? best.factor : 1;
+}
+
+/** Первое (лучшее) вхождение каждой страницы; остальные пассажи той же страницы отбрасываются. */
+export function dedupeByPage(results: readonly SearchResult[]): SearchResult[] {
+  const seen = new Set<string>();
+  return results.filter((r) => {
+    if (seen.has(r.page.id)) return false;
+    seen.add(r.page.id);
+    return true;
+  });
+}
+
+/**
+ * Reciprocal rank fusion: счёт страницы — сумма weight / (k + место) по спискам, где она есть,
+ * умноженная на множители свежести и домена. Пассаж берётся из списка, где страница стоит выше.
+ */
+export function rerank(
+  input: RerankInput,
+  settings: RerankSettings = DEFAULT_RERANK_SETTINGS,
+  options: { now?: number; limit?: number } = {}
+): SearchResult[] {
+  const now = options.now ?? Date.now();
+  const fused = new Map<string, { result: SearchResult; score: number; bestRank: number }>();
+  const lists: [readonly SearchResult[], number][] = [
+    [input.keyword, settings.keywordWeight],
+    [input.vector ?? [], settings.vectorWeight]
+  ];
+  for (const [list, weight] of lists) {
+    if (weight <= 0) continue;
+    dedupeByPage(list).forEach((result, i) => {
+      const rank = i + 1;
+      const entry = fused.get(result.page.id);
+      const add = weight / (settings.rrfK + rank);
+      if (!entry) {
+        fused.set(result.page.id, { result, score: add, bestRank: rank });
+        return;
+      }
+      entry.score += add;
+      if (result.passage && (!entry.result.passage || rank < entry.bestRank)) {
+        entry.result = { ...entry.result, passage: result.passage };
+      }
+      entry.bestRank = Math.min(entry.bestRank, rank);
+    });
+  }
+  const out = [...fused.values()].map(({ result, score }) => ({
+    ...result,
+    score: score * recencyFactor(result.page.updatedAt, now, settings) * domainFactor(result.page.url, settings.domainBoosts)
+  }));
+  out.sort((a, b) => b.score - a.score || a.page.id.localeCompare(b.page.id));
+  return options.limit != null ? out.slice(0, options.limit) : out;
+}
@@ -0,0 +1,142 @@
+/**
+ * robots.txt для web_research (RFC 9309): группа для PageAI или `*`, правила Allow / Disallow
+ * по самому длинному совпадению. Файл запрашивается один раз на origin и кешируется в памяти фона.
+ */
+
+/** Токен агента, по которому ищется своя группа в robots.txt. */
+export const ROBOTS_USER_AGENT_TOKEN = "pageai";
+/** Сколько живёт разобранный robots.txt в кеше. */
+export const ROBOTS_CACHE_TTL_MS = 30 * 60_000;
+const ROBOTS_CACHE_MAX_ENTRIES = 200;
+/** RFC 9309 требует разбирать не меньше 500 KiB — остальное отбрасывается. */
+const ROBOTS_MAX_CHARS = 512_000;
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/** Правила одной группы; `disallowAll` — сервер ответил 5xx (RFC: считать весь сайт закрытым). */
+export interface RobotsRules {
+  rules: RobotsRule[];
+  disallowAll?: boolean;
+}
+
+const ALLOW_ALL: RobotsRules = { rules: [] };
+
+/**
+ * Разбор robots.txt: правила групп, где user-agent совпадает с токеном агента, а если таких нет —
+ * групп `*`. Несколько подряд идущих `User-agent` относятся к одной группе; комментарии и неизвестные
+ * директивы (Sitemap, Crawl-delay) пропускаются.
+ */
+export function parseRobotsTxt(text: string, agentToken = ROBOTS_USER_AGENT_TOKEN): RobotsRules {
+  const own: RobotsRule[] = [];
+  const any: RobotsRule[] = [];
+  let ownSeen = false;
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.slice(0, ROBOTS_MAX_CHARS).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+    if (key === "user-agent") {
+      // User-agent после правил начинает новую группу
+      if (inRules) agents = [];
+      inRules = false;
+      agents.push(value.toLowerCase());
+      continue;
+    }
+    if (key !== "allow" && key !== "disallow") continue;
+    inRules = true;
+    // Пустой Disallow ничего не запрещает
+    if (!value) continue;
+    const rule = { allow: key === "allow", path: value };
+    if (agents.some((a) => a.split("/")[0].trim() === agentToken)) {
+      ownSeen = true;
+      own.push(rule);
+    } else if (agents.includes("*")) {
+      any.push(rule);
+    }
+  }
+  return { rules: ownSeen ? own : any };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Разрешён ли путь (с query) правилами: побеждает самое длинное совпавшее правило, при равной длине —
+ * Allow. `/robots.txt` разрешён всегда.
+ */
+export function isPathAllowed(robots: RobotsRules, pathWithQuery: string): boolean {
+  if (pathWithQuery === "/robots.txt") return true;
+  if (robots.disallowAll) return false;
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.path).test(pathWithQuery)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) best = rule;
+  }
+  return best ? best.allow : true;
+}
+
+const robotsCache = new Map<string, { expiresAt: number; rules: Promise<RobotsRules> }>();
+
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
+
+async function loadRobots(origin: string, fetchImpl: typeof fetch, timeoutMs: number, userAgent: string): Promise<RobotsRules> {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const res = await fetchImpl(`${origin}/robots.txt`, {
+      signal: ctrl.signal,
+      headers: { Accept: "text/plain,*/*;q=0.5", "User-Agent": userAgent }
+    });
+    if (res.status >= 500) return { rules: [], disallowAll: true };
+    // 4xx (в т.ч. 404) — robots.txt нет, ограничений нет
+    if (!res.ok) return ALLOW_ALL;
+    return parseRobotsTxt(await res.text());
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/**
+ * Можно ли загружать URL по robots.txt его сайта. Одновременные запросы к одному origin ждут одну
+ * загрузку файла. Недоступный robots.txt (сеть, таймаут) не кешируется и не запрещает загрузку.
+ */
+export async function robotsAllows(url: string, fetchImpl: typeof fetch, timeoutMs: number, userAgent: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const origin = parsed.origin;
+  const now = Date.now();
+  let entry = robotsCache.get(origin);
+  if (!entry || entry.expiresAt <= now) {
+    entry = { expiresAt: now + ROBOTS_CACHE_TTL_MS, rules: loadRobots(origin, fetchImpl, timeoutMs, userAgent) };
+    robotsCache.delete(origin);
+    robotsCache.set(origin, entry);
+    while (robotsCache.size > ROBOTS_CACHE_MAX_ENTRIES) robotsCache.delete(robotsCache.keys().next().value!);
+  }
+  let rules: RobotsRules;
+  try {
+    rules = await entry.rules;
+  } catch {
+    if (robotsCache.get(origin) === entry) robotsCache.delete(origin);
+    return true;
+  }
+  return isPathAllowed(rules, parsed.pathname + parsed.search);
+}
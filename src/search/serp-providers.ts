@@ -0,0 +1,313 @@
+/**
+ * Поисковые выдачи (SERP) для web_research: провайдер строит URL запроса, разбирает ответ в пары
+ * (title, url) и распознаёт капчу/блокировку. Встроены DuckDuckGo HTML, JSON API SearXNG и
+ * «свой» поисковик по шаблону URL и CSS-селекторам; выбор — в Options → Browser.
+ */
+
+export type SerpProviderId = "duckduckgo" | "searxng" | "custom";
+
+export type SerpHit = { title: string; url: string };
+
+export interface SerpProvider {
+  id: SerpProviderId;
+  /** Имя для сообщений модели и статуса в Options */
+  name: string;
+  /** Заголовок Accept запроса выдачи */
+  accept: string;
+  buildUrl(query: string): string;
+  parse(body: string): SerpHit[];
+  /**
+   * Причина, если вместо выдачи пришла капча, отказ или лимит запросов; null — обычный ответ.
+   * Вызывается для HTTP-ошибок и для ответов, в которых не нашлось ни одного результата.
+   */
+  detectBlock(status: number, body: string): string | null;
+}
+
+export const SERP_SYNC_DEFAULTS = {
+  serpProvider: "duckduckgo",
+  /** Адрес SearXNG: корень инстанса или его `/search` */
+  serpSearxngUrl: "",
+  /** URL выдачи своего поисковика, `{query}` — место запроса */
+  serpCustomUrl: "",
+  /** Блок одного результата (необязательно; без него ссылки ищутся по всей странице) */
+  serpCustomResultSelector: "",
+  /** Ссылка результата внутри блока */
+  serpCustomLinkSelector: "",
+  /** Заголовок внутри блока (необязательно; по умолчанию — текст ссылки) */
+  serpCustomTitleSelector: ""
+};
+
+export interface SerpSettings {
+  provider: SerpProviderId;
+  searxngUrl: string;
+  customUrl: string;
+  customResultSelector: string;
+  customLinkSelector: string;
+  customTitleSelector: string;
+}
+
+const BLOCKED_HOST_SUBSTRINGS = [
+  "duckduckgo.com",
+  "google.com/search",
+  "bing.com/search",
+  "yandex.ru/search",
+  "facebook.com",
+  "twitter.com",
+  "x.com",
+  "instagram.com",
+  "doubleclick.net",
+  "googlesyndication.com"
+];
+
+const HTML_ACCEPT = "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8";
+
+export function normalizeUrlKey(raw: string): string | null {
+  try {
+    const u = new URL(raw);
+    if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+    u.hash = "";
+    let s = u.href;
+    if (s.endsWith("/") && u.pathname.length > 1) s = s.slice(0, -1);
+    return s;
+  } catch {
+    return null;
+  }
+}
+
+/** Поисковики, соцсети и рекламные сети — не источники для web_research. */
+export function isBlockedHost(urlStr: string): boolean {
+  const low = urlStr.toLowerCase();
+  return BLOCKED_HOST_SUBSTRINGS.some((s) => low.includes(s));
+}
+
+/** Общий хвост разбора: нормализация, фильтр хостов, без повторов. */
+function collectHits(candidates: Iterable<{ title: string; url: string | null }>): SerpHit[] {
+  const out: SerpHit[] = [];
+  const seen = new Set<string>();
+  for (const { title, url } of candidates) {
+    if (!url || isBlockedHost(url) || seen.has(url)) continue;
+    seen.add(url);
+    out.push({ title: title.replace(/\s+/g, " ").trim() || url, url });
+  }
+  return out;
+}
+
+/** Разворачивает редиректы DuckDuckGo /l/?uddg=… в целевой URL. */
+export function resolveDuckRedirect(href: string): string | null {
+  try {
+    const u = new URL(href, "https://duckduckgo.com");
+    const uddg = u.searchParams.get("uddg");
+    if (uddg) {
+      try {
+        return normalizeUrlKey(decodeURIComponent(uddg));
+      } catch {
+        return null;
+      }
+    }
+    return normalizeUrlKey(u.href);
+  } catch {
+    return null;
+  }
+}
+
+/** Ссылка результата DuckDuckGo → целевой URL (редиректы /l/?uddg=… разворачиваются). */
+function duckResultUrl(href: string | null | undefined): string | null {
+  const raw = href?.trim();
+  if (!raw) return null;
+  try {
+    const abs = new URL(raw, "https://html.duckduckgo.com/html/").href;
+    return abs.includes("uddg=") || abs.includes("/l/?") ? resolveDuckRedirect(abs) : normalizeUrlKey(abs);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Извлекает пары (title, url) из HTML-выдачи DuckDuckGo (html.duckduckgo.com).
+ */
+export function parseDuckDuckGoSerpHtml(html: string): SerpHit[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return collectHits(
+    Array.from(doc.querySelectorAll("a.result__a")).map((a) => ({ title: a.textContent ?? "", url: duckResultUrl(a.getAttribute("href")) }))
+  );
+}
+
+/** Ответ SearXNG `format=json`: `results[].url/title`. Не JSON — ошибка (ловит вызывающий). */
+export function parseSearxngJson(body: string): SerpHit[] {
+  const data = JSON.parse(body) as { results?: { url?: unknown; title?: unknown }[] };
+  return collectHits(
+    (Array.isArray(data.results) ? data.results : []).map((r) => ({
+      title: typeof r.title === "string" ? r.title : "",
+      url: typeof r.url === "string" ? normalizeUrlKey(r.url) : null
+    }))
+  );
+}
+
+/**
+ * HTML-выдача своего поисковика по CSS-селекторам. Ссылки на сам поисковик (навигация, страницы
+ * выдачи) отбрасываются; относительные адреса считаются от URL выдачи.
+ */
+export function parseCustomSerpHtml(
+  html: string,
+  serpUrl: string,
+  selectors: { result?: string; link: string; title?: string }
+): SerpHit[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const ownHost = new URL(serpUrl).host;
+  const blocks = selectors.result ? Array.from(doc.querySelectorAll(selectors.result)) : [doc.documentElement];
+  const candidates: { title: string; url: string | null }[] = [];
+  for (const block of blocks) {
+    // Без блока результата каждая подходящая ссылка — отдельный результат
+    const links = selectors.result ? [block.querySelector(selectors.link)] : Array.from(block.querySelectorAll(selectors.link));
+    for (const link of links) {
+      const href = link?.getAttribute("href")?.trim();
+      if (!link || !href) continue;
+      let url: string | null;
+      try {
+        url = normalizeUrlKey(new URL(href, serpUrl).href);
+      } catch {
+        continue;
+      }
+      if (url && new URL(url).host === ownHost) continue;
+      const titleEl = selectors.title && selectors.result ? block.querySelector(selectors.title) : null;
+      candidates.push({ title: (titleEl ?? link).textContent ?? "", url });
+    }
+  }
+  return collectHits(candidates);
+}
+
+/** Отказ по HTTP-статусу, общий для провайдеров; null — статус ни о чём не говорит. */
+function blockedByStatus(status: number): string | null {
+  if (status === 429) return "too many requests (HTTP 429)";
+  if (status === 403) return "access denied (HTTP 403)";
+  return null;
+}
+
+const CAPTCHA_MARKERS = /captcha|unusual traffic|are you a robot|verify (that )?you are (a )?human/i;
+
+export const duckDuckGoSerpProvider: SerpProvider = {
+  id: "duckduckgo",
+  name: "DuckDuckGo",
+  accept: HTML_ACCEPT,
+  buildUrl: (query) => `https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`,
+  parse: parseDuckDuckGoSerpHtml,
+  detectBlock(status, body) {
+    // На подозрительные запросы DuckDuckGo отвечает 202 и страницей-«аномалией» с капчей
+    if (status === 202 || /anomaly-modal|bots use DuckDuckGo too/i.test(body)) return "CAPTCHA (automated traffic check)";
+    return blockedByStatus(status);
+  }
+};
+
+/** `https://searx.example` или `https://searx.example/search` → адрес `/search` без хвостового «/». */
+export function normalizeSearxngUrl(raw: string): string {
+  const base = raw.trim().replace(/\/+$/, "");
+  if (!base) return "";
+  return /\/search$/i.test(base) ? base : `${base}/search`;
+}
+
+export function searxngSerpProvider(instanceUrl: string): SerpProvider {
+  const endpoint = normalizeSearxngUrl(instanceUrl);
+  return {
+    id: "searxng",
+    name: "SearXNG",
+    accept: "application/json",
+    buildUrl: (query) => `${endpoint}?q=${encodeURIComponent(query)}&format=json`,
+    parse: parseSearxngJson,
+    detectBlock(status, body) {
+      if (status === 403) return "JSON API is disabled on this instance (add json to search.formats in settings.yml)";
+      const byStatus = blockedByStatus(status);
+      if (byStatus) return byStatus;
+      let data: { unresponsive_engines?: unknown };
+      try {
+        data = JSON.parse(body) as typeof data;
+      } catch {
+        return status >= 400 ? null : "the response is not JSON (check the instance URL)";
+      }
+      // Пустая выдача, потому что движки за SearXNG упёрлись в капчу или лимиты
+      const engines = Array.isArray(data.unresponsive_engines) ? (data.unresponsive_engines as unknown[]) : [];
+      const failed = engines
+        .filter((e): e is [string, string] => Array.isArray(e) && typeof e[0] === "string" && typeof e[1] === "string")
+        .map(([engine, reason]) => `${engine} (${reason})`);
+      return failed.length > 0 ? `no engine answered: ${failed.join(", ")}` : null;
+    }
+  };
+}
+
+export function customSerpProvider(opts: { url: string; resultSelector?: string; linkSelector: string; titleSelector?: string }): SerpProvider {
+  const selectors = { result: opts.resultSelector || undefined, link: opts.linkSelector, title: opts.titleSelector || undefined };
+  return {
+    id: "custom",
+    name: (() => {
+      try {
+        return new URL(opts.url.replace(/\{query\}/g, "q")).host;
+      } catch {
+        return "Custom search";
+      }
+    })(),
+    accept: HTML_ACCEPT,
+    buildUrl: (query) => opts.url.replace(/\{query\}/g, encodeURIComponent(query)),
+    parse(body) {
+      return parseCustomSerpHtml(body, opts.url.replace(/\{query\}/g, ""), selectors);
+    },
+    detectBlock(status, body) {
+      return blockedByStatus(status) ?? (CAPTCHA_MARKERS.test(body) ? "CAPTCHA" : null);
+    }
+  };
+}
+
+function parseProviderId(raw: unknown): SerpProviderId {
+  return raw === "searxng" || raw === "custom" ? raw : "duckduckgo";
+}
+
+export function parseSerpSettings(items: Record<string, unknown>): SerpSettings {
+  const str = (v: unknown) => String(v ?? "").trim();
+  return {
+    provider: parseProviderId(items.serpProvider),
+    searxngUrl: str(items.serpSearxngUrl),
+    customUrl: str(items.serpCustomUrl),
+    customResultSelector: str(items.serpCustomResultSelector),
+    customLinkSelector: str(items.serpCustomLinkSelector),
+    customTitleSelector: str(items.serpCustomTitleSelector)
+  };
+}
+
+function isHttpUrl(raw: string): boolean {
+  try {
+    const u = new URL(raw);
+    return u.protocol === "http:" || u.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Провайдер по настройкам; ошибка — настройки неполные (её видит и модель, и Options).
+ * Неверный CSS-селектор обнаруживается при разборе выдачи.
+ */
+export function createSerpProvider(settings: SerpSettings): SerpProvider | { error: string } {
+  if (settings.provider === "searxng") {
+    if (!isHttpUrl(settings.searxngUrl)) return { error: "SearXNG URL is not set (Options → Browser → Web search)." };
+    return searxngSerpProvider(settings.searxngUrl);
+  }
+  if (settings.provider === "custom") {
+    if (!isHttpUrl(settings.customUrl.replace(/\{query\}/g, "q")) || !settings.customUrl.includes("{query}")) {
+      return { error: "Custom search URL must be an http(s) URL with {query} (Options → Browser → Web search)." };
+    }
+    if (!settings.customLinkSelector) return { error: "Custom search needs a result link selector (Options → Browser → Web search)." };
+    return customSerpProvider({
+      url: settings.customUrl,
+      resultSelector: settings.customResultSelector,
+      linkSelector: settings.customLinkSelector,
+      titleSelector: settings.customTitleSelector
+    });
+  }
+  return duckDuckGoSerpProvider;
+}
+
+export function loadSerpProvider(): Promise<SerpProvider | { error: string }> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(SERP_SYNC_DEFAULTS, (items) => {
+      resolve(createSerpProvider(parseSerpSettings(items)));
+    });
+  });
+}
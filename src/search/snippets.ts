@@ -0,0 +1,106 @@
+/**
+ * Сниппеты результатов поиска: окно текста пассажа вокруг совпадений, диапазоны подсветки
+ * (слова, чья основа совпадает с основой слова запроса) и ссылка с text fragment (`#:~:text=`),
+ * по которой браузер прокручивает страницу к пассажу.
+ */
+import { analyze, stem, tokenSpans } from "./tokenizer";
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  /** Диапазоны подсветки внутри text, по возрастанию, без пересечений */
+  highlights: HighlightRange[];
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export const SNIPPET_MAX_CHARS = 220;
+/** Сколько символов контекста оставить перед первым совпадением */
+const SNIPPET_LEAD_CHARS = 60;
+/** Слов в начале и конце text fragment, если пассаж длинный */
+const FRAGMENT_EDGE_WORDS = 4;
+
+/** Диапазоны слов текста, совпадающих со словами запроса по основе; соседние CJK-биграммы сливаются. */
+export function highlightRanges(text: string, query: string): HighlightRange[] {
+  const terms = new Set(analyze(query));
+  if (terms.size === 0) return [];
+  const out: HighlightRange[] = [];
+  for (const span of tokenSpans(text)) {
+    if (!terms.has(stem(span.token))) continue;
+    const last = out[out.length - 1];
+    if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+    else out.push({ start: span.start, end: span.end });
+  }
+  return out;
+}
+
+/** Окно до maxChars вокруг первого совпадения (или начало текста), обрезанное по пробелам, с «…» по краям. */
+export function buildSnippet(text: string, query: string, maxChars = SNIPPET_MAX_CHARS): Snippet {
+  const source = text.replace(/\s+/g, " ").trim();
+  const ranges = highlightRanges(source, query);
+  let start = ranges.length > 0 ? Math.max(0, ranges[0].start - SNIPPET_LEAD_CHARS) : 0;
+  if (start > 0) {
+    const space = source.indexOf(" ", start);
+    start = space >= 0 && space < ranges[0].start ? space + 1 : start;
+  }
+  let end = Math.min(source.length, start + maxChars);
+  if (end < source.length) {
+    const space = source.lastIndexOf(" ", end);
+    if (space > start + maxChars / 2) end = space;
+  }
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < source.length ? "…" : "";
+  const highlights = ranges
+    .filter((r) => r.start >= start && r.end <= end)
+    .map((r) => ({ start: r.start - start + prefix.length, end: r.end - start + prefix.length }));
+  return { text: prefix + source.slice(start, end) + suffix, highlights };
+}
+
+/** Текст, разрезанный на обычные и подсвеченные куски (для вывода через textContent, без HTML). */
+export function snippetSegments(snippet: Snippet): SnippetSegment[] {
+  const out: SnippetSegment[] = [];
+  let pos = 0;
+  for (const h of snippet.highlights) {
+    if (h.start > pos) out.push({ text: snippet.text.slice(pos, h.start), match: false });
+    out.push({ text: snippet.text.slice(h.start, h.end), match: true });
+    pos = h.end;
+  }
+  if (pos < snippet.text.length) out.push({ text: snippet.text.slice(pos), match: false });
+  return out;
+}
+
+function encodeFragmentPart(text: string): string {
+  // «-», «,» и «&» — разделители синтаксиса text fragment
+  return encodeURIComponent(text).replace(/-/g, "%2D");
+}
+
+/**
+ * URL страницы с text fragment на пассаж: короткий пассаж целиком, длинный — `начало,конец`
+ * по первым и последним словам крайних строк (text fragment не ищет начало через границу блоков).
+ */
+export function textFragmentUrl(url: string, passage: string): string {
+  const lines = passage
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const base = url.replace(/:~:.*$/, "").replace(/#$/, "");
+  if (lines.length === 0) return base;
+  const firstWords = lines[0].split(" ");
+  const lastWords = lines[lines.length - 1].split(" ");
+  let directive: string;
+  if (lines.length === 1 && firstWords.length <= FRAGMENT_EDGE_WORDS * 2) {
+    directive = encodeFragmentPart(lines[0]);
+  } else {
+    const head = firstWords.slice(0, FRAGMENT_EDGE_WORDS).join(" ");
+    const tail = lastWords.slice(-FRAGMENT_EDGE_WORDS).join(" ");
+    directive = `${encodeFragmentPart(head)},${encodeFragmentPart(tail)}`;
+  }
+  return `${base}${base.includes("#") ? "" : "#"}:~:text=${directive}`;
+}
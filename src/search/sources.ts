@@ -13,6 +13,9 @@ export interface Source {
   title: string; // Page title
   url: string; // Full page URL
   excerpt?: string; // Optional: excerpt from the page
+  kind?: 'web'; // Document fetched by web_research, shown as a source card
+  score?: number; // web_research relevance to the query, 0..1
+  depth?: number; // web_research depth: 0 = search result, 1+ = followed link
 }
 
 /**
@@ -154,6 +157,44 @@ export function formatSourcesForDisplay(sources: Source[]): string {
     .join('\n');
 }
 
+/**
+ * Sources to show under an answer: passages with checked citation numbers stored in
+ * ChatMessage.sources ("Ask my pages"), otherwise the ones parsed from the response text
+ * plus web_research documents stored with the message. A parsed source whose URL was
+ * fetched by web_research becomes a card; documents the model did not list are appended.
+ */
+export function displaySources(
+  stored:
+    | ReadonlyArray<{ title: string; url: string; id?: number; excerpt?: string; kind?: 'web'; score?: number; depth?: number }>
+    | undefined,
+  parsed: Source[]
+): Source[] {
+  const cited = (stored ?? []).filter((s) => s.id != null);
+  if (cited.length > 0) return cited.map((s) => ({ id: s.id!, title: s.title, url: s.url, excerpt: s.excerpt }));
+
+  const web = new Map((stored ?? []).filter((s) => s.kind === 'web').map((s) => [s.url, s]));
+  if (web.size === 0) return parsed;
+  const shown = parsed.map((source) => {
+    const doc = web.get(source.url);
+    if (!doc) return source;
+    web.delete(source.url);
+    return { ...source, kind: 'web' as const, excerpt: doc.excerpt, score: doc.score, depth: doc.depth };
+  });
+  let nextId = shown.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+  for (const doc of web.values()) {
+    shown.push({ id: nextId++, title: doc.title, url: doc.url, excerpt: doc.excerpt, kind: 'web', score: doc.score, depth: doc.depth });
+  }
+  return shown;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
 /**
  * Create clickable source list for HTML
  * Returns array of source items with click handlers
@@ -175,7 +216,30 @@ export function createSourceListItems(
     a.target = '_blank';
     a.rel = 'noopener noreferrer';
 
-    li.appendChild(a);
+    if (source.kind === 'web') {
+      // web_research document: title, host with relevance, excerpt from the fetched page
+      li.className = 'source-card';
+      li.appendChild(a);
+      const meta = document.createElement('div');
+      meta.className = 'source-card-meta';
+      meta.textContent = source.score != null ? `${hostOf(source.url)} · ${Math.round(source.score * 100)}%` : hostOf(source.url);
+      li.appendChild(meta);
+    } else if (source.excerpt) {
+      // Passage citation ("Ask my pages"): number as in the answer text and the cited excerpt
+      const num = document.createElement('span');
+      num.className = 'source-citation-number';
+      num.textContent = `[${source.id}] `;
+      li.appendChild(num);
+      li.appendChild(a);
+    } else {
+      li.appendChild(a);
+    }
+    if (source.excerpt) {
+      const excerpt = document.createElement('div');
+      excerpt.className = 'source-excerpt';
+      excerpt.textContent = source.excerpt;
+      li.appendChild(excerpt);
+    }
 
     return {
       number: source.id,
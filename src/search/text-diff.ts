@@ -0,0 +1,178 @@
+/**
+ * Построчный и пословный diff текста страницы между двумя снимками (алгоритм Майерса).
+ * Общие начало и конец отрезаются заранее; если правок больше MAX_EDITS, середина считается заменённой целиком.
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffChunk {
+  op: DiffOp;
+  /** Текст подряд идущих токенов одной операции (строки соединены "\n") */
+  text: string;
+  /** Число строк или слов (без пробелов) в куске */
+  count: number;
+}
+
+export type DiffUnit = "lines" | "words";
+
+/** Предел правок для Майерса: память trace растёт как D², дальше — замена целиком. */
+const MAX_EDITS = 1000;
+
+type TokenOp = [DiffOp, string];
+
+function myersMiddle(a: readonly string[], b: readonly string[]): TokenOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map((t): TokenOp => ["insert", t]);
+  if (m === 0) return a.map((t): TokenOp => ["delete", t]);
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  v[offset + 1] = 0;
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, a, b, offset);
+    }
+  }
+  return [...a.map((t): TokenOp => ["delete", t]), ...b.map((t): TokenOp => ["insert", t])];
+}
+
+function backtrack(trace: Int32Array[], a: readonly string[], b: readonly string[], offset: number): TokenOp[] {
+  const out: TokenOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      out.push(["equal", a[x - 1]]);
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) out.push(["insert", b[y - 1]]);
+      else out.push(["delete", a[x - 1]]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return out.reverse();
+}
+
+function diffTokens(a: readonly string[], b: readonly string[]): TokenOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  return [
+    ...a.slice(0, start).map((t): TokenOp => ["equal", t]),
+    ...myersMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map((t): TokenOp => ["equal", t])
+  ];
+}
+
+function mergeChunks(ops: TokenOp[], unit: DiffUnit): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  const tokens: string[] = [];
+  let op: DiffOp | null = null;
+  const flush = () => {
+    if (op == null || tokens.length === 0) return;
+    const text = unit === "lines" ? tokens.join("\n") : tokens.join("");
+    const count = unit === "lines" ? tokens.length : tokens.filter((t) => t.trim() !== "").length;
+    chunks.push({ op, text, count });
+    tokens.length = 0;
+  };
+  for (const [nextOp, token] of ops) {
+    if (nextOp !== op) {
+      flush();
+      op = nextOp;
+    }
+    tokens.push(token);
+  }
+  flush();
+  return chunks;
+}
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split("\n");
+}
+
+/** Слова вместе с разделяющими пробелами: склейка токенов восстанавливает исходный текст. */
+function splitWords(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+export function diffLines(oldText: string, newText: string): DiffChunk[] {
+  return mergeChunks(diffTokens(splitLines(oldText), splitLines(newText)), "lines");
+}
+
+export function diffWords(oldText: string, newText: string): DiffChunk[] {
+  return mergeChunks(diffTokens(splitWords(oldText), splitWords(newText)), "words");
+}
+
+export function diffText(oldText: string, newText: string, unit: DiffUnit): DiffChunk[] {
+  return unit === "lines" ? diffLines(oldText, newText) : diffWords(oldText, newText);
+}
+
+export function diffStats(chunks: readonly DiffChunk[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const c of chunks) {
+    if (c.op === "insert") added += c.count;
+    else if (c.op === "delete") removed += c.count;
+  }
+  return { added, removed };
+}
+
+/**
+ * Построчный diff в виде unified-текста для промпта: `+`/`-` для изменений, по contextLines строк контекста,
+ * пропущенные неизменные строки — «…». Длинный diff обрезается до maxChars.
+ */
+export function formatLineDiff(
+  chunks: readonly DiffChunk[],
+  options: { contextLines?: number; maxChars?: number } = {}
+): string {
+  const context = options.contextLines ?? 2;
+  const maxChars = options.maxChars ?? 12_000;
+  const out: string[] = [];
+  chunks.forEach((chunk, i) => {
+    const lines = chunk.text.split("\n");
+    if (chunk.op === "insert") out.push(...lines.map((l) => `+ ${l}`));
+    else if (chunk.op === "delete") out.push(...lines.map((l) => `- ${l}`));
+    else {
+      const head = i > 0 ? lines.slice(0, context) : [];
+      const tail = i < chunks.length - 1 ? lines.slice(Math.max(head.length, lines.length - context)) : [];
+      out.push(...head.map((l) => `  ${l}`));
+      if (head.length + tail.length < lines.length) out.push("  …");
+      out.push(...tail.map((l) => `  ${l}`));
+    }
+  });
+  const text = out.join("\n");
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n[diff truncated]` : text;
+}
+
+/** Текст снимка: строки без крайних пробелов, пустые строки и повторные пробелы убраны — правки вёрстки не считаются изменениями. */
+export function normalizeSnapshotText(text: string): string {
+  return text
+    .split("\n")
+    .map((l) => l.replace(/[ \t\u00a0]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,356 @@
+/**
+ * Токенизация для поиска: слова — последовательности букв и цифр любого алфавита (классы Unicode),
+ * латиница без диакритики, «ё» = «е», текст на китайском, японском и корейском режется на биграммы.
+ * Для индекса (`analyze`) стоп-слова отбрасываются, английские и русские слова сводятся к основе
+ * облегчёнными стеммерами в духе Snowball.
+ */
+
+const WORD_RE = /[\p{L}\p{M}\p{N}]+/gu;
+// Script_Extensions: сюда же попадают «ー» и «々», общие для японских письменностей
+const CJK_CLASS = "\\p{scx=Han}\\p{scx=Hiragana}\\p{scx=Katakana}\\p{scx=Hangul}";
+const CJK_RE = new RegExp(`[${CJK_CLASS}]+`, "gu");
+const CJK_TEST_RE = new RegExp(`[${CJK_CLASS}]`, "u");
+
+const STOP_WORDS_EN = new Set(
+  (
+    "a an and are as at be but by for from has have he her his i if in into is it its me my no not of on or our " +
+    "she so than that the their them then there these they this those to too us was we were what when where which " +
+    "who whom why will with you your"
+  ).split(" ")
+);
+
+const STOP_WORDS_RU = new Set(
+  (
+    "а без бы в во вот все вы где да для до его ее если есть же за и из или им их к как ко когда кто ли мы на над не нет " +
+    "ни но о об он она они оно от по под при с со так там то тоже только у уже чем что чтобы это эти этот я"
+  ).split(" ")
+);
+
+/** Нижний регистр, NFC, латиница и греческий без диакритических знаков (café → cafe), «ё» → «е». */
+export function normalizeForSearch(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/([\p{Script=Latin}\p{Script=Greek}])\p{M}+/gu, "$1")
+    .normalize("NFC")
+    .replace(/ё/g, "е");
+}
+
+export function isCjkToken(token: string): boolean {
+  return CJK_TEST_RE.test(token);
+}
+
+/** Перекрывающиеся биграммы CJK-отрезка; одиночный иероглиф — сам по себе. */
+function cjkBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length < 2) return chars;
+  const out: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) out.push(chars[i] + chars[i + 1]);
+  return out;
+}
+
+/** Токены текста в порядке появления (без стемминга и стоп-слов). */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  for (const [word] of normalizeForSearch(text).matchAll(WORD_RE)) {
+    if (!CJK_TEST_RE.test(word)) {
+      out.push(word);
+      continue;
+    }
+    let last = 0;
+    for (const m of word.matchAll(CJK_RE)) {
+      if (m.index! > last) out.push(word.slice(last, m.index));
+      out.push(...cjkBigrams(m[0]));
+      last = m.index! + m[0].length;
+    }
+    if (last < word.length) out.push(word.slice(last));
+  }
+  return out;
+}
+
+export interface TokenSpan {
+  token: string;
+  /** Смещения в исходном (ненормализованном) тексте */
+  start: number;
+  end: number;
+}
+
+/** Те же токены, что у tokenize, но с позициями в исходном тексте — для подсветки. */
+export function tokenSpans(text: string): TokenSpan[] {
+  const out: TokenSpan[] = [];
+  for (const m of text.matchAll(WORD_RE)) {
+    const word = m[0];
+    const at = m.index!;
+    if (!CJK_TEST_RE.test(word)) {
+      out.push({ token: normalizeForSearch(word), start: at, end: at + word.length });
+      continue;
+    }
+    let last = 0;
+    for (const c of word.matchAll(CJK_RE)) {
+      if (c.index! > last) out.push({ token: normalizeForSearch(word.slice(last, c.index)), start: at + last, end: at + c.index! });
+      let pos = at + c.index!;
+      const chars = Array.from(c[0]);
+      if (chars.length < 2) out.push({ token: chars[0], start: pos, end: pos + chars[0].length });
+      for (let i = 0; i < chars.length - 1; i++) {
+        out.push({ token: chars[i] + chars[i + 1], start: pos, end: pos + chars[i].length + chars[i + 1].length });
+        pos += chars[i].length;
+      }
+      last = c.index! + c[0].length;
+    }
+    if (last < word.length) out.push({ token: normalizeForSearch(word.slice(last)), start: at + last, end: at + word.length });
+  }
+  return out;
+}
+
+export function isStopWord(token: string): boolean {
+  return STOP_WORDS_EN.has(token) || STOP_WORDS_RU.has(token);
+}
+
+// ---------------------------------------------------------------------------
+// Английский: Porter2 без списка исключений
+
+const EN_VOWELS = "aeiouy";
+const EN_DOUBLES = ["bb", "dd", "ff", "gg", "mm", "nn", "pp", "rr", "tt"];
+const EN_LI_ENDING = "cdeghkmnrt";
+
+const EN_STEP2: [string, string][] = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["abli", "able"],
+  ["entli", "ent"],
+  ["izer", "ize"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["aliti", "al"],
+  ["alli", "al"],
+  ["fulness", "ful"],
+  ["ousli", "ous"],
+  ["ousness", "ous"],
+  ["iveness", "ive"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["bli", "ble"],
+  ["fulli", "ful"],
+  ["lessli", "less"],
+  ["ogi", "og"]
+];
+
+const EN_STEP3: [string, string][] = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["alize", "al"],
+  ["icate", "ic"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""]
+];
+
+const EN_STEP4 = [
+  "ement", "ance", "ence", "able", "ible", "ment", "ant", "ent", "ism", "ate", "iti", "ous", "ive", "ize", "ion",
+  "al", "er", "ic"
+];
+
+function isEnVowel(ch: string | undefined): boolean {
+  return ch != null && EN_VOWELS.includes(ch);
+}
+
+/** Начало области после первой пары «гласная + согласная», начиная с from. */
+function enRegionAfter(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isEnVowel(word[i]) && isEnVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+function enEndsWithShortSyllable(word: string): boolean {
+  const n = word.length;
+  if (n === 2) return isEnVowel(word[0]) && !isEnVowel(word[1]);
+  return n >= 3 && !isEnVowel(word[n - 3]) && isEnVowel(word[n - 2]) && !isEnVowel(word[n - 1]) && !"wxY".includes(word[n - 1]);
+}
+
+function enContainsVowel(s: string): boolean {
+  return [...s].some(isEnVowel);
+}
+
+function longestSuffix(word: string, suffixes: readonly string[]): string | null {
+  let best: string | null = null;
+  for (const s of suffixes) if (word.endsWith(s) && (!best || s.length > best.length)) best = s;
+  return best;
+}
+
+export function stemEnglish(input: string): string {
+  if (input.length <= 2) return input;
+  let w = input.replace(/^y/, "Y").replace(/([aeiouy])y/g, "$1Y");
+  const r1 = /^(gener|commun|arsen)/.test(w) ? w.match(/^(gener|commun|arsen)/)![0].length : enRegionAfter(w, 0);
+  const r2 = enRegionAfter(w, r1);
+  const inR1 = (suffix: string) => w.length - suffix.length >= r1;
+  const inR2 = (suffix: string) => w.length - suffix.length >= r2;
+
+  // Шаг 1a
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ied") || w.endsWith("ies")) w = w.slice(0, -3) + (w.length > 4 ? "i" : "ie");
+  else if (w.endsWith("s") && !w.endsWith("us") && !w.endsWith("ss") && enContainsVowel(w.slice(0, -2))) w = w.slice(0, -1);
+
+  // Шаг 1b
+  const s1b = longestSuffix(w, ["eedly", "eed", "ingly", "edly", "ing", "ed"]);
+  if (s1b === "eed" || s1b === "eedly") {
+    if (inR1(s1b)) w = w.slice(0, -s1b.length) + "ee";
+  } else if (s1b && enContainsVowel(w.slice(0, -s1b.length))) {
+    w = w.slice(0, -s1b.length);
+    if (/(at|bl|iz)$/.test(w)) w += "e";
+    else if (EN_DOUBLES.some((d) => w.endsWith(d))) w = w.slice(0, -1);
+    else if (r1 >= w.length && enEndsWithShortSyllable(w)) w += "e";
+  }
+
+  // Шаг 1c
+  if (w.length > 2 && /[yY]$/.test(w) && !isEnVowel(w[w.length - 2])) w = w.slice(0, -1) + "i";
+
+  // Шаг 2
+  const s2 = longestSuffix(w, [...EN_STEP2.map(([s]) => s), "li"]);
+  if (s2 && inR1(s2)) {
+    if (s2 === "li") {
+      if (EN_LI_ENDING.includes(w[w.length - 3] ?? "")) w = w.slice(0, -2);
+    } else if (s2 === "ogi") {
+      if (w[w.length - 4] === "l") w = w.slice(0, -1);
+    } else {
+      w = w.slice(0, -s2.length) + EN_STEP2.find(([s]) => s === s2)![1];
+    }
+  }
+
+  // Шаг 3
+  const s3 = longestSuffix(w, [...EN_STEP3.map(([s]) => s), "ative"]);
+  if (s3 && inR1(s3)) {
+    if (s3 === "ative") {
+      if (inR2(s3)) w = w.slice(0, -5);
+    } else {
+      w = w.slice(0, -s3.length) + EN_STEP3.find(([s]) => s === s3)![1];
+    }
+  }
+
+  // Шаг 4
+  const s4 = longestSuffix(w, EN_STEP4);
+  if (s4 && inR2(s4) && (s4 !== "ion" || /[st]$/.test(w.slice(0, -3)))) w = w.slice(0, -s4.length);
+
+  // Шаг 5
+  if (w.endsWith("e") && (inR2("e") || (inR1("e") && !enEndsWithShortSyllable(w.slice(0, -1))))) w = w.slice(0, -1);
+  else if (w.endsWith("ll") && inR2("l")) w = w.slice(0, -1);
+
+  return w.replace(/Y/g, "y");
+}
+
+// ---------------------------------------------------------------------------
+// Русский: Snowball (Russian), окончания ищутся в RV — после первой гласной
+
+const RU_VOWELS = "аеиоуыэюя";
+const RU_PERFECTIVE_GERUND = [["в", "вши", "вшись"], ["ив", "ивши", "ившись", "ыв", "ывши", "ывшись"]];
+const RU_ADJECTIVE = [
+  "ее", "ие", "ые", "ое", "ими", "ыми", "ей", "ий", "ый", "ой", "ем", "им", "ым", "ом", "его", "ого", "ему", "ому",
+  "их", "ых", "ую", "юю", "ая", "яя", "ою", "ею"
+];
+const RU_PARTICIPLE = [["ем", "нн", "вш", "ющ", "щ"], ["ивш", "ывш", "ующ"]];
+const RU_REFLEXIVE = ["ся", "сь"];
+const RU_VERB = [
+  ["ла", "на", "ете", "йте", "ли", "й", "л", "ем", "н", "ло", "но", "ет", "ют", "ны", "ть", "ешь", "нно"],
+  [
+    "ила", "ыла", "ена", "ейте", "уйте", "ите", "или", "ыли", "ей", "уй", "ил", "ыл", "им", "ым", "ен", "ило", "ыло",
+    "ено", "ят", "ует", "уют", "ит", "ыт", "ены", "ить", "ыть", "ишь", "ую", "ю"
+  ]
+];
+const RU_NOUN = [
+  "а", "ев", "ов", "ие", "ье", "е", "иями", "ями", "ами", "еи", "ии", "и", "ией", "ей", "ой", "ий", "й", "иям", "ям",
+  "ием", "ем", "ам", "ом", "о", "у", "ах", "иях", "ях", "ы", "ь", "ию", "ью", "ю", "ия", "ья", "я"
+];
+
+/**
+ * Снять самое длинное окончание из групп в пределах rv: окончания первой группы допустимы
+ * только после «а»/«я» (сама буква остаётся). Возвращает слово без окончания или null.
+ */
+function ruRemove(word: string, rv: number, groups: readonly (readonly string[])[]): string | null {
+  let best = 0;
+  for (let gi = 0; gi < groups.length; gi++) {
+    const needsAYa = groups.length === 2 && gi === 0;
+    for (const s of groups[gi]) {
+      const cut = word.length - s.length;
+      if (s.length <= best || !word.endsWith(s) || cut < rv) continue;
+      if (needsAYa && ((word[cut - 1] !== "а" && word[cut - 1] !== "я") || cut - 1 < rv)) continue;
+      best = s.length;
+    }
+  }
+  return best > 0 ? word.slice(0, -best) : null;
+}
+
+export function stemRussian(input: string): string {
+  let rv = input.length;
+  for (let i = 0; i < input.length; i++) {
+    if (RU_VOWELS.includes(input[i])) {
+      rv = i + 1;
+      break;
+    }
+  }
+  let r2 = input.length;
+  const r1 = (() => {
+    for (let i = 1; i < input.length; i++) if (!RU_VOWELS.includes(input[i]) && RU_VOWELS.includes(input[i - 1])) return i + 1;
+    return input.length;
+  })();
+  for (let i = r1 + 1; i < input.length; i++) {
+    if (!RU_VOWELS.includes(input[i]) && RU_VOWELS.includes(input[i - 1])) {
+      r2 = i + 1;
+      break;
+    }
+  }
+
+  // Шаг 1
+  let w = input;
+  const gerund = ruRemove(w, rv, RU_PERFECTIVE_GERUND);
+  if (gerund != null) {
+    w = gerund;
+  } else {
+    w = ruRemove(w, rv, [RU_REFLEXIVE]) ?? w;
+    const adjective = ruRemove(w, rv, [RU_ADJECTIVE]);
+    if (adjective != null) {
+      w = ruRemove(adjective, rv, RU_PARTICIPLE) ?? adjective;
+    } else {
+      w = ruRemove(w, rv, RU_VERB) ?? ruRemove(w, rv, [RU_NOUN]) ?? w;
+    }
+  }
+
+  // Шаг 2
+  if (w.endsWith("и") && w.length - 1 >= rv) w = w.slice(0, -1);
+
+  // Шаг 3: словообразовательные -ост/-ость в R2
+  const derivational = longestSuffix(w, ["ость", "ост"]);
+  if (derivational && w.length - derivational.length >= r2) w = w.slice(0, -derivational.length);
+
+  // Шаг 4
+  if (w.endsWith("нн") && w.length - 2 >= rv) {
+    w = w.slice(0, -1);
+  } else {
+    const superlative = longestSuffix(w, ["ейше", "ейш"]);
+    if (superlative && w.length - superlative.length >= rv) {
+      w = w.slice(0, -superlative.length);
+      if (w.endsWith("нн") && w.length - 2 >= rv) w = w.slice(0, -1);
+    } else if (w.endsWith("ь") && w.length - 1 >= rv) {
+      w = w.slice(0, -1);
+    }
+  }
+  return w;
+}
+
+/** Основа слова: английский стеммер для [a-z], русский для [а-я]; прочие алфавиты и числа — как есть. */
+export function stem(token: string): string {
+  if (/^[a-z]+$/.test(token)) return stemEnglish(token);
+  if (/^[а-я]+$/.test(token)) return stemRussian(token);
+  return token;
+}
+
+/** Термы для индекса и запроса: токены без стоп-слов, сведённые к основе. */
+export function analyze(text: string): string[] {
+  return tokenize(text)
+    .filter((t) => !isStopWord(t))
+    .map(stem);
+}
@@ -0,0 +1,65 @@
+/**
+ * Векторный поиск по сохранённым страницам: эмбеддинг запроса той же моделью, что и страницы
+ * (профиль эмбеддингов), и косинусная близость к векторам из page_embeddings.
+ */
+import type { PageEmbedding, SearchResult } from "../types/messages";
+import type { Storage } from "../storage/indexdb";
+import { embedTexts } from "./embedding";
+import type { EmbeddingProvider } from "./embedding-queue";
+import { rankPassages } from "./passages";
+
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/** Ближайшие к вектору запроса страницы; векторы другой размерности пропускаются. */
+export function nearestPages(
+  queryVector: readonly number[],
+  embeddings: readonly PageEmbedding[],
+  limit = 20
+): { pageId: string; score: number }[] {
+  return embeddings
+    .filter((e) => e.vector.length === queryVector.length)
+    .map((e) => ({ pageId: e.pageId, score: cosineSimilarity(queryVector, e.vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Векторный поиск для гибридной выдачи. Выключенный профиль — пустой список;
+ * ошибка сервера эмбеддингов — `{ error }` (вызывающий остаётся с keyword-результатами).
+ */
+export async function vectorSearch(
+  storage: Storage,
+  provider: EmbeddingProvider,
+  query: string,
+  options: { limit?: number; signal?: AbortSignal } = {}
+): Promise<SearchResult[] | { error: string }> {
+  const { profile, config } = provider;
+  if (!profile.enabled || !profile.endpoint || !profile.model || !query.trim()) return [];
+  const embeddings = await storage.getPageEmbeddings(profile.model);
+  if (embeddings.length === 0) return [];
+  const embedded = await embedTexts([query], config, {
+    expectedDimensions: embeddings[0].dimensions,
+    maxRetries: 0,
+    signal: options.signal
+  });
+  if ("error" in embedded) return embedded;
+  const hits = nearestPages(embedded.vectors[0], embeddings, options.limit ?? 20);
+  const pages = new Map((await storage.getPagesByIds(hits.map((h) => h.pageId))).map((p) => [p.id, p]));
+  return hits.flatMap((hit) => {
+    const page = pages.get(hit.pageId);
+    if (!page) return [];
+    const [passage] = rankPassages(page, query, 1);
+    return [{ page, score: hit.score, ...(passage ? { passage } : {}) }];
+  });
+}
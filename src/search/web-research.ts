@@ -1,23 +1,13 @@
 /**
- * Локальный «агентский» веб-поиск без открытия вкладок: HTML-выдача → загрузка страниц → выбор ссылок по релевантности.
- * Без стороннего search API; хрупкость разбора SERP компенсируется fallback-сообщением для модели.
+ * Локальный «агентский» веб-поиск без открытия вкладок: выдача провайдера (см. serp-providers) → загрузка страниц →
+ * выбор ссылок по релевантности. Хрупкость разбора SERP компенсируется fallback-сообщением для модели.
  */
 
-import { tokenize } from "./keyword";
+import { analyze } from "./tokenizer";
 import { wrapUntrustedToolPayload } from "../agent/untrusted-content";
-
-const BLOCKED_HOST_SUBSTRINGS = [
-  "duckduckgo.com",
-  "google.com/search",
-  "bing.com/search",
-  "yandex.ru/search",
-  "facebook.com",
-  "twitter.com",
-  "x.com",
-  "instagram.com",
-  "doubleclick.net",
-  "googlesyndication.com"
-];
+import { duckDuckGoSerpProvider, isBlockedHost, normalizeUrlKey, type SerpHit, type SerpProvider } from "./serp-providers";
+import { createFetchQueue, fetchText, type PageFetchOutcome } from "./page-fetch";
+import { isCacheFresh, WEB_CACHE_SYNC_DEFAULTS, type WebCacheRecord, type WebFetchCache } from "./fetch-cache";
 
 export type WebResearchInput = {
   query: string;
@@ -31,8 +21,24 @@ export type WebResearchInput = {
   maxFollowPerPage: number;
   maxCharsPerPage: number;
   maxTotalReportChars: number;
+  /** Таймаут одной загрузки (выдача, страница) */
   timeoutMs: number;
+  /** Одновременных загрузок страниц всего и с одного хоста */
+  concurrency: number;
+  perHostConcurrency: number;
+  /** Общий бюджет времени исследования вместе с выдачей; после него новые страницы не загружаются */
+  budgetMs: number;
+  /** Не загружать страницы, закрытые robots.txt сайта */
+  respectRobots: boolean;
+  /** Кеш выдачи и страниц (fetch-cache); null — всё из сети */
+  cache: WebFetchCache | null;
+  /** Сколько запись кеша свежая; устаревшая перепроверяется условным запросом */
+  cacheTtlMs: number;
+  /** Только кеш: без запросов в сеть */
+  offline: boolean;
   fetchImpl: typeof fetch;
+  /** Откуда брать выдачу; по умолчанию DuckDuckGo HTML */
+  serpProvider: SerpProvider;
 };
 
 const DEFAULT_INPUT: Omit<WebResearchInput, "query" | "fetchImpl"> = {
@@ -42,45 +48,17 @@ const DEFAULT_INPUT: Omit<WebResearchInput, "query" | "fetchImpl"> = {
   maxFollowPerPage: 5,
   maxCharsPerPage: 14_000,
   maxTotalReportChars: 28_000,
-  timeoutMs: 14_000
+  timeoutMs: 14_000,
+  concurrency: 4,
+  perHostConcurrency: 2,
+  budgetMs: 45_000,
+  respectRobots: true,
+  cache: null,
+  cacheTtlMs: WEB_CACHE_SYNC_DEFAULTS.webCacheTtlHours * 60 * 60 * 1000,
+  offline: false,
+  serpProvider: duckDuckGoSerpProvider
 };
 
-export function normalizeUrlKey(raw: string): string | null {
-  try {
-    const u = new URL(raw);
-    if (u.protocol !== "http:" && u.protocol !== "https:") return null;
-    u.hash = "";
-    let s = u.href;
-    if (s.endsWith("/") && u.pathname.length > 1) s = s.slice(0, -1);
-    return s;
-  } catch {
-    return null;
-  }
-}
-
-/** Разворачивает редиректы DuckDuckGo /l/?uddg=… в целевой URL. */
-export function resolveDuckRedirect(href: string): string | null {
-  try {
-    const u = new URL(href, "https://duckduckgo.com");
-    const uddg = u.searchParams.get("uddg");
-    if (uddg) {
-      try {
-        return normalizeUrlKey(decodeURIComponent(uddg));
-      } catch {
-        return null;
-      }
-    }
-    return normalizeUrlKey(u.href);
-  } catch {
-    return null;
-  }
-}
-
-function isBlockedHost(urlStr: string): boolean {
-  const low = urlStr.toLowerCase();
-  return BLOCKED_HOST_SUBSTRINGS.some((s) => low.includes(s));
-}
-
 /** Годы вида 1999–2099 из запроса — для приоритизации свежих/релевантных сниппетов в выдаче и отрывках. */
 export function extractLikelyYearsFromQuery(query: string): string[] {
   const m = query.match(/\b(19|20)\d{2}\b/g);
@@ -106,39 +84,6 @@ export function prioritizeSerpHitsByYearInQuery(
   return [...hits].sort((a, b) => score(b) - score(a));
 }
 
-/**
- * Извлекает пары (title, url) из HTML-выдачи DuckDuckGo (html.duckduckgo.com).
- */
-export function parseDuckDuckGoSerpHtml(html: string): { title: string; url: string }[] {
-  const doc = new DOMParser().parseFromString(html, "text/html");
-  const out: { title: string; url: string }[] = [];
-  const seen = new Set<string>();
-
-  const anchors = doc.querySelectorAll("a.result__a");
-  for (const a of anchors) {
-    const href = a.getAttribute("href")?.trim();
-    if (!href) continue;
-    let resolved: string | null;
-    try {
-      const abs = new URL(href, "https://html.duckduckgo.com/html/").href;
-      if (abs.includes("uddg=") || abs.includes("/l/?")) {
-        resolved = resolveDuckRedirect(abs);
-      } else {
-        resolved = normalizeUrlKey(abs);
-      }
-    } catch {
-      continue;
-    }
-    if (!resolved || isBlockedHost(resolved)) continue;
-    const title = (a.textContent ?? "").trim() || resolved;
-    if (seen.has(resolved)) continue;
-    seen.add(resolved);
-    out.push({ title, url: resolved });
-  }
-
-  return out;
-}
-
 export type ExtractedPage = {
   url: string;
   title: string;
@@ -195,7 +140,7 @@ function scoreLinkAgainstQuery(
       return link.href;
     }
   })();
-  const toks = tokenize(`${link.anchor} ${path}`);
+  const toks = analyze(`${link.anchor} ${path}`);
   let s = 0;
   for (const t of toks) {
     if (queryTokens.has(t)) s += 1;
@@ -208,7 +153,7 @@ function scoreLinkAgainstQuery(
 }
 
 function pickFollowLinks(page: ExtractedPage, query: string, maxN: number, yearHints: string[]): string[] {
-  const q = new Set(tokenize(query));
+  const q = new Set(analyze(query));
   if (q.size === 0 && yearHints.length === 0) return [];
   const scored = page.links.map((l) => ({ href: l.href, s: scoreLinkAgainstQuery(l, q, yearHints) }));
   scored.sort((a, b) => b.s - a.s);
@@ -225,7 +170,7 @@ function pickFollowLinks(page: ExtractedPage, query: string, maxN: number, yearH
 }
 
 function excerptForQuery(text: string, query: string, maxLen: number, yearHints: string[]): string {
-  const q = new Set(tokenize(query));
+  const q = new Set(analyze(query));
   const slice = text.slice(0, Math.min(text.length, maxLen * 4));
   if (q.size === 0 && yearHints.length === 0) return slice.slice(0, maxLen);
   const paras = slice
@@ -239,7 +184,7 @@ function excerptForQuery(text: string, query: string, maxLen: number, yearHints:
     for (const y of lowYears) if (pl.includes(y)) ys += 3;
     return {
       p,
-      s: tokenize(p).filter((t) => q.has(t)).length + ys
+      s: analyze(p).filter((t) => q.has(t)).length + ys
     };
   });
   scored.sort((a, b) => b.s - a.s);
@@ -252,40 +197,154 @@ function excerptForQuery(text: string, query: string, maxLen: number, yearHints:
   return out.slice(0, maxLen);
 }
 
-async function fetchText(
+function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 100) / 10} s`;
+}
+
+/** Итог по URL: загрузка очередью или копия из кеша. */
+type ResearchOutcome =
+  | PageFetchOutcome
+  | { state: "cached"; url: string; fetchedAt: number; reason: "fresh" | "revalidated" | "offline" | "fallback"; error?: string }
+  | { state: "offline"; url: string };
+
+/** Строка статуса URL в отчёте: модель видит, что не загрузилось и почему. */
+function describeFetchOutcome(outcome: ResearchOutcome, budgetMs: number): string {
+  switch (outcome.state) {
+    case "ok":
+      return `fetched (HTTP ${outcome.status}, ${outcome.mime}, ${outcome.charset}, ${outcome.ms} ms)`;
+    case "failed":
+      return `failed: ${outcome.error}${outcome.error === "timeout" ? ` after ${outcome.ms} ms` : ""}`;
+    case "unsupported":
+      return `skipped: ${outcome.mime} is not a readable page`;
+    case "robots":
+      return "skipped: disallowed by robots.txt";
+    case "budget":
+      return `not fetched: time budget of ${formatSeconds(budgetMs)} ran out`;
+    case "not-modified":
+      return "not modified (HTTP 304)";
+    case "offline":
+      return "not fetched: offline mode and no cached copy";
+    case "cached": {
+      const at = new Date(outcome.fetchedAt).toISOString();
+      if (outcome.reason === "revalidated") return `not modified (HTTP 304), cached copy from ${at}`;
+      if (outcome.reason === "fallback") return `failed: ${outcome.error}; used cached copy from ${at}`;
+      return `from cache (${outcome.reason === "offline" ? "offline mode, " : ""}fetched ${at})`;
+    }
+  }
+}
+
+export type SerpFetchResult = { hits: SerpHit[] } | { error: string; kind: "fetch" | "blocked" | "parse" };
+
+/**
+ * Выдача провайдера по запросу. HTTP-ошибка и пустая выдача проверяются на капчу/блокировку —
+ * тогда `kind: "blocked"` с причиной от провайдера. Общая для web_research и кнопки Test в Options.
+ */
+export async function fetchSerpHits(
+  provider: SerpProvider,
+  query: string,
   fetchImpl: typeof fetch,
-  url: string,
-  timeoutMs: number
-): Promise<{ ok: true; html: string } | { ok: false; error: string }> {
-  const ctrl = new AbortController();
-  const t = setTimeout(() => ctrl.abort(), timeoutMs);
+  timeoutMs = DEFAULT_INPUT.timeoutMs
+): Promise<SerpFetchResult> {
+  const res = await fetchText(fetchImpl, provider.buildUrl(query), { timeoutMs, accept: provider.accept });
+  if (!res.ok) {
+    const blocked = res.status != null ? provider.detectBlock(res.status, res.body ?? "") : null;
+    return blocked ? { error: blocked, kind: "blocked" } : { error: res.error, kind: "fetch" };
+  }
+  let hits: SerpHit[];
   try {
-    const res = await fetchImpl(url, {
-      signal: ctrl.signal,
-      headers: {
-        Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
-        "User-Agent": "PageAI/1.0 (local research; +https://github.com/mussolene/pageai)"
-      }
-    });
-    if (!res.ok) return { ok: false, error: `HTTP ${res.status}` };
-    const html = await res.text();
-    if (html.length > 2_500_000) return { ok: false, error: "response too large" };
-    return { ok: true, html };
+    hits = provider.parse(res.html);
   } catch (e) {
-    const msg = e instanceof Error ? e.message : String(e);
-    return { ok: false, error: msg.includes("abort") ? "timeout" : msg };
-  } finally {
-    clearTimeout(t);
+    const blocked = provider.detectBlock(res.status, res.html);
+    if (blocked) return { error: blocked, kind: "blocked" };
+    return { error: e instanceof Error ? e.message : String(e), kind: "parse" };
+  }
+  if (hits.length === 0) {
+    const blocked = provider.detectBlock(res.status, res.html);
+    if (blocked) return { error: blocked, kind: "blocked" };
+  }
+  return { hits };
+}
+
+function serpErrorMessage(provider: SerpProvider, serp: Extract<SerpFetchResult, { error: string }>): string {
+  if (serp.kind === "blocked") {
+    return (
+      `${provider.name} refused the search request: ${serp.error}. ` +
+      `Use open_search_tab to open results in a browser tab, or ask the user to pick another search provider in Options → Browser.`
+    );
+  }
+  if (serp.kind === "parse") {
+    return (
+      `Could not parse ${provider.name} search results (format may have changed: ${serp.error}). ` +
+      "Use open_search_tab to open results in a tab for the user."
+    );
   }
+  return (
+    `Could not load search results from ${provider.name} (${serp.error}). ` +
+    `You can use open_search_tab to open results in a browser tab, or ask the user to try again later.`
+  );
+}
+
+/** Документ, попавший в отчёт web_research, — источник для карточки под ответом. */
+export type WebResearchDocument = {
+  url: string;
+  title: string;
+  /** Отрывок по запросу, до EXCERPT_CHARS символов */
+  excerpt: string;
+  /** 0 — из выдачи, дальше — по ссылкам со страниц */
+  depth: number;
+  /** Доля слов запроса, найденных в заголовке и тексте (0–1) */
+  score: number;
+};
+
+export type WebResearchResult = {
+  /** Отчёт для модели */
+  text: string;
+  /** Документы отчёта, самые релевантные первыми */
+  documents: WebResearchDocument[];
+};
+
+const EXCERPT_CHARS = 280;
+/** Дальше начала длинной страницы слова запроса не ищутся. */
+const SCORE_SCAN_CHARS = 50_000;
+
+/** Релевантность страницы запросу: доля различных слов запроса (после analyze) в заголовке и тексте. */
+export function relevanceScore(page: Pick<ExtractedPage, "title" | "text">, query: string): number {
+  const terms = new Set(analyze(query));
+  if (terms.size === 0) return 0;
+  const found = new Set(analyze(`${page.title} ${page.text.slice(0, SCORE_SCAN_CHARS)}`));
+  let hit = 0;
+  for (const t of terms) if (found.has(t)) hit++;
+  return Math.round((hit / terms.size) * 100) / 100;
 }
 
+function clipExcerpt(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= EXCERPT_CHARS) return flat;
+  const cut = flat.slice(0, EXCERPT_CHARS);
+  const space = cut.lastIndexOf(" ");
+  return `${space > EXCERPT_CHARS * 0.6 ? cut.slice(0, space) : cut}…`;
+}
+
+/** Отчёт web_research для модели (см. runWebResearchDetailed). */
 export async function runWebResearch(
   query: string,
   fetchImpl: typeof fetch,
   overrides: Partial<Omit<WebResearchInput, "query" | "fetchImpl">> = {}
 ): Promise<string> {
+  return (await runWebResearchDetailed(query, fetchImpl, overrides)).text;
+}
+
+/**
+ * web_research целиком: отчёт для модели и список документов, вошедших в отчёт, — фон прикрепляет
+ * их к ответу как источники, даже если модель не перечислила их сама.
+ */
+export async function runWebResearchDetailed(
+  query: string,
+  fetchImpl: typeof fetch,
+  overrides: Partial<Omit<WebResearchInput, "query" | "fetchImpl">> = {}
+): Promise<WebResearchResult> {
   const q = query.trim();
-  if (!q) return "Error: empty query.";
+  if (!q) return { text: "Error: empty query.", documents: [] };
 
   const opt: WebResearchInput = {
     query: q,
@@ -294,80 +353,79 @@ export async function runWebResearch(
     ...overrides
   };
 
-  const serpUrl = `https://html.duckduckgo.com/html/?q=${encodeURIComponent(q)}`;
-  const serpRes = await fetchText(fetchImpl, serpUrl, opt.timeoutMs);
-  if (!serpRes.ok) {
-    return (
-      `Could not load search results (${serpRes.error}). ` +
-      `You can use open_search_tab to open results in a browser tab, or ask the user to try again later.`
-    );
-  }
+  const deadline = Date.now() + opt.budgetMs;
+  const provider = opt.serpProvider;
+  const cache = opt.cache;
+  const fromCache = async (url: string): Promise<WebCacheRecord | null> => (cache ? cache.get(url).catch(() => null) : null);
+  const toCache = (record: WebCacheRecord): void => {
+    if (cache && !opt.offline) void cache.put(record).catch(() => {});
+  };
 
-  let serpHits: { title: string; url: string }[];
-  try {
-    const parsed = parseDuckDuckGoSerpHtml(serpRes.html);
-    serpHits = prioritizeSerpHitsByYearInQuery(parsed, q).slice(0, opt.serpLimit);
-  } catch {
-    return (
-      "Could not parse search results HTML (format may have changed). " +
-      "Use open_search_tab to open DuckDuckGo in a tab for the user."
-    );
+  const serpUrl = provider.buildUrl(q);
+  const cachedSerp = await fromCache(serpUrl);
+  const serpCopy = cachedSerp?.kind === "serp" ? cachedSerp : null;
+  let hits: SerpHit[];
+  let serpNote = "";
+  if (serpCopy && (opt.offline || isCacheFresh(serpCopy, opt.cacheTtlMs))) {
+    hits = serpCopy.hits;
+    serpNote = ` (cached ${new Date(serpCopy.fetchedAt).toISOString()})`;
+  } else if (opt.offline) {
+    return {
+      text:
+        `Offline mode: there are no cached ${provider.name} results for "${q}". ` +
+        "Answer from what you already have, or ask the user to turn off offline mode in Options → Browser → Web search.",
+      documents: []
+    };
+  } else {
+    const serp = await fetchSerpHits(provider, q, fetchImpl, Math.min(opt.timeoutMs, opt.budgetMs));
+    if ("error" in serp && serpCopy && serp.kind === "fetch") {
+      // Сеть недоступна — устаревшая выдача лучше, чем никакой
+      hits = serpCopy.hits;
+      serpNote = ` (cached ${new Date(serpCopy.fetchedAt).toISOString()}; live request failed: ${serp.error})`;
+    } else if ("error" in serp) {
+      return { text: serpErrorMessage(provider, serp), documents: [] };
+    } else {
+      hits = serp.hits;
+      if (hits.length > 0) toCache({ kind: "serp", url: serpUrl, hits, fetchedAt: Date.now() });
+    }
   }
 
+  const serpHits = prioritizeSerpHitsByYearInQuery(hits, q).slice(0, opt.serpLimit);
   if (serpHits.length === 0) {
-    return "No result links parsed from the search page. Try a simpler query or use open_search_tab to open results in a browser tab.";
+    return {
+      text: "No result links parsed from the search page. Try a simpler query or use open_search_tab to open results in a browser tab.",
+      documents: []
+    };
   }
 
   const yearHints = extractLikelyYearsFromQuery(q);
 
-  type Job = { url: string; depth: number; via: string | null };
-  const reportParts: string[] = [];
-  let totalChars = 0;
-
-  const queued = new Set<string>();
-  const queue: Job[] = [];
-  for (const h of serpHits) {
-    const k = normalizeUrlKey(h.url);
-    if (!k || queued.has(k)) continue;
-    queued.add(k);
-    queue.push({ url: h.url, depth: 0, via: null });
-  }
-
   const header =
     `# Web research (local fetch, no tabs opened)\n` +
     `Query: ${q}\n` +
-    `Plan: up to ${opt.maxPages} page(s), depth ≤ ${opt.maxDepth} (depth 0 = SERP hits; deeper = cross-links scored by query terms).\n\n`;
-
-  totalChars += header.length;
-
-  const finished = new Set<string>();
-  while (queue.length > 0 && finished.size < opt.maxPages) {
-    const job = queue.shift()!;
-    const nk = normalizeUrlKey(job.url);
-    if (!nk) continue;
-    if (finished.has(nk)) continue;
-    finished.add(nk);
-
-    const pageRes = await fetchText(opt.fetchImpl, job.url, opt.timeoutMs);
-    if (!pageRes.ok) {
-      const line = `## Fetch failed\nURL: ${job.url}\nDepth: ${job.depth}\nError: ${pageRes.error}\n\n`;
-      if (totalChars + line.length > opt.maxTotalReportChars) break;
-      reportParts.push(line);
-      totalChars += line.length;
-      continue;
-    }
+    `Search results: ${provider.name}${serpNote}\n` +
+    `Plan: up to ${opt.maxPages} page(s), depth ≤ ${opt.maxDepth} (depth 0 = SERP hits; deeper = cross-links scored by query terms).\n` +
+    `Fetching: ≤ ${opt.concurrency} at once, ≤ ${opt.perHostConcurrency} per host, time budget ${formatSeconds(opt.budgetMs)}` +
+    `${opt.respectRobots ? ", robots.txt respected" : ""}.\n` +
+    (opt.offline ? "Offline mode: cached pages only, nothing fetched from the network.\n\n" : "\n");
 
-    let extracted: ExtractedPage;
-    try {
-      extracted = extractReadablePage(pageRes.html, job.url);
-    } catch {
-      const line = `## Parse failed\nURL: ${job.url}\nDepth: ${job.depth}\n\n`;
-      if (totalChars + line.length > opt.maxTotalReportChars) break;
-      reportParts.push(line);
-      totalChars += line.length;
-      continue;
-    }
+  type Job = { url: string; depth: number; via: string | null };
+  type Done = { job: Job; seq: number; outcome: ResearchOutcome; block?: string; doc?: WebResearchDocument; note?: string };
+  const fetchQueue = createFetchQueue({
+    fetchImpl: opt.fetchImpl,
+    concurrency: opt.concurrency,
+    perHostConcurrency: opt.perHostConcurrency,
+    timeoutMs: opt.timeoutMs,
+    deadline,
+    respectRobots: opt.respectRobots
+  });
+  const queued = new Set<string>();
+  const done: Done[] = [];
+  const running: Promise<void>[] = [];
+  // Размер отчёта по уже загруженным страницам: заполненный отчёт не тянет новые ссылки
+  let reportChars = header.length;
 
+  const report = (job: Job, seq: number, outcome: ResearchOutcome, extracted: ExtractedPage): Done => {
     const ex = excerptForQuery(extracted.text, q, Math.min(3500, opt.maxCharsPerPage), yearHints);
     const viaLine = job.via ? `Cross-link from: ${job.via}\n` : "";
     const block =
@@ -376,21 +434,104 @@ export async function runWebResearch(
       `Depth: ${job.depth}\n` +
       viaLine +
       `Excerpt:\n${ex}\n\n`;
+    reportChars += block.length;
+
+    if (job.depth < opt.maxDepth && reportChars < opt.maxTotalReportChars) {
+      for (const u of pickFollowLinks(extracted, q, opt.maxFollowPerPage, yearHints)) {
+        schedule({ url: u, depth: job.depth + 1, via: extracted.url });
+      }
+    }
+    const doc: WebResearchDocument = {
+      url: extracted.url,
+      title: extracted.title,
+      excerpt: clipExcerpt(ex),
+      depth: job.depth,
+      score: relevanceScore(extracted, q)
+    };
+    return { job, seq, outcome, block, doc };
+  };
+
+  /** Страница из кеша (свежая или в offline), иначе из сети — условным запросом, если есть старая копия. */
+  const research = async (job: Job, seq: number): Promise<Done> => {
+    const cached = await fromCache(job.url);
+    const copy = cached?.kind === "page" ? cached : null;
+    if (copy && (opt.offline || isCacheFresh(copy, opt.cacheTtlMs))) {
+      const reason = opt.offline ? "offline" : "fresh";
+      return report(job, seq, { state: "cached", url: job.url, fetchedAt: copy.fetchedAt, reason }, copy.page);
+    }
+    if (opt.offline) return { job, seq, outcome: { state: "offline", url: job.url } };
+
+    const outcome = await fetchQueue.fetch(job.url, copy ? { etag: copy.etag, lastModified: copy.lastModified } : undefined);
+    if (copy && outcome.state === "not-modified") {
+      toCache({ ...copy, fetchedAt: Date.now() });
+      return report(job, seq, { state: "cached", url: job.url, fetchedAt: copy.fetchedAt, reason: "revalidated" }, copy.page);
+    }
+    if (copy && outcome.state === "failed") {
+      const fallback = { state: "cached", url: job.url, fetchedAt: copy.fetchedAt, reason: "fallback", error: outcome.error } as const;
+      return report(job, seq, fallback, copy.page);
+    }
+    if (outcome.state !== "ok") return { job, seq, outcome };
+    let extracted: ExtractedPage;
+    try {
+      extracted =
+        outcome.mime === "text/plain"
+          ? { url: job.url, title: job.url, text: outcome.text, links: [] }
+          : extractReadablePage(outcome.text, job.url);
+    } catch {
+      return { job, seq, outcome, note: "HTML could not be parsed" };
+    }
+    toCache({
+      kind: "page",
+      url: job.url,
+      mime: outcome.mime,
+      charset: outcome.charset,
+      page: extracted,
+      fetchedAt: Date.now(),
+      ...outcome.validators
+    });
+    return report(job, seq, outcome, extracted);
+  };
 
-    if (totalChars + block.length > opt.maxTotalReportChars) break;
-    reportParts.push(block);
-    totalChars += block.length;
-
-    if (job.depth < opt.maxDepth && finished.size < opt.maxPages) {
-      const follow = pickFollowLinks(extracted, q, opt.maxFollowPerPage, yearHints);
-      for (const u of follow) {
-        const fk = normalizeUrlKey(u);
-        if (!fk || queued.has(fk)) continue;
-        queued.add(fk);
-        queue.push({ url: u, depth: job.depth + 1, via: extracted.url });
+  const schedule = (job: Job): void => {
+    const k = normalizeUrlKey(job.url);
+    if (!k || queued.has(k) || queued.size >= opt.maxPages) return;
+    queued.add(k);
+    const seq = queued.size;
+    running.push(
+      research(job, seq).then((d) => {
+        done.push(d);
+      })
+    );
+  };
+
+  for (const h of serpHits) schedule({ url: h.url, depth: 0, via: null });
+  // Ссылки, найденные на загруженных страницах, ставятся в очередь по ходу — ждём, пока новых не останется
+  while (running.length > 0) await Promise.all(running.splice(0));
+
+  // Отчёт не зависит от того, какая загрузка закончилась раньше: сначала выдача, потом глубже
+  done.sort((a, b) => a.job.depth - b.job.depth || a.seq - b.seq);
+  let totalChars = header.length;
+  const reportParts: string[] = [];
+  const statusLines: string[] = [];
+  const documents: WebResearchDocument[] = [];
+  for (const d of done) {
+    let note = d.note;
+    if (d.block) {
+      if (totalChars + d.block.length > opt.maxTotalReportChars) note = "left out of the report (size limit)";
+      else {
+        reportParts.push(d.block);
+        totalChars += d.block.length;
+        if (d.doc) documents.push(d.doc);
       }
     }
+    statusLines.push(`- ${d.job.url} — ${describeFetchOutcome(d.outcome, opt.budgetMs)}${note ? `; ${note}` : ""}`);
   }
+  const statusSection = `## Fetch status\n${statusLines.join("\n")}\n`;
 
-  return wrapUntrustedToolPayload("web_research (fetched HTML pages)", header + reportParts.join(""));
+  // sort стабилен: при равной релевантности остаётся порядок отчёта
+  documents.sort((a, b) => b.score - a.score);
+  return {
+    text: wrapUntrustedToolPayload("web_research (fetched HTML pages)", header + reportParts.join("") + statusSection),
+    documents
+  };
 }
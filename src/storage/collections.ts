@@ -0,0 +1,104 @@
+/**
+ * Коллекции сохранённых страниц: ключ коллекции лежит в `Page.spaceKey` (индекс `by_spaceKey`).
+ * Страница попадает в коллекцию вручную (панель, вкладка Search) или по правилу URL при индексации.
+ * Правила — в `chrome.storage.sync`, по одному на строку: `шаблон коллекция`.
+ */
+
+export const COLLECTION_SYNC_DEFAULTS = {
+  /** Строки «шаблон коллекция», см. parseCollectionRules */
+  collectionRules: ""
+} as const;
+
+export interface CollectionRule {
+  pattern: string;
+  /** Имя коллекции; `$1`…`$9` — куски URL, совпавшие с `*` шаблона */
+  collection: string;
+  regex: RegExp;
+}
+
+/** Коллекция в списке панели: ключ и число страниц. */
+export interface CollectionSummary {
+  key: string;
+  count: number;
+}
+
+const COLLECTION_KEY_MAX_LEN = 64;
+
+/**
+ * Ключ коллекции из ввода пользователя: без кавычек и пробелов (пробелы → «-»), чтобы он
+ * годился для оператора `space:` языка запросов. Пустая строка — «без коллекции».
+ */
+export function normalizeCollectionKey(raw: string): string {
+  return raw
+    .trim()
+    .replace(/["']/g, "")
+    .replace(/\s+/g, "-")
+    .slice(0, COLLECTION_KEY_MAX_LEN);
+}
+
+/**
+ * Шаблон URL → регулярное выражение по `хост/путь` (без схемы, query и #):
+ * `*` — часть одного сегмента пути (захватывается для `$N`), `**` — что угодно, `/**` в конце — и ничего.
+ */
+function patternToRegex(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (pattern.startsWith("/**", i) && i + 3 === pattern.length) {
+      source += "(?:/.*)?";
+      break;
+    }
+    if (pattern.startsWith("**", i)) {
+      source += ".*";
+      i += 1;
+    } else if (ch === "*") {
+      source += "([^/]*)";
+    } else {
+      source += ch.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function parseCollectionRules(text: string): CollectionRule[] {
+  const out: CollectionRule[] = [];
+  for (const line of text.split("\n")) {
+    const m = line.trim().match(/^(\S+)\s+(\S+)$/);
+    if (!m || m[1].startsWith("#")) continue;
+    const pattern = m[1].replace(/^[a-z]+:\/\//i, "");
+    out.push({ pattern, collection: m[2], regex: patternToRegex(pattern) });
+  }
+  return out;
+}
+
+/** `хост/путь` URL для сравнения с шаблонами правил; null — не http(s). */
+function ruleTarget(url: string): string | null {
+  try {
+    const u = new URL(url);
+    if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+    return `${u.host.toLowerCase()}${decodeURIComponent(u.pathname)}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Коллекция по первому подходящему правилу; undefined — ни одно не подошло (или пустой ключ). */
+export function collectionForUrl(url: string, rules: readonly CollectionRule[]): string | undefined {
+  const target = ruleTarget(url);
+  if (!target) return undefined;
+  for (const rule of rules) {
+    const m = target.match(rule.regex);
+    if (!m) continue;
+    const key = normalizeCollectionKey(rule.collection.replace(/\$([1-9])/g, (_, n: string) => m[Number(n)] ?? ""));
+    if (key) return key;
+  }
+  return undefined;
+}
+
+export function loadCollectionRules(): Promise<CollectionRule[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(COLLECTION_SYNC_DEFAULTS, (items) => {
+      resolve(parseCollectionRules(String(items.collectionRules ?? "")));
+    });
+  });
+}
@@ -0,0 +1,248 @@
+/**
+ * Шифрование содержимого IndexedDB (WebCrypto): ключ AES-GCM выводится из пароля через PBKDF2.
+ * Шифруются отдельные поля записей — ключи, индексы и метаданные (url, даты, conversationId) остаются открытыми.
+ */
+import type { ChatMessage, Conversation, Page, PageEmbedding, PageSnapshot } from "../types/messages";
+
+export const PBKDF2_ITERATIONS = 310_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+/** Известный открытый текст: по нему проверяется пароль без расшифровки данных. */
+const VERIFIER_PLAINTEXT = "pageai-encryption-verifier";
+
+/** Зашифрованное поле записи. */
+export interface EncryptedValue {
+  __enc: 1;
+  iv: string;
+  data: string;
+}
+
+/** Параметры шифрования (`chrome.storage.local`); сам ключ здесь не хранится. */
+export interface EncryptionMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  verifier: EncryptedValue;
+  createdAt: string;
+}
+
+export function isEncryptedValue(v: unknown): v is EncryptedValue {
+  return (
+    v != null &&
+    typeof v === "object" &&
+    (v as EncryptedValue).__enc === 1 &&
+    typeof (v as EncryptedValue).iv === "string" &&
+    typeof (v as EncryptedValue).data === "string"
+  );
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
+}
+
+export function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+/** Ключ извлекаемый: его сырые байты кладутся в chrome.storage.session до конца сессии браузера. */
+export async function deriveEncryptionKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey"
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function exportRawKey(key: CryptoKey): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+}
+
+export async function importRawKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", base64ToBytes(raw), { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text));
+  return { __enc: 1, iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+}
+
+/** Бросает исключение при неверном ключе или повреждённых данных (AES-GCM проверяет целостность). */
+export async function decryptText(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(value.iv) },
+    key,
+    base64ToBytes(value.data)
+  );
+  return new TextDecoder().decode(plain);
+}
+
+/** Новые параметры и ключ для пароля (включение шифрования или смена пароля). */
+export async function createEncryptionMeta(
+  passphrase: string,
+  iterations = PBKDF2_ITERATIONS
+): Promise<{ meta: EncryptionMeta; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveEncryptionKey(passphrase, salt, iterations);
+  const meta: EncryptionMeta = {
+    version: 1,
+    salt: bytesToBase64(salt),
+    iterations,
+    verifier: await encryptText(key, VERIFIER_PLAINTEXT),
+    createdAt: new Date().toISOString()
+  };
+  return { meta, key };
+}
+
+/** true — ключ соответствует параметрам шифрования. */
+export async function keyMatchesMeta(key: CryptoKey, meta: EncryptionMeta): Promise<boolean> {
+  try {
+    return (await decryptText(key, meta.verifier)) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+/** Ключ по паролю; null — пароль неверный. */
+export async function keyFromPassphrase(passphrase: string, meta: EncryptionMeta): Promise<CryptoKey | null> {
+  const key = await deriveEncryptionKey(passphrase, base64ToBytes(meta.salt), meta.iterations);
+  return (await keyMatchesMeta(key, meta)) ? key : null;
+}
+
+/**
+ * Ключ поиска в кеше LLM при включённом шифровании: SHA-256 от ключа и запроса.
+ * Без ключа по нему нельзя ни восстановить запрос, ни проверить догадку.
+ */
+export async function keyedLookupHash(key: CryptoKey, text: string): Promise<string> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+  const body = new TextEncoder().encode(text);
+  const buf = new Uint8Array(raw.length + body.length);
+  buf.set(raw, 0);
+  buf.set(body, raw.length);
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", buf));
+  return "h:" + Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** SHA-256 текста в hex (без ключа — только когда шифрование выключено). */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Запись с зашифрованными полями — так она лежит в IndexedDB. */
+type Stored<T, K extends keyof T> = Omit<T, K> & { [P in K]?: T[P] | EncryptedValue };
+
+export type StoredPage = Stored<Page, "contentText" | "headings" | "passages" | "simhash">;
+export type StoredChatMessage = Stored<ChatMessage, "content" | "reasoningSteps" | "thinking" | "sources">;
+export type StoredPageSnapshot = Stored<PageSnapshot, "contentText">;
+export type StoredPageEmbedding = Stored<PageEmbedding, "vector">;
+export type StoredConversation = Stored<Conversation, "title" | "pageUrl" | "pageOrigin" | "threadKey">;
+
+/**
+ * Заголовки и пассажи шифруются вместе с текстом: в них заголовки разделов страницы.
+ * SimHash тоже: по нему можно проверить, не совпадает ли текст с известным документом.
+ */
+export async function encryptPageRecord(key: CryptoKey, page: Page): Promise<StoredPage> {
+  const out: StoredPage = { ...page, contentText: await encryptText(key, page.contentText ?? "") };
+  if (page.headings) out.headings = await encryptText(key, JSON.stringify(page.headings));
+  if (page.passages) out.passages = await encryptText(key, JSON.stringify(page.passages));
+  if (page.simhash) out.simhash = await encryptText(key, page.simhash);
+  return out;
+}
+
+/** Открытые записи (до включения шифрования) возвращаются как есть. */
+export async function decryptPageRecord(key: CryptoKey | null, page: StoredPage): Promise<Page> {
+  const encrypted = [page.contentText, page.headings, page.passages, page.simhash].some(isEncryptedValue);
+  if (!encrypted) return page as Page;
+  if (!key) throw new StorageLockedError();
+  const out = { ...page } as Page;
+  if (isEncryptedValue(page.contentText)) out.contentText = await decryptText(key, page.contentText);
+  if (isEncryptedValue(page.headings)) out.headings = JSON.parse(await decryptText(key, page.headings)) as Page["headings"];
+  if (isEncryptedValue(page.passages)) out.passages = JSON.parse(await decryptText(key, page.passages)) as Page["passages"];
+  if (isEncryptedValue(page.simhash)) out.simhash = await decryptText(key, page.simhash);
+  return out;
+}
+
+export async function encryptSnapshotRecord(key: CryptoKey, snapshot: PageSnapshot): Promise<StoredPageSnapshot> {
+  return { ...snapshot, contentText: await encryptText(key, snapshot.contentText) };
+}
+
+export async function decryptSnapshotRecord(key: CryptoKey | null, snapshot: StoredPageSnapshot): Promise<PageSnapshot> {
+  if (!isEncryptedValue(snapshot.contentText)) return snapshot as PageSnapshot;
+  if (!key) throw new StorageLockedError();
+  return { ...snapshot, contentText: await decryptText(key, snapshot.contentText) } as PageSnapshot;
+}
+
+/** Вектор тоже шифруется: по эмбеддингу можно приблизительно восстановить тему текста. */
+export async function encryptEmbeddingRecord(key: CryptoKey, record: PageEmbedding): Promise<StoredPageEmbedding> {
+  return { ...record, vector: await encryptText(key, JSON.stringify(record.vector)) };
+}
+
+export async function decryptEmbeddingRecord(key: CryptoKey | null, record: StoredPageEmbedding): Promise<PageEmbedding> {
+  if (!isEncryptedValue(record.vector)) return record as PageEmbedding;
+  if (!key) throw new StorageLockedError();
+  return { ...record, vector: JSON.parse(await decryptText(key, record.vector)) as number[] };
+}
+
+/** Источники шифруются вместе с ответом: в них отрывки сохранённых и загруженных страниц. */
+export async function encryptChatMessageRecord(key: CryptoKey, msg: ChatMessage): Promise<StoredChatMessage> {
+  const out: StoredChatMessage = { ...msg, content: await encryptText(key, msg.content ?? "") };
+  if (msg.reasoningSteps) out.reasoningSteps = await encryptText(key, JSON.stringify(msg.reasoningSteps));
+  if (msg.thinking) out.thinking = await encryptText(key, msg.thinking);
+  if (msg.sources) out.sources = await encryptText(key, JSON.stringify(msg.sources));
+  return out;
+}
+
+export async function decryptChatMessageRecord(key: CryptoKey | null, msg: StoredChatMessage): Promise<ChatMessage> {
+  const encrypted = [msg.content, msg.reasoningSteps, msg.thinking, msg.sources].some(isEncryptedValue);
+  if (!encrypted) return msg as ChatMessage;
+  if (!key) throw new StorageLockedError();
+  const out = { ...msg } as ChatMessage;
+  if (isEncryptedValue(msg.content)) out.content = await decryptText(key, msg.content);
+  if (isEncryptedValue(msg.reasoningSteps)) {
+    out.reasoningSteps = JSON.parse(await decryptText(key, msg.reasoningSteps)) as ChatMessage["reasoningSteps"];
+  }
+  if (isEncryptedValue(msg.thinking)) out.thinking = await decryptText(key, msg.thinking);
+  if (isEncryptedValue(msg.sources)) out.sources = JSON.parse(await decryptText(key, msg.sources)) as ChatMessage["sources"];
+  return out;
+}
+
+/** Заголовок беседы — первое сообщение или заголовок страницы, поэтому шифруется вместе с адресом страницы и ключом треда. */
+export async function encryptConversationRecord(key: CryptoKey, conv: Conversation): Promise<StoredConversation> {
+  const out: StoredConversation = { ...conv, title: await encryptText(key, conv.title ?? "") };
+  if (conv.pageUrl) out.pageUrl = await encryptText(key, conv.pageUrl);
+  if (conv.pageOrigin) out.pageOrigin = await encryptText(key, conv.pageOrigin);
+  if (conv.threadKey) out.threadKey = await encryptText(key, conv.threadKey);
+  return out;
+}
+
+export async function decryptConversationRecord(key: CryptoKey | null, conv: StoredConversation): Promise<Conversation> {
+  const encrypted = [conv.title, conv.pageUrl, conv.pageOrigin, conv.threadKey].some(isEncryptedValue);
+  if (!encrypted) return conv as Conversation;
+  if (!key) throw new StorageLockedError();
+  const out = { ...conv } as Conversation;
+  if (isEncryptedValue(conv.title)) out.title = await decryptText(key, conv.title);
+  if (isEncryptedValue(conv.pageUrl)) out.pageUrl = await decryptText(key, conv.pageUrl);
+  if (isEncryptedValue(conv.pageOrigin)) out.pageOrigin = await decryptText(key, conv.pageOrigin);
+  if (isEncryptedValue(conv.threadKey)) out.threadKey = await decryptText(key, conv.threadKey);
+  return out;
+}
+
+/** Данные зашифрованы, а ключа в этой сессии браузера нет — нужен ввод пароля. */
+export class StorageLockedError extends Error {
+  constructor() {
+    super("Storage is locked: enter the encryption passphrase");
+    this.name = "StorageLockedError";
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Бандл резервной копии: все сторы IndexedDB + chrome.storage.sync/local одним версионированным JSON.
+ * Чистые функции (сборка, проверка, план импорта) — без доступа к chrome/IDB; запись делает options.ts через Storage.
+ */
+import { isEncryptedValue, type EncryptionMeta } from "./crypto";
+
+export const DATA_BUNDLE_FORMAT = "pageai-bundle";
+export const DATA_BUNDLE_SCHEMA_VERSION = 1;
+
+/** Сторы IndexedDB, попадающие в бандл. */
+export const DATA_BUNDLE_STORES = ["pages", "page_snapshots", "conversations", "chat_history", "llm_cache"] as const;
+export type DataBundleStoreName = (typeof DATA_BUNDLE_STORES)[number];
+
+export type DataBundleStores = Record<DataBundleStoreName, Record<string, unknown>[]>;
+
+/** Секреты в chrome.storage.local: по умолчанию не экспортируются. */
+export const LOCAL_SECRET_KEYS = ["llmApiKeys", "llmApiKey", "embeddingApiKey"] as const;
+/**
+ * Ключи chrome.storage.local, относящиеся к этой установке: не экспортируются, не импортируются и не удаляются
+ * импортом. `encryptionMeta` описывает ключ локальных записей — у записей бандла свой (DataBundle.encryption).
+ */
+export const LOCAL_DEVICE_KEYS = ["encryptionMeta", "dbUpgradeError", "activeConversationId"] as const;
+/** Поля серверов в mcpServersConfig, где обычно лежат токены. */
+const MCP_SECRET_FIELDS = ["headers", "env"] as const;
+
+export interface DataBundle {
+  format: typeof DATA_BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  /** Версия IndexedDB на момент экспорта (справочно) */
+  dbVersion: number;
+  /** true — в бандле есть API keys и заголовки MCP */
+  includesSecrets: boolean;
+  /** Параметры ключа, которым зашифрованы записи бандла (соль, проверочный блок); null — записи открытые */
+  encryption: EncryptionMeta | null;
+  stores: DataBundleStores;
+  sync: Record<string, unknown>;
+  local: Record<string, unknown>;
+}
+
+export type ImportMode = "merge" | "replace";
+
+export interface StoreImportCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface KeysImportCounts {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/** Что изменит импорт (dry-run) и что записать. */
+export interface DataBundleImportPlan {
+  mode: ImportMode;
+  stores: Record<DataBundleStoreName, StoreImportCounts>;
+  sync: KeysImportCounts;
+  local: KeysImportCounts;
+  /** Записи для put/add по сторам (для autoIncrement-сторов — без id) */
+  writes: DataBundleStores;
+  /** Сторы, очищаемые перед записью (режим replace) */
+  clearStores: DataBundleStoreName[];
+  /** Итоговые значения ключей sync/local для записи */
+  syncToSet: Record<string, unknown>;
+  localToSet: Record<string, unknown>;
+  /** Ключи, удаляемые в режиме replace (секреты без замены в бандле сохраняются) */
+  syncToRemove: string[];
+  localToRemove: string[];
+}
+
+/** Сторы с autoIncrement-ключом: id другой машины бессмыслен, сопоставляем по содержимому. */
+const AUTO_INCREMENT_STORES: ReadonlySet<DataBundleStoreName> = new Set(["chat_history"]);
+
+/** Записи кеша LLM до v8 (ключ — текст запроса, без поля key) не импортируются: новый кеш их не прочитает. */
+function isImportableRecord(store: DataBundleStoreName, record: Record<string, unknown>): boolean {
+  return store !== "llm_cache" || typeof record.key === "string";
+}
+
+/** Ключ сопоставления записи при слиянии. */
+export function bundleRecordKey(store: DataBundleStoreName, record: Record<string, unknown>): string {
+  switch (store) {
+    case "chat_history":
+      return `${String(record.conversationId ?? "")}|${String(record.timestamp ?? "")}|${String(record.role ?? "")}`;
+    case "llm_cache":
+      return String(record.key ?? "");
+    default:
+      return String(record.id ?? "");
+  }
+}
+
+function stripMcpSecrets(configJson: unknown): unknown {
+  if (typeof configJson !== "string" || !configJson.trim()) return configJson;
+  try {
+    const data = JSON.parse(configJson) as { mcpServers?: Record<string, Record<string, unknown>> };
+    if (!data.mcpServers || typeof data.mcpServers !== "object") return configJson;
+    for (const server of Object.values(data.mcpServers)) {
+      if (!server || typeof server !== "object") continue;
+      for (const f of MCP_SECRET_FIELDS) delete server[f];
+    }
+    return JSON.stringify(data, null, 2);
+  } catch {
+    return configJson;
+  }
+}
+
+/**
+ * Вернуть секретные поля MCP из текущего конфига в импортируемый (по имени сервера),
+ * чтобы импорт бандла без секретов не стёр токены.
+ */
+export function restoreMcpSecrets(importedJson: unknown, currentJson: unknown): unknown {
+  if (typeof importedJson !== "string" || typeof currentJson !== "string") return importedJson;
+  try {
+    const imported = JSON.parse(importedJson) as { mcpServers?: Record<string, Record<string, unknown>> };
+    const current = JSON.parse(currentJson) as { mcpServers?: Record<string, Record<string, unknown>> };
+    if (!imported.mcpServers || !current.mcpServers) return importedJson;
+    let touched = false;
+    for (const [name, server] of Object.entries(imported.mcpServers)) {
+      const prev = current.mcpServers[name];
+      if (!server || typeof server !== "object" || !prev || typeof prev !== "object") continue;
+      for (const f of MCP_SECRET_FIELDS) {
+        if (server[f] === undefined && prev[f] !== undefined) {
+          server[f] = prev[f];
+          touched = true;
+        }
+      }
+    }
+    return touched ? JSON.stringify(imported, null, 2) : importedJson;
+  } catch {
+    return importedJson;
+  }
+}
+
+function isEncryptionMeta(v: unknown): v is EncryptionMeta {
+  return (
+    isPlainObject(v) &&
+    typeof v.salt === "string" &&
+    typeof v.iterations === "number" &&
+    isEncryptedValue(v.verifier)
+  );
+}
+
+/** Записи зашифрованы одним ключом (или обе стороны без шифрования) — переносятся как есть. */
+export function sameEncryption(a: EncryptionMeta | null, b: EncryptionMeta | null): boolean {
+  if (!a || !b) return a === b;
+  return a.salt === b.salt && a.iterations === b.iterations && a.verifier.data === b.verifier.data;
+}
+
+export function buildDataBundle(input: {
+  stores: DataBundleStores;
+  sync: Record<string, unknown>;
+  local: Record<string, unknown>;
+  dbVersion: number;
+  includeSecrets: boolean;
+  now?: Date;
+}): DataBundle {
+  const sync = { ...input.sync };
+  const local = { ...input.local };
+  const encryption = isEncryptionMeta(local.encryptionMeta) ? local.encryptionMeta : null;
+  for (const k of LOCAL_DEVICE_KEYS) delete local[k];
+  if (!input.includeSecrets) {
+    for (const k of LOCAL_SECRET_KEYS) delete local[k];
+    if ("mcpServersConfig" in sync) sync.mcpServersConfig = stripMcpSecrets(sync.mcpServersConfig);
+  }
+  return {
+    format: DATA_BUNDLE_FORMAT,
+    schemaVersion: DATA_BUNDLE_SCHEMA_VERSION,
+    exportedAt: (input.now ?? new Date()).toISOString(),
+    dbVersion: input.dbVersion,
+    includesSecrets: input.includeSecrets,
+    encryption,
+    stores: input.stores,
+    sync,
+    local
+  };
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return v != null && typeof v === "object" && !Array.isArray(v);
+}
+
+/** Разобрать и проверить файл бандла: формат, версия схемы, форма сторов. */
+export function parseDataBundle(text: string): { bundle: DataBundle } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "File is not valid JSON" };
+  }
+  if (!isPlainObject(raw) || raw.format !== DATA_BUNDLE_FORMAT) {
+    return { error: "Not a PageAI backup file" };
+  }
+  const version = Number(raw.schemaVersion);
+  if (!Number.isInteger(version) || version < 1) {
+    return { error: "Backup has no valid schema version" };
+  }
+  if (version > DATA_BUNDLE_SCHEMA_VERSION) {
+    return {
+      error: `Backup schema v${version} is newer than supported v${DATA_BUNDLE_SCHEMA_VERSION}; update the extension first`
+    };
+  }
+  if (!isPlainObject(raw.stores) || !isPlainObject(raw.sync) || !isPlainObject(raw.local)) {
+    return { error: "Backup is missing stores or settings" };
+  }
+  const stores = {} as DataBundleStores;
+  for (const name of DATA_BUNDLE_STORES) {
+    const list = raw.stores[name] ?? [];
+    if (!Array.isArray(list) || !list.every(isPlainObject)) {
+      return { error: `Backup store "${name}" is malformed` };
+    }
+    stores[name] = list as Record<string, unknown>[];
+  }
+  return {
+    bundle: {
+      format: DATA_BUNDLE_FORMAT,
+      schemaVersion: version,
+      exportedAt: String(raw.exportedAt ?? ""),
+      dbVersion: Number(raw.dbVersion) || 0,
+      includesSecrets: raw.includesSecrets === true,
+      // Бандлы до появления поля хранили параметры в local.encryptionMeta
+      encryption: isEncryptionMeta(raw.encryption)
+        ? raw.encryption
+        : isEncryptionMeta(raw.local.encryptionMeta)
+          ? raw.local.encryptionMeta
+          : null,
+      stores,
+      sync: raw.sync,
+      local: raw.local
+    }
+  };
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function withoutId(record: Record<string, unknown>): Record<string, unknown> {
+  const { id: _id, ...rest } = record;
+  return rest;
+}
+
+function planKeys(
+  incoming: Record<string, unknown>,
+  current: Record<string, unknown>,
+  mode: ImportMode,
+  keep: ReadonlySet<string>
+): { counts: KeysImportCounts; toSet: Record<string, unknown>; toRemove: string[] } {
+  const counts: KeysImportCounts = { added: [], changed: [], removed: [] };
+  const toSet: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(incoming)) {
+    if (!(k in current)) counts.added.push(k);
+    else if (!sameJson(current[k], v)) counts.changed.push(k);
+    else continue;
+    toSet[k] = v;
+  }
+  const toRemove: string[] = [];
+  if (mode === "replace") {
+    for (const k of Object.keys(current)) {
+      if (k in incoming || keep.has(k)) continue;
+      counts.removed.push(k);
+      toRemove.push(k);
+    }
+  }
+  return { counts, toSet, toRemove };
+}
+
+/**
+ * План импорта (он же dry-run): сравнить бандл с текущими данными.
+ * merge — добавить новое и обновить совпавшее по ключу; replace — сторы и ключи заменяются целиком.
+ * Если бандл без секретов, текущие API keys и заголовки MCP сохраняются в обоих режимах; ключи этой установки
+ * (LOCAL_DEVICE_KEYS) не трогаются никогда. Записи бандла должны быть зашифрованы локальным ключом (см. sameEncryption).
+ */
+export function planDataBundleImport(
+  bundle: DataBundle,
+  current: { stores: DataBundleStores; sync: Record<string, unknown>; local: Record<string, unknown> },
+  mode: ImportMode
+): DataBundleImportPlan {
+  const stores = {} as Record<DataBundleStoreName, StoreImportCounts>;
+  const writes = {} as DataBundleStores;
+  for (const name of DATA_BUNDLE_STORES) {
+    const existing = new Map<string, Record<string, unknown>>();
+    for (const r of current.stores[name] ?? []) existing.set(bundleRecordKey(name, r), r);
+    const autoInc = AUTO_INCREMENT_STORES.has(name);
+    const counts: StoreImportCounts = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+    const out: Record<string, unknown>[] = [];
+    const seen = new Set<string>();
+    for (const r of bundle.stores[name]) {
+      if (!isImportableRecord(name, r)) continue;
+      const key = bundleRecordKey(name, r);
+      seen.add(key);
+      const prev = existing.get(key);
+      const record = autoInc ? withoutId(r) : r;
+      if (!prev) {
+        counts.added += 1;
+        out.push(record);
+      } else if (sameJson(autoInc ? withoutId(prev) : prev, record)) {
+        counts.unchanged += 1;
+        if (mode === "replace") out.push(record);
+      } else {
+        counts.updated += 1;
+        // merge: autoIncrement-запись перезаписываем под локальным id совпавшей записи
+        out.push(mode === "merge" && autoInc && prev.id !== undefined ? { ...record, id: prev.id } : record);
+      }
+    }
+    if (mode === "replace") {
+      for (const key of existing.keys()) if (!seen.has(key)) counts.removed += 1;
+    }
+    stores[name] = counts;
+    writes[name] = out;
+  }
+
+  const secretKeys: ReadonlySet<string> = bundle.includesSecrets ? new Set() : new Set(LOCAL_SECRET_KEYS);
+  const incomingSync = { ...bundle.sync };
+  if (!bundle.includesSecrets && "mcpServersConfig" in incomingSync) {
+    incomingSync.mcpServersConfig = restoreMcpSecrets(incomingSync.mcpServersConfig, current.sync.mcpServersConfig);
+  }
+  const incomingLocal = { ...bundle.local };
+  for (const k of secretKeys) delete incomingLocal[k];
+  for (const k of LOCAL_DEVICE_KEYS) delete incomingLocal[k];
+
+  const sync = planKeys(incomingSync, current.sync, mode, new Set());
+  const local = planKeys(incomingLocal, current.local, mode, new Set([...secretKeys, ...LOCAL_DEVICE_KEYS]));
+
+  return {
+    mode,
+    stores,
+    sync: sync.counts,
+    local: local.counts,
+    writes,
+    clearStores: mode === "replace" ? [...DATA_BUNDLE_STORES] : [],
+    syncToSet: sync.toSet,
+    localToSet: local.toSet,
+    syncToRemove: sync.toRemove,
+    localToRemove: local.toRemove
+  };
+}
+
+/** Человекочитаемая сводка плана для превью. */
+export function formatImportPlan(plan: DataBundleImportPlan): string {
+  const lines: string[] = [`Mode: ${plan.mode}`];
+  for (const name of DATA_BUNDLE_STORES) {
+    const c = plan.stores[name];
+    const parts = [`+${c.added} new`, `${c.updated} updated`, `${c.unchanged} unchanged`];
+    if (plan.mode === "replace") parts.push(`${c.removed} removed`);
+    lines.push(`${name}: ${parts.join(", ")}`);
+  }
+  const keysLine = (label: string, k: KeysImportCounts): string => {
+    const parts = [`+${k.added.length} new`, `${k.changed.length} changed`];
+    if (plan.mode === "replace") parts.push(`${k.removed.length} removed`);
+    const names = [...k.added, ...k.changed];
+    return `${label}: ${parts.join(", ")}${names.length ? ` (${names.slice(0, 12).join(", ")}${names.length > 12 ? ", …" : ""})` : ""}`;
+  };
+  lines.push(keysLine("settings (sync)", plan.sync));
+  lines.push(keysLine("local data", plan.local));
+  return lines.join("\n");
+}
@@ -0,0 +1,195 @@
+/**
+ * Состояние шифрования для текущей сессии браузера.
+ * Параметры (соль, проверочный блок) — в `chrome.storage.local`; ключ после ввода пароля —
+ * только в `chrome.storage.session` (в памяти браузера, недоступен content scripts) и стирается при закрытии браузера.
+ */
+import type { Storage } from "./indexdb";
+import { CHAT_ROLLING_SUMMARY_KEYS } from "../chat/chat-llm-context";
+import {
+  MIN_PASSPHRASE_LENGTH,
+  createEncryptionMeta,
+  decryptText,
+  encryptText,
+  exportRawKey,
+  isEncryptedValue,
+  importRawKey,
+  keyFromPassphrase,
+  keyMatchesMeta,
+  type EncryptionMeta
+} from "./crypto";
+
+export const ENCRYPTION_META_STORAGE_KEY = "encryptionMeta";
+export const SESSION_KEY_STORAGE_KEY = "encryptionSessionKey";
+
+export type EncryptionKeyState =
+  | { mode: "off" }
+  | { mode: "locked"; meta: EncryptionMeta }
+  | { mode: "unlocked"; meta: EncryptionMeta; key: CryptoKey };
+
+let cachedState: Promise<EncryptionKeyState> | null = null;
+let listening = false;
+
+function listenForChanges(): void {
+  if (listening || typeof chrome === "undefined" || !chrome.storage?.onChanged) return;
+  listening = true;
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (
+      (area === "local" && ENCRYPTION_META_STORAGE_KEY in changes) ||
+      (area === "session" && SESSION_KEY_STORAGE_KEY in changes)
+    ) {
+      cachedState = null;
+    }
+  });
+}
+
+export function loadEncryptionMeta(): Promise<EncryptionMeta | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get({ [ENCRYPTION_META_STORAGE_KEY]: null }, (items) => {
+      resolve((items[ENCRYPTION_META_STORAGE_KEY] as EncryptionMeta | null) ?? null);
+    });
+  });
+}
+
+function loadSessionRawKey(): Promise<string | null> {
+  if (!chrome.storage.session) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    chrome.storage.session.get({ [SESSION_KEY_STORAGE_KEY]: "" }, (items) => {
+      resolve(String(items[SESSION_KEY_STORAGE_KEY] ?? "") || null);
+    });
+  });
+}
+
+async function resolveState(): Promise<EncryptionKeyState> {
+  const meta = await loadEncryptionMeta();
+  if (!meta) return { mode: "off" };
+  const raw = await loadSessionRawKey();
+  if (!raw) return { mode: "locked", meta };
+  try {
+    const key = await importRawKey(raw);
+    // Ключ сессии мог остаться от прежних параметров (импорт бэкапа, смена пароля в другой вкладке)
+    if (await keyMatchesMeta(key, meta)) return { mode: "unlocked", meta, key };
+  } catch {
+    /* повреждённый ключ сессии — считаем хранилище запертым */
+  }
+  return { mode: "locked", meta };
+}
+
+/** Текущее состояние (кешируется до изменения параметров или ключа сессии). */
+export function getEncryptionKeyState(): Promise<EncryptionKeyState> {
+  listenForChanges();
+  if (!cachedState) {
+    cachedState = resolveState().catch(() => ({ mode: "off" }) as EncryptionKeyState);
+  }
+  return cachedState;
+}
+
+/** Ключ для записи/чтения: null — шифрование выключено; при запертом хранилище — mode "locked". */
+export async function getEncryptionKey(): Promise<CryptoKey | null> {
+  const state = await getEncryptionKeyState();
+  return state.mode === "unlocked" ? state.key : null;
+}
+
+async function rememberSessionKey(key: CryptoKey): Promise<void> {
+  await chrome.storage.session.set({ [SESSION_KEY_STORAGE_KEY]: await exportRawKey(key) });
+  cachedState = null;
+}
+
+/** Ввод пароля: true — ключ подошёл и сохранён до конца сессии браузера. */
+export async function unlockEncryption(passphrase: string): Promise<boolean> {
+  const meta = await loadEncryptionMeta();
+  if (!meta) return true;
+  const key = await keyFromPassphrase(passphrase, meta);
+  if (!key) return false;
+  await rememberSessionKey(key);
+  return true;
+}
+
+/** Забыть ключ: до следующего ввода пароля данные недоступны. */
+export async function lockEncryption(): Promise<void> {
+  await chrome.storage.session.remove(SESSION_KEY_STORAGE_KEY);
+  cachedState = null;
+}
+
+export function validateNewPassphrase(passphrase: string, confirm: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirm) return "Passphrases do not match";
+  return null;
+}
+
+/** Ключ rolling-summary беседы в chrome.storage.local: text и text:<conversationId>. */
+export function isRollingSummaryKey(key: string): boolean {
+  const prefix = CHAT_ROLLING_SUMMARY_KEYS.text;
+  return key === prefix || key.startsWith(`${prefix}:`);
+}
+
+/**
+ * Rolling-summary бесед из ключей chrome.storage.local, перешифрованные из from в to;
+ * остальные ключи не возвращаются. Зашифрованное значение без ключа from пропускается.
+ */
+export async function recryptRollingSummaries(
+  items: Record<string, unknown>,
+  from: CryptoKey | null,
+  to: CryptoKey | null
+): Promise<Record<string, unknown>> {
+  const next: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(items)) {
+    if (!isRollingSummaryKey(k) || !v) continue;
+    let text: string;
+    if (isEncryptedValue(v)) {
+      if (!from) continue;
+      text = await decryptText(from, v);
+    } else {
+      text = String(v);
+    }
+    next[k] = to ? await encryptText(to, text) : text;
+  }
+  return next;
+}
+
+/** Rolling-summary лежит в chrome.storage.local — перешифровываем вместе с IndexedDB. */
+async function reencryptRollingSummaries(from: CryptoKey | null, to: CryptoKey | null): Promise<void> {
+  const next = await recryptRollingSummaries(await chrome.storage.local.get(null), from, to);
+  if (Object.keys(next).length > 0) await chrome.storage.local.set(next);
+}
+
+/**
+ * Включить шифрование: параметры и ключ сохраняются сразу (новые записи шифруются),
+ * затем существующие страницы и сообщения перешифровываются одной транзакцией, следом — rolling-summary.
+ */
+export async function enableEncryption(storage: Storage, passphrase: string): Promise<void> {
+  if (await loadEncryptionMeta()) throw new Error("Encryption is already enabled");
+  const { meta, key } = await createEncryptionMeta(passphrase);
+  await chrome.storage.local.set({ [ENCRYPTION_META_STORAGE_KEY]: meta });
+  await rememberSessionKey(key);
+  await storage.reencryptAll(null, key);
+  await reencryptRollingSummaries(null, key);
+}
+
+async function requireKey(currentPassphrase: string): Promise<{ meta: EncryptionMeta; key: CryptoKey }> {
+  const meta = await loadEncryptionMeta();
+  if (!meta) throw new Error("Encryption is not enabled");
+  const key = await keyFromPassphrase(currentPassphrase, meta);
+  if (!key) throw new Error("Wrong passphrase");
+  return { meta, key };
+}
+
+/** Сменить пароль: данные перешифровываются новым ключом, затем заменяются параметры. */
+export async function changeEncryptionPassphrase(storage: Storage, currentPassphrase: string, nextPassphrase: string): Promise<void> {
+  const { key: oldKey } = await requireKey(currentPassphrase);
+  const { meta, key } = await createEncryptionMeta(nextPassphrase);
+  await storage.reencryptAll(oldKey, key);
+  await reencryptRollingSummaries(oldKey, key);
+  await chrome.storage.local.set({ [ENCRYPTION_META_STORAGE_KEY]: meta });
+  await rememberSessionKey(key);
+}
+
+/** Выключить шифрование: данные расшифровываются и сохраняются открыто, параметры и ключ удаляются. */
+export async function disableEncryption(storage: Storage, currentPassphrase: string): Promise<void> {
+  const { key } = await requireKey(currentPassphrase);
+  await storage.reencryptAll(key, null);
+  await reencryptRollingSummaries(key, null);
+  await chrome.storage.local.remove(ENCRYPTION_META_STORAGE_KEY);
+  await lockEncryption();
+}
@@ -1,65 +1,535 @@
-import type { Page, ChatMessage } from "../types/messages";
+import type { Page, ChatMessage, Conversation, PageEmbedding, PageSnapshot, SearchResult } from "../types/messages";
+import {
+  estimateRecordBytes,
+  hostMatchesDomain,
+  hostOfUrl,
+  selectPagesToEvict,
+  type PageRetentionLimits,
+  type PageSizeEntry,
+  type StoreUsage
+} from "./retention";
+import { collectionForUrl, type CollectionRule, type CollectionSummary } from "./collections";
+import {
+  StorageLockedError,
+  decryptChatMessageRecord,
+  decryptConversationRecord,
+  decryptEmbeddingRecord,
+  decryptPageRecord,
+  decryptSnapshotRecord,
+  decryptText,
+  encryptChatMessageRecord,
+  encryptConversationRecord,
+  encryptEmbeddingRecord,
+  encryptPageRecord,
+  encryptSnapshotRecord,
+  encryptText,
+  isEncryptedValue,
+  keyedLookupHash,
+  sha256Hex,
+  type EncryptedValue,
+  type StoredChatMessage,
+  type StoredConversation,
+  type StoredPage,
+  type StoredPageEmbedding,
+  type StoredPageSnapshot
+} from "./crypto";
+import { getEncryptionKey, getEncryptionKeyState } from "./encryption-session";
+import { LLM_CACHE_TTL_MS } from "../llm/response-cache";
+import { WEB_CACHE_MAX_ENTRIES, type WebCacheRecord, type WebFetchCache } from "../search/fetch-cache";
+import { normalizeSnapshotText } from "../search/text-diff";
+import { documentTerms, queryTerms } from "../search/keyword";
+import { rankBm25, type Posting } from "../search/bm25";
+import { rankPassages, splitIntoPassages } from "../search/passages";
+import { findDuplicateGroups, simhash } from "../search/duplicates";
 
-const DB_NAME = "pageai_extension";
-const DB_VERSION = 6;
-const PAGES_STORE = "pages";
-const CHAT_HISTORY_STORE = "chat_history";
-const LLM_CACHE_STORE = "llm_cache";
+import {
+  CHAT_HISTORY_STORE,
+  CONVERSATIONS_STORE,
+  DB_NAME,
+  DB_VERSION,
+  LLM_CACHE_STORE,
+  MigrationError,
+  PAGE_EMBEDDINGS_STORE,
+  PAGE_SNAPSHOTS_STORE,
+  PAGES_STORE,
+  SEARCH_DOCS_STORE,
+  SEARCH_POSTINGS_STORE,
+  WEB_CACHE_STORE,
+  openDatabaseWithMigrations
+} from "./migrations";
+import { backupBeforeUpgrade, deleteExpiredUpgradeBackup, deleteUpgradeBackup, purgeUpgradeBackupPages } from "./upgrade-backup";
+
+export { DB_NAME, DB_VERSION };
+
+/** Ключ в chrome.storage.local: последняя неудачная попытка обновить схему (баннер в panel, popup и options). */
+export const DB_UPGRADE_ERROR_KEY = "dbUpgradeError";
+
+export interface DbUpgradeErrorRecord {
+  fromVersion: number;
+  toVersion: number;
+  step: string | null;
+  message: string;
+  at: string;
+  /** Перед обновлением сохранена копия базы (Options → Data) */
+  backupSaved: boolean;
+}
+
+function hasLocalStorageArea(): boolean {
+  return typeof chrome !== "undefined" && !!chrome.storage?.local;
+}
+
+async function openAndMigrate(): Promise<IDBDatabase> {
+  let backupSaved = false;
+  try {
+    backupSaved = (await backupBeforeUpgrade(DB_NAME, DB_VERSION)) != null;
+  } catch (err) {
+    console.warn("Failed to back up the database before upgrade:", err);
+  }
+  try {
+    const db = await openDatabaseWithMigrations();
+    if (hasLocalStorageArea()) void chrome.storage.local.remove(DB_UPGRADE_ERROR_KEY);
+    // Обновление прошло: копия хранится UPGRADE_BACKUP_TTL_DAYS на случай незамеченной порчи данных
+    void deleteExpiredUpgradeBackup(DB_NAME).catch((err: unknown) => console.warn("Failed to delete the pre-upgrade backup:", err));
+    return db;
+  } catch (err) {
+    if (err instanceof MigrationError && hasLocalStorageArea()) {
+      const record: DbUpgradeErrorRecord = {
+        fromVersion: err.fromVersion,
+        toVersion: err.toVersion,
+        step: err.step,
+        message: err.message,
+        at: new Date().toISOString(),
+        backupSaved
+      };
+      await chrome.storage.local.set({ [DB_UPGRADE_ERROR_KEY]: record });
+    }
+    throw err;
+  }
+}
+
+let sharedDb: Promise<IDBDatabase> | null = null;
+
+/** Одно соединение на контекст (фон, панель, options); после неудачи следующий вызов пробует снова. */
+export function openDatabase(): Promise<IDBDatabase> {
+  sharedDb ??= openAndMigrate().catch((err: unknown) => {
+    sharedDb = null;
+    throw err;
+  });
+  return sharedDb;
+}
+
+/** Сколько разных версий текста хранится на страницу; старейшие по lastSeenAt вытесняются. */
+export const MAX_SNAPSHOTS_PER_PAGE = 20;
+
+/** Хеш текста (снимки, эмбеддинги): при шифровании — с ключом, иначе по хешу можно было бы проверить догадку о тексте. */
+export function contentHashFor(key: CryptoKey | null, text: string): Promise<string> {
+  return key ? keyedLookupHash(key, text) : sha256Hex(text);
+}
+
+async function buildSnapshot(key: CryptoKey | null, page: Page): Promise<PageSnapshot | null> {
+  const contentText = normalizeSnapshotText(page.contentText ?? "");
+  if (!contentText) return null;
+  const contentHash = await contentHashFor(key, contentText);
+  const seenAt = page.updatedAt || new Date().toISOString();
+  return {
+    id: `${page.id}:${contentHash}`,
+    pageId: page.id,
+    url: page.url,
+    title: page.title,
+    contentHash,
+    contentText,
+    capturedAt: seenAt,
+    lastSeenAt: seenAt
+  };
+}
+
+/** Постинг инвертированного индекса: ключ — [term, pageId]. */
+export interface SearchPosting extends Posting {
+  /** Терм; при включённом шифровании — searchTermKey, а не сам терм */
+  term: string;
+}
+
+/** Страница в индексе поиска: длина для BM25 и хеш проиндексированного текста. */
+export interface SearchDocument {
+  pageId: string;
+  length: number;
+  contentHash: string;
+}
+
+interface SearchEntry {
+  doc: SearchDocument;
+  postings: SearchPosting[];
+}
+
+/** Страниц за одну транзакцию при достройке индекса. */
+const SEARCH_BACKFILL_CHUNK = 100;
+
+/** Терм в индексе: при шифровании — укороченный keyedLookupHash, иначе словарь индекса выдавал бы текст страниц. */
+async function searchTermKey(key: CryptoKey | null, term: string): Promise<string> {
+  return key ? (await keyedLookupHash(key, term)).slice(0, 18) : term;
+}
+
+function searchTextOf(page: Page): string {
+  return `${page.title ?? ""}\n${page.contentText ?? ""}`;
+}
+
+async function buildSearchEntry(key: CryptoKey | null, page: Page, contentHash: string): Promise<SearchEntry> {
+  const { terms, length } = documentTerms(page);
+  const postings = await Promise.all(
+    [...terms].map(async ([term, counts]) => ({ term: await searchTermKey(key, term), pageId: page.id, ...counts }))
+  );
+  return { doc: { pageId: page.id, length, contentHash }, postings };
+}
 
 export interface LlmCacheEntry {
-  id?: number;
-  query: string;
-  response: string;
-  timestamp: number;
+  /** llmRequestCacheKey запроса или keyedLookupHash от него при включённом шифровании */
+  key: string;
+  response: string | EncryptedValue;
+  createdAt: number;
+  lastUsedAt: number;
   ttl: number; // milliseconds
+  /** Сколько раз ответ взят из кеша */
+  hits: number;
+}
+
+/** Запись стора web_cache: при включённом шифровании URL хранится как keyedLookupHash, запись — зашифрованной. */
+interface StoredWebCacheEntry {
+  key: string;
+  fetchedAt: number;
+  /** JSON WebCacheRecord */
+  payload: string | EncryptedValue;
+}
+
+export interface WebCacheStats {
+  entries: number;
+  bytes: number;
+  oldestAt: number | null;
+  newestAt: number | null;
+}
+
+export interface LlmCacheStats {
+  entries: number;
+  hits: number;
+  bytes: number;
+  oldestAt: number | null;
+  lastUsedAt: number | null;
+}
+
+/** Сторы с зашифрованными полями, которые перешифровываются, а не очищаются. */
+const RECRYPTED_STORES = [PAGES_STORE, CHAT_HISTORY_STORE, CONVERSATIONS_STORE, PAGE_SNAPSHOTS_STORE] as const;
+
+/**
+ * Записи страниц, сообщений, бесед и снимков, расшифрованные ключом from и зашифрованные ключом to (null — открытые).
+ * У снимков пересчитываются хеш текста и id. Общая для смены пароля и импорта бандла с другим ключом.
+ */
+export async function recryptStoreRecords(
+  raw: Partial<Record<string, Record<string, unknown>[]>>,
+  from: CryptoKey | null,
+  to: CryptoKey | null
+): Promise<Record<string, Record<string, unknown>[]>> {
+  const pages = await Promise.all(
+    ((raw[PAGES_STORE] ?? []) as unknown as StoredPage[]).map(async (r) => {
+      const page = await decryptPageRecord(from, r);
+      return to ? encryptPageRecord(to, page) : page;
+    })
+  );
+  const messages = await Promise.all(
+    ((raw[CHAT_HISTORY_STORE] ?? []) as unknown as StoredChatMessage[]).map(async (r) => {
+      const msg = await decryptChatMessageRecord(from, r);
+      return to ? encryptChatMessageRecord(to, msg) : msg;
+    })
+  );
+  const conversations = await Promise.all(
+    ((raw[CONVERSATIONS_STORE] ?? []) as unknown as StoredConversation[]).map(async (r) => {
+      const conv = await decryptConversationRecord(from, r);
+      return to ? encryptConversationRecord(to, conv) : conv;
+    })
+  );
+  const snapshots = await Promise.all(
+    ((raw[PAGE_SNAPSHOTS_STORE] ?? []) as unknown as StoredPageSnapshot[]).map(async (r) => {
+      const snapshot = await decryptSnapshotRecord(from, r);
+      const contentHash = await contentHashFor(to, snapshot.contentText);
+      const rehashed = { ...snapshot, id: `${snapshot.pageId}:${contentHash}`, contentHash };
+      return to ? encryptSnapshotRecord(to, rehashed) : rehashed;
+    })
+  );
+  return {
+    [PAGES_STORE]: pages as unknown as Record<string, unknown>[],
+    [CHAT_HISTORY_STORE]: messages as unknown as Record<string, unknown>[],
+    [CONVERSATIONS_STORE]: conversations as unknown as Record<string, unknown>[],
+    [PAGE_SNAPSHOTS_STORE]: snapshots as unknown as Record<string, unknown>[]
+  };
 }
 
 export class Storage {
   private dbPromise: Promise<IDBDatabase>;
 
   constructor() {
-    this.dbPromise = this.open();
+    this.dbPromise = openDatabase();
+  }
+
+  /** Ключ для записи: null — шифрование выключено; если включено, но хранилище заперто, — StorageLockedError. */
+  private async writeKey(): Promise<CryptoKey | null> {
+    const state = await getEncryptionKeyState();
+    if (state.mode === "locked") throw new StorageLockedError();
+    return state.mode === "unlocked" ? state.key : null;
   }
 
-  private open(): Promise<IDBDatabase> {
+  private async openPages(records: StoredPage[]): Promise<Page[]> {
+    const key = await getEncryptionKey();
+    return Promise.all(records.map((r) => decryptPageRecord(key, r)));
+  }
+
+  /**
+   * Сохранить страницу с её пассажами, снимок текста и постинги поиска: тот же текст только обновляет
+   * lastSeenAt снимка, а индекс переписывается лишь при изменившемся заголовке или тексте.
+   * Коллекция (spaceKey) уже сохранённой страницы не перезаписывается — её меняет setPageCollection.
+   */
+  async savePage(input: Page): Promise<void> {
+    const page: Page = {
+      ...input,
+      passages: splitIntoPassages(input.contentText ?? "", input.headings ?? []),
+      simhash: simhash(input.contentText ?? "")
+    };
+    const key = await this.writeKey();
+    const record = key ? await encryptPageRecord(key, page) : page;
+    const snapshot = await buildSnapshot(key, page);
+    const storedSnapshot = snapshot && key ? await encryptSnapshotRecord(key, snapshot) : snapshot;
+    const searchHash = await contentHashFor(key, searchTextOf(page));
+    const indexed = await this.getSearchDocument(page.id);
+    const search = indexed?.contentHash === searchHash ? null : await buildSearchEntry(key, page, searchHash);
+    const db = await this.dbPromise;
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const tx = db.transaction([PAGES_STORE, PAGE_SNAPSHOTS_STORE, SEARCH_POSTINGS_STORE, SEARCH_DOCS_STORE], "readwrite");
+      const pages = tx.objectStore(PAGES_STORE);
+      const existingReq = pages.get(page.id);
+      existingReq.onsuccess = () => {
+        const existing = existingReq.result as StoredPage | undefined;
+        pages.put(existing?.spaceKey ? { ...record, spaceKey: existing.spaceKey } : record);
+      };
+      if (search) writeSearchEntry(tx, search);
+      if (storedSnapshot) {
+        const snapshots = tx.objectStore(PAGE_SNAPSHOTS_STORE);
+        const getReq = snapshots.get(storedSnapshot.id);
+        getReq.onsuccess = () => {
+          const existing = getReq.result as StoredPageSnapshot | undefined;
+          snapshots.put(
+            existing
+              ? { ...existing, url: page.url, title: page.title, lastSeenAt: storedSnapshot.lastSeenAt }
+              : storedSnapshot
+          );
+          trimPageSnapshots(snapshots, page.id, MAX_SNAPSHOTS_PER_PAGE);
+        };
+      }
 
-      request.onupgradeneeded = () => {
-        const db = request.result;
-        if (!db.objectStoreNames.contains(PAGES_STORE)) {
-          const store = db.createObjectStore(PAGES_STORE, { keyPath: "id" });
-          store.createIndex("by_updatedAt", "updatedAt");
-          store.createIndex("by_spaceKey", "spaceKey");
-        }
-        if (!db.objectStoreNames.contains(CHAT_HISTORY_STORE)) {
-          const store = db.createObjectStore(CHAT_HISTORY_STORE, { keyPath: "id", autoIncrement: true });
-          store.createIndex("by_timestamp", "timestamp");
-        }
-        if (!db.objectStoreNames.contains(LLM_CACHE_STORE)) {
-          const store = db.createObjectStore(LLM_CACHE_STORE, { keyPath: "id", autoIncrement: true });
-          store.createIndex("by_query", "query", { unique: false });
-          store.createIndex("by_timestamp", "timestamp");
-        }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async getSearchDocument(pageId: string): Promise<SearchDocument | undefined> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(SEARCH_DOCS_STORE, "readonly").objectStore(SEARCH_DOCS_STORE).get(pageId);
+
+      request.onsuccess = () => resolve(request.result as SearchDocument | undefined);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Поиск по сохранённым страницам через инвертированный индекс: BM25, совпадения в заголовке весят больше.
+   * Читаются только постинги термов запроса и длины страниц; у результата — лучший для запроса пассаж.
+   * filter (условия языка запросов) проверяется по самой странице; без термов — все подходящие страницы.
+   * Запертое хранилище — StorageLockedError.
+   */
+  async searchPages(
+    query: string,
+    options: { limit?: number; filter?: (page: Page) => boolean } = {}
+  ): Promise<SearchResult[]> {
+    const { limit = 20, filter } = options;
+    const terms = queryTerms(query);
+    if (terms.length === 0) {
+      if (!filter) return [];
+      // Только фильтры (site:, after: …): подходящие страницы, свежие первыми
+      const pages = (await this.getAllPages()).filter(filter);
+      pages.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      return pages.slice(0, limit).map((page) => ({ page, score: 0 }));
+    }
+    const key = await this.writeKey();
+    await this.syncSearchIndex(key);
+    const lookups = await Promise.all(terms.map((t) => searchTermKey(key, t)));
+    const db = await this.dbPromise;
+    const { postings, docs } = await new Promise<{ postings: SearchPosting[][]; docs: SearchDocument[] }>(
+      (resolve, reject) => {
+        const tx = db.transaction([SEARCH_POSTINGS_STORE, SEARCH_DOCS_STORE], "readonly");
+        const postingsStore = tx.objectStore(SEARCH_POSTINGS_STORE);
+        const out = { postings: lookups.map((): SearchPosting[] => []), docs: [] as SearchDocument[] };
+        lookups.forEach((term, i) => {
+          // [term] < [term, любой pageId] < [term, []]: массив сортируется после строк
+          const request = postingsStore.getAll(IDBKeyRange.bound([term], [term, []]));
+          request.onsuccess = () => {
+            out.postings[i] = request.result as SearchPosting[];
+          };
+        });
+        const docsReq = tx.objectStore(SEARCH_DOCS_STORE).getAll();
+        docsReq.onsuccess = () => {
+          out.docs = docsReq.result as SearchDocument[];
+        };
+
+        tx.oncomplete = () => resolve(out);
+        tx.onerror = () => reject(tx.error);
+      }
+    );
+    const lengths = new Map(docs.map((d) => [d.pageId, d.length]));
+    const totalLength = docs.reduce((sum, d) => sum + d.length, 0);
+    const stats = { docCount: docs.length, avgLength: docs.length > 0 ? totalLength / docs.length : 0 };
+    const hits = rankBm25(postings, lengths, stats, filter ? Number.MAX_SAFE_INTEGER : limit);
+    const results: SearchResult[] = [];
+    // С фильтром страницы читаются порциями по рангу, пока не наберётся limit подходящих
+    for (let i = 0; i < hits.length && results.length < limit; i += SEARCH_BACKFILL_CHUNK) {
+      const chunk = hits.slice(i, i + SEARCH_BACKFILL_CHUNK);
+      const pages = new Map((await this.getPagesByIds(chunk.map((h) => h.pageId))).map((p) => [p.id, p]));
+      for (const hit of chunk) {
+        const page = pages.get(hit.pageId);
+        if (!page || (filter && !filter(page))) continue;
+        const [passage] = rankPassages(page, query, 1);
+        results.push({ page, score: hit.score, ...(passage ? { passage } : {}) });
+        if (results.length >= limit) break;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Привести индекс поиска к списку страниц: проиндексировать страницы без записи (сохранены до v11,
+   * импортированы, перешифрованы) и убрать записи удалённых страниц. Обычно ничего не делает.
+   */
+  private async syncSearchIndex(key: CryptoKey | null): Promise<void> {
+    const db = await this.dbPromise;
+    const { pageIds, docIds } = await new Promise<{ pageIds: string[]; docIds: string[] }>((resolve, reject) => {
+      const tx = db.transaction([PAGES_STORE, SEARCH_DOCS_STORE], "readonly");
+      const out = { pageIds: [] as string[], docIds: [] as string[] };
+      const pagesReq = tx.objectStore(PAGES_STORE).getAllKeys();
+      pagesReq.onsuccess = () => {
+        out.pageIds = pagesReq.result as string[];
+      };
+      const docsReq = tx.objectStore(SEARCH_DOCS_STORE).getAllKeys();
+      docsReq.onsuccess = () => {
+        out.docIds = docsReq.result as string[];
       };
 
-      request.onsuccess = () => resolve(request.result);
+      tx.oncomplete = () => resolve(out);
+      tx.onerror = () => reject(tx.error);
+    });
+    const existing = new Set(pageIds);
+    const indexed = new Set(docIds);
+    const orphans = docIds.filter((id) => !existing.has(id));
+    const missing = pageIds.filter((id) => !indexed.has(id));
+    if (orphans.length > 0) await this.writeSearchEntries([], orphans);
+    for (let start = 0; start < missing.length; start += SEARCH_BACKFILL_CHUNK) {
+      const pages = await this.getPagesByIds(missing.slice(start, start + SEARCH_BACKFILL_CHUNK));
+      const entries = await Promise.all(
+        pages.map(async (page) => buildSearchEntry(key, page, await contentHashFor(key, searchTextOf(page))))
+      );
+      await this.writeSearchEntries(entries, []);
+    }
+  }
+
+  private async writeSearchEntries(entries: readonly SearchEntry[], removePageIds: readonly string[]): Promise<void> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([SEARCH_POSTINGS_STORE, SEARCH_DOCS_STORE], "readwrite");
+      for (const id of removePageIds) removeFromSearchIndex(tx, id);
+      for (const entry of entries) writeSearchEntry(tx, entry);
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Метаданные сохранённых векторов без самих векторов (очередь эмбеддингов решает, что пересчитать). */
+  async listPageEmbeddingMeta(): Promise<Omit<PageEmbedding, "vector">[]> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PAGE_EMBEDDINGS_STORE, "readonly");
+      const out: Omit<PageEmbedding, "vector">[] = [];
+      const cursorReq = tx.objectStore(PAGE_EMBEDDINGS_STORE).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const { vector: _vector, ...meta } = cursor.value as StoredPageEmbedding;
+        out.push(meta);
+        cursor.continue();
+      };
+
+      tx.oncomplete = () => resolve(out);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async savePageEmbeddings(records: readonly PageEmbedding[]): Promise<void> {
+    if (records.length === 0) return;
+    const key = await this.writeKey();
+    const stored = key ? await Promise.all(records.map((r) => encryptEmbeddingRecord(key, r))) : records;
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PAGE_EMBEDDINGS_STORE, "readwrite");
+      const store = tx.objectStore(PAGE_EMBEDDINGS_STORE);
+      for (const r of stored) store.put(r);
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Векторы страниц, посчитанные моделью model. */
+  async getPageEmbeddings(model: string): Promise<PageEmbedding[]> {
+    const db = await this.dbPromise;
+    const stored = await new Promise<StoredPageEmbedding[]>((resolve, reject) => {
+      const tx = db.transaction(PAGE_EMBEDDINGS_STORE, "readonly");
+      const request = tx.objectStore(PAGE_EMBEDDINGS_STORE).index("by_model").getAll(model);
+
+      request.onsuccess = () => resolve(request.result as StoredPageEmbedding[]);
       request.onerror = () => reject(request.error);
     });
+    const key = await getEncryptionKey();
+    return Promise.all(stored.map((r) => decryptEmbeddingRecord(key, r)));
   }
 
-  async savePage(page: Page): Promise<void> {
+  /** Удалить векторы страниц, которых больше нет (импорт с заменой, ручная чистка). */
+  async deletePageEmbeddings(pageIds: readonly string[]): Promise<void> {
+    if (pageIds.length === 0) return;
     const db = await this.dbPromise;
     return new Promise((resolve, reject) => {
-      const tx = db.transaction(PAGES_STORE, "readwrite");
-      const store = tx.objectStore(PAGES_STORE);
-      store.put(page);
+      const tx = db.transaction(PAGE_EMBEDDINGS_STORE, "readwrite");
+      const store = tx.objectStore(PAGE_EMBEDDINGS_STORE);
+      for (const id of pageIds) store.delete(id);
 
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
   }
 
+  async clearPageEmbeddings(): Promise<void> {
+    await this.importStores({}, [PAGE_EMBEDDINGS_STORE]);
+  }
+
+  /** Снимки страницы от старых к новым (по последнему посещению с этим текстом). */
+  async listPageSnapshots(pageId: string): Promise<PageSnapshot[]> {
+    const db = await this.dbPromise;
+    const stored = await new Promise<StoredPageSnapshot[]>((resolve, reject) => {
+      const tx = db.transaction(PAGE_SNAPSHOTS_STORE, "readonly");
+      const request = tx.objectStore(PAGE_SNAPSHOTS_STORE).index("by_page").getAll(pageId);
+
+      request.onsuccess = () => resolve(request.result as StoredPageSnapshot[]);
+      request.onerror = () => reject(request.error);
+    });
+    const key = await getEncryptionKey();
+    const list = await Promise.all(stored.map((r) => decryptSnapshotRecord(key, r)));
+    return list.sort((a, b) => a.lastSeenAt.localeCompare(b.lastSeenAt));
+  }
+
   async getAllPages(): Promise<Page[]> {
     const db = await this.dbPromise;
     return new Promise((resolve, reject) => {
@@ -67,7 +537,7 @@ export class Storage {
       const store = tx.objectStore(PAGES_STORE);
       const request = store.getAll();
 
-      request.onsuccess = () => resolve(request.result as Page[]);
+      request.onsuccess = () => resolve(this.openPages(request.result as StoredPage[]));
       request.onerror = () => reject(request.error);
     });
   }
@@ -77,73 +547,486 @@ export class Storage {
     return new Promise((resolve, reject) => {
       const tx = db.transaction(PAGES_STORE, "readonly");
       const store = tx.objectStore(PAGES_STORE);
-      const results: Page[] = [];
+      const results: StoredPage[] = [];
 
       ids.forEach((id) => {
         const request = store.get(id);
         request.onsuccess = () => {
           if (request.result) {
-            results.push(request.result as Page);
+            results.push(request.result as StoredPage);
           }
         };
         request.onerror = () => reject(request.error);
       });
 
-      tx.oncomplete = () => resolve(results);
+      tx.oncomplete = () => resolve(this.openPages(results));
       tx.onerror = () => reject(tx.error);
     });
   }
 
-  async saveChatMessage(message: ChatMessage): Promise<void> {
+  async countPages(): Promise<number> {
     const db = await this.dbPromise;
     return new Promise((resolve, reject) => {
-      const tx = db.transaction(CHAT_HISTORY_STORE, "readwrite");
-      const store = tx.objectStore(CHAT_HISTORY_STORE);
-      store.add(message);
+      const request = db.transaction(PAGES_STORE, "readonly").objectStore(PAGES_STORE).count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Размер и дата обновления каждой страницы (без загрузки всех текстов в память разом). */
+  async listPageSizes(): Promise<PageSizeEntry[]> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PAGES_STORE, "readonly");
+      const entries: PageSizeEntry[] = [];
+      const cursorReq = tx.objectStore(PAGES_STORE).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const page = cursor.value as Page;
+        entries.push({ id: page.id, url: page.url, updatedAt: page.updatedAt, bytes: estimateRecordBytes(page) });
+        cursor.continue();
+      };
+
+      tx.oncomplete = () => resolve(entries);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Удалить страницы со снимками, векторами и постингами — и из копии базы до обновления. */
+  async deletePages(ids: readonly string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.dbPromise;
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(
+        [PAGES_STORE, PAGE_SNAPSHOTS_STORE, PAGE_EMBEDDINGS_STORE, SEARCH_POSTINGS_STORE, SEARCH_DOCS_STORE],
+        "readwrite"
+      );
+      const store = tx.objectStore(PAGES_STORE);
+      const snapshots = tx.objectStore(PAGE_SNAPSHOTS_STORE);
+      const embeddings = tx.objectStore(PAGE_EMBEDDINGS_STORE);
+      for (const id of ids) {
+        store.delete(id);
+        deleteSnapshotsOfPage(snapshots, id);
+        embeddings.delete(id);
+        removeFromSearchIndex(tx, id);
+      }
 
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
+    const removed = new Set(ids);
+    await purgeUpgradeBackupPages(DB_NAME, (page) => removed.has(page.id));
+  }
+
+  /** Группы почти одинаковых страниц (findDuplicateGroups), предпочтительная страница — первой. */
+  async listDuplicateGroups(): Promise<Page[][]> {
+    return findDuplicateGroups(await this.getAllPages());
+  }
+
+  /** Слить дубли в одну страницу: остальные удаляются, их коллекция переходит к оставленной, если своей нет. */
+  async mergeDuplicatePages(keepId: string, removeIds: readonly string[]): Promise<void> {
+    const remove = removeIds.filter((id) => id !== keepId);
+    const [keep] = await this.getPagesByIds([keepId]);
+    if (!keep || remove.length === 0) return;
+    const inherited = (await this.getPagesByIds(remove)).find((p) => p.spaceKey)?.spaceKey;
+    if (!keep.spaceKey && inherited) await this.setPageCollection(keepId, inherited);
+    await this.deletePages(remove);
+  }
+
+  /** «Забыть сайт»: удалить страницы хоста и его поддоменов, в том числе из копии базы до обновления; возвращает число удалённых. */
+  async deletePagesOfHost(host: string): Promise<number> {
+    const domain = host.toLowerCase();
+    const isOfHost = (url: string): boolean => {
+      const pageHost = hostOfUrl(url);
+      return pageHost != null && hostMatchesDomain(pageHost, domain);
+    };
+    const db = await this.dbPromise;
+    const removed = await new Promise<number>((resolve, reject) => {
+      const tx = db.transaction(
+        [PAGES_STORE, PAGE_SNAPSHOTS_STORE, PAGE_EMBEDDINGS_STORE, SEARCH_POSTINGS_STORE, SEARCH_DOCS_STORE],
+        "readwrite"
+      );
+      const snapshots = tx.objectStore(PAGE_SNAPSHOTS_STORE);
+      const embeddings = tx.objectStore(PAGE_EMBEDDINGS_STORE);
+      let removed = 0;
+      const cursorReq = tx.objectStore(PAGES_STORE).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const page = cursor.value as Page;
+        if (isOfHost(page.url)) {
+          cursor.delete();
+          deleteSnapshotsOfPage(snapshots, page.id);
+          embeddings.delete(page.id);
+          removeFromSearchIndex(tx, page.id);
+          removed += 1;
+        }
+        cursor.continue();
+      };
+
+      tx.oncomplete = () => resolve(removed);
+      tx.onerror = () => reject(tx.error);
+    });
+    await purgeUpgradeBackupPages(DB_NAME, (page) => isOfHost(page.url));
+    return removed;
+  }
+
+  /** Положить страницу в коллекцию (пустой ключ — убрать из коллекции); false — страницы нет. */
+  async setPageCollection(pageId: string, collection: string): Promise<boolean> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PAGES_STORE, "readwrite");
+      const store = tx.objectStore(PAGES_STORE);
+      let found = false;
+      const request = store.get(pageId);
+      request.onsuccess = () => {
+        const record = request.result as StoredPage | undefined;
+        if (!record) return;
+        found = true;
+        const next = { ...record };
+        if (collection) next.spaceKey = collection;
+        else delete next.spaceKey;
+        store.put(next);
+      };
+
+      tx.oncomplete = () => resolve(found);
+      tx.onerror = () => reject(tx.error);
+    });
   }
 
-  async getChatHistory(): Promise<ChatMessage[]> {
+  /** Коллекции по индексу by_spaceKey с числом страниц, по алфавиту. */
+  async listCollections(): Promise<CollectionSummary[]> {
     const db = await this.dbPromise;
     return new Promise((resolve, reject) => {
+      const counts = new Map<string, number>();
+      const request = db.transaction(PAGES_STORE, "readonly").objectStore(PAGES_STORE).index("by_spaceKey").openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(
+            Array.from(counts, ([key, count]) => ({ key, count })).sort((a, b) => a.key.localeCompare(b.key))
+          );
+          return;
+        }
+        const key = String(cursor.key);
+        if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Страницы коллекции (индекс by_spaceKey), свежие первыми. */
+  async getCollectionPages(collection: string, limit = 20): Promise<Page[]> {
+    const db = await this.dbPromise;
+    const records = await new Promise<StoredPage[]>((resolve, reject) => {
+      const request = db.transaction(PAGES_STORE, "readonly").objectStore(PAGES_STORE).index("by_spaceKey").getAll(collection);
+      request.onsuccess = () => resolve(request.result as StoredPage[]);
+      request.onerror = () => reject(request.error);
+    });
+    records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    return this.openPages(records.slice(0, limit));
+  }
+
+  /** Разложить по правилам страницы без коллекции; возвращает число страниц, получивших коллекцию. */
+  async applyCollectionRules(rules: readonly CollectionRule[]): Promise<number> {
+    if (rules.length === 0) return 0;
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PAGES_STORE, "readwrite");
+      let assigned = 0;
+      const cursorReq = tx.objectStore(PAGES_STORE).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const record = cursor.value as StoredPage;
+        const collection = record.spaceKey ? undefined : collectionForUrl(record.url, rules);
+        if (collection) {
+          cursor.update({ ...record, spaceKey: collection });
+          assigned += 1;
+        }
+        cursor.continue();
+      };
+
+      tx.oncomplete = () => resolve(assigned);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Применить лимиты хранения к pages; возвращает число вытесненных страниц. */
+  async enforcePageRetention(limits: PageRetentionLimits): Promise<number> {
+    const ids = selectPagesToEvict(await this.listPageSizes(), limits);
+    await this.deletePages(ids);
+    return ids.length;
+  }
+
+  /** Число записей и оценка объёма по каждому стору (панель использования в Options). */
+  async getStoreUsage(): Promise<StoreUsage[]> {
+    const db = await this.dbPromise;
+    const names = Array.from({ length: db.objectStoreNames.length }, (_, i) => db.objectStoreNames.item(i)!);
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(names, "readonly");
+      const usage = names.map((name) => ({ name, count: 0, bytes: 0 }));
+      usage.forEach((u) => {
+        const cursorReq = tx.objectStore(u.name).openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          u.count += 1;
+          u.bytes += estimateRecordBytes(cursor.value);
+          cursor.continue();
+        };
+      });
+
+      tx.oncomplete = () => resolve(usage);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Сохранить сообщение беседы (message.conversationId обязателен) и обновить updatedAt беседы. */
+  async saveChatMessage(message: ChatMessage): Promise<void> {
+    if (!message.conversationId) throw new Error("saveChatMessage: conversationId is required");
+    const conversationId = message.conversationId;
+    const key = await this.writeKey();
+    const { id: _id, ...plain } = message;
+    const record = key ? await encryptChatMessageRecord(key, plain) : plain;
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([CHAT_HISTORY_STORE, CONVERSATIONS_STORE], "readwrite");
+      tx.objectStore(CHAT_HISTORY_STORE).add(record);
+      const convStore = tx.objectStore(CONVERSATIONS_STORE);
+      const getReq = convStore.get(conversationId);
+      getReq.onsuccess = () => {
+        const conv = getReq.result as Conversation | undefined;
+        if (conv) convStore.put({ ...conv, updatedAt: new Date().toISOString() });
+      };
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Сообщения беседы в хронологическом порядке. */
+  async getChatHistory(conversationId: string): Promise<ChatMessage[]> {
+    const db = await this.dbPromise;
+    const stored = await new Promise<StoredChatMessage[]>((resolve, reject) => {
       const tx = db.transaction(CHAT_HISTORY_STORE, "readonly");
       const store = tx.objectStore(CHAT_HISTORY_STORE);
-      const index = store.index("by_timestamp");
-      const request = index.getAll();
+      const index = store.index("by_conversation");
+      const request = index.getAll(conversationId);
 
-      request.onsuccess = () => resolve(request.result as ChatMessage[]);
+      request.onsuccess = () => resolve(request.result as StoredChatMessage[]);
       request.onerror = () => reject(request.error);
     });
+    const key = await getEncryptionKey();
+    const list = await Promise.all(stored.map((m) => decryptChatMessageRecord(key, m)));
+    return list.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
   }
 
-  async clearChatHistory(): Promise<void> {
+  /** Удалить сообщения беседы (сама беседа остаётся). */
+  async clearChatHistory(conversationId: string): Promise<void> {
     const db = await this.dbPromise;
     return new Promise((resolve, reject) => {
       const tx = db.transaction(CHAT_HISTORY_STORE, "readwrite");
-      const store = tx.objectStore(CHAT_HISTORY_STORE);
-      const request = store.clear();
+      deleteMessagesOfConversation(tx.objectStore(CHAT_HISTORY_STORE), conversationId);
 
-      request.onsuccess = () => resolve();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async listConversations(): Promise<Conversation[]> {
+    const db = await this.dbPromise;
+    const stored = await new Promise<StoredConversation[]>((resolve, reject) => {
+      const tx = db.transaction(CONVERSATIONS_STORE, "readonly");
+      const request = tx.objectStore(CONVERSATIONS_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result as StoredConversation[]);
+      request.onerror = () => reject(request.error);
+    });
+    const key = await getEncryptionKey();
+    return Promise.all(stored.map((c) => decryptConversationRecord(key, c)));
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    const db = await this.dbPromise;
+    const stored = await new Promise<StoredConversation | null>((resolve, reject) => {
+      const tx = db.transaction(CONVERSATIONS_STORE, "readonly");
+      const request = tx.objectStore(CONVERSATIONS_STORE).get(id);
+
+      request.onsuccess = () => resolve((request.result as StoredConversation | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+    return stored ? decryptConversationRecord(await getEncryptionKey(), stored) : null;
+  }
+
+  /** Создать или обновить беседу (put по id); заголовок и адрес страницы шифруются, если шифрование включено. */
+  async saveConversation(conversation: Conversation): Promise<void> {
+    const key = await this.writeKey();
+    const record = key ? await encryptConversationRecord(key, conversation) : conversation;
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(CONVERSATIONS_STORE, "readwrite");
+      tx.objectStore(CONVERSATIONS_STORE).put(record);
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Удалить беседу вместе с её сообщениями. */
+  async deleteConversation(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([CHAT_HISTORY_STORE, CONVERSATIONS_STORE], "readwrite");
+      tx.objectStore(CONVERSATIONS_STORE).delete(id);
+      deleteMessagesOfConversation(tx.objectStore(CHAT_HISTORY_STORE), id);
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Все записи указанных сторов (резервная копия). */
+  async exportStores(names: readonly string[]): Promise<Record<string, Record<string, unknown>[]>> {
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([...names], "readonly");
+      const out: Record<string, Record<string, unknown>[]> = {};
+      for (const name of names) {
+        const request = tx.objectStore(name).getAll();
+        request.onsuccess = () => {
+          out[name] = request.result as Record<string, unknown>[];
+        };
+      }
+
+      tx.oncomplete = () => resolve(out);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Перешифровать страницы, снимки, беседы и сообщения ключом to (null — сохранить открыто), прочитав их ключом from.
+   * Кеши LLM и web_research очищаются: их ключи поиска зависят от ключа шифрования. Хеши снимков по той же причине пересчитываются,
+   * а векторы страниц удаляются — очередь эмбеддингов посчитает их заново с новыми хешами.
+   * Индекс поиска сбрасывается вместе со страницами (importStores) и строится заново с новыми термами.
+   * Копия базы до обновления схемы удаляется: в ней записи остались открытыми или под прежним ключом.
+   */
+  async reencryptAll(from: CryptoKey | null, to: CryptoKey | null): Promise<void> {
+    await deleteUpgradeBackup(DB_NAME);
+    const raw = await this.exportStores(RECRYPTED_STORES);
+    await this.importStores(await recryptStoreRecords(raw, from, to), [
+      LLM_CACHE_STORE,
+      WEB_CACHE_STORE,
+      PAGE_SNAPSHOTS_STORE,
+      PAGE_EMBEDDINGS_STORE
+    ]);
+  }
+
+  /**
+   * Импорт одной транзакцией: очистить сторы из clear, затем put записей; при ошибке ничего не меняется.
+   * Если меняются страницы, индекс поиска сбрасывается и достраивается при следующем поиске.
+   */
+  async importStores(
+    writes: Record<string, Record<string, unknown>[]>,
+    clear: readonly string[]
+  ): Promise<void> {
+    const touchesPages = PAGES_STORE in writes || clear.includes(PAGES_STORE);
+    const clearAll = touchesPages ? [...clear, SEARCH_POSTINGS_STORE, SEARCH_DOCS_STORE] : clear;
+    const names = [...new Set([...Object.keys(writes), ...clearAll])];
+    if (names.length === 0) return;
+    const db = await this.dbPromise;
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(names, "readwrite");
+      for (const name of new Set(clearAll)) tx.objectStore(name).clear();
+      for (const [name, records] of Object.entries(writes)) {
+        const store = tx.objectStore(name);
+        for (const r of records) store.put(r);
+      }
+
+      tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error("Import transaction aborted"));
     });
   }
 }
 
+/** Заменить постинги страницы: старые ключи удаляются до записи новых (курсор по by_page увидел бы и новые). */
+function writeSearchEntry(tx: IDBTransaction, entry: SearchEntry): void {
+  const postings = tx.objectStore(SEARCH_POSTINGS_STORE);
+  const keysReq = postings.index("by_page").getAllKeys(entry.doc.pageId);
+  keysReq.onsuccess = () => {
+    for (const k of keysReq.result) postings.delete(k);
+    for (const p of entry.postings) postings.put(p);
+  };
+  tx.objectStore(SEARCH_DOCS_STORE).put(entry.doc);
+}
+
+function removeFromSearchIndex(tx: IDBTransaction, pageId: string): void {
+  const postings = tx.objectStore(SEARCH_POSTINGS_STORE);
+  const keysReq = postings.index("by_page").getAllKeys(pageId);
+  keysReq.onsuccess = () => {
+    for (const k of keysReq.result) postings.delete(k);
+  };
+  tx.objectStore(SEARCH_DOCS_STORE).delete(pageId);
+}
+
+function deleteSnapshotsOfPage(store: IDBObjectStore, pageId: string): void {
+  const cursorReq = store.index("by_page").openCursor(IDBKeyRange.only(pageId));
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+}
+
+/** Оставить maxEntries снимков страницы, удалив давно не встречавшиеся версии. */
+function trimPageSnapshots(store: IDBObjectStore, pageId: string, maxEntries: number): void {
+  const request = store.index("by_page").getAll(pageId);
+  request.onsuccess = () => {
+    const list = request.result as StoredPageSnapshot[];
+    if (list.length <= maxEntries) return;
+    list.sort((a, b) => a.lastSeenAt.localeCompare(b.lastSeenAt));
+    for (const old of list.slice(0, list.length - maxEntries)) store.delete(old.id);
+  };
+}
+
+function deleteMessagesOfConversation(store: IDBObjectStore, conversationId: string): void {
+  const cursorReq = store.index("by_conversation").openCursor(IDBKeyRange.only(conversationId));
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+}
+
 // Функции для работы с LLM кешем (как отдельные функции для простоты)
-export async function getCachedLlmResponse(query: string): Promise<string | null> {
-  return new Promise((resolve) => {
+/**
+ * Ключ поиска и ключ шифрования для кешей (LLM, web_research). Запертое хранилище — кеш не используется (null):
+ * при включённом шифровании ключ запроса хранится только как keyedLookupHash, а ответ — зашифрованным.
+ */
+async function cacheAccess(requestKey: string): Promise<{ lookup: string; key: CryptoKey | null } | null> {
+  const state = await getEncryptionKeyState();
+  if (state.mode === "locked") return null;
+  if (state.mode === "off") return { lookup: requestKey, key: null };
+  return { lookup: await keyedLookupHash(state.key, requestKey), key: state.key };
+}
+
+/** Ответ из кеша по ключу запроса (llmRequestCacheKey); попадание увеличивает hits и обновляет lastUsedAt. */
+export async function getCachedLlmResponse(requestKey: string): Promise<string | null> {
+  const access = await cacheAccess(requestKey).catch(() => null);
+  if (!access) return null;
+  const stored = await new Promise<LlmCacheEntry["response"] | null>((resolve) => {
     try {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-      request.onsuccess = () => {
-        const db = request.result;
-        const tx = db.transaction(LLM_CACHE_STORE, "readonly");
+      openDatabase().then((db) => {
+        const tx = db.transaction(LLM_CACHE_STORE, "readwrite");
         const store = tx.objectStore(LLM_CACHE_STORE);
-        const index = store.index("by_query");
 
-        const getRequest = index.get(query);
+        const getRequest = store.get(access.lookup);
         getRequest.onsuccess = () => {
           const entry = getRequest.result as LlmCacheEntry | undefined;
           if (!entry) {
@@ -151,76 +1034,224 @@ export async function getCachedLlmResponse(query: string): Promise<string | null
             return;
           }
 
-          // Проверить TTL
           const now = Date.now();
-          if (now - entry.timestamp > entry.ttl) {
+          if (now - entry.createdAt > entry.ttl) {
             // Кеш истёк, удалить и вернуть null
-            const deleteRequest = store.delete(entry.id!);
-            deleteRequest.onsuccess = () => resolve(null);
-          } else {
-            resolve(entry.response);
+            store.delete(entry.key);
+            resolve(null);
+            return;
           }
+          store.put({ ...entry, hits: (entry.hits || 0) + 1, lastUsedAt: now });
+          resolve(entry.response);
         };
 
         getRequest.onerror = () => resolve(null);
-      };
-
-      request.onerror = () => resolve(null);
+      }, () => resolve(null));
     } catch {
       resolve(null);
     }
   });
+  if (stored == null || !isEncryptedValue(stored)) return stored;
+  if (!access.key) return null;
+  return decryptText(access.key, stored).catch(() => null);
+}
+
+/** Удалить самые давно использованные записи сверх maxEntries (0 — без ограничения). */
+function trimLlmCache(store: IDBObjectStore, maxEntries: number): void {
+  if (maxEntries <= 0) return;
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - maxEntries;
+    if (excess <= 0) return;
+    const cursorReq = store.index("by_lastUsedAt").openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess -= 1;
+      cursor.continue();
+    };
+  };
 }
 
+/** Записать ответ (повторная запись того же запроса заменяет прежнюю) и подрезать кеш до maxEntries. */
 export async function setCachedLlmResponse(
-  query: string,
+  requestKey: string,
   response: string,
-  ttlMs: number = 24 * 60 * 60 * 1000 // 24 часа по умолчанию
+  options: { ttlMs?: number; maxEntries?: number } = {}
 ): Promise<void> {
+  const access = await cacheAccess(requestKey).catch(() => null);
+  if (!access) return;
+  const storedResponse = access.key ? await encryptText(access.key, response) : response;
   return new Promise((resolve) => {
     try {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-      request.onsuccess = () => {
-        const db = request.result;
+      openDatabase().then((db) => {
         const tx = db.transaction(LLM_CACHE_STORE, "readwrite");
         const store = tx.objectStore(LLM_CACHE_STORE);
 
+        const now = Date.now();
         const entry: LlmCacheEntry = {
-          query,
-          response,
-          timestamp: Date.now(),
-          ttl: ttlMs
+          key: access.lookup,
+          response: storedResponse,
+          createdAt: now,
+          lastUsedAt: now,
+          ttl: options.ttlMs ?? LLM_CACHE_TTL_MS,
+          hits: 0
         };
 
-        const putRequest = store.add(entry);
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => resolve();
-      };
-
-      request.onerror = () => resolve();
+        store.put(entry);
+        trimLlmCache(store, options.maxEntries ?? 0);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => resolve();
+      }, () => resolve());
     } catch {
       resolve();
     }
   });
 }
 
+/** Статистика кеша для options: записи, суммарные попадания, оценка объёма. */
+export async function getLlmCacheStats(): Promise<LlmCacheStats> {
+  return new Promise((resolve) => {
+    const empty: LlmCacheStats = { entries: 0, hits: 0, bytes: 0, oldestAt: null, lastUsedAt: null };
+    try {
+      openDatabase().then((db) => {
+        const tx = db.transaction(LLM_CACHE_STORE, "readonly");
+        const stats = { ...empty };
+        const cursorReq = tx.objectStore(LLM_CACHE_STORE).openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          const entry = cursor.value as LlmCacheEntry;
+          stats.entries += 1;
+          stats.hits += entry.hits || 0;
+          stats.bytes += estimateRecordBytes(entry);
+          if (stats.oldestAt == null || entry.createdAt < stats.oldestAt) stats.oldestAt = entry.createdAt;
+          if (stats.lastUsedAt == null || entry.lastUsedAt > stats.lastUsedAt) stats.lastUsedAt = entry.lastUsedAt;
+          cursor.continue();
+        };
+        tx.oncomplete = () => resolve(stats);
+        tx.onerror = () => resolve(empty);
+      }, () => resolve(empty));
+    } catch {
+      resolve(empty);
+    }
+  });
+}
+
 export async function clearLlmCache(): Promise<void> {
   return new Promise((resolve) => {
     try {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-      request.onsuccess = () => {
-        const db = request.result;
+      openDatabase().then((db) => {
         const tx = db.transaction(LLM_CACHE_STORE, "readwrite");
         const store = tx.objectStore(LLM_CACHE_STORE);
         const clearRequest = store.clear();
 
         clearRequest.onsuccess = () => resolve();
         clearRequest.onerror = () => resolve();
-      };
-
-      request.onerror = () => resolve();
+      }, () => resolve());
     } catch {
       resolve();
     }
   });
 }
+
+/** Запись кеша web_research по URL (выдачи или страницы); при запертом хранилище и ошибке — null. */
+export async function getCachedWebFetch(url: string): Promise<WebCacheRecord | null> {
+  const access = await cacheAccess(url).catch(() => null);
+  if (!access) return null;
+  const stored = await new Promise<StoredWebCacheEntry | null>((resolve) => {
+    openDatabase().then((db) => {
+      const request = db.transaction(WEB_CACHE_STORE, "readonly").objectStore(WEB_CACHE_STORE).get(access.lookup);
+      request.onsuccess = () => resolve((request.result as StoredWebCacheEntry | undefined) ?? null);
+      request.onerror = () => resolve(null);
+    }, () => resolve(null));
+  });
+  if (!stored) return null;
+  try {
+    const json = isEncryptedValue(stored.payload)
+      ? access.key
+        ? await decryptText(access.key, stored.payload)
+        : null
+      : stored.payload;
+    return json == null ? null : (JSON.parse(json) as WebCacheRecord);
+  } catch {
+    return null;
+  }
+}
+
+/** Удалить самые давно загруженные записи сверх maxEntries. */
+function trimWebCache(store: IDBObjectStore, maxEntries: number): void {
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - maxEntries;
+    if (excess <= 0) return;
+    const cursorReq = store.index("by_fetchedAt").openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess -= 1;
+      cursor.continue();
+    };
+  };
+}
+
+/** Записать (заменить) запись кеша web_research и подрезать кеш до WEB_CACHE_MAX_ENTRIES. */
+export async function setCachedWebFetch(record: WebCacheRecord, maxEntries = WEB_CACHE_MAX_ENTRIES): Promise<void> {
+  const access = await cacheAccess(record.url).catch(() => null);
+  if (!access) return;
+  const json = JSON.stringify(record);
+  const entry: StoredWebCacheEntry = {
+    key: access.lookup,
+    fetchedAt: record.fetchedAt,
+    payload: access.key ? await encryptText(access.key, json) : json
+  };
+  return new Promise((resolve) => {
+    openDatabase().then((db) => {
+      const tx = db.transaction(WEB_CACHE_STORE, "readwrite");
+      const store = tx.objectStore(WEB_CACHE_STORE);
+      store.put(entry);
+      trimWebCache(store, maxEntries);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => resolve();
+    }, () => resolve());
+  });
+}
+
+/** Кеш web_research поверх IndexedDB для runWebResearch. */
+export const webFetchCache: WebFetchCache = { get: getCachedWebFetch, put: setCachedWebFetch };
+
+/** Статистика кеша web_research для options: записи, оценка объёма, самая старая и новая загрузка. */
+export async function getWebCacheStats(): Promise<WebCacheStats> {
+  const empty: WebCacheStats = { entries: 0, bytes: 0, oldestAt: null, newestAt: null };
+  return new Promise((resolve) => {
+    openDatabase().then((db) => {
+      const tx = db.transaction(WEB_CACHE_STORE, "readonly");
+      const stats = { ...empty };
+      const cursorReq = tx.objectStore(WEB_CACHE_STORE).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const entry = cursor.value as StoredWebCacheEntry;
+        stats.entries += 1;
+        stats.bytes += estimateRecordBytes(entry);
+        if (stats.oldestAt == null || entry.fetchedAt < stats.oldestAt) stats.oldestAt = entry.fetchedAt;
+        if (stats.newestAt == null || entry.fetchedAt > stats.newestAt) stats.newestAt = entry.fetchedAt;
+        cursor.continue();
+      };
+      tx.oncomplete = () => resolve(stats);
+      tx.onerror = () => resolve(empty);
+    }, () => resolve(empty));
+  });
+}
+
+export async function clearWebCache(): Promise<void> {
+  return new Promise((resolve) => {
+    openDatabase().then((db) => {
+      const request = db.transaction(WEB_CACHE_STORE, "readwrite").objectStore(WEB_CACHE_STORE).clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+    }, () => resolve());
+  });
+}
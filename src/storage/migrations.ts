@@ -0,0 +1,250 @@
+/**
+ * Схема IndexedDB как упорядоченный список миграций `from -> to`.
+ * Каждый шаг работает внутри versionchange-транзакции: может создавать и удалять сторы и индексы,
+ * переписывать записи курсором. Исключение или ошибка запроса прерывает транзакцию — IndexedDB откатывает
+ * всю цепочку, база остаётся на прежней версии с прежними данными.
+ */
+import type { ChatMessage, Conversation } from "../types/messages";
+import { LEGACY_CONVERSATION_ID, LEGACY_CONVERSATION_TITLE } from "../chat/conversations";
+
+export const DB_NAME = "pageai_extension";
+export const PAGES_STORE = "pages";
+export const CHAT_HISTORY_STORE = "chat_history";
+export const LLM_CACHE_STORE = "llm_cache";
+export const CONVERSATIONS_STORE = "conversations";
+export const PAGE_SNAPSHOTS_STORE = "page_snapshots";
+export const PAGE_EMBEDDINGS_STORE = "page_embeddings";
+export const SEARCH_POSTINGS_STORE = "search_postings";
+export const SEARCH_DOCS_STORE = "search_docs";
+export const WEB_CACHE_STORE = "web_cache";
+
+export interface Migration {
+  /** Версия, с которой начинается шаг (0 — базы ещё нет) */
+  from: number;
+  to: number;
+  description: string;
+  migrate(db: IDBDatabase, tx: IDBTransaction): void;
+}
+
+/** Обновление не удалось; транзакция откатана, база осталась на fromVersion. */
+export class MigrationError extends Error {
+  constructor(
+    readonly fromVersion: number,
+    readonly toVersion: number,
+    /** Описание шага, если ошибка пришлась на конкретный шаг; null — ошибка запроса внутри транзакции */
+    readonly step: string | null,
+    readonly cause: unknown
+  ) {
+    super(
+      `Database upgrade v${fromVersion} → v${toVersion} failed${step ? ` at "${step}"` : ""}: ` +
+        (cause instanceof Error ? cause.message : String(cause ?? "unknown error"))
+    );
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Миграция на v7: вся история до появления бесед попадает в беседу «Legacy».
+ * Пустая история — беседа не создаётся.
+ */
+function moveHistoryToLegacyConversation(tx: IDBTransaction): void {
+  const chatStore = tx.objectStore(CHAT_HISTORY_STORE);
+  let first: string | null = null;
+  let last: string | null = null;
+  const cursorReq = chatStore.openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (cursor) {
+      const msg = cursor.value as ChatMessage;
+      if (!msg.conversationId) {
+        cursor.update({ ...msg, conversationId: LEGACY_CONVERSATION_ID });
+        if (first == null || msg.timestamp < first) first = msg.timestamp;
+        if (last == null || msg.timestamp > last) last = msg.timestamp;
+      }
+      cursor.continue();
+      return;
+    }
+    if (first == null || last == null) return;
+    const legacy: Conversation = {
+      id: LEGACY_CONVERSATION_ID,
+      title: LEGACY_CONVERSATION_TITLE,
+      createdAt: first,
+      updatedAt: last
+    };
+    tx.objectStore(CONVERSATIONS_STORE).put(legacy);
+  };
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    // Версии 1–5 только добавляли сторы — шаг создаёт недостающее и подходит для любой из них
+    from: 0,
+    to: 6,
+    description: "pages, chat history and LLM cache stores",
+    migrate(db) {
+      if (!db.objectStoreNames.contains(PAGES_STORE)) {
+        const store = db.createObjectStore(PAGES_STORE, { keyPath: "id" });
+        store.createIndex("by_updatedAt", "updatedAt");
+        store.createIndex("by_spaceKey", "spaceKey");
+      }
+      if (!db.objectStoreNames.contains(CHAT_HISTORY_STORE)) {
+        const store = db.createObjectStore(CHAT_HISTORY_STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("by_timestamp", "timestamp");
+      }
+      if (!db.objectStoreNames.contains(LLM_CACHE_STORE)) {
+        const store = db.createObjectStore(LLM_CACHE_STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("by_query", "query", { unique: false });
+        store.createIndex("by_timestamp", "timestamp");
+      }
+    }
+  },
+  {
+    from: 6,
+    to: 7,
+    description: "conversations; existing history moves to the Legacy conversation",
+    migrate(db, tx) {
+      const chatStore = tx.objectStore(CHAT_HISTORY_STORE);
+      if (!chatStore.indexNames.contains("by_conversation")) {
+        chatStore.createIndex("by_conversation", "conversationId");
+      }
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: "id" });
+        store.createIndex("by_updatedAt", "updatedAt");
+      }
+      moveHistoryToLegacyConversation(tx);
+    }
+  },
+  {
+    from: 7,
+    to: 8,
+    description: "LLM cache keyed by full request hash",
+    migrate(db) {
+      // Старые записи (ключ — текст последнего сообщения) новым кешем не читаются — не переносим
+      if (db.objectStoreNames.contains(LLM_CACHE_STORE)) db.deleteObjectStore(LLM_CACHE_STORE);
+      const store = db.createObjectStore(LLM_CACHE_STORE, { keyPath: "key" });
+      store.createIndex("by_lastUsedAt", "lastUsedAt");
+    }
+  },
+  {
+    from: 8,
+    to: 9,
+    description: "page snapshots for history and diff between visits",
+    migrate(db) {
+      if (db.objectStoreNames.contains(PAGE_SNAPSHOTS_STORE)) return;
+      const store = db.createObjectStore(PAGE_SNAPSHOTS_STORE, { keyPath: "id" });
+      store.createIndex("by_page", "pageId");
+    }
+  },
+  {
+    from: 9,
+    to: 10,
+    description: "page embeddings for semantic search",
+    migrate(db) {
+      if (db.objectStoreNames.contains(PAGE_EMBEDDINGS_STORE)) return;
+      const store = db.createObjectStore(PAGE_EMBEDDINGS_STORE, { keyPath: "pageId" });
+      store.createIndex("by_model", "model");
+    }
+  },
+  {
+    from: 10,
+    to: 11,
+    description: "inverted index for keyword search",
+    migrate(db) {
+      // Сами постинги строятся при первом поиске: здесь нельзя ни расшифровать страницы, ни посчитать хеши
+      if (!db.objectStoreNames.contains(SEARCH_POSTINGS_STORE)) {
+        const store = db.createObjectStore(SEARCH_POSTINGS_STORE, { keyPath: ["term", "pageId"] });
+        store.createIndex("by_page", "pageId");
+      }
+      if (!db.objectStoreNames.contains(SEARCH_DOCS_STORE)) {
+        db.createObjectStore(SEARCH_DOCS_STORE, { keyPath: "pageId" });
+      }
+    }
+  },
+  {
+    from: 11,
+    to: 12,
+    description: "rebuild keyword index with stemmed terms",
+    migrate(_db, tx) {
+      // Термы прежнего токенизатора не совпадут с основами из запроса — индекс перестраивается при первом поиске
+      tx.objectStore(SEARCH_POSTINGS_STORE).clear();
+      tx.objectStore(SEARCH_DOCS_STORE).clear();
+    }
+  },
+  {
+    from: 12,
+    to: 13,
+    description: "web_research cache of search results and fetched pages",
+    migrate(db) {
+      if (db.objectStoreNames.contains(WEB_CACHE_STORE)) return;
+      const store = db.createObjectStore(WEB_CACHE_STORE, { keyPath: "key" });
+      store.createIndex("by_fetchedAt", "fetchedAt");
+    }
+  }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+/**
+ * Шаги для обновления oldVersion → newVersion по порядку: нужны те, чей `to` выше oldVersion.
+ * Цепочка обязана быть непрерывной — разрыв означает ошибку в списке миграций, а не в данных.
+ */
+export function migrationsFor(
+  oldVersion: number,
+  newVersion: number,
+  migrations: readonly Migration[] = MIGRATIONS
+): Migration[] {
+  const steps = migrations.filter((m) => m.to > oldVersion && m.to <= newVersion);
+  if (newVersion <= oldVersion) return steps;
+  let version = oldVersion;
+  for (const [i, step] of steps.entries()) {
+    const fits = i === 0 ? step.from <= version : step.from === version;
+    if (!fits) throw new Error(`Migration chain is broken at v${version} → v${step.to}`);
+    version = step.to;
+  }
+  if (version !== newVersion) throw new Error(`No migration path from v${oldVersion} to v${newVersion}`);
+  return steps;
+}
+
+/**
+ * Открыть базу и выполнить недостающие миграции. Ошибка любого шага отменяет обновление целиком
+ * (MigrationError); открытые соединения закрываются при обновлении из другого контекста расширения.
+ */
+export function openDatabaseWithMigrations(
+  name: string = DB_NAME,
+  version: number = DB_VERSION,
+  migrations: readonly Migration[] = MIGRATIONS
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    let failure: MigrationError | null = null;
+    let upgradeFrom: number | null = null;
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      upgradeFrom = event.oldVersion;
+      let current: Migration | null = null;
+      try {
+        for (const step of migrationsFor(event.oldVersion, version, migrations)) {
+          current = step;
+          step.migrate(db, tx);
+        }
+      } catch (err) {
+        failure = new MigrationError(event.oldVersion, version, current?.description ?? null, err);
+        tx.abort();
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => {
+      if (failure) reject(failure);
+      // Запрос внутри шага упал асинхронно — транзакция обновления прервана целиком
+      else if (upgradeFrom != null) reject(new MigrationError(upgradeFrom, version, null, request.error));
+      else reject(request.error);
+    };
+  });
+}
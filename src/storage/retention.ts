@@ -0,0 +1,138 @@
+/**
+ * Ограничения стора pages: лимиты количества, возраста и объёма (вытеснение по updatedAt — LRU)
+ * и список доменов, которые не индексируются. Настройки — в `chrome.storage.sync`, 0 — без ограничения.
+ */
+
+/** По умолчанию лимитов нет: страницы вытесняются только после того, как пользователь задал лимиты в Options. */
+export const PAGE_RETENTION_SYNC_DEFAULTS = {
+  pageRetentionMaxPages: 0,
+  pageRetentionMaxAgeDays: 0,
+  pageRetentionMaxMb: 0,
+  /** Домены по одному на строку (или через запятую); поддомены тоже исключаются. */
+  pageIndexNeverDomains: ""
+} as const;
+
+export interface PageRetentionLimits {
+  maxPages: number;
+  maxAgeDays: number;
+  maxBytes: number;
+  neverIndexDomains: string[];
+}
+
+/** Метаданные страницы для решения о вытеснении (без текста). */
+export interface PageSizeEntry {
+  id: string;
+  url: string;
+  updatedAt: string;
+  bytes: number;
+}
+
+/** Число записей и оценка объёма одного стора IndexedDB. */
+export interface StoreUsage {
+  name: string;
+  count: number;
+  bytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+function nonNegative(raw: unknown): number {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+export function parsePageRetention(items: Record<string, unknown>): PageRetentionLimits {
+  return {
+    maxPages: nonNegative(items.pageRetentionMaxPages),
+    maxAgeDays: nonNegative(items.pageRetentionMaxAgeDays),
+    maxBytes: nonNegative(items.pageRetentionMaxMb) * MB,
+    neverIndexDomains: parseDomainList(String(items.pageIndexNeverDomains ?? ""))
+  };
+}
+
+/**
+ * Список доменов из текста настройки: по строке или через запятую/пробел.
+ * Допускаются URL и маски `*.example.com` — остаётся только хост в нижнем регистре.
+ */
+export function parseDomainList(text: string): string[] {
+  const out = new Set<string>();
+  for (const raw of text.split(/[\s,;]+/)) {
+    let d = raw.trim().toLowerCase();
+    if (!d) continue;
+    if (d.includes("://")) d = hostOfUrl(d) ?? "";
+    d = d.replace(/^\*\./, "").replace(/^\.+|\.+$/g, "").replace(/\/.*$/, "");
+    if (d) out.add(d);
+  }
+  return [...out];
+}
+
+export function hostOfUrl(url: string): string | null {
+  try {
+    const u = new URL(url);
+    return u.hostname ? u.hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Хост совпадает с доменом или является его поддоменом. */
+export function hostMatchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function isUrlNeverIndexed(url: string, domains: readonly string[]): boolean {
+  if (domains.length === 0) return false;
+  const host = hostOfUrl(url);
+  return host != null && domains.some((d) => hostMatchesDomain(host, d));
+}
+
+/** Оценка объёма записи: длина JSON в UTF-8 (IndexedDB хранит structured clone, порядок величины тот же). */
+export function estimateRecordBytes(value: unknown): number {
+  try {
+    return new TextEncoder().encode(JSON.stringify(value) ?? "").length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Какие страницы удалить: из запрещённых доменов и старше maxAgeDays — всегда,
+ * затем самые давно обновлённые, пока не уложимся в maxPages и maxBytes.
+ */
+export function selectPagesToEvict(
+  entries: readonly PageSizeEntry[],
+  limits: PageRetentionLimits,
+  now = Date.now()
+): string[] {
+  const evict = new Set<string>();
+  const cutoff = limits.maxAgeDays > 0 ? now - limits.maxAgeDays * DAY_MS : -Infinity;
+  const kept: PageSizeEntry[] = [];
+  for (const e of entries) {
+    const ts = Date.parse(e.updatedAt);
+    if (isUrlNeverIndexed(e.url, limits.neverIndexDomains) || (Number.isFinite(ts) && ts < cutoff)) {
+      evict.add(e.id);
+    } else {
+      kept.push(e);
+    }
+  }
+  // Новые первыми; вытесняем с хвоста
+  kept.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  let count = kept.length;
+  let bytes = kept.reduce((sum, e) => sum + e.bytes, 0);
+  for (let i = kept.length - 1; i >= 0; i--) {
+    const overCount = limits.maxPages > 0 && count > limits.maxPages;
+    const overBytes = limits.maxBytes > 0 && bytes > limits.maxBytes;
+    if (!overCount && !overBytes) break;
+    evict.add(kept[i].id);
+    count -= 1;
+    bytes -= kept[i].bytes;
+  }
+  return [...evict];
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
@@ -0,0 +1,269 @@
+/**
+ * Копия базы перед обновлением схемы: если миграция испортит или потеряет данные, записи прежней версии
+ * остаются в отдельной базе и выгружаются из Options → Data как бэкап. Хранится одна, последняя копия;
+ * через UPGRADE_BACKUP_TTL_DAYS после удачного обновления она удаляется.
+ *
+ * Индекс поиска, векторы и кеши в копию не входят — они строятся заново. Остальные сторы пишутся
+ * пачками по BACKUP_CHUNK_SIZE записей, каждая своей транзакцией: база целиком в памяти не собирается.
+ */
+import {
+  LLM_CACHE_STORE,
+  PAGES_STORE,
+  PAGE_EMBEDDINGS_STORE,
+  PAGE_SNAPSHOTS_STORE,
+  SEARCH_DOCS_STORE,
+  SEARCH_POSTINGS_STORE,
+  WEB_CACHE_STORE
+} from "./migrations";
+
+export const UPGRADE_BACKUP_DB_NAME = "pageai_extension_backup";
+const BACKUP_DB_VERSION = 2;
+/** Заголовки копий, ключ — имя базы */
+const BACKUP_META_STORE = "backups";
+/** Пачки записей, ключ — [dbName, store, index] */
+const BACKUP_CHUNKS_STORE = "chunks";
+/** Формат версии 1: вся копия одной записью */
+const LEGACY_BACKUP_STORE = "snapshots";
+
+const BACKUP_CHUNK_SIZE = 100;
+
+/** Сколько дней копия хранится после удачного обновления. */
+export const UPGRADE_BACKUP_TTL_DAYS = 7;
+
+/** Производные сторы: пересчитываются из страниц или загружаются снова. */
+const SKIPPED_STORES = new Set([
+  SEARCH_POSTINGS_STORE,
+  SEARCH_DOCS_STORE,
+  PAGE_EMBEDDINGS_STORE,
+  LLM_CACHE_STORE,
+  WEB_CACHE_STORE
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UpgradeBackupInfo {
+  dbName: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string;
+}
+
+export interface UpgradeBackup extends UpgradeBackupInfo {
+  /** Записи сторов прежней версии как есть (зашифрованные поля остаются зашифрованными), без производных сторов */
+  stores: Record<string, Record<string, unknown>[]>;
+}
+
+interface BackupChunk {
+  dbName: string;
+  store: string;
+  index: number;
+  records: Record<string, unknown>[];
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Backup transaction aborted"));
+  });
+}
+
+/** Текущая версия базы без её открытия (0 — базы нет): open() без версии создал бы пустую базу. */
+export async function readDatabaseVersion(name: string): Promise<number> {
+  const list = await indexedDB.databases();
+  return list.find((d) => d.name === name)?.version ?? 0;
+}
+
+function openBackupDb(): Promise<IDBDatabase> {
+  const request = indexedDB.open(UPGRADE_BACKUP_DB_NAME, BACKUP_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (db.objectStoreNames.contains(LEGACY_BACKUP_STORE)) db.deleteObjectStore(LEGACY_BACKUP_STORE);
+    if (!db.objectStoreNames.contains(BACKUP_META_STORE)) db.createObjectStore(BACKUP_META_STORE, { keyPath: "dbName" });
+    if (!db.objectStoreNames.contains(BACKUP_CHUNKS_STORE)) {
+      db.createObjectStore(BACKUP_CHUNKS_STORE, { keyPath: ["dbName", "store", "index"] });
+    }
+  };
+  return requestResult(request);
+}
+
+/** Открыть базу копий, только если она уже есть: чтение и удаление не должны её создавать. */
+async function openExistingBackupDb(): Promise<IDBDatabase | null> {
+  return (await readDatabaseVersion(UPGRADE_BACKUP_DB_NAME)) === 0 ? null : openBackupDb();
+}
+
+/** Все пачки базы name или только её стора store (массивы в ключах IndexedDB больше любых строк и чисел). */
+function chunkRange(name: string, store?: string): IDBKeyRange {
+  return store == null
+    ? IDBKeyRange.bound([name], [name, []])
+    : IDBKeyRange.bound([name, store], [name, store, []]);
+}
+
+/** Следующие BACKUP_CHUNK_SIZE записей стора после ключа after — курсором в отдельной транзакции. */
+function readChunk(
+  db: IDBDatabase,
+  store: string,
+  after: IDBValidKey | undefined
+): Promise<{ records: Record<string, unknown>[]; lastKey: IDBValidKey | undefined }> {
+  return new Promise((resolve, reject) => {
+    const range = after === undefined ? undefined : IDBKeyRange.lowerBound(after, true);
+    const request = db.transaction(store, "readonly").objectStore(store).openCursor(range);
+    const records: Record<string, unknown>[] = [];
+    let lastKey: IDBValidKey | undefined;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || records.length >= BACKUP_CHUNK_SIZE) {
+        resolve({ records, lastKey });
+        return;
+      }
+      records.push(cursor.value as Record<string, unknown>);
+      lastKey = cursor.primaryKey;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function clearBackup(db: IDBDatabase, name: string): Promise<void> {
+  const tx = db.transaction([BACKUP_META_STORE, BACKUP_CHUNKS_STORE], "readwrite");
+  tx.objectStore(BACKUP_META_STORE).delete(name);
+  tx.objectStore(BACKUP_CHUNKS_STORE).delete(chunkRange(name));
+  return transactionDone(tx);
+}
+
+async function copyStore(source: IDBDatabase, backupDb: IDBDatabase, name: string, store: string): Promise<void> {
+  let after: IDBValidKey | undefined;
+  for (let index = 0; ; index++) {
+    const { records, lastKey } = await readChunk(source, store, after);
+    if (records.length === 0) return;
+    const tx = backupDb.transaction(BACKUP_CHUNKS_STORE, "readwrite");
+    const chunk: BackupChunk = { dbName: name, store, index, records };
+    tx.objectStore(BACKUP_CHUNKS_STORE).put(chunk);
+    await transactionDone(tx);
+    if (records.length < BACKUP_CHUNK_SIZE) return;
+    after = lastKey;
+  }
+}
+
+/**
+ * Сохранить копию базы, если она существует и будет обновлена до targetVersion.
+ * null — обновлять нечего (новая установка или версия уже актуальна).
+ * Заголовок пишется последним; при ошибке недописанная копия удаляется.
+ */
+export async function backupBeforeUpgrade(name: string, targetVersion: number): Promise<UpgradeBackupInfo | null> {
+  const fromVersion = await readDatabaseVersion(name);
+  if (fromVersion === 0 || fromVersion >= targetVersion) return null;
+  const info: UpgradeBackupInfo = { dbName: name, fromVersion, toVersion: targetVersion, createdAt: new Date().toISOString() };
+  const source = await requestResult(indexedDB.open(name));
+  const backupDb = await openBackupDb();
+  try {
+    await clearBackup(backupDb, name);
+    for (const store of Array.from(source.objectStoreNames)) {
+      if (!SKIPPED_STORES.has(store)) await copyStore(source, backupDb, name, store);
+    }
+    const tx = backupDb.transaction(BACKUP_META_STORE, "readwrite");
+    tx.objectStore(BACKUP_META_STORE).put(info);
+    await transactionDone(tx);
+    return info;
+  } catch (err) {
+    await clearBackup(backupDb, name).catch(() => undefined);
+    throw err;
+  } finally {
+    source.close();
+    backupDb.close();
+  }
+}
+
+/** Заголовок копии без записей (кнопки в Options). */
+export async function loadUpgradeBackupInfo(name: string): Promise<UpgradeBackupInfo | null> {
+  const db = await openExistingBackupDb();
+  if (!db) return null;
+  try {
+    const tx = db.transaction(BACKUP_META_STORE, "readonly");
+    return ((await requestResult(tx.objectStore(BACKUP_META_STORE).get(name))) as UpgradeBackupInfo | undefined) ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadUpgradeBackup(name: string): Promise<UpgradeBackup | null> {
+  const db = await openExistingBackupDb();
+  if (!db) return null;
+  try {
+    const tx = db.transaction([BACKUP_META_STORE, BACKUP_CHUNKS_STORE], "readonly");
+    const infoReq = requestResult(tx.objectStore(BACKUP_META_STORE).get(name));
+    const chunksReq = requestResult(tx.objectStore(BACKUP_CHUNKS_STORE).getAll(chunkRange(name)));
+    const info = (await infoReq) as UpgradeBackupInfo | undefined;
+    const chunks = (await chunksReq) as BackupChunk[];
+    if (!info) return null;
+    const stores: Record<string, Record<string, unknown>[]> = {};
+    // Ключи упорядочены по стору, затем по номеру пачки
+    for (const chunk of chunks) (stores[chunk.store] ??= []).push(...chunk.records);
+    return { ...info, stores };
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteUpgradeBackup(name: string): Promise<void> {
+  const db = await openExistingBackupDb();
+  if (!db) return;
+  try {
+    await clearBackup(db, name);
+  } finally {
+    db.close();
+  }
+}
+
+/** Удалить копию, если она старше UPGRADE_BACKUP_TTL_DAYS; true — копия удалена. */
+export async function deleteExpiredUpgradeBackup(name: string, now = Date.now()): Promise<boolean> {
+  const info = await loadUpgradeBackupInfo(name);
+  if (!info) return false;
+  const createdAt = Date.parse(info.createdAt);
+  if (Number.isFinite(createdAt) && now - createdAt < UPGRADE_BACKUP_TTL_DAYS * DAY_MS) return false;
+  await deleteUpgradeBackup(name);
+  return true;
+}
+
+
+/**
+ * Убрать из копии страницы и снимки, для которых matches вернул true («забыть сайт», лимиты хранения,
+ * удаление страниц): удалённое из базы не должно оставаться в бэкапе. Id и url хранятся открытыми
+ * и при шифровании. Пачки переписываются курсором в одной транзакции.
+ */
+export async function purgeUpgradeBackupPages(
+  name: string,
+  matches: (page: { id: string; url: string }) => boolean
+): Promise<void> {
+  const db = await openExistingBackupDb();
+  if (!db) return;
+  const pageOf: Record<string, (r: Record<string, unknown>) => { id: string; url: string }> = {
+    [PAGES_STORE]: (r) => ({ id: String(r.id), url: String(r.url ?? "") }),
+    [PAGE_SNAPSHOTS_STORE]: (r) => ({ id: String(r.pageId), url: String(r.url ?? "") })
+  };
+  try {
+    const tx = db.transaction(BACKUP_CHUNKS_STORE, "readwrite");
+    const chunks = tx.objectStore(BACKUP_CHUNKS_STORE);
+    for (const [store, pageOfRecord] of Object.entries(pageOf)) {
+      const request = chunks.openCursor(chunkRange(name, store));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const chunk = cursor.value as BackupChunk;
+        const records = chunk.records.filter((r) => !matches(pageOfRecord(r)));
+        if (records.length !== chunk.records.length) cursor.update({ ...chunk, records });
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
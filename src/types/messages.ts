@@ -3,9 +3,65 @@ export interface Page {
   url: string;
   title: string;
   spaceKey?: string;
+  /** `<link rel="canonical">` страницы, если он есть */
+  canonicalUrl?: string;
+  /** SimHash текста (src/search/duplicates.ts); пусто — текст слишком короткий */
+  simhash?: string;
   createdAt: string;
   updatedAt: string;
   contentText: string;
+  /** Заголовки h1–h6 основного контента со смещениями в contentText (content script) */
+  headings?: PageHeading[];
+  /** Пассажи текста; у страниц, сохранённых раньше, считаются на лету (pagePassages) */
+  passages?: PagePassage[];
+}
+
+export interface PageHeading {
+  /** 1–6 */
+  level: number;
+  text: string;
+  /** Начало заголовка в contentText */
+  offset: number;
+}
+
+/** Кусок текста страницы внутри одного раздела: текст — contentText.slice(start, end). */
+export interface PagePassage {
+  index: number;
+  /** Заголовки разделов от верхнего к ближайшему; пусто — текст до первого заголовка */
+  sectionPath: string[];
+  start: number;
+  end: number;
+  tokenEstimate: number;
+}
+
+/**
+ * Версия текста страницы между посещениями. Одинаковый текст хранится один раз:
+ * id — `${pageId}:${contentHash}`, повторное посещение только сдвигает lastSeenAt.
+ */
+export interface PageSnapshot {
+  id: string;
+  pageId: string;
+  url: string;
+  title: string;
+  /** SHA-256 нормализованного текста (при шифровании — keyedLookupHash) */
+  contentHash: string;
+  /** Текст после normalizeSnapshotText */
+  contentText: string;
+  /** Первое посещение с этим текстом */
+  capturedAt: string;
+  /** Последнее посещение с этим текстом */
+  lastSeenAt: string;
+}
+
+/** Вектор страницы для семантического поиска (стор page_embeddings, ключ — pageId). */
+export interface PageEmbedding {
+  pageId: string;
+  model: string;
+  dimensions: number;
+  /** Хеш входного текста (embeddingInputForPage): другой хеш — страница изменилась, вектор устарел */
+  contentHash: string;
+  vector: number[];
+  embeddedAt: string;
 }
 
 export type PageIndexPayload = Page;
@@ -32,11 +88,25 @@ export type MessageFromPanel =
   | {
       type: "CHAT_MESSAGE_CURRENT_PAGE";
       payload: { text: string };
+    }
+  | {
+      type: "PAGE_WHAT_CHANGED";
+      /** Без id снимков сравниваются два последних */
+      payload: { pageId: string; fromSnapshotId?: string; toSnapshotId?: string };
+    }
+  | {
+      type: "SEARCH_LLM_RERANK";
+      /** Верхние результаты поиска в текущем порядке; ответ — их id в новом порядке */
+      payload: { query: string; candidates: LlmRerankCandidate[]; timeoutMs?: number };
     };
 
 export interface SearchResult {
   page: Page;
   score: number;
+  /** Пассаж страницы, лучше всего отвечающий запросу */
+  passage?: PagePassage;
+  /** Почти одинаковые страницы ниже в выдаче, схлопнутые в этот результат */
+  duplicates?: Array<{ id: string; url: string; title: string }>;
 }
 
 /** Один шаг рассуждения: размышление модели или вызов инструмента (MCP). */
@@ -45,10 +115,29 @@ export type ReasoningStep =
   | { type: "tool_call"; name: string; serverName?: string; args?: string; result?: string };
 
 import type { OrchestrationMetrics } from "../agent/pipeline";
+import type { LlmRerankCandidate } from "../search/llm-rerank";
 
-export type { OrchestrationMetrics };
+export type { OrchestrationMetrics, LlmRerankCandidate };
+
+/** Источник ответа; у ответа «по моим страницам» — процитированный пассаж с номером ссылки `[id]`. */
+export interface ChatSource {
+  title: string;
+  url: string;
+  id?: number;
+  excerpt?: string;
+  /** "web" — документ, загруженный web_research (карточка источника под ответом) */
+  kind?: "web";
+  /** Глубина web_research: 0 — из выдачи */
+  depth?: number;
+  /** Релевантность документа запросу web_research (0–1) */
+  score?: number;
+}
 
 export interface ChatMessage {
+  /** Ключ записи в IndexedDB (autoIncrement) */
+  id?: number;
+  /** Беседа, к которой относится сообщение (см. Conversation) */
+  conversationId?: string;
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: string;
@@ -56,7 +145,32 @@ export interface ChatMessage {
   thinking?: string;
   /** Цепочка шагов рассуждения: размышления и вызовы инструментов (сохраняются все раунды) */
   reasoningSteps?: ReasoningStep[];
-  sources?: Array<{ title: string; url: string }>;
+  sources?: ChatSource[];
   /** Итог цикла агента: раунды, verify, причина остановки */
   orchestrationMetrics?: OrchestrationMetrics;
 }
+
+/** Именованная беседа; сообщения chat_history ссылаются на неё через conversationId. */
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Страница, на которой беседа начата (если была) */
+  pageUrl?: string;
+  pageOrigin?: string;
+  /** Закреплённые беседы показываются первыми */
+  pinned?: boolean;
+  /** Ключ треда страницы/сайта (см. threadKeyForUrl); у ручных бесед отсутствует */
+  threadKey?: string;
+  /** Беседа «с коллекцией»: ответы опираются на страницы этой коллекции (Page.spaceKey) */
+  collection?: string;
+  /** Беседа «Ask my pages»: ответы по пассажам всех сохранённых страниц со ссылками [n] */
+  askPages?: boolean;
+}
+
+/** Фон → panel/popup: активная вкладка сменилась или перешла на другой URL. */
+export interface ActiveTabChangedMessage {
+  type: "ACTIVE_TAB_CHANGED";
+  payload: { tabId: number; windowId: number; url: string; title: string };
+}
@@ -0,0 +1,450 @@
+/**
+ * Переключатель бесед над лентой сообщений (общий для боковой панели и popup).
+ * Активная беседа хранится в chrome.storage.local, чтобы panel и popup открывались на одной и той же.
+ */
+import type { ActiveTabChangedMessage, Conversation } from "../types/messages";
+import type { Storage } from "../storage/indexdb";
+import { translate } from "../i18n";
+import {
+  ACTIVE_CONVERSATION_STORAGE_KEY,
+  createConversationRecord,
+  sortConversations,
+  threadKeyForUrl,
+  titleFromFirstMessage
+} from "../chat/conversations";
+import { removeRollingChatSummaryStorage } from "../chat/rolling-summary";
+import { CHAT_CONTEXT_SYNC_DEFAULTS, parseChatThreadMode, type ChatThreadMode } from "../chat/chat-context-sync";
+import {
+  conversationExportFileName,
+  conversationToHtml,
+  conversationToMarkdown,
+  type ConversationExportFormat,
+  type ConversationExportLabels
+} from "../chat/conversation-export";
+
+export interface ConversationBarHooks {
+  /** Перед сменой беседы: оборвать отображение стрима и т.п. */
+  beforeSwitch?: () => void;
+  /** Беседа сменилась: перечитать историю и перерисовать ленту. */
+  onSwitch: (conversation: Conversation) => void | Promise<void>;
+  /** Следовать за активной вкладкой своего окна (боковая панель); popup выбирает тред только при открытии. */
+  followActiveTab?: boolean;
+}
+
+const DELETE_CONFIRM_MS = 3000;
+const EXPORT_FEEDBACK_MS = 1500;
+
+let barStorage: Storage | null = null;
+let barHooks: ConversationBarHooks | null = null;
+let activeConversation: Conversation | null = null;
+let conversations: Conversation[] = [];
+let deleteArmedUntil = 0;
+/** Смены вкладок приходят пачками (onActivated + onUpdated) — обрабатываем по очереди, чтобы не плодить треды. */
+let threadQueue: Promise<void> = Promise.resolve();
+
+function el<T extends HTMLElement>(id: string): T | null {
+  return document.getElementById(id) as T | null;
+}
+
+function readActiveId(): Promise<string | null> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get({ [ACTIVE_CONVERSATION_STORAGE_KEY]: "" }, (items) => {
+      const id = String(items[ACTIVE_CONVERSATION_STORAGE_KEY] ?? "");
+      resolve(id || null);
+    });
+  });
+}
+
+function writeActiveId(id: string): void {
+  chrome.storage.local.set({ [ACTIVE_CONVERSATION_STORAGE_KEY]: id });
+}
+
+async function activeTab(): Promise<chrome.tabs.Tab | undefined> {
+  try {
+    const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+    return tabs[0];
+  } catch {
+    return undefined;
+  }
+}
+
+async function activeTabUrl(): Promise<string | undefined> {
+  return (await activeTab())?.url || undefined;
+}
+
+function loadThreadMode(): Promise<ChatThreadMode> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get({ chatThreadMode: CHAT_CONTEXT_SYNC_DEFAULTS.chatThreadMode }, (items) => {
+      resolve(parseChatThreadMode(items.chatThreadMode));
+    });
+  });
+}
+
+async function displayTitle(conv: Conversation): Promise<string> {
+  const title = conv.title || (await translate("chat.untitledConversation"));
+  return conv.pinned ? `📌 ${title}` : title;
+}
+
+async function renderBar(): Promise<void> {
+  const select = el<HTMLSelectElement>("conversation-select");
+  if (!select) return;
+  select.innerHTML = "";
+  for (const conv of conversations) {
+    const opt = document.createElement("option");
+    opt.value = conv.id;
+    opt.textContent = await displayTitle(conv);
+    if (conv.pageUrl) opt.title = conv.pageUrl;
+    select.appendChild(opt);
+  }
+  if (activeConversation) select.value = activeConversation.id;
+
+  const pinBtn = el<HTMLButtonElement>("conversation-pin-btn");
+  if (pinBtn) {
+    const label = await translate(activeConversation?.pinned ? "chat.unpinConversation" : "chat.pinConversation");
+    pinBtn.title = label;
+    pinBtn.setAttribute("aria-label", label);
+    pinBtn.setAttribute("aria-pressed", String(Boolean(activeConversation?.pinned)));
+  }
+}
+
+async function reloadList(): Promise<void> {
+  if (!barStorage) return;
+  conversations = sortConversations(await barStorage.listConversations());
+  await renderBar();
+}
+
+async function activate(conv: Conversation): Promise<void> {
+  barHooks?.beforeSwitch?.();
+  activeConversation = conv;
+  writeActiveId(conv.id);
+  await renderBar();
+  await barHooks?.onSwitch(conv);
+}
+
+/** Активная беседа (после initConversationBar всегда есть). */
+export function getActiveConversation(): Conversation | null {
+  return activeConversation;
+}
+
+/** Создать новую беседу, привязанную к странице активной вкладки, и сделать её активной. */
+export async function startNewConversation(): Promise<Conversation | null> {
+  if (!barStorage) return null;
+  const conv = createConversationRecord({ pageUrl: await activeTabUrl() });
+  await barStorage.saveConversation(conv);
+  await reloadList();
+  await activate(conv);
+  return conv;
+}
+
+/** Беседа «с коллекцией»: последняя уже созданная для этой коллекции или новая; становится активной. */
+export async function startCollectionConversation(collection: string): Promise<Conversation | null> {
+  if (!barStorage) return null;
+  const existing = sortConversations(await barStorage.listConversations()).find((c) => c.collection === collection);
+  const conv = existing ?? createConversationRecord({ title: `🗂 ${collection}`, collection });
+  if (!existing) await barStorage.saveConversation(conv);
+  await reloadList();
+  await activate(conv);
+  return conv;
+}
+
+/** Беседа «Ask my pages»: последняя уже созданная или новая; становится активной. */
+export async function startAskPagesConversation(): Promise<Conversation | null> {
+  if (!barStorage) return null;
+  const existing = sortConversations(await barStorage.listConversations()).find((c) => c.askPages);
+  const conv = existing ?? createConversationRecord({ title: await translate("chat.askPagesConversation"), askPages: true });
+  if (!existing) await barStorage.saveConversation(conv);
+  await reloadList();
+  await activate(conv);
+  return conv;
+}
+
+/** Найти или создать беседу-тред для страницы/сайта вкладки; null — URL не подходит для треда. */
+async function ensureThreadConversation(url: string, title: string, mode: ChatThreadMode): Promise<Conversation | null> {
+  const key = threadKeyForUrl(url, mode);
+  if (!barStorage || !key) return null;
+  if (activeConversation?.threadKey === key) return activeConversation;
+  const existing = (await barStorage.listConversations()).find((c) => c.threadKey === key);
+  if (existing) return existing;
+  const threadTitle = mode === "origin" ? new URL(url).host : title.trim() || url;
+  const conv = createConversationRecord({ title: threadTitle, pageUrl: url, threadKey: key });
+  await barStorage.saveConversation(conv);
+  return conv;
+}
+
+/** Режим тредов: переключиться на беседу страницы (или сайта) вкладки, восстановив её историю. */
+export function followTabThread(url: string, title: string): Promise<void> {
+  threadQueue = threadQueue.then(async () => {
+    const mode = await loadThreadMode();
+    const conv = await ensureThreadConversation(url, title, mode);
+    if (!conv || conv.id === activeConversation?.id) return;
+    await reloadList();
+    await activate(conv);
+  }).catch((err) => {
+    console.warn("Failed to switch chat thread:", err);
+  });
+  return threadQueue;
+}
+
+export async function switchConversation(id: string): Promise<void> {
+  if (!barStorage || id === activeConversation?.id) return;
+  const conv = await barStorage.getConversation(id);
+  if (!conv) {
+    await reloadList();
+    return;
+  }
+  await activate(conv);
+}
+
+/**
+ * Отметить новую реплику пользователя: беседа без заголовка получает его из первой реплики,
+ * список пересортировывается по updatedAt.
+ */
+export async function noteUserMessage(text: string): Promise<void> {
+  if (!barStorage || !activeConversation) return;
+  const next: Conversation = { ...activeConversation, updatedAt: new Date().toISOString() };
+  if (!next.title) next.title = titleFromFirstMessage(text);
+  activeConversation = next;
+  await barStorage.saveConversation(next);
+  await reloadList();
+}
+
+async function togglePin(): Promise<void> {
+  if (!barStorage || !activeConversation) return;
+  activeConversation = { ...activeConversation, pinned: !activeConversation.pinned };
+  await barStorage.saveConversation(activeConversation);
+  await reloadList();
+}
+
+async function deleteActive(): Promise<void> {
+  const btn = el<HTMLButtonElement>("conversation-delete-btn");
+  if (!barStorage || !activeConversation) return;
+  const now = Date.now();
+  if (now > deleteArmedUntil) {
+    deleteArmedUntil = now + DELETE_CONFIRM_MS;
+    btn?.classList.add("conversation-action-armed");
+    if (btn) btn.title = await translate("chat.deleteConversationConfirm");
+    setTimeout(() => {
+      btn?.classList.remove("conversation-action-armed");
+      void translate("chat.deleteConversation").then((t) => {
+        if (btn) btn.title = t;
+      });
+    }, DELETE_CONFIRM_MS);
+    return;
+  }
+  deleteArmedUntil = 0;
+  btn?.classList.remove("conversation-action-armed");
+  const id = activeConversation.id;
+  barHooks?.beforeSwitch?.();
+  await barStorage.deleteConversation(id);
+  await removeRollingChatSummaryStorage(id).catch(() => {});
+  conversations = sortConversations(await barStorage.listConversations());
+  if (conversations.length > 0) {
+    await activate(conversations[0]);
+  } else {
+    await startNewConversation();
+  }
+}
+
+async function exportLabels(): Promise<ConversationExportLabels> {
+  return {
+    untitled: await translate("chat.untitledConversation"),
+    you: await translate("chat.you"),
+    assistant: await translate("chat.assistant"),
+    system: await translate("chat.systemRole"),
+    reasoning: await translate("chat.reasoning"),
+    toolCall: await translate("chat.toolCall"),
+    args: await translate("chat.exportArgs"),
+    result: await translate("chat.exportResult"),
+    sources: (await translate("chat.sources")).replace(/:$/, ""),
+    page: await translate("chat.exportPage"),
+    exportedAt: await translate("chat.exportedAt")
+  };
+}
+
+/** Скачать через chrome.downloads (диалог «Сохранить как»); blob-URL освобождаем после старта загрузки. */
+async function downloadText(text: string, filename: string, mime: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  try {
+    await chrome.downloads.download({ url, filename, saveAs: true });
+  } finally {
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+  }
+}
+
+function setExportMenuOpen(open: boolean): void {
+  el("conversation-export-menu")?.classList.toggle("hidden", !open);
+  el("conversation-export-btn")?.setAttribute("aria-expanded", String(open));
+}
+
+/** Короткий отклик на кнопке экспорта: ✓ при успехе, подсветка ошибки — при неудаче. */
+async function flashExportResult(ok: boolean, messageKey: string): Promise<void> {
+  const btn = el<HTMLButtonElement>("conversation-export-btn");
+  if (!btn) return;
+  const cls = ok ? "conversation-action-done" : "conversation-action-armed";
+  btn.classList.add(cls);
+  btn.title = await translate(messageKey);
+  setTimeout(() => {
+    btn.classList.remove(cls);
+    void translate("chat.exportConversation").then((t) => {
+      btn.title = t;
+    });
+  }, EXPORT_FEEDBACK_MS);
+}
+
+/** Экспорт активной беседы: файл .md / .html или Markdown в буфер обмена. */
+async function exportActive(action: ConversationExportFormat | "copy"): Promise<void> {
+  setExportMenuOpen(false);
+  if (!barStorage || !activeConversation) return;
+  const conv = activeConversation;
+  try {
+    const messages = await barStorage.getChatHistory(conv.id);
+    const opts = { labels: await exportLabels() };
+    if (action === "copy") {
+      await navigator.clipboard.writeText(conversationToMarkdown(conv, messages, opts));
+      await flashExportResult(true, "chat.exportCopied");
+    } else if (action === "html") {
+      await downloadText(conversationToHtml(conv, messages, opts), conversationExportFileName(conv, "html"), "text/html");
+    } else {
+      await downloadText(conversationToMarkdown(conv, messages, opts), conversationExportFileName(conv, "markdown"), "text/markdown");
+    }
+  } catch (err) {
+    console.warn("Failed to export conversation:", err);
+    await flashExportResult(false, "chat.exportFailed");
+  }
+}
+
+function wireExportMenu(): void {
+  const btn = el("conversation-export-btn");
+  const menu = el("conversation-export-menu");
+  if (!btn || !menu) return;
+  btn.addEventListener("click", (e) => {
+    e.stopPropagation();
+    setExportMenuOpen(menu.classList.contains("hidden"));
+  });
+  menu.addEventListener("click", (e) => {
+    const action = (e.target as HTMLElement).closest<HTMLElement>("[data-export]")?.dataset.export;
+    if (action === "markdown" || action === "html" || action === "copy") void exportActive(action);
+  });
+  document.addEventListener("click", (e) => {
+    if (!menu.contains(e.target as Node)) setExportMenuOpen(false);
+  });
+  document.addEventListener("keydown", (e) => {
+    if (e.key === "Escape") setExportMenuOpen(false);
+  });
+}
+
+function beginRename(): void {
+  const select = el<HTMLSelectElement>("conversation-select");
+  const input = el<HTMLInputElement>("conversation-title-input");
+  if (!select || !input || !activeConversation) return;
+  input.value = activeConversation.title;
+  select.classList.add("hidden");
+  input.classList.remove("hidden");
+  input.focus();
+  input.select();
+}
+
+async function finishRename(save: boolean): Promise<void> {
+  const select = el<HTMLSelectElement>("conversation-select");
+  const input = el<HTMLInputElement>("conversation-title-input");
+  if (!select || !input || input.classList.contains("hidden")) return;
+  input.classList.add("hidden");
+  select.classList.remove("hidden");
+  const title = input.value.trim();
+  if (!save || !barStorage || !activeConversation || title === activeConversation.title) return;
+  activeConversation = { ...activeConversation, title };
+  await barStorage.saveConversation(activeConversation);
+  await reloadList();
+}
+
+async function applyLabels(): Promise<void> {
+  const labels: Array<[string, string]> = [
+    ["conversation-new-btn", "chat.newConversation"],
+    ["conversation-rename-btn", "chat.renameConversation"],
+    ["conversation-delete-btn", "chat.deleteConversation"],
+    ["conversation-select", "chat.conversation"],
+    ["conversation-export-btn", "chat.exportConversation"]
+  ];
+  for (const [id, key] of labels) {
+    const node = el(id);
+    if (!node) continue;
+    const text = await translate(key);
+    node.title = text;
+    node.setAttribute("aria-label", text);
+  }
+  const menuItems: Array<[string, string]> = [
+    ["markdown", "chat.exportMarkdown"],
+    ["html", "chat.exportHtml"],
+    ["copy", "chat.exportCopyMarkdown"]
+  ];
+  for (const [action, key] of menuItems) {
+    const item = document.querySelector<HTMLElement>(`#conversation-export-menu [data-export="${action}"]`);
+    if (item) item.textContent = await translate(key);
+  }
+}
+
+/**
+ * Подключить обработчики и выбрать активную беседу: сохранённую в local, иначе самую свежую, иначе новую.
+ */
+export async function initConversationBar(storage: Storage, hooks: ConversationBarHooks): Promise<Conversation | null> {
+  barStorage = storage;
+  barHooks = hooks;
+
+  el<HTMLSelectElement>("conversation-select")?.addEventListener("change", (e) => {
+    void switchConversation((e.target as HTMLSelectElement).value);
+  });
+  el("conversation-new-btn")?.addEventListener("click", () => void startNewConversation());
+  el("conversation-pin-btn")?.addEventListener("click", () => void togglePin());
+  el("conversation-delete-btn")?.addEventListener("click", () => void deleteActive());
+  el("conversation-rename-btn")?.addEventListener("click", () => beginRename());
+  const titleInput = el<HTMLInputElement>("conversation-title-input");
+  titleInput?.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      void finishRename(true);
+    } else if (e.key === "Escape") {
+      void finishRename(false);
+    }
+  });
+  titleInput?.addEventListener("blur", () => void finishRename(true));
+  wireExportMenu();
+  void applyLabels();
+
+  if (hooks.followActiveTab) {
+    let ownWindowId: number | undefined;
+    void chrome.windows.getCurrent().then((w) => {
+      ownWindowId = w.id;
+    }).catch(() => {});
+    chrome.runtime.onMessage.addListener((message: { type?: string }) => {
+      if (message?.type !== "ACTIVE_TAB_CHANGED") return;
+      const { payload } = message as ActiveTabChangedMessage;
+      if (ownWindowId != null && payload.windowId !== ownWindowId) return;
+      void followTabThread(payload.url, payload.title);
+    });
+  }
+
+  try {
+    conversations = sortConversations(await storage.listConversations());
+  } catch (err) {
+    console.error("Failed to load conversations:", err);
+    conversations = [];
+  }
+  const mode = await loadThreadMode();
+  if (mode !== "off") {
+    const tab = await activeTab();
+    const thread = tab?.url ? await ensureThreadConversation(tab.url, tab.title ?? "", mode) : null;
+    if (thread) {
+      conversations = sortConversations(await storage.listConversations());
+      await activate(thread);
+      return thread;
+    }
+  }
+  const savedId = await readActiveId();
+  const saved = savedId ? conversations.find((c) => c.id === savedId) : undefined;
+  const initial = saved ?? conversations[0];
+  if (initial) {
+    await activate(initial);
+    return initial;
+  }
+  return startNewConversation();
+}
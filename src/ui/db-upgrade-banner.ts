@@ -0,0 +1,40 @@
+/**
+ * Баннер о неудачном обновлении схемы IndexedDB (panel, popup, options): обновление откатано,
+ * данные прежней версии целы; если перед обновлением сохранилась копия — подсказка, где её скачать.
+ */
+import { translate } from "../i18n";
+import { DB_UPGRADE_ERROR_KEY, type DbUpgradeErrorRecord } from "../storage/indexdb";
+
+const BANNER_ID = "db-upgrade-banner";
+
+async function render(record: DbUpgradeErrorRecord | null): Promise<void> {
+  document.getElementById(BANNER_ID)?.remove();
+  if (!record) return;
+  const banner = document.createElement("div");
+  banner.id = BANNER_ID;
+  banner.className = "db-upgrade-banner";
+  banner.setAttribute("role", "alert");
+
+  const title = document.createElement("strong");
+  title.textContent = `${await translate("chat.dbUpgradeFailed")} (v${record.fromVersion} → v${record.toVersion})`;
+  const body = document.createElement("span");
+  const hints = [await translate("chat.dbUpgradeRolledBack")];
+  if (record.backupSaved) hints.push(await translate("chat.dbUpgradeBackupHint"));
+  body.textContent = hints.join(" ");
+  const details = document.createElement("code");
+  details.textContent = record.message;
+
+  banner.append(title, body, details);
+  document.body.prepend(banner);
+}
+
+/** Показать баннер, если последняя попытка обновления не удалась, и убрать после успешного открытия базы. */
+export function initDbUpgradeBanner(): void {
+  chrome.storage.local.get({ [DB_UPGRADE_ERROR_KEY]: null }, (items) => {
+    void render((items[DB_UPGRADE_ERROR_KEY] as DbUpgradeErrorRecord | null) ?? null);
+  });
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "local" || !(DB_UPGRADE_ERROR_KEY in changes)) return;
+    void render((changes[DB_UPGRADE_ERROR_KEY].newValue as DbUpgradeErrorRecord | undefined) ?? null);
+  });
+}
@@ -1,7 +1,7 @@
 /**
  * Общие элементы настроек в боковой панели и popup (дублируют часть Options).
  */
-import { CHAT_CONTEXT_SYNC_DEFAULTS } from "../chat/chat-context-sync";
+import { CHAT_CONTEXT_SYNC_DEFAULTS, parseChatThreadMode } from "../chat/chat-context-sync";
 import { mergeAgentInstructionsForDisplay, persistUnifiedAgentInstructions } from "../chat/agent-instructions-ui";
 import {
   ORCHESTRATOR_SYNC_STORAGE_DEFAULTS,
@@ -48,13 +48,15 @@ function persistChatContext(): void {
   const rollEn = document.getElementById("chat-rolling-summary-enabled") as HTMLInputElement | null;
   const rollEv = document.getElementById("chat-rolling-summary-every") as HTMLInputElement | null;
   const rollBt = document.getElementById("chat-rolling-summary-batch") as HTMLInputElement | null;
+  const threadMode = document.getElementById("chat-thread-mode") as HTMLSelectElement | null;
   chrome.storage.sync.set(
     {
       chatContextMaxMessages: Number(maxM?.value ?? 56),
       chatContextMaxChars: Number(maxC?.value ?? 100_000),
       chatRollingSummaryEnabled: rollEn?.checked !== false,
       chatRollingSummaryEvery: Number(rollEv?.value ?? 16),
-      chatRollingSummaryBatch: Number(rollBt?.value ?? 8)
+      chatRollingSummaryBatch: Number(rollBt?.value ?? 8),
+      chatThreadMode: parseChatThreadMode(threadMode?.value)
     },
     () => showChatContextStatus()
   );
@@ -96,6 +98,8 @@ export function loadInlineExtensionSettings(): void {
     if (rollEn) rollEn.checked = items.chatRollingSummaryEnabled !== false;
     if (rollEv) rollEv.value = String(items.chatRollingSummaryEvery ?? 16);
     if (rollBt) rollBt.value = String(items.chatRollingSummaryBatch ?? 8);
+    const threadMode = document.getElementById("chat-thread-mode") as HTMLSelectElement | null;
+    if (threadMode) threadMode.value = parseChatThreadMode(items.chatThreadMode);
   });
 
   chrome.storage.sync.get(ORCHESTRATOR_SYNC_STORAGE_DEFAULTS, (items) => {
@@ -130,7 +134,8 @@ export function wireInlineExtensionSettings(): void {
     "chat-context-max-chars",
     "chat-rolling-summary-enabled",
     "chat-rolling-summary-every",
-    "chat-rolling-summary-batch"
+    "chat-rolling-summary-batch",
+    "chat-thread-mode"
   ];
   for (const id of chatIds) {
     document.getElementById(id)?.addEventListener("change", persistChatContext);
@@ -1,5 +1,5 @@
 import type { LlmConfigEntry } from "../llm/client";
-import { normalizeEndpoint, detectLlmHost, getLlmConfigsAndActive } from "../llm/client";
+import { normalizeEndpoint, detectLlmHost, getLlmConfigsAndActive, getLMStudioModelsForEndpoint } from "../llm/client";
 import {
   ORCHESTRATOR_SYNC_STORAGE_DEFAULTS,
   mergeOrchestratorSettings,
@@ -11,8 +11,60 @@ import {
   getDefaultMcpServersConfig
 } from "../mcp/client";
 import { translate, getStoredLocale } from "../i18n";
-import { CHAT_CONTEXT_SYNC_DEFAULTS } from "../chat/chat-context-sync";
+import { CHAT_CONTEXT_SYNC_DEFAULTS, parseChatThreadMode } from "../chat/chat-context-sync";
 import { mergeAgentInstructionsForDisplay, persistUnifiedAgentInstructions } from "../chat/agent-instructions-ui";
+import {
+  Storage,
+  DB_NAME,
+  DB_VERSION,
+  clearLlmCache,
+  clearWebCache,
+  getLlmCacheStats,
+  getWebCacheStats,
+  recryptStoreRecords
+} from "../storage/indexdb";
+import { UPGRADE_BACKUP_TTL_DAYS, deleteUpgradeBackup, loadUpgradeBackup, loadUpgradeBackupInfo } from "../storage/upgrade-backup";
+import { initDbUpgradeBanner } from "./db-upgrade-banner";
+import { LLM_CACHE_SYNC_DEFAULTS, parseLlmCacheMaxEntries } from "../llm/response-cache";
+import {
+  DATA_BUNDLE_STORES,
+  buildDataBundle,
+  formatImportPlan,
+  parseDataBundle,
+  planDataBundleImport,
+  sameEncryption,
+  type DataBundle,
+  type DataBundleStores,
+  type ImportMode
+} from "../storage/data-bundle";
+import { PAGE_RETENTION_SYNC_DEFAULTS, formatBytes, parsePageRetention } from "../storage/retention";
+import { COLLECTION_SYNC_DEFAULTS, parseCollectionRules } from "../storage/collections";
+import { RERANK_SYNC_DEFAULTS, parseRerankSettings } from "../search/rerank";
+import { LLM_RERANK_SYNC_DEFAULTS, parseLlmRerankSettings } from "../search/llm-rerank";
+import { SERP_SYNC_DEFAULTS, createSerpProvider, parseSerpSettings } from "../search/serp-providers";
+import { fetchSerpHits } from "../search/web-research";
+import { WEB_CACHE_SYNC_DEFAULTS, parseWebCacheSettings } from "../search/fetch-cache";
+import {
+  EMBEDDING_API_KEY_STORAGE_KEY,
+  EMBEDDING_SYNC_DEFAULTS,
+  embedTexts,
+  normalizeEmbeddingsEndpoint,
+  parseEmbeddingProfile
+} from "../search/embedding";
+import { EMBEDDING_STATUS_STORAGE_KEY, loadEmbeddingStatus, type EmbeddingIndexStatus } from "../search/embedding-queue";
+import {
+  changeEncryptionPassphrase,
+  disableEncryption,
+  enableEncryption,
+  getEncryptionKeyState,
+  isRollingSummaryKey,
+  loadEncryptionMeta,
+  lockEncryption,
+  recryptRollingSummaries,
+  unlockEncryption,
+  validateNewPassphrase
+} from "../storage/encryption-session";
+import { keyFromPassphrase, type EncryptionMeta } from "../storage/crypto";
 
 const llmConfigChips = document.getElementById("llm-config-chips") as HTMLDivElement | null;
 const llmConfigAddBtn = document.getElementById("llm-config-add") as HTMLButtonElement | null;
@@ -24,6 +76,7 @@ const llmConfigAutoBtn = document.getElementById("llm-config-auto") as HTMLButto
 const llmConfigModelInput = document.getElementById("llm-config-model") as HTMLInputElement | null;
 const llmConfigModelsDatalist = document.getElementById("llm-config-models-datalist") as HTMLDataListElement | null;
 const llmConfigApiKeyInput = document.getElementById("llm-config-api-key") as HTMLInputElement | null;
+const llmConfigCacheEnabledEl = document.getElementById("llm-config-cache-enabled") as HTMLInputElement | null;
 const llmConfigSaveBtn = document.getElementById("llm-config-save") as HTMLButtonElement | null;
 const llmConfigCancelBtn = document.getElementById("llm-config-cancel") as HTMLButtonElement | null;
 const llmStatus = document.getElementById("llm-status") as HTMLSpanElement | null;
@@ -32,6 +85,21 @@ const mcpServersListEl = document.getElementById("mcp-servers-list") as HTMLDivE
 const mcpStatus = document.getElementById("mcp-status") as HTMLSpanElement | null;
 const mcpAgentPromptsEnabledEl = document.getElementById("mcp-agent-prompts-enabled") as HTMLInputElement | null;
 const browserAutomationCheckbox = document.getElementById("browser-automation-enabled") as HTMLInputElement | null;
+const knowledgeToolsCheckbox = document.getElementById("knowledge-tools-enabled") as HTMLInputElement | null;
+const serpProviderEl = document.getElementById("serp-provider") as HTMLSelectElement | null;
+const serpSearxngUrlEl = document.getElementById("serp-searxng-url") as HTMLInputElement | null;
+const serpCustomUrlEl = document.getElementById("serp-custom-url") as HTMLInputElement | null;
+const serpCustomResultSelectorEl = document.getElementById("serp-custom-result-selector") as HTMLInputElement | null;
+const serpCustomLinkSelectorEl = document.getElementById("serp-custom-link-selector") as HTMLInputElement | null;
+const serpCustomTitleSelectorEl = document.getElementById("serp-custom-title-selector") as HTMLInputElement | null;
+const serpTestBtn = document.getElementById("serp-test-btn") as HTMLButtonElement | null;
+const serpStatusEl = document.getElementById("serp-status") as HTMLSpanElement | null;
+const webCacheEnabledEl = document.getElementById("web-cache-enabled") as HTMLInputElement | null;
+const webCacheTtlHoursEl = document.getElementById("web-cache-ttl-hours") as HTMLInputElement | null;
+const webOfflineModeEl = document.getElementById("web-offline-mode") as HTMLInputElement | null;
+const webCacheStatsEl = document.getElementById("web-cache-stats") as HTMLParagraphElement | null;
+const webCacheClearBtn = document.getElementById("web-cache-clear-btn") as HTMLButtonElement | null;
+const webCacheStatusEl = document.getElementById("web-cache-status") as HTMLSpanElement | null;
 const agentInstructionsInput = document.getElementById("agent-instructions") as HTMLTextAreaElement | null;
 const instructionsStatusEl = document.getElementById("instructions-status") as HTMLSpanElement | null;
 const chatContextMaxMessagesEl = document.getElementById("chat-context-max-messages") as HTMLInputElement | null;
@@ -39,6 +107,7 @@ const chatContextMaxCharsEl = document.getElementById("chat-context-max-chars")
 const chatRollingEnabledEl = document.getElementById("chat-rolling-summary-enabled") as HTMLInputElement | null;
 const chatRollingEveryEl = document.getElementById("chat-rolling-summary-every") as HTMLInputElement | null;
 const chatRollingBatchEl = document.getElementById("chat-rolling-summary-batch") as HTMLInputElement | null;
+const chatThreadModeEl = document.getElementById("chat-thread-mode") as HTMLSelectElement | null;
 const chatContextStatusEl = document.getElementById("chat-context-status") as HTMLSpanElement | null;
 const orchestratorPlanEl = document.getElementById("orchestrator-plan-enabled") as HTMLInputElement | null;
 const orchestratorVerifyEl = document.getElementById("orchestrator-verify-enabled") as HTMLInputElement | null;
@@ -59,7 +128,70 @@ const orchestratorCompressTargetEl = document.getElementById("orchestrator-compr
 const agentSearchLexiconEl = document.getElementById("agent-search-lexicon") as HTMLTextAreaElement | null;
 const agentOrchestratorStatusEl = document.getElementById("agent-orchestrator-status") as HTMLSpanElement | null;
 
+const dataExportSecretsEl = document.getElementById("data-export-include-secrets") as HTMLInputElement | null;
+const dataExportBtn = document.getElementById("data-export-btn") as HTMLButtonElement | null;
+const dataUpgradeBackupBtn = document.getElementById("data-upgrade-backup-btn") as HTMLButtonElement | null;
+const dataUpgradeBackupDeleteBtn = document.getElementById("data-upgrade-backup-delete-btn") as HTMLButtonElement | null;
+const dataImportFileEl = document.getElementById("data-import-file") as HTMLInputElement | null;
+const dataImportModeEl = document.getElementById("data-import-mode") as HTMLSelectElement | null;
+const dataImportPassphraseEl = document.getElementById("data-import-passphrase") as HTMLInputElement | null;
+const dataImportPreviewBtn = document.getElementById("data-import-preview-btn") as HTMLButtonElement | null;
+const dataImportApplyBtn = document.getElementById("data-import-apply-btn") as HTMLButtonElement | null;
+const dataImportPreviewEl = document.getElementById("data-import-preview") as HTMLPreElement | null;
+const dataStatusEl = document.getElementById("data-status") as HTMLSpanElement | null;
+const retentionMaxPagesEl = document.getElementById("page-retention-max-pages") as HTMLInputElement | null;
+const retentionMaxAgeEl = document.getElementById("page-retention-max-age") as HTMLInputElement | null;
+const retentionMaxMbEl = document.getElementById("page-retention-max-mb") as HTMLInputElement | null;
+const neverIndexDomainsEl = document.getElementById("page-index-never-domains") as HTMLTextAreaElement | null;
+const retentionStatusEl = document.getElementById("page-retention-status") as HTMLSpanElement | null;
+const rerankKeywordWeightEl = document.getElementById("rerank-keyword-weight") as HTMLInputElement | null;
+const rerankVectorWeightEl = document.getElementById("rerank-vector-weight") as HTMLInputElement | null;
+const rerankRrfKEl = document.getElementById("rerank-rrf-k") as HTMLInputElement | null;
+const rerankRecencyWeightEl = document.getElementById("rerank-recency-weight") as HTMLInputElement | null;
+const rerankRecencyHalfLifeEl = document.getElementById("rerank-recency-half-life") as HTMLInputElement | null;
+const rerankDomainBoostsEl = document.getElementById("rerank-domain-boosts") as HTMLTextAreaElement | null;
+const llmRerankEnabledEl = document.getElementById("llm-rerank-enabled") as HTMLInputElement | null;
+const llmRerankTopNEl = document.getElementById("llm-rerank-top-n") as HTMLInputElement | null;
+const llmRerankTimeoutEl = document.getElementById("llm-rerank-timeout") as HTMLInputElement | null;
+const rerankStatusEl = document.getElementById("rerank-status") as HTMLSpanElement | null;
+const dataUsageTable = document.getElementById("data-usage-table") as HTMLTableElement | null;
+const dataUsageRefreshBtn = document.getElementById("data-usage-refresh-btn") as HTMLButtonElement | null;
+const dataRetentionApplyBtn = document.getElementById("data-retention-apply-btn") as HTMLButtonElement | null;
+const collectionRulesEl = document.getElementById("collection-rules") as HTMLTextAreaElement | null;
+const collectionRulesStatusEl = document.getElementById("collection-rules-status") as HTMLSpanElement | null;
+const collectionRulesApplyBtn = document.getElementById("collection-rules-apply-btn") as HTMLButtonElement | null;
+const llmCacheMaxEntriesEl = document.getElementById("llm-cache-max-entries") as HTMLInputElement | null;
+const llmCacheStatsEl = document.getElementById("llm-cache-stats") as HTMLParagraphElement | null;
+const llmCacheClearBtn = document.getElementById("llm-cache-clear-btn") as HTMLButtonElement | null;
+const llmCacheStatusEl = document.getElementById("llm-cache-status") as HTMLSpanElement | null;
+const encryptionStateEl = document.getElementById("encryption-state") as HTMLParagraphElement | null;
+const encryptionCurrentEl = document.getElementById("encryption-current") as HTMLInputElement | null;
+const encryptionNewEl = document.getElementById("encryption-new") as HTMLInputElement | null;
+const encryptionConfirmEl = document.getElementById("encryption-confirm") as HTMLInputElement | null;
+const encryptionEnableBtn = document.getElementById("encryption-enable-btn") as HTMLButtonElement | null;
+const encryptionUnlockBtn = document.getElementById("encryption-unlock-btn") as HTMLButtonElement | null;
+const encryptionChangeBtn = document.getElementById("encryption-change-btn") as HTMLButtonElement | null;
+const encryptionLockBtn = document.getElementById("encryption-lock-btn") as HTMLButtonElement | null;
+const encryptionDisableBtn = document.getElementById("encryption-disable-btn") as HTMLButtonElement | null;
+const encryptionStatusEl = document.getElementById("encryption-status") as HTMLSpanElement | null;
+const embeddingEnabledEl = document.getElementById("embedding-enabled") as HTMLInputElement | null;
+const embeddingEndpointEl = document.getElementById("embedding-endpoint") as HTMLInputElement | null;
+const embeddingModelEl = document.getElementById("embedding-model") as HTMLInputElement | null;
+const embeddingModelsDatalist = document.getElementById("embedding-models-datalist") as HTMLDataListElement | null;
+const embeddingApiKeyEl = document.getElementById("embedding-api-key") as HTMLInputElement | null;
+const embeddingBatchSizeEl = document.getElementById("embedding-batch-size") as HTMLInputElement | null;
+const embeddingProgressEl = document.getElementById("embedding-progress") as HTMLParagraphElement | null;
+const embeddingTestBtn = document.getElementById("embedding-test-btn") as HTMLButtonElement | null;
+const embeddingRunBtn = document.getElementById("embedding-run-btn") as HTMLButtonElement | null;
+const embeddingResetBtn = document.getElementById("embedding-reset-btn") as HTMLButtonElement | null;
+const embeddingStatusEl = document.getElementById("embedding-status") as HTMLSpanElement | null;
+
 let editingConfigId: string | null = null;
+const storage = new Storage();
+/** Бандл, для которого показан dry-run (уже перешифрованный локальным ключом); Import применяет именно его. */
+let pendingImportBundle: DataBundle | null = null;
+/** Параметры локального шифрования на момент dry-run: если они сменились, бандл надо готовить заново. */
+let pendingImportMeta: EncryptionMeta | null = null;
 
 function getFormEndpointType(): "chat" | "custom" {
   return (llmConfigEndpointTypeSelect?.value === "custom" ? "custom" : "chat") as "chat" | "custom";
@@ -73,6 +205,7 @@ function showForm(entry?: LlmConfigEntry): void {
   if (llmConfigEndpointTypeSelect) llmConfigEndpointTypeSelect.value = entry?.endpointType ?? "chat";
   llmConfigEndpointInput.value = entry?.endpoint ?? "";
   llmConfigModelInput.value = entry?.model ?? "";
+  if (llmConfigCacheEnabledEl) llmConfigCacheEnabledEl.checked = entry?.cacheEnabled !== false;
   if (llmConfigApiKeyInput) {
     if (entry?.id) {
       chrome.storage.local.get({ llmApiKeys: {} as Record<string, string> }, (local) => {
@@ -159,6 +292,7 @@ function saveConfigFromForm(): void {
   (async () => {
     const { configs, activeId } = await getLlmConfigsAndActive();
     const apiKey = llmConfigApiKeyInput?.value ?? "";
+    const cacheEnabled = llmConfigCacheEnabledEl?.checked ?? true;
     const next = [...configs];
     let nextActive = activeId;
 
@@ -170,7 +304,8 @@ function saveConfigFromForm(): void {
           name,
           endpoint: endpointRaw,
           endpointType,
-          model
+          model,
+          cacheEnabled
         };
       }
       const local = await new Promise<Record<string, string>>((r) =>
@@ -180,7 +315,7 @@ function saveConfigFromForm(): void {
       await new Promise<void>((r) => chrome.storage.local.set({ llmApiKeys: local }, r));
     } else {
       const id = "cfg-" + Date.now();
-      next.push({ id, name, endpoint: endpointRaw, endpointType, model });
+      next.push({ id, name, endpoint: endpointRaw, endpointType, model, cacheEnabled });
       if (next.length === 1) nextActive = id;
       const local = await new Promise<Record<string, string>>((r) =>
         chrome.storage.local.get({ llmApiKeys: {} as Record<string, string> }, (x) => r((x.llmApiKeys as Record<string, string>) ?? {}))
@@ -381,6 +516,8 @@ async function updateUI() {
   const navAgent = document.getElementById("nav-agent");
   if (navAgent) navAgent.textContent = await translate("settings.navAgent");
   if (navInstructions) navInstructions.textContent = await translate("settings.navInstructions");
+  const navData = document.getElementById("nav-data");
+  if (navData) navData.textContent = await translate("settings.navData");
 
   const sectionChatTitle = document.getElementById("section-chat-title");
   const sectionChatDesc = document.getElementById("section-chat-desc");
@@ -416,7 +553,8 @@ async function updateUI() {
     ["chat-context-max-messages", "settings.chatContextMaxMessages"],
     ["chat-context-max-chars", "settings.chatContextMaxChars"],
     ["chat-rolling-summary-every", "settings.chatRollingEvery"],
-    ["chat-rolling-summary-batch", "settings.chatRollingBatch"]
+    ["chat-rolling-summary-batch", "settings.chatRollingBatch"],
+    ["chat-thread-mode", "settings.chatThreadMode"]
   ] as const;
   for (const [id, key] of chatLabels) {
     const el = document.querySelector(`label[for="${id}"]`);
@@ -425,9 +563,122 @@ async function updateUI() {
 }
 
 function loadBrowserAutomation() {
-  chrome.storage.sync.get({ browserAutomationEnabled: false }, (items) => {
+  chrome.storage.sync.get({ browserAutomationEnabled: false, knowledgeToolsEnabled: false }, (items) => {
     if (browserAutomationCheckbox) browserAutomationCheckbox.checked = Boolean(items.browserAutomationEnabled);
+    if (knowledgeToolsCheckbox) knowledgeToolsCheckbox.checked = Boolean(items.knowledgeToolsEnabled);
+  });
+}
+
+function setSerpStatus(text: string, kind?: "success" | "error" | "info"): void {
+  if (!serpStatusEl) return;
+  serpStatusEl.textContent = text;
+  serpStatusEl.className = kind ? `status ${kind}` : "status";
+}
+
+/** Поля SearXNG / своего поисковика видны только для выбранного провайдера. */
+function showSerpProviderRows(): void {
+  const provider = serpProviderEl?.value ?? "duckduckgo";
+  document.querySelectorAll<HTMLElement>("[data-serp-provider]").forEach((row) => {
+    row.hidden = row.dataset.serpProvider !== provider;
+  });
+}
+
+function readSerpForm(): Record<keyof typeof SERP_SYNC_DEFAULTS, string> {
+  return {
+    serpProvider: serpProviderEl?.value ?? SERP_SYNC_DEFAULTS.serpProvider,
+    serpSearxngUrl: serpSearxngUrlEl?.value.trim() ?? "",
+    serpCustomUrl: serpCustomUrlEl?.value.trim() ?? "",
+    serpCustomResultSelector: serpCustomResultSelectorEl?.value.trim() ?? "",
+    serpCustomLinkSelector: serpCustomLinkSelectorEl?.value.trim() ?? "",
+    serpCustomTitleSelector: serpCustomTitleSelectorEl?.value.trim() ?? ""
+  };
+}
+
+function loadSerpForm(): void {
+  chrome.storage.sync.get(SERP_SYNC_DEFAULTS, (items) => {
+    const settings = parseSerpSettings(items);
+    if (serpProviderEl) serpProviderEl.value = settings.provider;
+    if (serpSearxngUrlEl) serpSearxngUrlEl.value = settings.searxngUrl;
+    if (serpCustomUrlEl) serpCustomUrlEl.value = settings.customUrl;
+    if (serpCustomResultSelectorEl) serpCustomResultSelectorEl.value = settings.customResultSelector;
+    if (serpCustomLinkSelectorEl) serpCustomLinkSelectorEl.value = settings.customLinkSelector;
+    if (serpCustomTitleSelectorEl) serpCustomTitleSelectorEl.value = settings.customTitleSelector;
+    showSerpProviderRows();
+  });
+}
+
+function persistSerpForm(): void {
+  showSerpProviderRows();
+  chrome.storage.sync.set(readSerpForm(), () => {
+    setSerpStatus("Saved", "success");
+    setTimeout(() => setSerpStatus(""), 1500);
+  });
+}
+
+function setWebCacheStatus(text: string, kind?: "success" | "error"): void {
+  if (!webCacheStatusEl) return;
+  webCacheStatusEl.textContent = text;
+  webCacheStatusEl.className = kind ? `status ${kind}` : "status";
+}
+
+function loadWebCacheForm(): void {
+  chrome.storage.sync.get(WEB_CACHE_SYNC_DEFAULTS, (items) => {
+    const settings = parseWebCacheSettings(items);
+    if (webCacheEnabledEl) webCacheEnabledEl.checked = settings.enabled;
+    if (webCacheTtlHoursEl) webCacheTtlHoursEl.value = String(settings.ttlMs / 3_600_000);
+    if (webOfflineModeEl) webOfflineModeEl.checked = settings.offline;
+  });
+}
+
+function persistWebCacheForm(): void {
+  const settings = parseWebCacheSettings({
+    webCacheEnabled: webCacheEnabledEl?.checked !== false,
+    webCacheTtlHours: webCacheTtlHoursEl?.value,
+    webOfflineMode: webOfflineModeEl?.checked === true
   });
+  const ttlHours = settings.ttlMs / 3_600_000;
+  if (webCacheTtlHoursEl) webCacheTtlHoursEl.value = String(ttlHours);
+  chrome.storage.sync.set({ webCacheEnabled: settings.enabled, webCacheTtlHours: ttlHours, webOfflineMode: settings.offline }, () => {
+    setWebCacheStatus("Saved", "success");
+    setTimeout(() => setWebCacheStatus(""), 1500);
+  });
+}
+
+async function renderWebCacheStats(): Promise<void> {
+  if (!webCacheStatsEl) return;
+  const stats = await getWebCacheStats();
+  if (stats.entries === 0) {
+    webCacheStatsEl.textContent = "No cached pages.";
+    return;
+  }
+  const parts = [`${stats.entries} cached item(s) (search results and pages), ${formatBytes(stats.bytes)}`];
+  if (stats.oldestAt != null) parts.push(`oldest ${new Date(stats.oldestAt).toLocaleString()}`);
+  if (stats.newestAt != null) parts.push(`newest ${new Date(stats.newestAt).toLocaleString()}`);
+  webCacheStatsEl.textContent = parts.join(" · ");
+}
+
+async function clearWebCacheNow(): Promise<void> {
+  await clearWebCache();
+  setWebCacheStatus("Cleared", "success");
+  await Promise.all([renderWebCacheStats(), renderStorageUsage()]);
+}
+
+/** Проверка провайдера из формы (без сохранения): тестовый запрос и число разобранных результатов. */
+async function testSerpProvider(): Promise<void> {
+  const provider = createSerpProvider(parseSerpSettings(readSerpForm()));
+  if ("error" in provider) {
+    setSerpStatus(provider.error, "error");
+    return;
+  }
+  setSerpStatus("Testing…", "info");
+  const result = await fetchSerpHits(provider, "open source", fetch);
+  if ("error" in result) {
+    setSerpStatus(result.kind === "blocked" ? `${provider.name} blocked the request: ${result.error}` : result.error, "error");
+  } else if (result.hits.length === 0) {
+    setSerpStatus("No results parsed. Check the selectors.", "error");
+  } else {
+    setSerpStatus(`OK: ${result.hits.length} result(s), first: ${result.hits[0].url}`, "success");
+  }
 }
 
 function wireEvents() {
@@ -440,6 +691,26 @@ function wireEvents() {
     chrome.storage.sync.set({ browserAutomationEnabled: browserAutomationCheckbox.checked });
   });
 
+  knowledgeToolsCheckbox?.addEventListener("change", () => {
+    chrome.storage.sync.set({ knowledgeToolsEnabled: knowledgeToolsCheckbox.checked });
+  });
+
+  for (const el of [
+    serpProviderEl,
+    serpSearxngUrlEl,
+    serpCustomUrlEl,
+    serpCustomResultSelectorEl,
+    serpCustomLinkSelectorEl,
+    serpCustomTitleSelectorEl
+  ]) {
+    el?.addEventListener("change", persistSerpForm);
+  }
+  serpTestBtn?.addEventListener("click", () => void testSerpProvider());
+  for (const el of [webCacheEnabledEl, webCacheTtlHoursEl, webOfflineModeEl]) {
+    el?.addEventListener("change", persistWebCacheForm);
+  }
+  webCacheClearBtn?.addEventListener("click", () => void clearWebCacheNow());
+
   mcpAgentPromptsEnabledEl?.addEventListener("change", () => {
     chrome.storage.sync.set({ mcpAgentPromptsEnabled: mcpAgentPromptsEnabledEl.checked === true });
   });
@@ -527,7 +798,8 @@ function wireEvents() {
         chatContextMaxChars: Number(chatContextMaxCharsEl?.value ?? 100_000),
         chatRollingSummaryEnabled: chatRollingEnabledEl?.checked !== false,
         chatRollingSummaryEvery: Number(chatRollingEveryEl?.value ?? 16),
-        chatRollingSummaryBatch: Number(chatRollingBatchEl?.value ?? 8)
+        chatRollingSummaryBatch: Number(chatRollingBatchEl?.value ?? 8),
+        chatThreadMode: parseChatThreadMode(chatThreadModeEl?.value)
       },
       () => showChatContextSaved()
     );
@@ -537,6 +809,7 @@ function wireEvents() {
   chatRollingEnabledEl?.addEventListener("change", persistChatContextFromForm);
   chatRollingEveryEl?.addEventListener("change", persistChatContextFromForm);
   chatRollingBatchEl?.addEventListener("change", persistChatContextFromForm);
+  chatThreadModeEl?.addEventListener("change", persistChatContextFromForm);
 }
 
 function loadMcp() {
@@ -604,6 +877,9 @@ function loadChatContextForm(): void {
     if (chatRollingBatchEl) {
       chatRollingBatchEl.value = String(items.chatRollingSummaryBatch ?? 8);
     }
+    if (chatThreadModeEl) {
+      chatThreadModeEl.value = parseChatThreadMode(items.chatThreadMode);
+    }
   });
 }
 
@@ -670,11 +946,669 @@ function loadAgentOrchestrator(): void {
   });
 }
 
+function setDataStatus(text: string, kind: "success" | "error" | "info" | "" = ""): void {
+  if (!dataStatusEl) return;
+  dataStatusEl.textContent = text;
+  dataStatusEl.className = kind ? `status ${kind}` : "status";
+}
+
+function storageAreaGetAll(area: chrome.storage.StorageArea): Promise<Record<string, unknown>> {
+  return new Promise((resolve) => area.get(null, (items) => resolve((items ?? {}) as Record<string, unknown>)));
+}
+
+async function readCurrentData(): Promise<{
+  stores: DataBundleStores;
+  sync: Record<string, unknown>;
+  local: Record<string, unknown>;
+}> {
+  const stores = (await storage.exportStores(DATA_BUNDLE_STORES)) as DataBundleStores;
+  const sync = await storageAreaGetAll(chrome.storage.sync);
+  const local = await storageAreaGetAll(chrome.storage.local);
+  return { stores, sync, local };
+}
+
+async function exportDataBundle(): Promise<void> {
+  setDataStatus("Exporting…", "info");
+  try {
+    const current = await readCurrentData();
+    const bundle = buildDataBundle({
+      ...current,
+      dbVersion: DB_VERSION,
+      includeSecrets: dataExportSecretsEl?.checked === true
+    });
+    downloadBundle(bundle, `pageai-backup-${bundle.exportedAt.slice(0, 10)}.json`);
+    setDataStatus("Exported", "success");
+  } catch (err) {
+    setDataStatus("Export failed: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+}
+
+function downloadBundle(bundle: DataBundle, fileName: string): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+/** Кнопки видны, только если перед обновлением схемы сохранялась копия базы. */
+async function renderUpgradeBackupButton(): Promise<void> {
+  if (!dataUpgradeBackupBtn) return;
+  const backup = await loadUpgradeBackupInfo(DB_NAME).catch(() => null);
+  dataUpgradeBackupBtn.hidden = !backup;
+  if (dataUpgradeBackupDeleteBtn) dataUpgradeBackupDeleteBtn.hidden = !backup;
+  if (backup) {
+    dataUpgradeBackupBtn.textContent = `Download pre-upgrade backup (v${backup.fromVersion}, ${new Date(backup.createdAt).toLocaleDateString()})`;
+    dataUpgradeBackupBtn.title = `Deleted automatically ${UPGRADE_BACKUP_TTL_DAYS} days after the upgrade`;
+  }
+}
+
+async function deleteUpgradeBackupNow(): Promise<void> {
+  try {
+    await deleteUpgradeBackup(DB_NAME);
+    setDataStatus("Pre-upgrade backup deleted", "success");
+  } catch (err) {
+    setDataStatus("Delete failed: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+  await renderUpgradeBackupButton();
+}
+
+/** Копия базы до обновления — тем же форматом бандла; настройки берутся текущие (сама база при этом может быть недоступна). */
+async function exportUpgradeBackup(): Promise<void> {
+  try {
+    const backup = await loadUpgradeBackup(DB_NAME);
+    if (!backup) {
+      setDataStatus("No pre-upgrade backup found", "error");
+      return;
+    }
+    const stores = {} as DataBundleStores;
+    for (const name of DATA_BUNDLE_STORES) stores[name] = backup.stores[name] ?? [];
+    const bundle = buildDataBundle({
+      stores,
+      sync: await storageAreaGetAll(chrome.storage.sync),
+      local: await storageAreaGetAll(chrome.storage.local),
+      dbVersion: backup.fromVersion,
+      includeSecrets: dataExportSecretsEl?.checked === true
+    });
+    downloadBundle(bundle, `pageai-pre-upgrade-v${backup.fromVersion}-${backup.createdAt.slice(0, 10)}.json`);
+    setDataStatus("Exported", "success");
+  } catch (err) {
+    setDataStatus("Export failed: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+}
+
+function selectedImportMode(): ImportMode {
+  return dataImportModeEl?.value === "replace" ? "replace" : "merge";
+}
+
+function resetImportPreview(): void {
+  pendingImportBundle = null;
+  pendingImportMeta = null;
+  if (dataImportApplyBtn) dataImportApplyBtn.disabled = true;
+  if (dataImportPreviewEl) {
+    dataImportPreviewEl.textContent = "";
+    dataImportPreviewEl.hidden = true;
+  }
+}
+
+/**
+ * Бандл с записями под локальным ключом. Если бандл зашифрован другим ключом (или шифрование включено только
+ * с одной стороны), записи и rolling-summary перешифровываются: для зашифрованного бандла нужен его пароль,
+ * для зашифрованного хранилища — введённый пароль этой сессии. Кеш LLM не переносится — его ключи зависят от ключа шифрования.
+ */
+async function prepareBundleForImport(bundle: DataBundle): Promise<{ bundle: DataBundle; meta: EncryptionMeta | null }> {
+  const state = await getEncryptionKeyState();
+  if (state.mode === "locked") throw new Error("Storage is locked: unlock it with the encryption passphrase before importing");
+  const meta = state.mode === "unlocked" ? state.meta : null;
+  if (sameEncryption(bundle.encryption, meta)) return { bundle, meta };
+
+  let from: CryptoKey | null = null;
+  if (bundle.encryption) {
+    const passphrase = dataImportPassphraseEl?.value ?? "";
+    if (!passphrase) throw new Error("This backup is encrypted with another passphrase: enter it in Backup passphrase");
+    from = await keyFromPassphrase(passphrase, bundle.encryption);
+    if (!from) throw new Error("Wrong backup passphrase");
+  }
+  const to = state.mode === "unlocked" ? state.key : null;
+  const recrypted = await recryptStoreRecords(bundle.stores, from, to);
+  const local = Object.fromEntries(Object.entries(bundle.local).filter(([k]) => !isRollingSummaryKey(k)));
+  return {
+    bundle: {
+      ...bundle,
+      encryption: meta,
+      stores: {
+        ...bundle.stores,
+        pages: recrypted.pages,
+        page_snapshots: recrypted.page_snapshots,
+        conversations: recrypted.conversations,
+        chat_history: recrypted.chat_history,
+        llm_cache: []
+      },
+      local: { ...local, ...(await recryptRollingSummaries(bundle.local, from, to)) }
+    },
+    meta
+  };
+}
+
+async function previewDataImport(): Promise<void> {
+  resetImportPreview();
+  const file = dataImportFileEl?.files?.[0];
+  if (!file) {
+    setDataStatus("Choose a backup file first", "error");
+    return;
+  }
+  const parsed = parseDataBundle(await file.text());
+  if ("error" in parsed) {
+    setDataStatus(parsed.error, "error");
+    return;
+  }
+  let prepared: { bundle: DataBundle; meta: EncryptionMeta | null };
+  try {
+    setDataStatus("Reading backup…", "info");
+    prepared = await prepareBundleForImport(parsed.bundle);
+  } catch (err) {
+    setDataStatus(err instanceof Error ? err.message : String(err), "error");
+    return;
+  }
+  const plan = planDataBundleImport(prepared.bundle, await readCurrentData(), selectedImportMode());
+  const recrypted = prepared.bundle !== parsed.bundle;
+  const header = `Backup from ${parsed.bundle.exportedAt || "unknown date"}` +
+    (parsed.bundle.includesSecrets ? " (includes API keys)" : " (API keys not included — current keys are kept)") +
+    (recrypted ? "\nRecords re-encrypted for this installation; cached LLM answers are not imported" : "");
+  if (dataImportPreviewEl) {
+    dataImportPreviewEl.textContent = `${header}\n${formatImportPlan(plan)}`;
+    dataImportPreviewEl.hidden = false;
+  }
+  pendingImportBundle = prepared.bundle;
+  pendingImportMeta = prepared.meta;
+  if (dataImportApplyBtn) dataImportApplyBtn.disabled = false;
+  setDataStatus("Dry run — nothing changed yet", "info");
+}
+
+async function applyDataImport(): Promise<void> {
+  if (!pendingImportBundle) return;
+  if (!sameEncryption(await loadEncryptionMeta(), pendingImportMeta)) {
+    resetImportPreview();
+    setDataStatus("Encryption settings changed since the preview — run Preview again", "error");
+    return;
+  }
+  if (dataImportApplyBtn) dataImportApplyBtn.disabled = true;
+  setDataStatus("Importing…", "info");
+  try {
+    // План пересчитывается на свежих данных: между превью и импортом могли прийти новые страницы
+    const plan = planDataBundleImport(pendingImportBundle, await readCurrentData(), selectedImportMode());
+    await storage.importStores(plan.writes, plan.clearStores);
+    if (plan.syncToRemove.length > 0) await chrome.storage.sync.remove(plan.syncToRemove);
+    if (Object.keys(plan.syncToSet).length > 0) await chrome.storage.sync.set(plan.syncToSet);
+    if (plan.localToRemove.length > 0) await chrome.storage.local.remove(plan.localToRemove);
+    if (Object.keys(plan.localToSet).length > 0) await chrome.storage.local.set(plan.localToSet);
+    resetImportPreview();
+    setDataStatus("Imported", "success");
+    loadLlmConfigs();
+    loadMcp();
+    loadBrowserAutomation();
+    loadSerpForm();
+    loadWebCacheForm();
+    loadAgentInstructions();
+    loadChatContextForm();
+    loadAgentOrchestrator();
+    loadPageRetentionForm();
+    loadCollectionRulesForm();
+    loadLlmCacheForm();
+    void renderStorageUsage();
+    void renderLlmCacheStats();
+    void renderEncryptionState();
+  } catch (err) {
+    if (dataImportApplyBtn) dataImportApplyBtn.disabled = false;
+    setDataStatus("Import failed: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+}
+
+function loadPageRetentionForm(): void {
+  chrome.storage.sync.get(PAGE_RETENTION_SYNC_DEFAULTS, (items) => {
+    if (retentionMaxPagesEl) retentionMaxPagesEl.value = String(items.pageRetentionMaxPages ?? 0);
+    if (retentionMaxAgeEl) retentionMaxAgeEl.value = String(items.pageRetentionMaxAgeDays ?? 0);
+    if (retentionMaxMbEl) retentionMaxMbEl.value = String(items.pageRetentionMaxMb ?? 0);
+    if (neverIndexDomainsEl) neverIndexDomainsEl.value = String(items.pageIndexNeverDomains ?? "");
+  });
+}
+
+function persistPageRetentionFromForm(): void {
+  chrome.storage.sync.set(
+    {
+      pageRetentionMaxPages: Math.max(0, Number(retentionMaxPagesEl?.value ?? 0) || 0),
+      pageRetentionMaxAgeDays: Math.max(0, Number(retentionMaxAgeEl?.value ?? 0) || 0),
+      pageRetentionMaxMb: Math.max(0, Number(retentionMaxMbEl?.value ?? 0) || 0),
+      pageIndexNeverDomains: neverIndexDomainsEl?.value ?? ""
+    },
+    () => {
+      if (!retentionStatusEl) return;
+      retentionStatusEl.textContent = "Saved";
+      retentionStatusEl.className = "status success";
+      setTimeout(() => {
+        retentionStatusEl.textContent = "";
+        retentionStatusEl.className = "status";
+      }, 1500);
+    }
+  );
+}
+
+function loadRerankForm(): void {
+  chrome.storage.sync.get({ ...RERANK_SYNC_DEFAULTS, ...LLM_RERANK_SYNC_DEFAULTS }, (items) => {
+    const settings = parseRerankSettings(items);
+    const llm = parseLlmRerankSettings(items);
+    if (rerankKeywordWeightEl) rerankKeywordWeightEl.value = String(settings.keywordWeight);
+    if (rerankVectorWeightEl) rerankVectorWeightEl.value = String(settings.vectorWeight);
+    if (rerankRrfKEl) rerankRrfKEl.value = String(settings.rrfK);
+    if (rerankRecencyWeightEl) rerankRecencyWeightEl.value = String(settings.recencyWeight);
+    if (rerankRecencyHalfLifeEl) rerankRecencyHalfLifeEl.value = String(settings.recencyHalfLifeDays);
+    if (rerankDomainBoostsEl) rerankDomainBoostsEl.value = String(items.rerankDomainBoosts ?? "");
+    if (llmRerankEnabledEl) llmRerankEnabledEl.checked = llm.enabled;
+    if (llmRerankTopNEl) llmRerankTopNEl.value = String(llm.topN);
+    if (llmRerankTimeoutEl) llmRerankTimeoutEl.value = String(llm.timeoutMs / 1000);
+  });
+}
+
+function persistRerankForm(): void {
+  const settings = parseRerankSettings({
+    rerankKeywordWeight: rerankKeywordWeightEl?.value,
+    rerankVectorWeight: rerankVectorWeightEl?.value,
+    rerankRrfK: rerankRrfKEl?.value,
+    rerankRecencyWeight: rerankRecencyWeightEl?.value,
+    rerankRecencyHalfLifeDays: rerankRecencyHalfLifeEl?.value
+  });
+  const llm = parseLlmRerankSettings({
+    llmRerankEnabled: llmRerankEnabledEl?.checked ?? false,
+    llmRerankTopN: llmRerankTopNEl?.value,
+    llmRerankTimeoutMs: Number(llmRerankTimeoutEl?.value) * 1000
+  });
+  chrome.storage.sync.set(
+    {
+      rerankKeywordWeight: settings.keywordWeight,
+      rerankVectorWeight: settings.vectorWeight,
+      rerankRrfK: settings.rrfK,
+      rerankRecencyWeight: settings.recencyWeight,
+      rerankRecencyHalfLifeDays: settings.recencyHalfLifeDays,
+      rerankDomainBoosts: rerankDomainBoostsEl?.value ?? "",
+      llmRerankEnabled: llm.enabled,
+      llmRerankTopN: llm.topN,
+      llmRerankTimeoutMs: llm.timeoutMs
+    },
+    () => {
+      if (!rerankStatusEl) return;
+      rerankStatusEl.textContent = "Saved";
+      rerankStatusEl.className = "status success";
+      setTimeout(() => {
+        rerankStatusEl.textContent = "";
+        rerankStatusEl.className = "status";
+      }, 1500);
+    }
+  );
+}
+
+async function renderStorageUsage(): Promise<void> {
+  const body = dataUsageTable?.tBodies[0];
+  if (!dataUsageTable || !body) return;
+  try {
+    const usage = await storage.getStoreUsage();
+    body.innerHTML = "";
+    for (const u of usage) {
+      const row = body.insertRow();
+      row.insertCell().textContent = u.name;
+      row.insertCell().textContent = String(u.count);
+      row.insertCell().textContent = formatBytes(u.bytes);
+    }
+    dataUsageTable.tFoot?.remove();
+    const total = dataUsageTable.createTFoot().insertRow();
+    total.insertCell().textContent = "Total";
+    total.insertCell().textContent = String(usage.reduce((n, u) => n + u.count, 0));
+    total.insertCell().textContent = formatBytes(usage.reduce((n, u) => n + u.bytes, 0));
+  } catch (err) {
+    setDataStatus("Failed to read storage usage: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+}
+
+async function applyPageRetentionNow(): Promise<void> {
+  setDataStatus("Applying limits…", "info");
+  try {
+    const items = await new Promise<Record<string, unknown>>((r) => chrome.storage.sync.get(PAGE_RETENTION_SYNC_DEFAULTS, r));
+    const removed = await storage.enforcePageRetention(parsePageRetention(items));
+    setDataStatus(`Removed ${removed} page(s)`, "success");
+    await renderStorageUsage();
+  } catch (err) {
+    setDataStatus("Failed to apply limits: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+}
+
+function loadCollectionRulesForm(): void {
+  chrome.storage.sync.get(COLLECTION_SYNC_DEFAULTS, (items) => {
+    if (collectionRulesEl) collectionRulesEl.value = String(items.collectionRules ?? "");
+  });
+}
+
+function persistCollectionRules(): void {
+  chrome.storage.sync.set({ collectionRules: collectionRulesEl?.value ?? "" }, () => {
+    if (!collectionRulesStatusEl) return;
+    collectionRulesStatusEl.textContent = "Saved";
+    collectionRulesStatusEl.className = "status success";
+    setTimeout(() => {
+      collectionRulesStatusEl.textContent = "";
+      collectionRulesStatusEl.className = "status";
+    }, 1500);
+  });
+}
+
+async function applyCollectionRulesNow(): Promise<void> {
+  setDataStatus("Applying collection rules…", "info");
+  try {
+    const assigned = await storage.applyCollectionRules(parseCollectionRules(collectionRulesEl?.value ?? ""));
+    setDataStatus(`Added ${assigned} page(s) to collections`, "success");
+  } catch (err) {
+    setDataStatus("Failed to apply collection rules: " + (err instanceof Error ? err.message : String(err)), "error");
+  }
+}
+
+function loadLlmCacheForm(): void {
+  chrome.storage.sync.get(LLM_CACHE_SYNC_DEFAULTS, (items) => {
+    if (llmCacheMaxEntriesEl) llmCacheMaxEntriesEl.value = String(parseLlmCacheMaxEntries(items.llmCacheMaxEntries));
+  });
+}
+
+function persistLlmCacheMaxEntries(): void {
+  const llmCacheMaxEntries = parseLlmCacheMaxEntries(llmCacheMaxEntriesEl?.value ?? "");
+  chrome.storage.sync.set({ llmCacheMaxEntries }, () => {
+    if (!llmCacheStatusEl) return;
+    llmCacheStatusEl.textContent = "Saved";
+    llmCacheStatusEl.className = "status success";
+    setTimeout(() => {
+      llmCacheStatusEl.textContent = "";
+      llmCacheStatusEl.className = "status";
+    }, 1500);
+  });
+}
+
+async function renderLlmCacheStats(): Promise<void> {
+  if (!llmCacheStatsEl) return;
+  const stats = await getLlmCacheStats();
+  if (stats.entries === 0) {
+    llmCacheStatsEl.textContent = "No cached responses.";
+    return;
+  }
+  const parts = [
+    `${stats.entries} cached response(s), ${formatBytes(stats.bytes)}`,
+    `${stats.hits} hit(s)`
+  ];
+  if (stats.oldestAt != null) parts.push(`oldest ${new Date(stats.oldestAt).toLocaleString()}`);
+  if (stats.lastUsedAt != null) parts.push(`last used ${new Date(stats.lastUsedAt).toLocaleString()}`);
+  llmCacheStatsEl.textContent = parts.join(" · ");
+}
+
+async function clearLlmCacheNow(): Promise<void> {
+  await clearLlmCache();
+  if (llmCacheStatusEl) {
+    llmCacheStatusEl.textContent = "Cleared";
+    llmCacheStatusEl.className = "status success";
+  }
+  await Promise.all([renderLlmCacheStats(), renderStorageUsage()]);
+}
+
+function setEmbeddingStatus(text: string, kind: "success" | "error" | "info" | "" = ""): void {
+  if (!embeddingStatusEl) return;
+  embeddingStatusEl.textContent = text;
+  embeddingStatusEl.className = kind ? `status ${kind}` : "status";
+}
+
+function loadEmbeddingForm(): void {
+  chrome.storage.sync.get(EMBEDDING_SYNC_DEFAULTS, (items) => {
+    const profile = parseEmbeddingProfile(items);
+    if (embeddingEnabledEl) embeddingEnabledEl.checked = profile.enabled;
+    if (embeddingEndpointEl) embeddingEndpointEl.value = profile.endpoint;
+    if (embeddingModelEl) embeddingModelEl.value = profile.model;
+    if (embeddingBatchSizeEl) embeddingBatchSizeEl.value = String(profile.batchSize);
+  });
+  chrome.storage.local.get({ [EMBEDDING_API_KEY_STORAGE_KEY]: "" }, (items) => {
+    if (embeddingApiKeyEl) embeddingApiKeyEl.value = String(items[EMBEDDING_API_KEY_STORAGE_KEY] ?? "");
+  });
+}
+
+function persistEmbeddingForm(): void {
+  const profile = parseEmbeddingProfile({
+    embeddingEnabled: embeddingEnabledEl?.checked ?? false,
+    embeddingEndpoint: embeddingEndpointEl?.value ?? "",
+    embeddingModel: embeddingModelEl?.value ?? "",
+    embeddingBatchSize: embeddingBatchSizeEl?.value ?? ""
+  });
+  if (embeddingBatchSizeEl) embeddingBatchSizeEl.value = String(profile.batchSize);
+  void Promise.all([
+    chrome.storage.sync.set({
+      embeddingEnabled: profile.enabled,
+      embeddingEndpoint: profile.endpoint,
+      embeddingModel: profile.model,
+      embeddingBatchSize: profile.batchSize
+    }),
+    chrome.storage.local.set({ [EMBEDDING_API_KEY_STORAGE_KEY]: embeddingApiKeyEl?.value.trim() ?? "" })
+  ]).then(() => {
+    setEmbeddingStatus("Saved", "success");
+    setTimeout(() => setEmbeddingStatus(""), 1500);
+  });
+}
+
+function renderEmbeddingProgress(status: EmbeddingIndexStatus | null): void {
+  if (!embeddingProgressEl) return;
+  if (!status || status.state === "disabled") {
+    embeddingProgressEl.textContent = "Embeddings are off.";
+    return;
+  }
+  const parts = [`Embedded ${status.embedded} of ${status.total} page(s)`, status.model];
+  if (status.dimensions) parts.push(`${status.dimensions} dimensions`);
+  if (status.state === "running") parts.push("in progress…");
+  let text = parts.join(" · ");
+  if (status.state === "error") text += `. Stopped: ${status.lastError ?? "unknown error"}`;
+  embeddingProgressEl.textContent = text;
+}
+
+/** Проверка профиля из формы (без сохранения): один короткий текст, в ответ — размерность вектора. */
+async function testEmbeddingProfile(): Promise<void> {
+  const endpoint = embeddingEndpointEl?.value.trim() ?? "";
+  const model = embeddingModelEl?.value.trim() ?? "";
+  const apiKey = embeddingApiKeyEl?.value.trim() ?? "";
+  if (!endpoint) {
+    setEmbeddingStatus("Enter the endpoint", "error");
+    return;
+  }
+  setEmbeddingStatus("Testing…", "info");
+  const base = normalizeEmbeddingsEndpoint(endpoint).replace(/\/v1\/embeddings$/, "");
+  const models = await getLMStudioModelsForEndpoint(base);
+  if (embeddingModelsDatalist && "models" in models) {
+    embeddingModelsDatalist.innerHTML = "";
+    for (const id of models.models) {
+      const opt = document.createElement("option");
+      opt.value = id;
+      embeddingModelsDatalist.appendChild(opt);
+    }
+  }
+  if (!model) {
+    setEmbeddingStatus("Connected. Pick an embedding model.", "info");
+    return;
+  }
+  const result = await embedTexts(["connection test"], { endpoint, model, ...(apiKey ? { apiKey } : {}) }, { maxRetries: 0 });
+  if ("error" in result) setEmbeddingStatus(result.error, "error");
+  else setEmbeddingStatus(`OK: ${result.dimensions} dimensions`, "success");
+}
+
+async function requestEmbeddingRun(reset: boolean): Promise<void> {
+  setEmbeddingStatus(reset ? "Clearing vectors…" : "Starting…", "info");
+  const response = await new Promise<{ ok?: boolean; error?: string }>((resolve) => {
+    chrome.runtime.sendMessage({ type: "EMBEDDINGS_REINDEX", payload: { reset } }, (r: unknown) => {
+      if (chrome.runtime.lastError) {
+        resolve({ error: chrome.runtime.lastError.message ?? "Unknown error" });
+        return;
+      }
+      resolve((r as { ok?: boolean; error?: string }) ?? {});
+    });
+  });
+  if (response.error) setEmbeddingStatus(response.error, "error");
+  else setEmbeddingStatus("Started", "success");
+}
+
+function wireEmbeddingSection(): void {
+  for (const el of [embeddingEnabledEl, embeddingEndpointEl, embeddingModelEl, embeddingApiKeyEl, embeddingBatchSizeEl]) {
+    el?.addEventListener("change", persistEmbeddingForm);
+  }
+  embeddingTestBtn?.addEventListener("click", () => void testEmbeddingProfile());
+  embeddingRunBtn?.addEventListener("click", () => void requestEmbeddingRun(false));
+  embeddingResetBtn?.addEventListener("click", () => void requestEmbeddingRun(true));
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area === "local" && EMBEDDING_STATUS_STORAGE_KEY in changes) {
+      renderEmbeddingProgress((changes[EMBEDDING_STATUS_STORAGE_KEY].newValue as EmbeddingIndexStatus | undefined) ?? null);
+    }
+  });
+  void loadEmbeddingStatus().then(renderEmbeddingProgress);
+  for (const el of [
+    rerankKeywordWeightEl,
+    rerankVectorWeightEl,
+    rerankRrfKEl,
+    rerankRecencyWeightEl,
+    rerankRecencyHalfLifeEl,
+    rerankDomainBoostsEl,
+    llmRerankEnabledEl,
+    llmRerankTopNEl,
+    llmRerankTimeoutEl
+  ]) {
+    el?.addEventListener("change", persistRerankForm);
+  }
+}
+
+function setEncryptionStatus(text: string, kind: "success" | "error" | "info" | "" = ""): void {
+  if (!encryptionStatusEl) return;
+  encryptionStatusEl.textContent = text;
+  encryptionStatusEl.className = kind ? `status ${kind}` : "status";
+}
+
+/** Поля и кнопки зависят от состояния: выключено — задать пароль; заперто — ввести; открыто — сменить, запереть, выключить. */
+async function renderEncryptionState(): Promise<void> {
+  const state = await getEncryptionKeyState();
+  const show = (el: HTMLElement | null | undefined, visible: boolean) => {
+    if (el) el.hidden = !visible;
+  };
+  if (encryptionStateEl) {
+    encryptionStateEl.textContent =
+      state.mode === "off"
+        ? "Encryption is off: page text and chats are stored as plain text."
+        : state.mode === "locked"
+          ? "Encryption is on. Storage is locked until the passphrase is entered in this browser session."
+          : "Encryption is on and unlocked for this browser session.";
+  }
+  show(encryptionCurrentEl?.closest<HTMLElement>(".settings-row"), state.mode !== "off");
+  show(encryptionNewEl?.closest<HTMLElement>(".settings-row"), state.mode !== "locked");
+  show(encryptionConfirmEl?.closest<HTMLElement>(".settings-row"), state.mode !== "locked");
+  show(encryptionEnableBtn, state.mode === "off");
+  show(encryptionUnlockBtn, state.mode === "locked");
+  show(encryptionChangeBtn, state.mode === "unlocked");
+  show(encryptionLockBtn, state.mode === "unlocked");
+  show(encryptionDisableBtn, state.mode !== "off");
+}
+
+function clearEncryptionInputs(): void {
+  for (const el of [encryptionCurrentEl, encryptionNewEl, encryptionConfirmEl]) {
+    if (el) el.value = "";
+  }
+}
+
+async function runEncryptionAction(progress: string, done: string, action: () => Promise<void>): Promise<void> {
+  const buttons = [encryptionEnableBtn, encryptionUnlockBtn, encryptionChangeBtn, encryptionLockBtn, encryptionDisableBtn];
+  for (const b of buttons) if (b) b.disabled = true;
+  setEncryptionStatus(progress, "info");
+  try {
+    await action();
+    clearEncryptionInputs();
+    setEncryptionStatus(done, "success");
+  } catch (err) {
+    setEncryptionStatus(err instanceof Error ? err.message : String(err), "error");
+  } finally {
+    for (const b of buttons) if (b) b.disabled = false;
+    await renderEncryptionState();
+  }
+}
+
+function newPassphraseOrThrow(): string {
+  const next = encryptionNewEl?.value ?? "";
+  const problem = validateNewPassphrase(next, encryptionConfirmEl?.value ?? "");
+  if (problem) throw new Error(problem);
+  return next;
+}
+
+function wireEncryption(): void {
+  encryptionEnableBtn?.addEventListener("click", () =>
+    void runEncryptionAction("Encrypting stored data…", "Encryption enabled", () =>
+      enableEncryption(storage, newPassphraseOrThrow())
+    )
+  );
+  encryptionUnlockBtn?.addEventListener("click", () =>
+    void runEncryptionAction("Checking passphrase…", "Unlocked", async () => {
+      if (!(await unlockEncryption(encryptionCurrentEl?.value ?? ""))) throw new Error("Wrong passphrase");
+    })
+  );
+  encryptionChangeBtn?.addEventListener("click", () =>
+    void runEncryptionAction("Re-encrypting stored data…", "Passphrase changed", () =>
+      changeEncryptionPassphrase(storage, encryptionCurrentEl?.value ?? "", newPassphraseOrThrow())
+    )
+  );
+  encryptionLockBtn?.addEventListener("click", () => void runEncryptionAction("Locking…", "Locked", lockEncryption));
+  encryptionDisableBtn?.addEventListener("click", () =>
+    void runEncryptionAction("Decrypting stored data…", "Encryption disabled", () =>
+      disableEncryption(storage, encryptionCurrentEl?.value ?? "")
+    )
+  );
+}
+
+function wireDataSection(): void {
+  dataExportBtn?.addEventListener("click", () => void exportDataBundle());
+  dataUpgradeBackupBtn?.addEventListener("click", () => void exportUpgradeBackup());
+  dataUpgradeBackupDeleteBtn?.addEventListener("click", () => void deleteUpgradeBackupNow());
+  dataImportPreviewBtn?.addEventListener("click", () => void previewDataImport());
+  dataImportApplyBtn?.addEventListener("click", () => void applyDataImport());
+  dataImportFileEl?.addEventListener("change", resetImportPreview);
+  dataImportModeEl?.addEventListener("change", resetImportPreview);
+  dataImportPassphraseEl?.addEventListener("input", resetImportPreview);
+  for (const el of [retentionMaxPagesEl, retentionMaxAgeEl, retentionMaxMbEl, neverIndexDomainsEl]) {
+    el?.addEventListener("change", persistPageRetentionFromForm);
+  }
+  dataUsageRefreshBtn?.addEventListener("click", () => {
+    void renderStorageUsage();
+    void renderLlmCacheStats();
+    void renderWebCacheStats();
+  });
+  dataRetentionApplyBtn?.addEventListener("click", () => void applyPageRetentionNow());
+  collectionRulesEl?.addEventListener("change", persistCollectionRules);
+  collectionRulesApplyBtn?.addEventListener("click", () => void applyCollectionRulesNow());
+  llmCacheMaxEntriesEl?.addEventListener("change", persistLlmCacheMaxEntries);
+  llmCacheClearBtn?.addEventListener("click", () => void clearLlmCacheNow());
+  wireEncryption();
+}
+
+initDbUpgradeBanner();
 wireEvents();
+wireDataSection();
+wireEmbeddingSection();
 loadLlmConfigs();
 loadMcp();
 loadBrowserAutomation();
+loadSerpForm();
+loadWebCacheForm();
 loadAgentInstructions();
 loadChatContextForm();
 loadAgentOrchestrator();
+loadPageRetentionForm();
+loadCollectionRulesForm();
+loadRerankForm();
+loadLlmCacheForm();
+loadEmbeddingForm();
+void renderStorageUsage();
+void renderLlmCacheStats();
+void renderWebCacheStats();
+void renderEncryptionState();
+void renderUpgradeBackupButton();
 void updateUI();
@@ -0,0 +1,220 @@
+/**
+ * История страницы во вкладке Search: снимки текста по посещениям, diff двух выбранных версий
+ * (по строкам или по словам) и вопрос «что изменилось» в чат.
+ */
+import type { PageSnapshot } from "../types/messages";
+import type { Storage } from "../storage/indexdb";
+import { diffStats, diffText, type DiffChunk, type DiffUnit } from "../search/text-diff";
+
+export interface PageHistoryHooks {
+  /** Объяснить изменения между снимками через LLM и добавить вопрос с ответом в чат; ошибка — исключением. */
+  onWhatChanged: (page: HistoryPage, fromSnapshotId: string, toSnapshotId: string) => Promise<void>;
+}
+
+export interface HistoryPage {
+  id: string;
+  title: string;
+  url: string;
+}
+
+/** Неизменные строки вокруг правки в построчном режиме; остальное сворачивается. */
+const CONTEXT_LINES = 3;
+
+let historyStorage: Storage | null = null;
+let historyHooks: PageHistoryHooks | null = null;
+let currentPage: HistoryPage | null = null;
+let snapshots: PageSnapshot[] = [];
+let fromId: string | null = null;
+let toId: string | null = null;
+let unit: DiffUnit = "lines";
+
+function el<T extends HTMLElement>(id: string): T | null {
+  return document.getElementById(id) as T | null;
+}
+
+function setStatus(text: string, kind: "info" | "success" | "error" | "" = ""): void {
+  const status = el<HTMLDivElement>("page-history-status");
+  if (!status) return;
+  status.textContent = text;
+  status.className = `status page-history-status${kind ? ` ${kind}` : ""}`;
+}
+
+function formatDate(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function snapshotById(id: string | null): PageSnapshot | undefined {
+  return snapshots.find((s) => s.id === id);
+}
+
+function renderTimeline(): void {
+  const list = el<HTMLOListElement>("page-history-timeline");
+  if (!list) return;
+  list.innerHTML = "";
+  // Новые версии сверху
+  for (const snapshot of [...snapshots].reverse()) {
+    const li = document.createElement("li");
+    li.className = "page-history-item";
+    const pick = (name: "from" | "to", checked: boolean, title: string) => {
+      const radio = document.createElement("input");
+      radio.type = "radio";
+      radio.name = `page-history-${name}`;
+      radio.value = snapshot.id;
+      radio.checked = checked;
+      radio.title = title;
+      radio.setAttribute("aria-label", `${title}: ${formatDate(snapshot.lastSeenAt)}`);
+      radio.addEventListener("change", () => {
+        if (name === "from") fromId = snapshot.id;
+        else toId = snapshot.id;
+        renderDiff();
+      });
+      return radio;
+    };
+    const when = document.createElement("span");
+    when.className = "page-history-when";
+    when.textContent =
+      snapshot.capturedAt === snapshot.lastSeenAt
+        ? formatDate(snapshot.capturedAt)
+        : `${formatDate(snapshot.capturedAt)} – ${formatDate(snapshot.lastSeenAt)}`;
+    const size = document.createElement("span");
+    size.className = "page-history-size";
+    size.textContent = `${wordCount(snapshot.contentText)} words`;
+    li.append(pick("from", snapshot.id === fromId, "Compare from"), pick("to", snapshot.id === toId, "Compare to"), when, size);
+    list.appendChild(li);
+  }
+}
+
+function lineRow(className: string, marker: string, text: string): HTMLDivElement {
+  const row = document.createElement("div");
+  row.className = `diff-line ${className}`;
+  row.textContent = `${marker} ${text}`;
+  return row;
+}
+
+function renderLineDiff(target: HTMLElement, chunks: DiffChunk[]): void {
+  chunks.forEach((chunk, i) => {
+    const lines = chunk.text.split("\n");
+    if (chunk.op === "insert") lines.forEach((l) => target.appendChild(lineRow("diff-ins", "+", l)));
+    else if (chunk.op === "delete") lines.forEach((l) => target.appendChild(lineRow("diff-del", "-", l)));
+    else {
+      const head = i > 0 ? lines.slice(0, CONTEXT_LINES) : [];
+      const tail = i < chunks.length - 1 ? lines.slice(Math.max(head.length, lines.length - CONTEXT_LINES)) : [];
+      head.forEach((l) => target.appendChild(lineRow("diff-eq", " ", l)));
+      const skipped = lines.length - head.length - tail.length;
+      if (skipped > 0) {
+        const skip = document.createElement("div");
+        skip.className = "diff-line diff-skip";
+        skip.textContent = `… ${skipped} unchanged line(s)`;
+        target.appendChild(skip);
+      }
+      tail.forEach((l) => target.appendChild(lineRow("diff-eq", " ", l)));
+    }
+  });
+}
+
+function renderWordDiff(target: HTMLElement, chunks: DiffChunk[]): void {
+  for (const chunk of chunks) {
+    if (chunk.op === "equal") {
+      target.appendChild(document.createTextNode(chunk.text));
+      continue;
+    }
+    const mark = document.createElement(chunk.op === "insert" ? "ins" : "del");
+    mark.className = chunk.op === "insert" ? "diff-ins" : "diff-del";
+    mark.textContent = chunk.text;
+    target.appendChild(mark);
+  }
+}
+
+function renderDiff(): void {
+  const view = el<HTMLDivElement>("page-history-diff");
+  const stats = el<HTMLSpanElement>("page-history-stats");
+  const askBtn = el<HTMLButtonElement>("page-what-changed-btn");
+  if (!view || !stats) return;
+  view.innerHTML = "";
+  view.classList.toggle("page-history-diff-words", unit === "words");
+  const from = snapshotById(fromId);
+  const to = snapshotById(toId);
+  if (askBtn) askBtn.disabled = !from || !to || from.id === to.id;
+  if (!from || !to) {
+    stats.textContent = snapshots.length < 2 ? "Only one version saved so far." : "";
+    return;
+  }
+  if (from.id === to.id) {
+    stats.textContent = "Same version selected twice.";
+    return;
+  }
+  const chunks = diffText(from.contentText, to.contentText, unit);
+  const { added, removed } = diffStats(chunks);
+  const what = unit === "lines" ? "line(s)" : "word(s)";
+  stats.textContent = `+${added} / −${removed} ${what}`;
+  if (unit === "lines") renderLineDiff(view, chunks);
+  else renderWordDiff(view, chunks);
+}
+
+/** Показать историю страницы: по умолчанию сравниваются две последние версии. */
+export async function openPageHistory(page: HistoryPage): Promise<void> {
+  const section = el<HTMLElement>("page-history");
+  const title = el<HTMLSpanElement>("page-history-title");
+  if (!section || !historyStorage) return;
+  currentPage = page;
+  section.classList.remove("hidden");
+  if (title) title.textContent = page.title || page.url;
+  setStatus("Loading…", "info");
+  try {
+    snapshots = await historyStorage.listPageSnapshots(page.id);
+  } catch (err) {
+    snapshots = [];
+    setStatus("Failed to load history: " + (err instanceof Error ? err.message : String(err)), "error");
+    renderTimeline();
+    renderDiff();
+    return;
+  }
+  toId = snapshots[snapshots.length - 1]?.id ?? null;
+  fromId = snapshots[snapshots.length - 2]?.id ?? null;
+  setStatus(snapshots.length === 0 ? "No saved versions of this page yet." : `${snapshots.length} version(s) saved.`);
+  renderTimeline();
+  renderDiff();
+  section.scrollIntoView({ block: "nearest" });
+}
+
+function closePageHistory(): void {
+  el<HTMLElement>("page-history")?.classList.add("hidden");
+  currentPage = null;
+  snapshots = [];
+  fromId = null;
+  toId = null;
+}
+
+async function askWhatChanged(): Promise<void> {
+  const btn = el<HTMLButtonElement>("page-what-changed-btn");
+  if (!historyHooks || !currentPage || !fromId || !toId || !btn) return;
+  btn.disabled = true;
+  setStatus("Asking the model what changed…", "info");
+  try {
+    await historyHooks.onWhatChanged(currentPage, fromId, toId);
+    setStatus("Answer added to chat.", "success");
+  } catch (err) {
+    setStatus(err instanceof Error ? err.message : String(err), "error");
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+export function initPageHistory(storage: Storage, hooks: PageHistoryHooks): void {
+  historyStorage = storage;
+  historyHooks = hooks;
+  el<HTMLButtonElement>("page-history-close-btn")?.addEventListener("click", closePageHistory);
+  el<HTMLButtonElement>("page-what-changed-btn")?.addEventListener("click", () => void askWhatChanged());
+  document.querySelectorAll<HTMLInputElement>('input[name="page-history-unit"]').forEach((radio) => {
+    radio.addEventListener("change", () => {
+      if (!radio.checked) return;
+      unit = radio.value === "words" ? "words" : "lines";
+      renderDiff();
+    });
+  });
+}
@@ -1,11 +1,14 @@
-import type { ChatMessage, ReasoningStep, SearchResult } from "../types/messages";
+import type { ChatMessage, Page, PagePassage, ReasoningStep, SearchResult } from "../types/messages";
 import { translate, getStoredLocale } from "../i18n";
 import { Storage } from "../storage/indexdb";
 import { renderMarkdown, renderStreamingAnswerPreview } from "./markdown";
 import { parseThinkBuffer, buildPartialAssistantOnDisconnect } from "./think-buffer";
-import { parseLlmResponse, highlightInlineCitations, createSourceListItems } from "../search/sources";
-import { keywordSearch } from "../search/keyword";
-import { rerank } from "../search/rerank";
+import { parseLlmResponse, highlightInlineCitations, createSourceListItems, displaySources } from "../search/sources";
+import { loadLlmRerankSettings, type LlmRerankCandidate, type LlmRerankOutcome } from "../search/llm-rerank";
+import { searchSavedPages } from "../search/hybrid-search";
+import { passageText, rankPassages } from "../search/passages";
+import { buildSnippet, snippetSegments, textFragmentUrl } from "../search/snippets";
+import { hostMatchesDomain, hostOfUrl } from "../storage/retention";
 import { getLlmConfigsAndActive, setActiveLlmConfigId } from "../llm/client";
 import {
   parseMcpServersList,
@@ -19,6 +22,12 @@ import {
   applyOrchestratorInlineFromSettings
 } from "./inline-extension-settings";
 import { mergeOrchestratorSettings, ORCHESTRATOR_SYNC_STORAGE_DEFAULTS } from "../agent/orchestrator-settings";
+import { getActiveConversation, initConversationBar, noteUserMessage, startAskPagesConversation, startCollectionConversation } from "./conversation-bar";
+import { ensureStorageUnlocked } from "./unlock-prompt";
+import { initDbUpgradeBanner } from "./db-upgrade-banner";
+import { initPageHistory, openPageHistory, type HistoryPage } from "./page-history";
+import { extractPageId } from "../content/page-extractor";
+import { normalizeCollectionKey } from "../storage/collections";
 
 const chatContainer = document.getElementById("chat-container") as HTMLDivElement;
 const messagesContainer = document.getElementById("messages") as HTMLDivElement;
@@ -34,6 +43,13 @@ const searchPagesBtn = document.getElementById("search-pages-btn") as HTMLButton
 const searchStatus = document.getElementById("search-status") as HTMLSpanElement | null;
 const searchResults = document.getElementById("search-results") as HTMLUListElement | null;
 const summarizeSelectedBtn = document.getElementById("summarize-selected-btn") as HTMLButtonElement | null;
+const forgetSiteBtn = document.getElementById("forget-site-btn") as HTMLButtonElement | null;
+const duplicatesBtn = document.getElementById("duplicates-btn") as HTMLButtonElement | null;
+const askPagesBtn = document.getElementById("ask-pages-btn") as HTMLButtonElement | null;
+const pageHistoryBtn = document.getElementById("page-history-btn") as HTMLButtonElement | null;
+const searchCollectionSelect = document.getElementById("search-collection") as HTMLSelectElement | null;
+const searchCollectionChatBtn = document.getElementById("search-collection-chat-btn") as HTMLButtonElement | null;
+const searchCollectionDatalist = document.getElementById("search-collection-datalist") as HTMLDataListElement | null;
 
 const llmConfigSelect = document.getElementById("llm-config-select") as HTMLSelectElement | null;
 const llmConfigOpenOptionsBtn = document.getElementById("llm-config-open-options") as HTMLButtonElement | null;
@@ -52,6 +68,8 @@ const storage = new Storage();
 
 /** Текущие результаты поиска по сохранённым страницам (для выбора и саммари). */
 let lastSearchResults: SearchResult[] = [];
+/** Слова и фразы последнего запроса (без операторов) — для подсветки в сниппетах */
+let lastSearchText = "";
 
 /** Индекс сообщения ассистента, которое сейчас стримится; блок «размышления» привязан к нему. */
 let streamingAssistantIndex: number | null = null;
@@ -182,6 +200,8 @@ function setToolsExecutingShimmer(active: boolean): void {
 }
 
 function addMessageToChat(message: ChatMessage, options?: { skipSave?: boolean }) {
+  const conversationId = getActiveConversation()?.id;
+  if (conversationId && !message.conversationId) message = { ...message, conversationId };
   chatHistory.push(message);
   if (!options?.skipSave) {
     try {
@@ -304,7 +324,7 @@ async function doRenderMessages() {
       bubble.appendChild(contentDiv);
       timeline.appendChild(bubble);
       inner.appendChild(timeline);
-      const sourceItems = createSourceListItems(parsed.sources);
+      const sourceItems = createSourceListItems(displaySources(msg.sources, parsed.sources));
       if (sourceItems.length > 0) {
         const sourcesContainer = document.createElement("div");
         sourcesContainer.className = "message-sources-container";
@@ -336,7 +356,7 @@ async function doRenderMessages() {
       bubble.appendChild(contentDiv);
       timeline.appendChild(bubble);
       inner.appendChild(timeline);
-      const sourceItems = createSourceListItems(parsed.sources);
+      const sourceItems = createSourceListItems(displaySources(msg.sources, parsed.sources));
       if (sourceItems.length > 0) {
         const sourcesContainer = document.createElement("div");
         sourcesContainer.className = "message-sources-container";
@@ -354,7 +374,7 @@ async function doRenderMessages() {
       // Parse sources from assistant responses
       const parsed = msg.role === "assistant" ? parseLlmResponse(msg.content) : null;
       const messageContent = parsed ? parsed.content : msg.content;
-      const sources = parsed ? parsed.sources : [];
+      const sources = parsed ? displaySources(msg.sources, parsed.sources) : [];
       if (msg.role === "assistant") {
         const contentWithCitations = highlightInlineCitations(messageContent);
         const mdDiv = document.createElement("div");
@@ -409,6 +429,8 @@ async function handleSendMessage() {
     timestamp: new Date().toISOString()
   };
   addMessageToChat(userMessage);
+  void noteUserMessage(text);
+  const conversationId = getActiveConversation()?.id;
   chatInput.value = "";
   streamingBuffer = "";
   streamingReasoningSteps = [];
@@ -624,8 +646,9 @@ async function handleSendMessage() {
       const idx = streamingAssistantIndex;
       const partial = buildPartialAssistantOnDisconnect(streamingBuffer, streamingReasoningSteps);
       if (partial) {
-        chatHistory[idx] = partial;
-        void storage.saveChatMessage(partial).catch(() => {});
+        const saved: ChatMessage = { ...partial, conversationId };
+        chatHistory[idx] = saved;
+        void storage.saveChatMessage(saved).catch(() => {});
       } else {
         chatHistory.splice(idx, 1);
       }
@@ -646,7 +669,7 @@ async function handleSendMessage() {
   try {
     port.postMessage({
       type: "CHAT_STREAM_REQUEST",
-      payload: { text }
+      payload: { text, conversationId }
     });
   } catch (err) {
     clearPing();
@@ -951,7 +974,8 @@ async function updateUI() {
     ["chat-context-max-messages", "settings.chatContextMaxMessages"],
     ["chat-context-max-chars", "settings.chatContextMaxChars"],
     ["chat-rolling-summary-every", "settings.chatRollingEvery"],
-    ["chat-rolling-summary-batch", "settings.chatRollingBatch"]
+    ["chat-rolling-summary-batch", "settings.chatRollingBatch"],
+    ["chat-thread-mode", "settings.chatThreadMode"]
   ];
   for (const [id, key] of chatLabelMap) {
     const lab = document.querySelector(`#panel-section-chat label[for="${id}"]`);
@@ -1010,36 +1034,92 @@ function switchToTab(tab: "chat" | "search" | "settings") {
   tabSearch?.setAttribute("aria-selected", String(searchActive));
   tabSettings?.classList.toggle("tab-btn-active", settingsActive);
   tabSettings?.setAttribute("aria-selected", String(settingsActive));
-  if (searchActive) updateSummarizeButtonState();
+  if (searchActive) {
+    updateSummarizeButtonState();
+    void loadCollections();
+  }
+}
+
+/**
+ * Третий этап (если включён в Options): модель переоценивает верхние topN результатов в background.
+ * Ошибка или таймаут оставляют порядок RRF; причина возвращается для строки статуса.
+ */
+async function applyLlmRerank(query: string, results: SearchResult[]): Promise<{ results: SearchResult[]; note: string }> {
+  const settings = await loadLlmRerankSettings();
+  if (!settings.enabled || results.length < 2) return { results, note: "" };
+  const top = results.slice(0, settings.topN);
+  const candidates: LlmRerankCandidate[] = top.map(({ page, passage }) => ({
+    id: page.id,
+    title: page.title,
+    url: page.url,
+    ...(passage?.sectionPath.length ? { section: passage.sectionPath.join(" › ") } : {}),
+    text: passage ? passageText(page, passage) : (page.contentText ?? "").slice(0, 600)
+  }));
+  const response = await new Promise<{ ok?: boolean; result?: LlmRerankOutcome; error?: string }>((resolve) => {
+    chrome.runtime.sendMessage(
+      { type: "SEARCH_LLM_RERANK", payload: { query, candidates, timeoutMs: settings.timeoutMs } },
+      (r: unknown) => {
+        if (chrome.runtime.lastError) {
+          resolve({ error: chrome.runtime.lastError.message ?? "Unknown error" });
+          return;
+        }
+        resolve((r as { ok?: boolean; result?: LlmRerankOutcome; error?: string }) ?? {});
+      }
+    );
+  });
+  const outcome = response.result;
+  if (!outcome?.applied) {
+    return { results, note: ` LLM rerank skipped: ${response.error ?? outcome?.error ?? "no scores"}` };
+  }
+  const byId = new Map(top.map((r) => [r.page.id, r]));
+  const reordered = outcome.order.flatMap((id) => byId.get(id) ?? []);
+  return {
+    results: [...reordered, ...results.slice(top.length)],
+    note: outcome.cached ? " Reranked by LLM (cached)." : " Reranked by LLM."
+  };
 }
 
 async function runSearch(): Promise<void> {
   if (!searchPagesInput || !searchResults || !searchStatus) return;
-  const query = searchPagesInput.value.trim();
+  const collection = searchCollectionSelect?.value ?? "";
+  // Фильтр по коллекции — тот же оператор space:, что можно написать в запросе руками
+  const query = [searchPagesInput.value.trim(), collection ? `space:${collection}` : ""].filter(Boolean).join(" ");
   if (!query) {
     searchStatus.textContent = "Enter a search query.";
     searchStatus.className = "status search-status";
     return;
   }
-  searchStatus.textContent = "Searching…";
-  searchStatus.className = "status info search-status";
   searchResults.innerHTML = "";
   lastSearchResults = [];
+  searchStatus.textContent = "Searching…";
+  searchStatus.className = "status info search-status";
   try {
-    const pages = await storage.getAllPages();
-    if (pages.length === 0) {
+    const search = await searchSavedPages(storage, query);
+    if ("error" in search) {
+      searchStatus.textContent = `Query error at position ${search.position + 1}: ${search.error}`;
+      searchStatus.className = "status error search-status";
+      updateSummarizeButtonState();
+      return;
+    }
+    const { text, vectorError } = search;
+    lastSearchText = text;
+    lastSearchResults = collection ? search.results.filter((r) => r.page.spaceKey === collection) : search.results;
+    if (lastSearchResults.length === 0 && (await storage.countPages()) === 0) {
       searchStatus.textContent = "No saved pages yet. Visit some pages to index them.";
       searchStatus.className = "status search-status";
       return;
     }
-    const results = keywordSearch(query, pages, { limit: 20 });
-    lastSearchResults = rerank(results);
     if (lastSearchResults.length === 0) {
       searchStatus.textContent = "No matches.";
       searchStatus.className = "status search-status";
       return;
     }
-    searchStatus.textContent = `${lastSearchResults.length} page(s) found.`;
+    const llm = text ? await applyLlmRerank(text, lastSearchResults) : { results: lastSearchResults, note: "" };
+    lastSearchResults = llm.results;
+    searchStatus.textContent =
+      `${lastSearchResults.length} page(s) found.` +
+      (vectorError ? ` Semantic search unavailable: ${vectorError}` : "") +
+      llm.note;
     searchStatus.className = "status success search-status";
     renderSearchResultsList(lastSearchResults);
   } catch (err) {
@@ -1049,11 +1129,13 @@ async function runSearch(): Promise<void> {
   updateSummarizeButtonState();
 }
 
+/** Сколько лучших пассажей страницы показывать в результате */
+const SEARCH_RESULT_PASSAGES = 2;
+
 function renderSearchResultsList(results: SearchResult[]): void {
   if (!searchResults) return;
   searchResults.innerHTML = "";
-  const snippetLen = 80;
-  for (const { page } of results) {
+  for (const { page, passage, duplicates } of results) {
     const li = document.createElement("li");
     li.className = "search-result-item";
     const label = document.createElement("label");
@@ -1066,25 +1148,329 @@ function renderSearchResultsList(results: SearchResult[]): void {
     const title = document.createElement("span");
     title.className = "search-result-title";
     title.textContent = page.title || page.url || page.id;
+    const meta = document.createElement("div");
+    meta.className = "search-result-meta";
     const link = document.createElement("a");
     link.href = page.url;
     link.target = "_blank";
     link.rel = "noopener noreferrer";
     link.className = "search-result-link";
     link.textContent = page.url;
-    const snippet = document.createElement("p");
-    snippet.className = "search-result-snippet";
-    const text = page.contentText?.trim() || "";
-    snippet.textContent = text.length > snippetLen ? text.slice(0, snippetLen) + "…" : text;
+    const visited = document.createElement("span");
+    visited.className = "search-result-date";
+    const visitedAt = new Date(page.updatedAt);
+    visited.textContent = Number.isNaN(visitedAt.getTime()) ? "" : `Visited ${visitedAt.toLocaleDateString()}`;
+    meta.append(link, visited);
+    const historyBtn = document.createElement("button");
+    historyBtn.type = "button";
+    historyBtn.className = "search-result-history";
+    historyBtn.textContent = "History";
+    historyBtn.title = "Saved versions of this page";
+    historyBtn.addEventListener("click", () =>
+      void openPageHistory({ id: page.id, title: page.title, url: page.url })
+    );
+    const collectionBtn = document.createElement("button");
+    collectionBtn.type = "button";
+    collectionBtn.className = "search-result-collection";
+    collectionBtn.textContent = page.spaceKey ? `🗂 ${page.spaceKey}` : "+ Collection";
+    collectionBtn.title = page.spaceKey ? "Move to another collection or clear" : "Add this page to a collection";
+    collectionBtn.addEventListener("click", () => beginCollectionEdit(collectionBtn, page));
     label.appendChild(cb);
     label.appendChild(title);
     li.appendChild(label);
-    li.appendChild(link);
-    li.appendChild(snippet);
+    li.appendChild(meta);
+    for (const snippet of renderResultSnippets(page, passage)) li.appendChild(snippet);
+    if (duplicates?.length) li.appendChild(renderResultDuplicates(duplicates));
+    li.appendChild(historyBtn);
+    li.appendChild(collectionBtn);
     searchResults.appendChild(li);
   }
 }
 
+/**
+ * Лучшие пассажи страницы с подсвеченными словами запроса; клик открывает страницу
+ * и прокручивает к пассажу (text fragment). Без совпадений — начало страницы.
+ */
+function renderResultSnippets(page: Page, best: PagePassage | undefined): HTMLAnchorElement[] {
+  const ranked = lastSearchText ? rankPassages(page, lastSearchText, SEARCH_RESULT_PASSAGES) : [];
+  const passages = ranked.length > 0 ? ranked : best ? [best] : [];
+  const items = passages.map((p) => ({ text: passageText(page, p), sectionPath: p.sectionPath }));
+  if (items.length === 0) items.push({ text: page.contentText ?? "", sectionPath: [] });
+  return items
+    .filter((item) => item.text.trim())
+    .map((item) => {
+      const snippet = document.createElement("a");
+      snippet.className = "search-result-snippet";
+      snippet.href = textFragmentUrl(page.url, item.text);
+      snippet.target = "_blank";
+      snippet.rel = "noopener noreferrer";
+      snippet.title = "Open the page at this passage";
+      if (item.sectionPath.length > 0) {
+        const section = document.createElement("span");
+        section.className = "search-result-section";
+        section.textContent = item.sectionPath.join(" › ");
+        snippet.appendChild(section);
+      }
+      for (const segment of snippetSegments(buildSnippet(item.text, lastSearchText))) {
+        if (segment.match) {
+          const mark = document.createElement("mark");
+          mark.textContent = segment.text;
+          snippet.appendChild(mark);
+        } else {
+          snippet.appendChild(document.createTextNode(segment.text));
+        }
+      }
+      return snippet;
+    });
+}
+
+/** Сколько адресов схлопнутых дублей показывать под результатом */
+const SEARCH_RESULT_DUPLICATE_LINKS = 3;
+
+/** «Also saved as»: адреса почти одинаковых страниц, схлопнутых в этот результат. */
+function renderResultDuplicates(duplicates: NonNullable<SearchResult["duplicates"]>): HTMLDivElement {
+  const wrap = document.createElement("div");
+  wrap.className = "search-result-duplicates";
+  wrap.appendChild(document.createTextNode("Also saved as: "));
+  duplicates.slice(0, SEARCH_RESULT_DUPLICATE_LINKS).forEach((d, i) => {
+    if (i > 0) wrap.appendChild(document.createTextNode(", "));
+    const link = document.createElement("a");
+    link.href = d.url;
+    link.target = "_blank";
+    link.rel = "noopener noreferrer";
+    link.textContent = d.url;
+    link.title = d.title;
+    wrap.appendChild(link);
+  });
+  const more = duplicates.length - SEARCH_RESULT_DUPLICATE_LINKS;
+  if (more > 0) wrap.appendChild(document.createTextNode(` and ${more} more`));
+  return wrap;
+}
+
+const MERGE_DUPLICATES_CONFIRM_MS = 3000;
+
+/** Вкладка Search: группы почти одинаковых сохранённых страниц вместо результатов поиска. */
+async function showDuplicates(): Promise<void> {
+  if (!searchResults || !searchStatus) return;
+  searchResults.innerHTML = "";
+  lastSearchResults = [];
+  updateSummarizeButtonState();
+  searchStatus.textContent = "Looking for near-duplicate pages…";
+  searchStatus.className = "status info search-status";
+  let groups: Page[][];
+  try {
+    groups = await storage.listDuplicateGroups();
+  } catch (err) {
+    searchStatus.textContent = "Failed to find duplicates: " + (err instanceof Error ? err.message : String(err));
+    searchStatus.className = "status error search-status";
+    return;
+  }
+  if (groups.length === 0) {
+    searchStatus.textContent = "No near-duplicate pages found.";
+    searchStatus.className = "status search-status";
+    return;
+  }
+  searchStatus.textContent = `${groups.length} group(s) of near-duplicate pages. The first page of each group is kept when merging.`;
+  searchStatus.className = "status success search-status";
+  for (const group of groups) searchResults.appendChild(renderDuplicateGroup(group));
+}
+
+function renderDuplicateGroup(group: Page[]): HTMLLIElement {
+  const [keep, ...rest] = group;
+  const li = document.createElement("li");
+  li.className = "search-result-item duplicate-group";
+  const title = document.createElement("span");
+  title.className = "search-result-title";
+  title.textContent = keep.title || keep.url;
+  li.appendChild(title);
+  for (const page of group) {
+    const meta = document.createElement("div");
+    meta.className = "search-result-meta";
+    const link = document.createElement("a");
+    link.href = page.url;
+    link.target = "_blank";
+    link.rel = "noopener noreferrer";
+    link.className = "search-result-link";
+    link.textContent = page.url;
+    const visited = document.createElement("span");
+    visited.className = "search-result-date";
+    const visitedAt = new Date(page.updatedAt);
+    visited.textContent = Number.isNaN(visitedAt.getTime()) ? "" : `Visited ${visitedAt.toLocaleDateString()}`;
+    meta.append(link, visited);
+    li.appendChild(meta);
+  }
+  const mergeBtn = document.createElement("button");
+  mergeBtn.type = "button";
+  mergeBtn.className = "search-result-history";
+  const label = `Keep first, remove ${rest.length}`;
+  mergeBtn.textContent = label;
+  let armedUntil = 0;
+  mergeBtn.addEventListener("click", () => {
+    const now = Date.now();
+    if (now > armedUntil) {
+      armedUntil = now + MERGE_DUPLICATES_CONFIRM_MS;
+      mergeBtn.textContent = `Click again to delete ${rest.length} page(s)`;
+      setTimeout(() => {
+        if (Date.now() >= armedUntil) mergeBtn.textContent = label;
+      }, MERGE_DUPLICATES_CONFIRM_MS);
+      return;
+    }
+    mergeBtn.disabled = true;
+    void storage
+      .mergeDuplicatePages(keep.id, rest.map((p) => p.id))
+      .then(() => {
+        li.remove();
+        if (searchStatus) {
+          searchStatus.textContent = `Removed ${rest.length} duplicate(s) of ${keep.url}.`;
+          searchStatus.className = "status success search-status";
+        }
+      })
+      .catch((err: unknown) => {
+        mergeBtn.disabled = false;
+        if (searchStatus) {
+          searchStatus.textContent = "Failed to merge duplicates: " + (err instanceof Error ? err.message : String(err));
+          searchStatus.className = "status error search-status";
+        }
+      });
+  });
+  li.appendChild(mergeBtn);
+  return li;
+}
+
+/** Поле вместо кнопки коллекции результата: Enter или уход фокуса сохраняет, Escape отменяет, пустое — убрать. */
+function beginCollectionEdit(button: HTMLButtonElement, page: Page): void {
+  const input = document.createElement("input");
+  input.type = "text";
+  input.className = "search-result-collection";
+  input.value = page.spaceKey ?? "";
+  input.placeholder = "Collection";
+  input.setAttribute("aria-label", "Collection");
+  input.setAttribute("list", "search-collection-datalist");
+  let done = false;
+  const finish = (save: boolean) => {
+    if (done) return;
+    done = true;
+    if (save) void saveResultCollection(page, normalizeCollectionKey(input.value));
+    else input.replaceWith(button);
+  };
+  input.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") finish(true);
+    else if (e.key === "Escape") finish(false);
+  });
+  input.addEventListener("blur", () => finish(true));
+  button.replaceWith(input);
+  input.focus();
+}
+
+async function saveResultCollection(page: Page, collection: string): Promise<void> {
+  try {
+    await storage.setPageCollection(page.id, collection);
+    for (const r of lastSearchResults) {
+      if (r.page.id !== page.id) continue;
+      if (collection) r.page.spaceKey = collection;
+      else delete r.page.spaceKey;
+    }
+    await loadCollections();
+  } catch (err) {
+    if (searchStatus) {
+      searchStatus.textContent = "Failed to save collection: " + (err instanceof Error ? err.message : String(err));
+      searchStatus.className = "status error search-status";
+    }
+  }
+  renderSearchResultsList(lastSearchResults);
+  updateSummarizeButtonState();
+}
+
+/** Список коллекций в фильтре вкладки Search и подсказках поля коллекции; выбранная сохраняется, если ещё есть. */
+async function loadCollections(): Promise<void> {
+  if (!searchCollectionSelect) return;
+  let collections: { key: string; count: number }[] = [];
+  try {
+    collections = await storage.listCollections();
+  } catch (err) {
+    console.warn("Failed to list collections:", err);
+  }
+  const selected = searchCollectionSelect.value;
+  searchCollectionSelect.innerHTML = "";
+  const all = document.createElement("option");
+  all.value = "";
+  all.textContent = "All pages";
+  searchCollectionSelect.appendChild(all);
+  for (const { key, count } of collections) {
+    const opt = document.createElement("option");
+    opt.value = key;
+    opt.textContent = `🗂 ${key} (${count})`;
+    searchCollectionSelect.appendChild(opt);
+  }
+  searchCollectionSelect.value = collections.some((c) => c.key === selected) ? selected : "";
+  if (searchCollectionDatalist) {
+    searchCollectionDatalist.innerHTML = "";
+    for (const { key } of collections) {
+      const opt = document.createElement("option");
+      opt.value = key;
+      searchCollectionDatalist.appendChild(opt);
+    }
+  }
+  updateCollectionChatButton();
+}
+
+function updateCollectionChatButton(): void {
+  if (searchCollectionChatBtn) searchCollectionChatBtn.disabled = !searchCollectionSelect?.value;
+}
+
+/** «Chat with collection»: беседа, в которой ответы опираются на страницы выбранной коллекции. */
+async function chatWithCollection(): Promise<void> {
+  const collection = searchCollectionSelect?.value;
+  if (!collection) return;
+  const conv = await startCollectionConversation(collection);
+  if (conv) switchToTab("chat");
+}
+
+/** «Ask my pages»: беседа, где ответы строятся по пассажам всех сохранённых страниц со ссылками [n]. */
+async function askMyPages(): Promise<void> {
+  const conv = await startAskPagesConversation();
+  if (conv) switchToTab("chat");
+}
+
+const FORGET_SITE_CONFIRM_MS = 3000;
+let forgetSiteArmedHost: string | null = null;
+let forgetSiteArmedUntil = 0;
+
+/** «Забыть сайт»: первый клик показывает, что будет удалено, второй (в течение 3 с) — удаляет страницы хоста. */
+async function forgetCurrentSite(): Promise<void> {
+  if (!searchStatus) return;
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true }).catch(() => [] as chrome.tabs.Tab[]);
+  const host = tab?.url ? hostOfUrl(tab.url) : null;
+  if (!host || !/^https?:/.test(tab?.url ?? "")) {
+    searchStatus.textContent = "The current tab is not a web page.";
+    searchStatus.className = "status error search-status";
+    return;
+  }
+  const now = Date.now();
+  if (forgetSiteArmedHost !== host || now > forgetSiteArmedUntil) {
+    forgetSiteArmedHost = host;
+    forgetSiteArmedUntil = now + FORGET_SITE_CONFIRM_MS;
+    searchStatus.textContent = `Click again to delete all saved pages of ${host}.`;
+    searchStatus.className = "status info search-status";
+    return;
+  }
+  forgetSiteArmedHost = null;
+  try {
+    const removed = await storage.deletePagesOfHost(host);
+    lastSearchResults = lastSearchResults.filter((r) => {
+      const h = hostOfUrl(r.page.url);
+      return !h || !hostMatchesDomain(h, host);
+    });
+    renderSearchResultsList(lastSearchResults);
+    updateSummarizeButtonState();
+    searchStatus.textContent = `Removed ${removed} saved page(s) of ${host}.`;
+    searchStatus.className = "status success search-status";
+  } catch (err) {
+    searchStatus.textContent = "Failed to forget site: " + (err instanceof Error ? err.message : String(err));
+    searchStatus.className = "status error search-status";
+  }
+}
+
 function getSelectedPageIds(): string[] {
   if (!searchResults) return [];
   const checkboxes = searchResults.querySelectorAll<HTMLInputElement>(".search-result-cb:checked");
@@ -1131,7 +1517,8 @@ async function summarizeSelected(): Promise<void> {
       role: "assistant",
       content: text,
       timestamp: new Date().toISOString(),
-      sources
+      sources,
+      conversationId: getActiveConversation()?.id
     };
     chatHistory.push(msg);
     await storage.saveChatMessage(msg);
@@ -1147,7 +1534,58 @@ async function summarizeSelected(): Promise<void> {
   }
 }
 
-async function clearChat(): Promise<void> {
+/** История страницы активной вкладки (снимки сохраняются при каждой индексации страницы). */
+async function openCurrentPageHistory(): Promise<void> {
+  if (!searchStatus) return;
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true }).catch(() => [] as chrome.tabs.Tab[]);
+  if (!tab?.url || !/^https?:/.test(tab.url)) {
+    searchStatus.textContent = "The current tab is not a web page.";
+    searchStatus.className = "status error search-status";
+    return;
+  }
+  await openPageHistory({ id: extractPageId(tab.url), title: tab.title ?? "", url: tab.url });
+}
+
+/** «Что изменилось с прошлого визита»: вопрос и объяснение diff от LLM добавляются в активную беседу. */
+async function askWhatChanged(page: HistoryPage, fromSnapshotId: string, toSnapshotId: string): Promise<void> {
+  const response = await new Promise<{ ok?: boolean; result?: { text?: string; error?: string }; error?: string }>((resolve) => {
+    chrome.runtime.sendMessage(
+      { type: "PAGE_WHAT_CHANGED", payload: { pageId: page.id, fromSnapshotId, toSnapshotId } },
+      (r: unknown) => {
+        if (chrome.runtime.lastError) {
+          resolve({ error: chrome.runtime.lastError.message ?? "Unknown error" });
+          return;
+        }
+        resolve((r as { ok?: boolean; result?: { text?: string; error?: string }; error?: string }) ?? {});
+      }
+    );
+  });
+  const errMsg = response.error ?? response.result?.error;
+  if (errMsg) throw new Error(errMsg);
+  const conversationId = getActiveConversation()?.id;
+  const question: ChatMessage = {
+    role: "user",
+    content: await translate("chat.whatChangedQuestion"),
+    timestamp: new Date().toISOString(),
+    conversationId
+  };
+  const answer: ChatMessage = {
+    role: "assistant",
+    content: response.result?.text ?? "",
+    timestamp: new Date().toISOString(),
+    sources: [{ title: page.title || page.url, url: page.url }],
+    conversationId
+  };
+  chatHistory.push(question, answer);
+  await storage.saveChatMessage(question);
+  await noteUserMessage(question.content);
+  await storage.saveChatMessage(answer);
+  await renderMessages();
+  switchToTab("chat");
+}
+
+/** Отключиться от стрима (ответ досохранит фон в исходную беседу) и сбросить живой DOM. */
+function detachStream(): void {
   if (streamPort) {
     streamPort.disconnect();
     streamPort = null;
@@ -1161,8 +1599,15 @@ async function clearChat(): Promise<void> {
   streamingBuffer = "";
   streamingReasoningSteps = [];
   isSending = false;
-  await resetRollingChatSummaryStorage();
-  await storage.clearChatHistory();
+}
+
+async function clearChat(): Promise<void> {
+  detachStream();
+  const conversationId = getActiveConversation()?.id;
+  if (conversationId) {
+    await resetRollingChatSummaryStorage(conversationId);
+    await storage.clearChatHistory(conversationId);
+  }
   chatHistory = [];
   void updatePlayStopButton(false);
   void renderMessages();
@@ -1178,6 +1623,15 @@ function wireEvents() {
     if (e.key === "Enter") void runSearch();
   });
   summarizeSelectedBtn?.addEventListener("click", () => void summarizeSelected());
+  searchCollectionSelect?.addEventListener("change", () => {
+    updateCollectionChatButton();
+    if (searchCollectionSelect.value || searchPagesInput?.value.trim()) void runSearch();
+  });
+  searchCollectionChatBtn?.addEventListener("click", () => void chatWithCollection());
+  forgetSiteBtn?.addEventListener("click", () => void forgetCurrentSite());
+  duplicatesBtn?.addEventListener("click", () => void showDuplicates());
+  askPagesBtn?.addEventListener("click", () => void askMyPages());
+  pageHistoryBtn?.addEventListener("click", () => void openCurrentPageHistory());
   sendButton.addEventListener("click", () => {
     if (streamPort) {
       try {
@@ -1260,8 +1714,13 @@ function wireEvents() {
 }
 
 async function loadChatHistory(): Promise<void> {
+  const conversationId = getActiveConversation()?.id;
+  if (!conversationId) {
+    chatHistory = [];
+    return;
+  }
   try {
-    chatHistory = await storage.getChatHistory();
+    chatHistory = await storage.getChatHistory(conversationId);
   } catch (error) {
     console.error("Failed to load chat history:", error);
     chatHistory = [];
@@ -1290,6 +1749,7 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
       changes.chatRollingSummaryEnabled ||
       changes.chatRollingSummaryEvery ||
       changes.chatRollingSummaryBatch ||
+      changes.chatThreadMode ||
       changes.mcpAgentPromptsEnabled ||
       changes.agentRules ||
       changes.agentSkills
@@ -1298,8 +1758,24 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
     }
   }
 });
+initDbUpgradeBanner();
+initPageHistory(storage, { onWhatChanged: askWhatChanged });
 void (async () => {
-  await loadChatHistory();
+  await ensureStorageUnlocked(async () => {
+    await loadChatHistory();
+    await renderMessages();
+  });
+  await initConversationBar(storage, {
+    followActiveTab: true,
+    beforeSwitch: () => {
+      detachStream();
+      void updatePlayStopButton(false);
+    },
+    onSwitch: async () => {
+      await loadChatHistory();
+      await renderMessages();
+    }
+  });
   await updateUI();
 })();
 void loadLlmConfig();
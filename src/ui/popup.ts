@@ -3,7 +3,7 @@ import { translate, getStoredLocale } from "../i18n";
 import { Storage } from "../storage/indexdb";
 import { renderMarkdown, renderStreamingAnswerPreview } from "./markdown";
 import { parseThinkBuffer, buildPartialAssistantOnDisconnect } from "./think-buffer";
-import { parseLlmResponse, highlightInlineCitations, createSourceListItems } from "../search/sources";
+import { parseLlmResponse, highlightInlineCitations, createSourceListItems, displaySources } from "../search/sources";
 import { getLlmConfigsAndActive, setActiveLlmConfigId } from "../llm/client";
 import {
   parseMcpServersList,
@@ -17,6 +17,9 @@ import {
   applyOrchestratorInlineFromSettings
 } from "./inline-extension-settings";
 import { mergeOrchestratorSettings, ORCHESTRATOR_SYNC_STORAGE_DEFAULTS } from "../agent/orchestrator-settings";
+import { getActiveConversation, initConversationBar, noteUserMessage } from "./conversation-bar";
+import { ensureStorageUnlocked } from "./unlock-prompt";
+import { initDbUpgradeBanner } from "./db-upgrade-banner";
 
 const messagesContainer = document.getElementById("messages") as HTMLDivElement;
 const chatInput = document.getElementById("chat-input") as HTMLTextAreaElement;
@@ -154,6 +157,8 @@ function setToolsExecutingShimmer(active: boolean): void {
 }
 
 function addMessageToChat(message: ChatMessage, options?: { skipSave?: boolean }) {
+  const conversationId = getActiveConversation()?.id;
+  if (conversationId && !message.conversationId) message = { ...message, conversationId };
   chatHistory.push(message);
   if (!options?.skipSave) {
     try {
@@ -260,7 +265,7 @@ async function renderMessages() {
       bubble.appendChild(contentDiv);
       timeline.appendChild(bubble);
       inner.appendChild(timeline);
-      const sourceItems = createSourceListItems(parsed.sources);
+      const sourceItems = createSourceListItems(displaySources(msg.sources, parsed.sources));
       if (sourceItems.length > 0) {
         const sourcesContainer = document.createElement("div");
         sourcesContainer.className = "message-sources-container";
@@ -292,7 +297,7 @@ async function renderMessages() {
       bubble.appendChild(contentDiv);
       timeline.appendChild(bubble);
       inner.appendChild(timeline);
-      const sourceItems = createSourceListItems(parsed.sources);
+      const sourceItems = createSourceListItems(displaySources(msg.sources, parsed.sources));
       if (sourceItems.length > 0) {
         const sourcesContainer = document.createElement("div");
         sourcesContainer.className = "message-sources-container";
@@ -309,7 +314,7 @@ async function renderMessages() {
     } else {
       const parsed = msg.role === "assistant" ? parseLlmResponse(msg.content) : null;
       const messageContent = parsed ? parsed.content : msg.content;
-      const sources = parsed ? parsed.sources : [];
+      const sources = parsed ? displaySources(msg.sources, parsed.sources) : [];
       if (msg.role === "assistant") {
         const contentWithCitations = highlightInlineCitations(messageContent);
         const mdDiv = document.createElement("div");
@@ -348,7 +353,8 @@ async function renderMessages() {
   messagesContainer.scrollTop = messagesContainer.scrollHeight;
 }
 
-async function clearChat(): Promise<void> {
+/** Отключиться от стрима (ответ досохранит фон в исходную беседу) и сбросить живой DOM. */
+function detachStream(): void {
   if (streamPort) {
     streamPort.disconnect();
     streamPort = null;
@@ -362,8 +368,16 @@ async function clearChat(): Promise<void> {
   streamingBuffer = "";
   streamingReasoningSteps = [];
   pendingToolExecById.clear();
-  await resetRollingChatSummaryStorage();
-  await storage.clearChatHistory();
+  isSending = false;
+}
+
+async function clearChat(): Promise<void> {
+  detachStream();
+  const conversationId = getActiveConversation()?.id;
+  if (conversationId) {
+    await resetRollingChatSummaryStorage(conversationId);
+    await storage.clearChatHistory(conversationId);
+  }
   chatHistory = [];
   void updatePlayStopButton(false);
   void renderMessages();
@@ -382,6 +396,8 @@ async function handleSendMessage() {
     timestamp: new Date().toISOString()
   };
   addMessageToChat(userMessage);
+  void noteUserMessage(text);
+  const conversationId = getActiveConversation()?.id;
   chatInput.value = "";
   streamingBuffer = "";
   streamingReasoningSteps = [];
@@ -597,8 +613,9 @@ async function handleSendMessage() {
       const idx = streamingAssistantIndex;
       const partial = buildPartialAssistantOnDisconnect(streamingBuffer, streamingReasoningSteps);
       if (partial) {
-        chatHistory[idx] = partial;
-        void storage.saveChatMessage(partial).catch(() => {});
+        const saved: ChatMessage = { ...partial, conversationId };
+        chatHistory[idx] = saved;
+        void storage.saveChatMessage(saved).catch(() => {});
       } else {
         chatHistory.splice(idx, 1);
       }
@@ -618,7 +635,7 @@ async function handleSendMessage() {
   try {
     port.postMessage({
       type: "CHAT_STREAM_REQUEST",
-      payload: { text }
+      payload: { text, conversationId }
     });
   } catch (err) {
     clearPing();
@@ -922,7 +939,8 @@ async function updateUI() {
     ["chat-context-max-messages", "settings.chatContextMaxMessages"],
     ["chat-context-max-chars", "settings.chatContextMaxChars"],
     ["chat-rolling-summary-every", "settings.chatRollingEvery"],
-    ["chat-rolling-summary-batch", "settings.chatRollingBatch"]
+    ["chat-rolling-summary-batch", "settings.chatRollingBatch"],
+    ["chat-thread-mode", "settings.chatThreadMode"]
   ];
   for (const [id, key] of chatLabelMap) {
     const lab = document.querySelector(`#panel-section-chat label[for="${id}"]`);
@@ -1054,8 +1072,9 @@ function wireEvents() {
 }
 
 async function loadChatHistory() {
+  const conversationId = getActiveConversation()?.id;
   try {
-    chatHistory = await storage.getChatHistory();
+    chatHistory = conversationId ? await storage.getChatHistory(conversationId) : [];
   } catch (err) {
     console.warn("Failed to load chat history:", err);
     chatHistory = [];
@@ -1085,6 +1104,7 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
       changes.chatRollingSummaryEnabled ||
       changes.chatRollingSummaryEvery ||
       changes.chatRollingSummaryBatch ||
+      changes.chatThreadMode ||
       changes.mcpAgentPromptsEnabled ||
       changes.agentRules ||
       changes.agentSkills
@@ -1094,6 +1114,15 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
   }
 });
 void updateUI();
-void loadChatHistory();
+initDbUpgradeBanner();
+void ensureStorageUnlocked(() => loadChatHistory()).then(() =>
+  initConversationBar(storage, {
+    beforeSwitch: () => {
+      detachStream();
+      void updatePlayStopButton(false);
+    },
+    onSwitch: () => loadChatHistory()
+  })
+);
 void loadLlmConfig();
 loadInlineExtensionSettings();
@@ -0,0 +1,90 @@
+/**
+ * Запрос пароля шифрования в panel/popup: пока хранилище заперто, поверх интерфейса показывается форма,
+ * история бесед загружается только после ввода пароля. Ключ живёт до конца сессии браузера (chrome.storage.session).
+ */
+import { translate } from "../i18n";
+import { getEncryptionKeyState, SESSION_KEY_STORAGE_KEY, unlockEncryption } from "../storage/encryption-session";
+
+/** Открытая форма: повторные запросы ждут её же, а не вешают второй обработчик. */
+let pendingPrompt: Promise<void> | null = null;
+
+function el<T extends HTMLElement>(id: string): T | null {
+  return document.getElementById(id) as T | null;
+}
+
+async function applyLabels(): Promise<void> {
+  const labels: Array<[string, string]> = [
+    ["unlock-title", "chat.unlockTitle"],
+    ["unlock-desc", "chat.unlockDescription"],
+    ["unlock-btn", "chat.unlockButton"]
+  ];
+  for (const [id, key] of labels) {
+    const node = el(id);
+    if (node) node.textContent = await translate(key);
+  }
+  const input = el<HTMLInputElement>("unlock-passphrase");
+  if (input) input.setAttribute("aria-label", await translate("chat.unlockPassphrase"));
+}
+
+/** Показать форму и дождаться верного пароля. */
+function promptUntilUnlocked(): Promise<void> {
+  pendingPrompt ??= showPrompt().finally(() => {
+    pendingPrompt = null;
+  });
+  return pendingPrompt;
+}
+
+function showPrompt(): Promise<void> {
+  const overlay = el("unlock-overlay");
+  const form = el<HTMLFormElement>("unlock-form");
+  const input = el<HTMLInputElement>("unlock-passphrase");
+  const button = el<HTMLButtonElement>("unlock-btn");
+  const error = el("unlock-error");
+  if (!overlay || !form || !input) return Promise.resolve();
+  void applyLabels();
+  overlay.classList.remove("hidden");
+  input.value = "";
+  input.focus();
+
+  return new Promise((resolve) => {
+    const onSubmit = async (e: Event) => {
+      e.preventDefault();
+      if (!input.value) return;
+      if (button) button.disabled = true;
+      if (error) error.textContent = "";
+      try {
+        if (await unlockEncryption(input.value)) {
+          form.removeEventListener("submit", onSubmit);
+          input.value = "";
+          overlay.classList.add("hidden");
+          resolve();
+          return;
+        }
+        if (error) error.textContent = await translate("chat.unlockWrongPassphrase");
+        input.select();
+      } catch (err) {
+        if (error) error.textContent = err instanceof Error ? err.message : String(err);
+      } finally {
+        if (button) button.disabled = false;
+      }
+    };
+    form.addEventListener("submit", onSubmit);
+  });
+}
+
+/**
+ * Дождаться доступа к хранилищу: сразу, если шифрование выключено или ключ уже есть в сессии.
+ * onRelock вызывается после повторного ввода пароля, если хранилище заперли, пока окно открыто.
+ */
+export async function ensureStorageUnlocked(onRelock?: () => void | Promise<void>): Promise<void> {
+  if ((await getEncryptionKeyState()).mode === "locked") await promptUntilUnlocked();
+
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "session" || !(SESSION_KEY_STORAGE_KEY in changes) || changes[SESSION_KEY_STORAGE_KEY].newValue) return;
+    void getEncryptionKeyState().then(async (state) => {
+      if (state.mode !== "locked") return;
+      await promptUntilUnlocked();
+      await onRelock?.();
+    });
+  });
+}
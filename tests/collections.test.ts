@@ -0,0 +1,73 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { Storage } from "../src/storage/indexdb";
+import { collectionForUrl, normalizeCollectionKey, parseCollectionRules } from "../src/storage/collections";
+import type { Page } from "../src/types/messages";
+
+const storage = new Storage();
+
+function page(id: string, url: string, updatedAt = "2026-01-01T00:00:00.000Z"): Page {
+  return { id, url, title: id, contentText: `Text of ${id}`, createdAt: updatedAt, updatedAt };
+}
+
+describe("collection rules", () => {
+  const rules = parseCollectionRules(
+    ["# comment line", "**/display/*/** $1", "https://github.com/acme/** work", "broken-line-without-name"].join("\n")
+  );
+
+  it("parses pattern and collection per line", () => {
+    expect(rules.map((r) => [r.pattern, r.collection])).toEqual([
+      ["**/display/*/**", "$1"],
+      ["github.com/acme/**", "work"]
+    ]);
+  });
+
+  it("takes the Confluence space key from the path", () => {
+    expect(collectionForUrl("https://wiki.example.com/display/OPS/Runbook?x=1", rules)).toBe("OPS");
+    expect(collectionForUrl("https://wiki.example.com/display/DEV", rules)).toBe("DEV");
+    expect(collectionForUrl("https://github.com/acme/api/pulls", rules)).toBe("work");
+    expect(collectionForUrl("https://github.com/other/api", rules)).toBeUndefined();
+    expect(collectionForUrl("chrome://extensions/", rules)).toBeUndefined();
+  });
+
+  it("normalizes keys for the space: operator", () => {
+    expect(normalizeCollectionKey('  "Reading list" ')).toBe("Reading-list");
+    expect(normalizeCollectionKey("   ")).toBe("");
+  });
+});
+
+describe("Storage collections", () => {
+  it("assigns, lists and clears collections", async () => {
+    await storage.savePage(page("c-a", "https://a.example/1"));
+    await storage.savePage(page("c-b", "https://a.example/2", "2026-02-01T00:00:00.000Z"));
+    await storage.savePage(page("c-c", "https://b.example/1"));
+    expect(await storage.setPageCollection("c-a", "reading")).toBe(true);
+    expect(await storage.setPageCollection("c-b", "reading")).toBe(true);
+    expect(await storage.setPageCollection("c-c", "work")).toBe(true);
+    expect(await storage.setPageCollection("missing", "work")).toBe(false);
+    expect(await storage.listCollections()).toEqual([
+      { key: "reading", count: 2 },
+      { key: "work", count: 1 }
+    ]);
+    expect((await storage.getCollectionPages("reading")).map((p) => p.id)).toEqual(["c-b", "c-a"]);
+
+    await storage.setPageCollection("c-c", "");
+    expect(await storage.listCollections()).toEqual([{ key: "reading", count: 2 }]);
+  });
+
+  it("keeps the collection of a page when it is saved again", async () => {
+    await storage.savePage({ ...page("c-keep", "https://wiki.example.com/display/OPS/x"), spaceKey: "OPS" });
+    await storage.setPageCollection("c-keep", "manual");
+    await storage.savePage({ ...page("c-keep", "https://wiki.example.com/display/OPS/x"), spaceKey: "OPS" });
+    const [saved] = await storage.getPagesByIds(["c-keep"]);
+    expect(saved.spaceKey).toBe("manual");
+  });
+
+  it("applies rules only to pages without a collection", async () => {
+    await storage.savePage(page("c-rule", "https://wiki.example.com/display/DEV/Setup"));
+    const assigned = await storage.applyCollectionRules(parseCollectionRules("**/display/*/** $1"));
+    expect(assigned).toBe(1);
+    const pages = await storage.getPagesByIds(["c-rule", "c-keep"]);
+    expect(Object.fromEntries(pages.map((p) => [p.id, p.spaceKey]))).toEqual({ "c-rule": "DEV", "c-keep": "manual" });
+  });
+});
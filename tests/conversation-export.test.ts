@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  conversationExportFileName,
+  conversationToHtml,
+  conversationToMarkdown,
+  formatOrchestrationMetrics
+} from "../src/chat/conversation-export";
+import { createInitialMetrics } from "../src/agent/pipeline";
+import type { ChatMessage, Conversation } from "../src/types/messages";
+
+const now = new Date("2026-03-04T10:20:00.000Z");
+
+const conv: Conversation = {
+  id: "conv-1",
+  title: "Deploy: why <failed>?",
+  createdAt: "2026-03-04T10:00:00.000Z",
+  updatedAt: "2026-03-04T10:05:00.000Z",
+  pageUrl: "https://wiki.example.com/display/DEV/Deploy"
+};
+
+const messages: ChatMessage[] = [
+  { role: "user", content: "Why did <b>deploy</b> fail?", timestamp: "2026-03-04T10:00:00.000Z" },
+  {
+    role: "assistant",
+    content: "Because of **timeouts**.",
+    timestamp: "2026-03-04T10:01:00.000Z",
+    reasoningSteps: [
+      { type: "thinking", text: "Check the logs first." },
+      { type: "tool_call", name: "search", serverName: "jira", args: '{"q":"deploy"}', result: "ISSUE-1 ```code```" }
+    ],
+    sources: [
+      { title: "Runbook", url: "https://wiki.example.com/runbook" },
+      { title: "bad", url: "javascript:alert(1)" }
+    ],
+    orchestrationMetrics: { ...createInitialMetrics(), mainLlmRounds: 2, toolExecutionRounds: 1, stopReason: "user_answer" }
+  }
+];
+
+describe("conversationToMarkdown", () => {
+  const md = conversationToMarkdown(conv, messages, { now });
+
+  it("has title, page and exported date", () => {
+    expect(md.startsWith("# Deploy: why <failed>?\n\n- Page: https://wiki.example.com/display/DEV/Deploy\n- Exported: 2026-03-04 10:20")).toBe(true);
+  });
+
+  it("folds reasoning and tool calls into details", () => {
+    expect(md).toContain("<details><summary>Reasoning</summary>\n\nCheck the logs first.\n\n</details>");
+    expect(md).toContain("<details><summary>Tool call: jira/search</summary>");
+    expect(md).toContain('```json\n{\n  "q": "deploy"\n}\n```');
+    // результат содержит ``` — ограда должна быть длиннее
+    expect(md).toContain("````\nISSUE-1 ```code```\n````");
+  });
+
+  it("lists sources and agent metrics", () => {
+    expect(md).toContain("**Sources**\n\n1. [Runbook](https://wiki.example.com/runbook)");
+    expect(md).toContain("<sub>LLM rounds: 2 · tool rounds: 1 · stop: user_answer</sub>");
+  });
+
+  it("uses provided labels", () => {
+    const ru = conversationToMarkdown(conv, messages.slice(0, 1), { now, labels: { you: "Вы", page: "Страница" } });
+    expect(ru).toContain("- Страница: ");
+    expect(ru).toContain("### Вы · 2026-03-04 10:00");
+  });
+
+  it("falls back to legacy thinking field", () => {
+    const md2 = conversationToMarkdown(conv, [{ role: "assistant", content: "ok", thinking: "hmm", timestamp: now.toISOString() }], { now });
+    expect(md2).toContain("<summary>Reasoning</summary>\n\nhmm");
+  });
+});
+
+describe("conversationToHtml", () => {
+  const html = conversationToHtml(conv, messages, { now });
+
+  it("is a standalone document with inlined styles and no scripts", () => {
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<script|<link /);
+  });
+
+  it("escapes title and user text, renders assistant markdown", () => {
+    expect(html).toContain("<title>Deploy: why &lt;failed&gt;?</title>");
+    expect(html).toContain("Why did &lt;b&gt;deploy&lt;/b&gt; fail?");
+    expect(html).toContain("timeouts</strong>");
+  });
+
+  it("links only http(s) sources", () => {
+    expect(html).toContain('<a href="https://wiki.example.com/runbook">Runbook</a>');
+    expect(html).not.toContain('href="javascript:');
+    expect(html).toContain("<li>bad</li>");
+  });
+});
+
+describe("formatOrchestrationMetrics", () => {
+  it("returns null without metrics and mentions verify details", () => {
+    expect(formatOrchestrationMetrics(undefined)).toBeNull();
+    const line = formatOrchestrationMetrics({
+      ...createInitialMetrics(),
+      subtasks: { planExecuted: true, verifyRuns: 1, toolsNarrowed: false },
+      lastVerify: { sufficient: false, reason: "no data", suggestNext: "more_tools" }
+    });
+    expect(line).toContain("plan · verify: 1");
+    expect(line).toContain("verify insufficient: no data");
+  });
+});
+
+describe("conversationExportFileName", () => {
+  it("slugifies title and appends date and extension", () => {
+    expect(conversationExportFileName(conv, "markdown", now)).toBe("Deploy-why-failed-2026-03-04.md");
+    expect(conversationExportFileName({ ...conv, title: "" }, "html", now)).toBe("chat-2026-03-04.html");
+  });
+});
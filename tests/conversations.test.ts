@@ -0,0 +1,174 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import {
+  LEGACY_CONVERSATION_ID,
+  chatRollingSummaryKeys,
+  createConversationRecord,
+  originOfUrl,
+  sortConversations,
+  threadKeyForUrl,
+  titleFromFirstMessage
+} from "../src/chat/conversations";
+import { parseChatThreadMode } from "../src/chat/chat-context-sync";
+import { CHAT_ROLLING_SUMMARY_KEYS } from "../src/chat/chat-llm-context";
+import { Storage } from "../src/storage/indexdb";
+import { createEncryptionMeta, isEncryptedValue } from "../src/storage/crypto";
+import type { Conversation } from "../src/types/messages";
+
+function conv(id: string, updatedAt: string, pinned?: boolean): Conversation {
+  return { id, title: id, createdAt: updatedAt, updatedAt, ...(pinned ? { pinned } : {}) };
+}
+
+describe("createConversationRecord", () => {
+  it("creates untitled conversation with equal timestamps", () => {
+    const c = createConversationRecord({ now: new Date("2026-01-02T03:04:05.000Z") });
+    expect(c.id).toMatch(/^conv-/);
+    expect(c.title).toBe("");
+    expect(c.createdAt).toBe("2026-01-02T03:04:05.000Z");
+    expect(c.updatedAt).toBe(c.createdAt);
+    expect(c.pageUrl).toBeUndefined();
+  });
+
+  it("binds page url and origin", () => {
+    const c = createConversationRecord({ pageUrl: "https://wiki.example.com/display/DEV/Page?x=1" });
+    expect(c.pageUrl).toBe("https://wiki.example.com/display/DEV/Page?x=1");
+    expect(c.pageOrigin).toBe("https://wiki.example.com");
+  });
+
+  it("keeps url but skips origin for non-http pages", () => {
+    const c = createConversationRecord({ pageUrl: "chrome://extensions/" });
+    expect(c.pageUrl).toBe("chrome://extensions/");
+    expect(c.pageOrigin).toBeUndefined();
+  });
+
+  it("stores thread key when given", () => {
+    const c = createConversationRecord({ pageUrl: "https://a.example/x", threadKey: "page:https://a.example/x" });
+    expect(c.threadKey).toBe("page:https://a.example/x");
+  });
+
+  it("stores collection scope when given", () => {
+    const c = createConversationRecord({ title: "🗂 OPS", collection: "OPS" });
+    expect(c.collection).toBe("OPS");
+    expect(createConversationRecord().collection).toBeUndefined();
+  });
+
+  it("marks Ask my pages conversations", () => {
+    expect(createConversationRecord({ askPages: true }).askPages).toBe(true);
+    expect(createConversationRecord()).not.toHaveProperty("askPages");
+  });
+
+  it("generates distinct ids", () => {
+    expect(createConversationRecord().id).not.toBe(createConversationRecord().id);
+  });
+});
+
+describe("originOfUrl", () => {
+  it("returns undefined for garbage", () => {
+    expect(originOfUrl("not a url")).toBeUndefined();
+  });
+});
+
+describe("threadKeyForUrl", () => {
+  const url = "https://wiki.example.com/display/DEV/Page?focusedCommentId=1#comments";
+
+  it("returns null when threads are off", () => {
+    expect(threadKeyForUrl(url, "off")).toBeNull();
+  });
+
+  it("keys page threads by extractPageId (no query, no hash)", () => {
+    expect(threadKeyForUrl(url, "page")).toBe("page:https://wiki.example.com/display/DEV/Page");
+  });
+
+  it("keys site threads by origin", () => {
+    expect(threadKeyForUrl(url, "origin")).toBe("origin:https://wiki.example.com");
+    expect(threadKeyForUrl("https://wiki.example.com/other", "origin")).toBe(threadKeyForUrl(url, "origin"));
+  });
+
+  it("ignores non-web tabs", () => {
+    expect(threadKeyForUrl("chrome://newtab/", "page")).toBeNull();
+    expect(threadKeyForUrl("about:blank", "origin")).toBeNull();
+  });
+});
+
+describe("parseChatThreadMode", () => {
+  it("accepts known modes and falls back to off", () => {
+    expect(parseChatThreadMode("page")).toBe("page");
+    expect(parseChatThreadMode("origin")).toBe("origin");
+    expect(parseChatThreadMode("tab")).toBe("off");
+    expect(parseChatThreadMode(undefined)).toBe("off");
+  });
+});
+
+describe("titleFromFirstMessage", () => {
+  it("collapses whitespace", () => {
+    expect(titleFromFirstMessage("  what   is\nthis  ")).toBe("what is this");
+  });
+
+  it("truncates long text with ellipsis", () => {
+    const t = titleFromFirstMessage("a".repeat(200));
+    expect(t.length).toBe(60);
+    expect(t.endsWith("…")).toBe(true);
+  });
+});
+
+describe("sortConversations", () => {
+  it("puts pinned first, then newest", () => {
+    const list = [
+      conv("old", "2026-01-01T00:00:00.000Z"),
+      conv("new", "2026-03-01T00:00:00.000Z"),
+      conv("pinned-old", "2025-01-01T00:00:00.000Z", true)
+    ];
+    expect(sortConversations(list).map((c) => c.id)).toEqual(["pinned-old", "new", "old"]);
+  });
+
+  it("does not mutate input", () => {
+    const list = [conv("a", "2026-01-01T00:00:00.000Z"), conv("b", "2026-02-01T00:00:00.000Z")];
+    sortConversations(list);
+    expect(list.map((c) => c.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("chatRollingSummaryKeys", () => {
+  it("legacy conversation reuses global keys", () => {
+    expect(chatRollingSummaryKeys(LEGACY_CONVERSATION_ID)).toEqual(CHAT_ROLLING_SUMMARY_KEYS);
+  });
+
+  it("other conversations get suffixed keys", () => {
+    const k = chatRollingSummaryKeys("conv-1");
+    expect(k.text).toBe(`${CHAT_ROLLING_SUMMARY_KEYS.text}:conv-1`);
+    expect(k.covers).toBe(`${CHAT_ROLLING_SUMMARY_KEYS.covers}:conv-1`);
+    expect(k.epoch).toBe(`${CHAT_ROLLING_SUMMARY_KEYS.epoch}:conv-1`);
+  });
+});
+
+describe("conversation storage encryption", () => {
+  const storage = new Storage();
+
+  it("encrypts conversation titles, page urls and message sources on re-encryption", async () => {
+    const conv = createConversationRecord({
+      title: "Как откатить релиз",
+      pageUrl: "https://wiki.example.com/runbook",
+      threadKey: "page:wiki.example.com/runbook"
+    });
+    await storage.saveConversation(conv);
+    await storage.saveChatMessage({
+      conversationId: conv.id,
+      role: "assistant",
+      content: "Scale down [1].",
+      timestamp: "2026-03-01T00:00:00.000Z",
+      sources: [{ id: 1, title: "Runbook", url: "https://wiki.example.com/runbook", excerpt: "Scale the canary to zero." }]
+    });
+    const { key } = await createEncryptionMeta("correct horse", 1000);
+
+    await storage.reencryptAll(null, key);
+    const raw = await storage.exportStores(["conversations", "chat_history"]);
+    const rawConv = raw.conversations.find((c) => c.id === conv.id);
+    expect(isEncryptedValue(rawConv?.title)).toBe(true);
+    expect(JSON.stringify(rawConv)).not.toContain("wiki.example.com");
+    expect(JSON.stringify(raw.chat_history)).not.toContain("canary");
+
+    await storage.reencryptAll(key, null);
+    expect(await storage.getConversation(conv.id)).toMatchObject({ title: conv.title, pageUrl: conv.pageUrl, threadKey: conv.threadKey });
+    expect((await storage.getChatHistory(conv.id))[0].sources?.[0].excerpt).toBe("Scale the canary to zero.");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  StorageLockedError,
+  createEncryptionMeta,
+  decryptChatMessageRecord,
+  decryptPageRecord,
+  decryptText,
+  encryptChatMessageRecord,
+  encryptPageRecord,
+  encryptText,
+  isEncryptedValue,
+  keyFromPassphrase,
+  keyedLookupHash
+} from "../src/storage/crypto";
+import type { ChatMessage, Page } from "../src/types/messages";
+
+/** Мало итераций PBKDF2 — чтобы тесты не тратили секунды на вывод ключа. */
+const FAST_ITERATIONS = 1000;
+
+const page: Page = {
+  id: "p1",
+  url: "https://example.com/a",
+  title: "Example",
+  contentText: "Секретный текст страницы",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z"
+};
+
+const message: ChatMessage = {
+  role: "assistant",
+  content: "Ответ с конфиденциальными данными",
+  thinking: "ход рассуждений",
+  reasoningSteps: [{ type: "thought", content: "шаг" }],
+  sources: [{ id: 1, title: "Runbook", url: "https://wiki.example.com/runbook", excerpt: "Откат через канарейку" }]
+} as unknown as ChatMessage;
+
+describe("storage crypto", () => {
+  it("round-trips text and uses a fresh IV per value", async () => {
+    const { key } = await createEncryptionMeta("correct horse", FAST_ITERATIONS);
+    const a = await encryptText(key, "hello");
+    const b = await encryptText(key, "hello");
+    expect(isEncryptedValue(a)).toBe(true);
+    expect(a.iv).not.toBe(b.iv);
+    expect(await decryptText(key, a)).toBe("hello");
+  });
+
+  it("accepts the right passphrase and rejects a wrong one", async () => {
+    const { meta } = await createEncryptionMeta("correct horse", FAST_ITERATIONS);
+    expect(await keyFromPassphrase("correct horse", meta)).not.toBeNull();
+    expect(await keyFromPassphrase("wrong horse", meta)).toBeNull();
+  });
+
+  it("encrypts page text but keeps id and url readable", async () => {
+    const { key } = await createEncryptionMeta("correct horse", FAST_ITERATIONS);
+    const stored = await encryptPageRecord(key, page);
+    expect(stored.id).toBe("p1");
+    expect(stored.url).toBe(page.url);
+    expect(JSON.stringify(stored)).not.toContain("Секретный");
+    expect(await decryptPageRecord(key, stored)).toEqual(page);
+  });
+
+  it("encrypts chat content, thinking, reasoning steps and sources", async () => {
+    const { key } = await createEncryptionMeta("correct horse", FAST_ITERATIONS);
+    const stored = await encryptChatMessageRecord(key, message);
+    expect(stored.role).toBe("assistant");
+    expect(JSON.stringify(stored)).not.toMatch(/конфиденциальными|рассуждений|шаг|канарейку|runbook/);
+    expect(await decryptChatMessageRecord(key, stored)).toEqual(message);
+  });
+
+  it("passes plaintext records through and throws StorageLockedError without a key", async () => {
+    expect(await decryptPageRecord(null, page)).toBe(page);
+    expect(await decryptChatMessageRecord(null, message)).toBe(message);
+    const { key } = await createEncryptionMeta("correct horse", FAST_ITERATIONS);
+    const stored = await encryptPageRecord(key, page);
+    await expect(decryptPageRecord(null, stored)).rejects.toBeInstanceOf(StorageLockedError);
+  });
+
+  it("derives a stable keyed lookup hash that differs between keys", async () => {
+    const { key: k1 } = await createEncryptionMeta("first passphrase", FAST_ITERATIONS);
+    const { key: k2 } = await createEncryptionMeta("second passphrase", FAST_ITERATIONS);
+    const h1 = await keyedLookupHash(k1, "query");
+    expect(h1).toMatch(/^h:[0-9a-f]{64}$/);
+    expect(await keyedLookupHash(k1, "query")).toBe(h1);
+    expect(await keyedLookupHash(k2, "query")).not.toBe(h1);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  DATA_BUNDLE_SCHEMA_VERSION,
+  buildDataBundle,
+  formatImportPlan,
+  parseDataBundle,
+  planDataBundleImport,
+  restoreMcpSecrets,
+  sameEncryption,
+  type DataBundleStores
+} from "../src/storage/data-bundle";
+import { createEncryptionMeta, encryptPageRecord, isEncryptedValue, type EncryptionMeta } from "../src/storage/crypto";
+import { recryptStoreRecords } from "../src/storage/indexdb";
+import type { Page } from "../src/types/messages";
+
+function emptyStores(): DataBundleStores {
+  return { pages: [], page_snapshots: [], conversations: [], chat_history: [], llm_cache: [] };
+}
+
+const mcpConfig = JSON.stringify({
+  mcpServers: { jira: { url: "https://mcp.example/jira", headers: { Authorization: "Bearer secret" } } }
+});
+
+describe("buildDataBundle", () => {
+  it("excludes API keys and MCP headers by default", () => {
+    const b = buildDataBundle({
+      stores: emptyStores(),
+      sync: { llmConfigs: [{ id: "a" }], mcpServersConfig: mcpConfig },
+      local: { llmApiKeys: { a: "sk-1" }, llmApiKey: "sk-old", chatRollingSummaryText: "summary" },
+      dbVersion: 7,
+      includeSecrets: false,
+      now: new Date("2026-05-01T00:00:00.000Z")
+    });
+    expect(b.schemaVersion).toBe(DATA_BUNDLE_SCHEMA_VERSION);
+    expect(b.exportedAt).toBe("2026-05-01T00:00:00.000Z");
+    expect(b.includesSecrets).toBe(false);
+    expect(b.local).toEqual({ chatRollingSummaryText: "summary" });
+    expect(String(b.sync.mcpServersConfig)).not.toContain("secret");
+    expect(String(b.sync.mcpServersConfig)).toContain("https://mcp.example/jira");
+  });
+
+  it("keeps secrets when asked", () => {
+    const b = buildDataBundle({
+      stores: emptyStores(),
+      sync: { mcpServersConfig: mcpConfig },
+      local: { llmApiKeys: { a: "sk-1" } },
+      dbVersion: 7,
+      includeSecrets: true
+    });
+    expect(b.local.llmApiKeys).toEqual({ a: "sk-1" });
+    expect(b.sync.mcpServersConfig).toBe(mcpConfig);
+  });
+
+  it("moves encryption parameters out of local and leaves installation keys behind", async () => {
+    const { meta } = await createEncryptionMeta("correct horse", 1000);
+    const b = buildDataBundle({
+      stores: emptyStores(),
+      sync: {},
+      local: { encryptionMeta: meta, dbUpgradeError: { message: "x" }, activeConversationId: "c1", locale: "ru" },
+      dbVersion: 7,
+      includeSecrets: true
+    });
+    expect(b.local).toEqual({ locale: "ru" });
+    expect(b.encryption).toEqual(meta);
+    expect(buildDataBundle({ stores: emptyStores(), sync: {}, local: {}, dbVersion: 7, includeSecrets: false }).encryption).toBeNull();
+  });
+});
+
+describe("parseDataBundle", () => {
+  const valid = () =>
+    buildDataBundle({ stores: emptyStores(), sync: {}, local: {}, dbVersion: 7, includeSecrets: false });
+
+  it("round-trips an exported bundle", () => {
+    const r = parseDataBundle(JSON.stringify(valid()));
+    expect("bundle" in r).toBe(true);
+  });
+
+  it("rejects non-JSON and foreign files", () => {
+    expect(parseDataBundle("{oops")).toEqual({ error: "File is not valid JSON" });
+    expect(parseDataBundle(JSON.stringify({ hello: 1 }))).toEqual({ error: "Not a PageAI backup file" });
+  });
+
+  it("rejects newer schema versions", () => {
+    const r = parseDataBundle(JSON.stringify({ ...valid(), schemaVersion: DATA_BUNDLE_SCHEMA_VERSION + 1 }));
+    expect("error" in r && r.error).toMatch(/newer than supported/);
+  });
+
+  it("rejects malformed stores", () => {
+    const bad = { ...valid(), stores: { ...emptyStores(), pages: ["x"] } };
+    expect(parseDataBundle(JSON.stringify(bad))).toEqual({ error: 'Backup store "pages" is malformed' });
+  });
+
+  it("reads encryption parameters of bundles that kept them in local", async () => {
+    const { meta } = await createEncryptionMeta("correct horse", 1000);
+    const legacy = { ...valid(), encryption: undefined, local: { encryptionMeta: meta } };
+    const r = parseDataBundle(JSON.stringify(legacy));
+    expect("bundle" in r && r.bundle.encryption).toEqual(meta);
+  });
+
+  it("treats missing stores as empty", () => {
+    const partial = { ...valid(), stores: { pages: [{ id: "p" }] } };
+    const r = parseDataBundle(JSON.stringify(partial));
+    expect("bundle" in r && r.bundle.stores.chat_history).toEqual([]);
+  });
+});
+
+describe("planDataBundleImport", () => {
+  const page = (id: string, title: string) => ({ id, title, url: id });
+  const msg = (id: number, content: string) => ({
+    id,
+    conversationId: "c1",
+    role: "user",
+    timestamp: `2026-01-0${id}T00:00:00.000Z`,
+    content
+  });
+
+  it("merge adds new, updates changed and keeps unrelated records", () => {
+    const bundle = buildDataBundle({
+      stores: { ...emptyStores(), pages: [page("a", "A2"), page("b", "B")], chat_history: [msg(1, "hi"), msg(2, "new")] },
+      sync: { theme: "dark" },
+      local: {},
+      dbVersion: 7,
+      includeSecrets: false
+    });
+    const current = {
+      stores: { ...emptyStores(), pages: [page("a", "A"), page("z", "Z")], chat_history: [msg(1, "hi")] },
+      sync: { theme: "light", locale: "ru" },
+      local: { llmApiKeys: { x: "k" } }
+    };
+    const plan = planDataBundleImport(bundle, current, "merge");
+    expect(plan.stores.pages).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 0 });
+    expect(plan.writes.pages.map((p) => p.id)).toEqual(["a", "b"]);
+    expect(plan.stores.chat_history).toEqual({ added: 1, updated: 0, unchanged: 1, removed: 0 });
+    expect(plan.writes.chat_history).toHaveLength(1);
+    expect(plan.writes.chat_history[0].id).toBeUndefined();
+    expect(plan.clearStores).toEqual([]);
+    expect(plan.syncToSet).toEqual({ theme: "dark" });
+    expect(plan.syncToRemove).toEqual([]);
+    expect(plan.localToRemove).toEqual([]);
+  });
+
+  it("merge overwrites changed autoIncrement records under the local id", () => {
+    const bundle = buildDataBundle({
+      stores: { ...emptyStores(), chat_history: [{ ...msg(1, "edited"), id: 99 }] },
+      sync: {},
+      local: {},
+      dbVersion: 7,
+      includeSecrets: false
+    });
+    const plan = planDataBundleImport(
+      bundle,
+      { stores: { ...emptyStores(), chat_history: [msg(1, "hi")] }, sync: {}, local: {} },
+      "merge"
+    );
+    expect(plan.stores.chat_history.updated).toBe(1);
+    expect(plan.writes.chat_history).toEqual([{ ...msg(1, "edited"), id: 1 }]);
+  });
+
+  it("replace clears stores, removes extra keys but keeps secrets missing from bundle", () => {
+    const bundle = buildDataBundle({
+      stores: { ...emptyStores(), pages: [page("a", "A")] },
+      sync: { theme: "dark" },
+      local: { activeConversationId: "c2" },
+      dbVersion: 7,
+      includeSecrets: false
+    });
+    const current = {
+      stores: { ...emptyStores(), pages: [page("a", "A"), page("z", "Z")] },
+      sync: { theme: "dark", locale: "ru" },
+      local: { llmApiKeys: { x: "k" }, chatRollingSummaryText: "old", encryptionMeta: { salt: "s" }, activeConversationId: "c1" }
+    };
+    const plan = planDataBundleImport(bundle, current, "replace");
+    expect(plan.clearStores).toContain("pages");
+    expect(plan.stores.pages).toEqual({ added: 0, updated: 0, unchanged: 1, removed: 1 });
+    expect(plan.writes.pages).toHaveLength(1);
+    expect(plan.syncToRemove).toEqual(["locale"]);
+    expect(plan.localToRemove).toEqual(["chatRollingSummaryText"]);
+    // Ключи этой установки импорт не меняет и не удаляет
+    expect(plan.localToSet).toEqual({});
+    expect(formatImportPlan(plan)).toContain("pages: +0 new, 0 updated, 1 unchanged, 1 removed");
+  });
+
+  it("restores MCP headers from current config when bundle has no secrets", () => {
+    const bundle = buildDataBundle({
+      stores: emptyStores(),
+      sync: { mcpServersConfig: mcpConfig },
+      local: {},
+      dbVersion: 7,
+      includeSecrets: false
+    });
+    const plan = planDataBundleImport(bundle, { stores: emptyStores(), sync: { mcpServersConfig: mcpConfig }, local: {} }, "merge");
+    const restored = JSON.parse(String(plan.syncToSet.mcpServersConfig));
+    expect(restored.mcpServers.jira.headers).toEqual({ Authorization: "Bearer secret" });
+  });
+});
+
+describe("bundle encryption", () => {
+  const page: Page = {
+    id: "p1",
+    url: "https://example.com/a",
+    title: "A",
+    contentText: "Секретный текст",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  };
+
+  it("compares encryption parameters by salt and verifier", async () => {
+    const { meta } = await createEncryptionMeta("correct horse", 1000);
+    const { meta: other } = await createEncryptionMeta("correct horse", 1000);
+    const copy = JSON.parse(JSON.stringify(meta)) as EncryptionMeta;
+    expect(sameEncryption(null, null)).toBe(true);
+    expect(sameEncryption(meta, copy)).toBe(true);
+    expect(sameEncryption(meta, other)).toBe(false);
+    expect(sameEncryption(meta, null)).toBe(false);
+  });
+
+  it("re-encrypts records of a bundle made with another key", async () => {
+    const { key: bundleKey } = await createEncryptionMeta("bundle passphrase", 1000);
+    const { key: localKey } = await createEncryptionMeta("local passphrase", 1000);
+    const stored = await encryptPageRecord(bundleKey, page);
+    const out = await recryptStoreRecords({ pages: [stored as unknown as Record<string, unknown>] }, bundleKey, localKey);
+    expect(isEncryptedValue(out.pages[0].contentText)).toBe(true);
+    expect(await recryptStoreRecords(out, localKey, null)).toMatchObject({ pages: [page] });
+    await expect(recryptStoreRecords({ pages: [stored as unknown as Record<string, unknown>] }, localKey, null)).rejects.toThrow();
+  });
+});
+
+describe("restoreMcpSecrets", () => {
+  it("leaves servers unknown locally untouched", () => {
+    const imported = JSON.stringify({ mcpServers: { other: { url: "https://x" } } });
+    expect(restoreMcpSecrets(imported, mcpConfig)).toBe(imported);
+  });
+});
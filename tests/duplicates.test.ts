@@ -0,0 +1,103 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { Storage } from "../src/storage/indexdb";
+import {
+  collapseDuplicates,
+  findDuplicateGroups,
+  hammingDistance,
+  preferredDuplicate,
+  simhash,
+  SIMHASH_MAX_DISTANCE
+} from "../src/search/duplicates";
+import type { Page } from "../src/types/messages";
+
+const ARTICLE =
+  "Kubernetes rolling updates replace pods gradually so that the service stays available. " +
+  "The deployment controller creates a new replica set, scales it up step by step and scales the old one down. " +
+  "Readiness probes decide when a new pod may receive traffic, and maxSurge with maxUnavailable bound the pace. " +
+  "If the new version fails its probes the rollout stalls, and kubectl rollout undo returns to the previous revision. " +
+  "Blue-green deployments keep two complete environments and switch the load balancer at once instead. " +
+  "Canary releases send a small share of requests to the new version and watch error rates and latency. " +
+  "Whatever the strategy, keep container images immutable, tag them by commit and record every rollout in the changelog.";
+
+const OTHER =
+  "Sourdough bread needs a lively starter fed with flour and water for several days before baking. " +
+  "Mix the dough, let it rest, fold it every half hour and leave it to rise slowly overnight in a cool kitchen. " +
+  "Bake in a preheated dutch oven with the lid on first, then uncovered until the crust turns deep brown and crisp.";
+
+function page(id: string, contentText: string, extra: Partial<Page> = {}): Page {
+  return {
+    id,
+    url: id,
+    title: id,
+    contentText,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...extra
+  };
+}
+
+describe("simhash", () => {
+  it("keeps near-identical texts within a few bits and separates different ones", () => {
+    const a = simhash(ARTICLE);
+    const b = simhash(`Print version. ${ARTICLE} Share this article.`);
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(a, b)).toBeLessThanOrEqual(SIMHASH_MAX_DISTANCE);
+    expect(hammingDistance(a, simhash(OTHER))).toBeGreaterThan(2 * SIMHASH_MAX_DISTANCE);
+  });
+
+  it("skips short texts", () => {
+    expect(simhash("Login to continue")).toBe("");
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups mirrors by text and by canonical URL, preferring the canonical page", () => {
+    const pages = [
+      page("https://blog.example.com/k8s", ARTICLE, { updatedAt: "2026-01-01T00:00:00.000Z" }),
+      page("https://mirror.example.org/k8s", `${ARTICLE} Mirrored.`, { updatedAt: "2026-02-01T00:00:00.000Z" }),
+      page("https://amp.example.com/k8s", "Short AMP shell", { canonicalUrl: "https://blog.example.com/k8s?utm_source=amp" }),
+      page("https://bread.example.com/", OTHER)
+    ];
+    const groups = findDuplicateGroups(pages);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].map((p) => p.id)).toEqual([
+      "https://blog.example.com/k8s",
+      "https://mirror.example.org/k8s",
+      "https://amp.example.com/k8s"
+    ]);
+    expect(preferredDuplicate(groups[0].slice(0, 2)).id).toBe("https://mirror.example.org/k8s");
+  });
+});
+
+describe("collapseDuplicates", () => {
+  it("folds lower-ranked copies into the best result", () => {
+    const results = [
+      { page: page("https://a/k8s", ARTICLE), score: 3 },
+      { page: page("https://b/bread", OTHER), score: 2 },
+      { page: page("https://c/k8s-print", `${ARTICLE} Printed.`), score: 1 }
+    ];
+    const collapsed = collapseDuplicates(results);
+    expect(collapsed.map((r) => r.page.id)).toEqual(["https://a/k8s", "https://b/bread"]);
+    expect(collapsed[0].duplicates).toEqual([{ id: "https://c/k8s-print", url: "https://c/k8s-print", title: "https://c/k8s-print" }]);
+    expect(results[0]).not.toHaveProperty("duplicates");
+  });
+});
+
+describe("Storage duplicates", () => {
+  const storage = new Storage();
+
+  it("stores fingerprints and merges a group into one page", async () => {
+    await storage.savePage(page("dup-a", ARTICLE, { url: "https://a.example/k8s" }));
+    await storage.savePage(page("dup-b", `${ARTICLE} Mirror.`, { url: "https://b.example/k8s", spaceKey: "ops" }));
+    const [saved] = await storage.getPagesByIds(["dup-a"]);
+    expect(saved.simhash).toBe(simhash(ARTICLE));
+
+    const groups = await storage.listDuplicateGroups();
+    expect(groups.map((g) => g.map((p) => p.id).sort())).toEqual([["dup-a", "dup-b"]]);
+
+    await storage.mergeDuplicatePages("dup-a", ["dup-b"]);
+    expect((await storage.getPagesByIds(["dup-a", "dup-b"])).map((p) => [p.id, p.spaceKey])).toEqual([["dup-a", "ops"]]);
+    expect(await storage.listDuplicateGroups()).toEqual([]);
+  });
+});
@@ -1,13 +1,218 @@
-import { describe, it, expect } from "vitest";
-import { embedTexts, type EmbeddingProviderConfig } from "../src/search/embedding";
-
-describe("embedding", () => {
-  it("returns empty array (placeholder)", async () => {
-    const config: EmbeddingProviderConfig = {
-      endpoint: "http://localhost:8000/embed",
-      model: "test",
-    };
-    const r = await embedTexts(["hello", "world"], config);
-    expect(r).toEqual([]);
+import "fake-indexeddb/auto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  embedTexts,
+  embeddingInputForPage,
+  normalizeEmbeddingsEndpoint,
+  parseEmbeddingProfile,
+  type EmbeddingProviderConfig
+} from "../src/search/embedding";
+import { runEmbeddingQueue, selectPagesToEmbed, type EmbeddingIndexStatus } from "../src/search/embedding-queue";
+import { cosineSimilarity, nearestPages, vectorSearch } from "../src/search/vector-search";
+import { Storage } from "../src/storage/indexdb";
+import type { Page } from "../src/types/messages";
+
+const config: EmbeddingProviderConfig = { endpoint: "http://localhost:1234", model: "nomic-embed" };
+
+/** Ответ сервера: вектор [длина текста, 1, …] размерности dims, элементы в обратном порядке (проверка index). */
+function embeddingsResponse(input: string[], dims = 3): Response {
+  const data = input.map((t, index) => ({ index, embedding: [t.length, ...Array(dims - 1).fill(1)] })).reverse();
+  return new Response(JSON.stringify({ data }), { status: 200 });
+}
+
+function stubFetch(handler: (input: string[], call: number) => Response | Promise<Response>) {
+  let call = 0;
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body)) as { input: string[] };
+    return handler(body.input, call++);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("normalizeEmbeddingsEndpoint", () => {
+  it("appends /v1/embeddings to a base URL and keeps a full one", () => {
+    expect(normalizeEmbeddingsEndpoint("http://localhost:1234/")).toBe("http://localhost:1234/v1/embeddings");
+    expect(normalizeEmbeddingsEndpoint("http://localhost:11434/v1")).toBe("http://localhost:11434/v1/embeddings");
+    expect(normalizeEmbeddingsEndpoint("http://localhost:1234/v1/chat/completions")).toBe(
+      "http://localhost:1234/v1/embeddings"
+    );
+    expect(normalizeEmbeddingsEndpoint("http://h/v1/embeddings")).toBe("http://h/v1/embeddings");
+  });
+});
+
+describe("parseEmbeddingProfile", () => {
+  it("falls back to the default batch size and caps it", () => {
+    expect(parseEmbeddingProfile({ embeddingEnabled: true, embeddingBatchSize: "x" })).toMatchObject({
+      enabled: true,
+      batchSize: 16
+    });
+    expect(parseEmbeddingProfile({ embeddingBatchSize: 10_000 }).batchSize).toBe(256);
+  });
+});
+
+describe("embedTexts", () => {
+  it("sends texts in batches and returns vectors in input order", async () => {
+    const fetchMock = stubFetch((input) => embeddingsResponse(input));
+    const r = await embedTexts(["a", "bb", "ccc"], config, { batchSize: 2 });
+    expect(r).toEqual({ vectors: [[1, 1, 1], [2, 1, 1], [3, 1, 1]], dimensions: 3 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:1234/v1/embeddings");
+  });
+
+  it("retries temporary failures", async () => {
+    const fetchMock = stubFetch((input, call) =>
+      call === 0 ? new Response("busy", { status: 503 }) : embeddingsResponse(input)
+    );
+    const r = await embedTexts(["a"], config, { retryDelayMs: 0 });
+    expect(r).toMatchObject({ dimensions: 3 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = stubFetch(() => new Response("bad model", { status: 400, statusText: "Bad Request" }));
+    expect(await embedTexts(["a"], config, { retryDelayMs: 0 })).toEqual({
+      error: "Embedding request failed: 400 Bad Request"
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects vectors of another dimension", async () => {
+    stubFetch((input) => embeddingsResponse(input, 4));
+    expect(await embedTexts(["a"], config, { expectedDimensions: 3 })).toEqual({
+      error: "Embedding dimension mismatch: expected 3, got 4"
+    });
+  });
+
+  it("rejects a response with a wrong number of vectors", async () => {
+    stubFetch(() => new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    expect(await embedTexts(["a"], config)).toEqual({ error: "Embeddings response has 0 vector(s) for 1 input(s)" });
+  });
+});
+
+describe("embeddingInputForPage", () => {
+  it("joins the title with the collapsed page text and truncates", () => {
+    expect(embeddingInputForPage({ title: "Docs", contentText: "a\n\n b" })).toBe("Docs\n\na b");
+    expect(embeddingInputForPage({ title: "", contentText: "x".repeat(50) }, 10)).toBe("x".repeat(10));
+  });
+});
+
+describe("selectPagesToEmbed", () => {
+  it("picks new pages, changed text and vectors of another model", () => {
+    const items = [
+      { pageId: "a", text: "", contentHash: "h1" },
+      { pageId: "b", text: "", contentHash: "h2" },
+      { pageId: "c", text: "", contentHash: "h3" },
+      { pageId: "d", text: "", contentHash: "h4" }
+    ];
+    const existing = [
+      { pageId: "a", model: "m", dimensions: 3, contentHash: "h1", embeddedAt: "" },
+      { pageId: "b", model: "m", dimensions: 3, contentHash: "old", embeddedAt: "" },
+      { pageId: "c", model: "other", dimensions: 3, contentHash: "h3", embeddedAt: "" }
+    ];
+    expect(selectPagesToEmbed(items, existing, "m").map((i) => i.pageId)).toEqual(["b", "c", "d"]);
+  });
+});
+
+describe("runEmbeddingQueue", () => {
+  const storage = new Storage();
+  const provider = { profile: { enabled: true, endpoint: config.endpoint, model: config.model, batchSize: 2 }, config };
+  const page = (id: string, text: string): Page => ({
+    id,
+    url: `https://${id}`,
+    title: id,
+    contentText: text,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  });
+
+  it("embeds pending pages, reports progress and skips up-to-date ones", async () => {
+    await storage.savePage(page("q.example/1", "one"));
+    await storage.savePage(page("q.example/2", "two"));
+    await storage.savePage(page("q.example/3", "three"));
+    const fetchMock = stubFetch((input) => embeddingsResponse(input));
+    const updates: EmbeddingIndexStatus[] = [];
+
+    const done = await runEmbeddingQueue(storage, provider, { onStatus: (s) => void updates.push(s) });
+    expect(done).toMatchObject({ state: "idle", total: 3, embedded: 3, dimensions: 3 });
+    expect(updates.map((u) => [u.state, u.embedded])).toEqual([
+      ["running", 0],
+      ["running", 2],
+      ["running", 3],
+      ["idle", 3]
+    ]);
+    expect((await storage.getPageEmbeddings(config.model)).map((e) => e.pageId).sort()).toEqual([
+      "q.example/1",
+      "q.example/2",
+      "q.example/3"
+    ]);
+
+    await storage.savePage(page("q.example/2", "two, edited"));
+    await storage.deletePages(["q.example/3"]);
+    fetchMock.mockClear();
+    expect(await runEmbeddingQueue(storage, provider)).toMatchObject({ state: "idle", total: 2, embedded: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).input).toEqual(["q.example/2\n\ntwo, edited"]);
+  });
+
+  it("stops with an error status when the server keeps failing", async () => {
+    await storage.savePage(page("q.example/4", "four"));
+    stubFetch(() => new Response("nope", { status: 404, statusText: "Not Found" }));
+    expect(await runEmbeddingQueue(storage, provider)).toMatchObject({
+      state: "error",
+      lastError: "Embedding request failed: 404 Not Found"
+    });
+  });
+
+  it("does nothing while the profile is disabled", async () => {
+    const fetchMock = stubFetch((input) => embeddingsResponse(input));
+    const disabled = { ...provider, profile: { ...provider.profile, enabled: false } };
+    expect(await runEmbeddingQueue(storage, disabled)).toMatchObject({ state: "disabled" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("vectorSearch", () => {
+  const storage = new Storage();
+  const provider = {
+    profile: { enabled: true, endpoint: config.endpoint, model: "vec-model", batchSize: 4 },
+    config: { ...config, model: "vec-model" }
+  };
+  const embedding = (pageId: string, vector: number[]) => ({
+    pageId,
+    model: "vec-model",
+    dimensions: vector.length,
+    contentHash: "h",
+    vector,
+    embeddedAt: "2026-01-01T00:00:00.000Z"
+  });
+
+  it("computes cosine similarity and nearest pages", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    const near = nearestPages([1, 0], [embedding("x", [0, 1]), embedding("y", [1, 0.1]), embedding("z", [1, 0, 0])]);
+    expect(near.map((n) => n.pageId)).toEqual(["y", "x"]);
+  });
+
+  it("ranks stored pages by similarity to the embedded query", async () => {
+    for (const id of ["v.example/cats", "v.example/dogs"]) {
+      await storage.savePage({ id, url: `https://${id}`, title: id, contentText: `About ${id}`, createdAt: "", updatedAt: "" });
+    }
+    await storage.savePageEmbeddings([embedding("v.example/cats", [1, 0, 0]), embedding("v.example/dogs", [0, 1, 0])]);
+    stubFetch((input) => new Response(JSON.stringify({ data: input.map((_, index) => ({ index, embedding: [0.1, 0.9, 0] })) })));
+    const results = await vectorSearch(storage, provider, "puppies");
+    expect(Array.isArray(results) && results.map((r) => r.page.id)).toEqual(["v.example/dogs", "v.example/cats"]);
+  });
+
+  it("returns the server error and skips a disabled profile", async () => {
+    stubFetch(() => new Response("down", { status: 500, statusText: "Server Error" }));
+    expect(await vectorSearch(storage, provider, "puppies")).toEqual({ error: "Embedding request failed: 500 Server Error" });
+    const disabled = { ...provider, profile: { ...provider.profile, enabled: false } };
+    expect(await vectorSearch(storage, disabled, "puppies")).toEqual([]);
   });
 });
@@ -0,0 +1,102 @@
+import "fake-indexeddb/auto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { DB_NAME, Storage } from "../src/storage/indexdb";
+import { enableEncryption, getEncryptionKeyState } from "../src/storage/encryption-session";
+import { UPGRADE_BACKUP_DB_NAME, loadUpgradeBackup } from "../src/storage/upgrade-backup";
+
+type Items = Record<string, unknown>;
+
+/** chrome.storage.local и session в памяти: колбэки и промисы, как в MV3. */
+function storageArea(data: Items) {
+  const pick = (keys: Items | string | null): Items =>
+    keys == null
+      ? { ...data }
+      : typeof keys === "string"
+        ? { [keys]: data[keys] }
+        : Object.fromEntries(Object.entries(keys).map(([k, def]) => [k, k in data ? data[k] : def]));
+  return {
+    get(keys: Items | string | null, cb?: (items: Items) => void) {
+      const items = pick(keys);
+      if (cb) cb(items);
+      return Promise.resolve(items);
+    },
+    async set(items: Items) {
+      Object.assign(data, items);
+    },
+    async remove(keys: string | string[]) {
+      for (const k of Array.isArray(keys) ? keys : [keys]) delete data[k];
+    }
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** База версии 6 с открытыми страницей и сообщением: при открытии Storage снимается копия до обновления. */
+async function createV6Database(): Promise<void> {
+  const request = indexedDB.open(DB_NAME, 6);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const pages = db.createObjectStore("pages", { keyPath: "id" });
+    pages.createIndex("by_updatedAt", "updatedAt");
+    pages.createIndex("by_spaceKey", "spaceKey");
+    const chat = db.createObjectStore("chat_history", { keyPath: "id", autoIncrement: true });
+    chat.createIndex("by_timestamp", "timestamp");
+    const cache = db.createObjectStore("llm_cache", { keyPath: "id", autoIncrement: true });
+    cache.createIndex("by_query", "query", { unique: false });
+    cache.createIndex("by_timestamp", "timestamp");
+    pages.put({
+      id: "p1",
+      url: "https://intranet.example.com/salaries",
+      title: "Salary review",
+      contentText: "Confidential salary bands for 2026.",
+      createdAt: "2026-01-01",
+      updatedAt: "2026-01-01"
+    });
+    chat.add({ role: "user", content: "Summarize the confidential salary bands", timestamp: "2026-01-02T10:00:00.000Z" });
+  };
+  (await promisify(request)).close();
+}
+
+async function readBackupDatabase(): Promise<string> {
+  const db = await promisify(indexedDB.open(UPGRADE_BACKUP_DB_NAME));
+  try {
+    const names = Array.from(db.objectStoreNames);
+    const tx = db.transaction(names, "readonly");
+    const all = await Promise.all(names.map((name) => promisify(tx.objectStore(name).getAll())));
+    return JSON.stringify(all);
+  } finally {
+    db.close();
+  }
+}
+
+let storage: Storage;
+
+beforeAll(async () => {
+  (global as unknown as { chrome: unknown }).chrome = {
+    storage: { local: storageArea({}), session: storageArea({}), sync: storageArea({}) }
+  };
+  await createV6Database();
+  storage = new Storage();
+  await storage.getAllPages();
+});
+
+describe("enableEncryption", () => {
+  it("deletes the plaintext pre-upgrade backup", async () => {
+    expect(await readBackupDatabase()).toContain("Confidential salary bands");
+    expect(await loadUpgradeBackup(DB_NAME)).not.toBeNull();
+
+    await enableEncryption(storage, "correct horse battery");
+
+    expect((await getEncryptionKeyState()).mode).toBe("unlocked");
+    const backup = await readBackupDatabase();
+    expect(backup).not.toContain("salary");
+    expect(backup).not.toContain("intranet.example.com");
+    expect(await loadUpgradeBackup(DB_NAME)).toBeNull();
+    expect((await storage.getAllPages())[0].contentText).toBe("Confidential salary bands for 2026.");
+  });
+});
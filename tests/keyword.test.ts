@@ -56,4 +56,26 @@ describe("keywordSearch", () => {
     expect(results).toHaveLength(1);
     expect(results[0].score).toBeGreaterThan(0);
   });
+
+  it("matches other word forms, accents and CJK", () => {
+    const pages = [
+      page("1", "Настройка серверов", "Как настроить сервер"),
+      page("2", "Café menu", "Crêpes and coffee"),
+      page("3", "东京旅游", "东京的景点"),
+    ];
+    expect(keywordSearch("сервера", pages).map((r) => r.page.id)).toEqual(["1"]);
+    expect(keywordSearch("cafe crepe", pages).map((r) => r.page.id)).toEqual(["2"]);
+    expect(keywordSearch("东京", pages).map((r) => r.page.id)).toEqual(["3"]);
+  });
+});
+
+describe("keywordSearch ranking", () => {
+  it("does not rank a page first just because it is long", () => {
+    const filler = Array.from({ length: 300 }, (_, i) => `w${i}`).join(" ");
+    const pages = [
+      page("1", "Changelog", `deploy deploy ${filler}`),
+      page("2", "Deploy checklist", "Steps to deploy safely"),
+    ];
+    expect(keywordSearch("deploy", pages).map((r) => r.page.id)).toEqual(["2", "1"]);
+  });
 });
@@ -0,0 +1,108 @@
+import "fake-indexeddb/auto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { Storage } from "../src/storage/indexdb";
+import { getKnowledgeTools, runKnowledgeRead, runKnowledgeSearch } from "../src/knowledge-tools";
+import type { Page } from "../src/types/messages";
+
+type StorageGet = (keys: Record<string, unknown>, cb: (r: Record<string, unknown>) => void) => void;
+type ChromeMock = { storage: { sync: { get: StorageGet }; local: { get: StorageGet; remove: () => Promise<void> } } };
+
+const storage = new Storage();
+
+function page(id: string, url: string, title: string, contentText: string, updatedAt = "2026-03-10T12:00:00.000Z"): Page {
+  return { id, url, title, contentText, createdAt: updatedAt, updatedAt };
+}
+
+beforeAll(async () => {
+  // Настройки по умолчанию: эмбеддинги выключены, rerank со стандартными весами
+  const get: StorageGet = (keys, cb) => cb({ ...keys });
+  (global as unknown as { chrome: ChromeMock }).chrome = {
+    storage: { sync: { get }, local: { get, remove: async () => {} } }
+  };
+  await storage.savePage(
+    page(
+      "kt-runbook",
+      "https://wiki.example.com/display/OPS/Deploy",
+      "Deploy runbook",
+      "Rollback procedure: scale the canary to zero and redeploy the previous image."
+    )
+  );
+  await storage.savePage(
+    page(
+      "kt-blog",
+      "https://blog.other.org/rollback",
+      "Rollback stories",
+      "A rollback saved our release once.",
+      "2026-01-05T12:00:00.000Z"
+    )
+  );
+});
+
+describe("getKnowledgeTools", () => {
+  it("registers tools only when enabled", () => {
+    expect(getKnowledgeTools({ knowledgeToolsEnabled: false })).toEqual([]);
+    expect(getKnowledgeTools({ knowledgeToolsEnabled: true }).map((t) => t.function.name)).toEqual([
+      "knowledge_search",
+      "knowledge_read"
+    ]);
+  });
+});
+
+describe("runKnowledgeSearch", () => {
+  it("returns wrapped excerpts with page ids and sources", async () => {
+    const out = await runKnowledgeSearch(storage, { query: "rollback canary" });
+    expect(out.text).toContain("Page id: kt-runbook");
+    expect(out.text).toContain("scale the canary to zero");
+    expect(out.text).toMatch(/untrusted/i);
+    expect(out.sources[0]).toEqual({ title: "Deploy runbook", url: "https://wiki.example.com/display/OPS/Deploy" });
+  });
+
+  it("applies site and date filters", async () => {
+    const bySite = await runKnowledgeSearch(storage, { query: "rollback", site: "other.org" });
+    expect(bySite.sources.map((s) => s.url)).toEqual(["https://blog.other.org/rollback"]);
+    const byDate = await runKnowledgeSearch(storage, { query: "rollback", after: "2026-03-01" });
+    expect(byDate.sources.map((s) => s.url)).toEqual(["https://wiki.example.com/display/OPS/Deploy"]);
+  });
+
+  it("reports missing queries and syntax errors without sources", async () => {
+    expect(await runKnowledgeSearch(storage, { query: " " })).toEqual({ text: "Missing query for knowledge_search.", sources: [] });
+    const bad = await runKnowledgeSearch(storage, { query: 'rollback "open' });
+    expect(bad.text).toContain("Unclosed quote");
+    expect(bad.sources).toEqual([]);
+  });
+});
+
+describe("runKnowledgeRead", () => {
+  it("returns passages of the page", async () => {
+    const out = await runKnowledgeRead(storage, { page_id: "kt-runbook" });
+    expect(out.text).toContain("Title: Deploy runbook");
+    expect(out.text).toContain("--- Passage 0");
+    expect(out.text).toContain("redeploy the previous image");
+    expect(out.sources).toHaveLength(1);
+  });
+
+  it("continues long pages from a passage index", async () => {
+    const paragraphs = Array.from({ length: 40 }, (_, i) => `Paragraph ${i}. ${"filler text ".repeat(40)}`);
+    await storage.savePage(page("kt-long", "https://wiki.example.com/long", "Long page", paragraphs.join("\n\n")));
+    const first = await runKnowledgeRead(storage, { page_id: "kt-long" });
+    expect(first.text).toContain("call knowledge_read again with from_passage");
+    const tail = await runKnowledgeRead(storage, { page_id: "kt-long", from_passage: 1000 });
+    expect(tail.text).not.toContain("call knowledge_read again");
+  });
+
+  it("reports pages without text for any passage range", async () => {
+    await storage.savePage(page("kt-empty", "https://wiki.example.com/empty", "Empty page", ""));
+    for (const args of [{}, { to_passage: 3 }, { from_passage: 2, to_passage: 5 }]) {
+      const out = await runKnowledgeRead(storage, { page_id: "kt-empty", ...args });
+      expect(out.text).toContain("Page has no text.");
+      expect(out.text).not.toContain("--- Passage");
+      expect(out.sources).toHaveLength(1);
+    }
+  });
+
+  it("explains unknown page ids", async () => {
+    const out = await runKnowledgeRead(storage, { page_id: "nope" });
+    expect(out.text).toContain('No saved page with id "nope"');
+    expect(out.sources).toEqual([]);
+  });
+});
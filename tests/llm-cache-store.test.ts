@@ -0,0 +1,88 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Storage,
+  clearLlmCache,
+  getCachedLlmResponse,
+  getLlmCacheStats,
+  setCachedLlmResponse
+} from "../src/storage/indexdb";
+
+const storage = new Storage();
+let now = 1_000_000;
+
+async function rawEntries(): Promise<Record<string, Record<string, unknown>>> {
+  const { llm_cache } = await storage.exportStores(["llm_cache"]);
+  return Object.fromEntries(llm_cache.map((e) => [String(e.key), e]));
+}
+
+beforeEach(async () => {
+  now = 1_000_000;
+  vi.spyOn(Date, "now").mockImplementation(() => now);
+  await clearLlmCache();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("LLM cache in IndexedDB", () => {
+  it("replaces the entry of the same request key", async () => {
+    await setCachedLlmResponse("req-a", "first");
+    now += 1000;
+    await setCachedLlmResponse("req-a", "second");
+    expect(await getCachedLlmResponse("req-a")).toBe("second");
+    const entries = await rawEntries();
+    expect(Object.keys(entries)).toEqual(["req-a"]);
+    expect(entries["req-a"]).toMatchObject({ createdAt: now, hits: 1 });
+  });
+
+  it("counts hits and moves lastUsedAt on every read", async () => {
+    await setCachedLlmResponse("req-b", "answer");
+    now += 5000;
+    await getCachedLlmResponse("req-b");
+    now += 5000;
+    await getCachedLlmResponse("req-b");
+    expect((await rawEntries())["req-b"]).toMatchObject({ hits: 2, createdAt: 1_000_000, lastUsedAt: 1_010_000 });
+    expect(await getCachedLlmResponse("missing")).toBeNull();
+  });
+
+  it("drops expired entries on read", async () => {
+    await setCachedLlmResponse("req-c", "stale", { ttlMs: 1000 });
+    now += 2000;
+    expect(await getCachedLlmResponse("req-c")).toBeNull();
+    expect(await rawEntries()).toEqual({});
+  });
+
+  it("trims the least recently used entries over maxEntries", async () => {
+    for (const key of ["k1", "k2", "k3"]) {
+      await setCachedLlmResponse(key, `answer ${key}`, { maxEntries: 3 });
+      now += 1000;
+    }
+    // k1 прочитан последним — вытесняется k2
+    await getCachedLlmResponse("k1");
+    now += 1000;
+    await setCachedLlmResponse("k4", "answer k4", { maxEntries: 3 });
+    expect(Object.keys(await rawEntries()).sort()).toEqual(["k1", "k3", "k4"]);
+
+    // 0 — без ограничения
+    await setCachedLlmResponse("k5", "answer k5", { maxEntries: 0 });
+    expect(Object.keys(await rawEntries())).toHaveLength(4);
+  });
+
+  it("reports entries, hits, size and dates", async () => {
+    expect(await getLlmCacheStats()).toEqual({ entries: 0, hits: 0, bytes: 0, oldestAt: null, lastUsedAt: null });
+    await setCachedLlmResponse("s1", "one");
+    now += 1000;
+    await setCachedLlmResponse("s2", "two");
+    now += 1000;
+    await getCachedLlmResponse("s1");
+    await getCachedLlmResponse("s1");
+    const stats = await getLlmCacheStats();
+    expect(stats).toMatchObject({ entries: 2, hits: 2, oldestAt: 1_000_000, lastUsedAt: 1_002_000 });
+    expect(stats.bytes).toBeGreaterThan(0);
+
+    await clearLlmCache();
+    expect((await getLlmCacheStats()).entries).toBe(0);
+  });
+});
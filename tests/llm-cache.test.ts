@@ -35,7 +35,7 @@ describe("LLM Cache - Session #1", () => {
     it("should support custom TTL", async () => {
       const ttl = 1000 * 60 * 60; // 1 hour
 
-      await setCachedLlmResponse("test", "response", ttl);
+      await setCachedLlmResponse("test", "response", { ttlMs: ttl });
       expect(indexedDB.open).toHaveBeenCalled();
     });
 
@@ -77,7 +77,7 @@ describe("LLM Cache - Session #1", () => {
   describe("Cache TTL Expiration", () => {
     it("should automatically expire cache after TTL", async () => {
       // Set cache with 1 second TTL
-      await setCachedLlmResponse("test", "response", 1000);
+      await setCachedLlmResponse("test", "response", { ttlMs: 1000 });
 
       // Wait 1.1 seconds
       await new Promise(resolve => setTimeout(resolve, 1100));
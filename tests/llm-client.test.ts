@@ -226,6 +226,24 @@ describe("LLM Client (unit, mocked fetch)", () => {
       if ("text" in result) expect(result.text).toBe("Cached answer");
       expect(global.fetch).not.toHaveBeenCalled();
     });
+
+    it("should key the cache by the full request, not the last user message", async () => {
+      const okResponse = {
+        ok: true,
+        json: async () => ({ choices: [{ message: { role: "assistant", content: "Answer" } }] })
+      };
+      (global.fetch as any).mockResolvedValueOnce(okResponse).mockResolvedValueOnce(okResponse);
+      const messages: LlmChatMessage[] = [{ role: "user", content: "Same question" }];
+
+      await chatWithLLM(messages, { systemPrompt: "Prompt A" });
+      await chatWithLLM(messages, { systemPrompt: "Prompt B" });
+
+      const [keyA, keyB] = mockGetCachedLlmResponse.mock.calls.map((c) => c[0] as string);
+      expect(keyA).toMatch(/^[0-9a-f]{64}$/);
+      expect(keyB).not.toBe(keyA);
+      expect(mockSetCachedLlmResponse.mock.calls[0][0]).toBe(keyA);
+      expect(mockSetCachedLlmResponse.mock.calls[0][1]).toBe("Answer");
+    });
   });
 
   describe("chatWithLLMStream", () => {
@@ -3,6 +3,7 @@ import {
   buildChatSystemPrompt,
   buildSummaryPrompt,
   buildSourceAwarePrompt,
+  buildPageChangesPrompt,
 } from "../src/llm/prompts";
 import type { Page } from "../src/types/messages";
 
@@ -70,18 +71,37 @@ describe("buildSummaryPrompt", () => {
 });
 
 describe("buildSourceAwarePrompt", () => {
-  it("includes user query and optional context", () => {
-    const s = buildSourceAwarePrompt("Explain API", "Current page: /docs");
+  it("numbers passages and asks for inline citations only", () => {
+    const s = buildSourceAwarePrompt("Explain API", [
+      { id: 1, pageId: "p1", title: "Docs", url: "https://e.com/docs", sectionPath: ["API", "Auth"], text: "Tokens expire in 1h." },
+      { id: 2, pageId: "p2", title: "Blog", url: "https://e.com/blog", sectionPath: [], text: "We moved to OAuth." }
+    ]);
     expect(s).toContain("Explain API");
-    expect(s).toContain("Current page: /docs");
-    expect(s).toContain("[1]");
-    expect(s).toContain("Источники:");
+    expect(s).toContain("Фрагмент [1] (API › Auth)");
+    expect(s).toContain("Фрагмент [2]\n");
+    expect(s).toContain("Tokens expire in 1h.");
+    expect(s).toContain("Declared page URL: https://e.com/blog");
     expect(s).toContain("UNTRUSTED_WEB_PAGE_DATA_BEGIN");
+    expect(s).toContain("Не добавляй в конце раздел «Источники:»");
   });
 
-  it("uses default when context is undefined", () => {
+  it("says when no passages were found", () => {
     const s = buildSourceAwarePrompt("Query only");
     expect(s).toContain("Query only");
     expect(s).toContain("Нет доступного контекста");
   });
 });
+
+describe("buildPageChangesPrompt", () => {
+  it("wraps the diff as untrusted page content with both visit dates", () => {
+    const s = buildPageChangesPrompt(
+      { title: "Pricing", url: "https://e.com/pricing" },
+      "- Price: $10\n+ Price: $12",
+      { from: "2026-01-01T00:00:00.000Z", to: "2026-01-08T00:00:00.000Z" }
+    );
+    expect(s).toContain("UNTRUSTED_WEB_PAGE");
+    expect(s).toContain("+ Price: $12");
+    expect(s).toContain("2026-01-01T00:00:00.000Z");
+    expect(s).toContain("2026-01-08T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  buildLlmRerankPrompt,
+  clearLlmRerankCache,
+  llmRerankCandidates,
+  orderByScores,
+  parseLlmRerankJson,
+  parseLlmRerankSettings,
+  type LlmRerankCandidate
+} from "../src/search/llm-rerank";
+
+const CANDIDATES: LlmRerankCandidate[] = [
+  { id: "a", title: "Alpha", url: "https://a.example/", text: "alpha text" },
+  { id: "b", title: "Beta", url: "https://b.example/", section: "Guide › Install", text: "beta text" },
+  { id: "c", title: "Gamma", url: "https://c.example/", text: "gamma text" }
+];
+
+describe("parseLlmRerankJson", () => {
+  it("parses scores object and bare array", () => {
+    expect(parseLlmRerankJson('{"scores":[{"id":1,"score":2},{"id":3,"score":9}]}', 3)).toEqual(
+      new Map([
+        [1, 2],
+        [3, 9]
+      ])
+    );
+    expect(parseLlmRerankJson('[{"id":2,"score":5}]', 3)).toEqual(new Map([[2, 5]]));
+  });
+
+  it("extracts JSON from surrounding text and drops bad entries", () => {
+    const text = 'Sure!\n```json\n{"scores":[{"id":1,"score":15},{"id":7,"score":3},{"id":"x","score":1}]}\n```';
+    expect(parseLlmRerankJson(text, 3)).toEqual(new Map([[1, 10]]));
+    expect(parseLlmRerankJson("no json here", 3)).toBeNull();
+    expect(parseLlmRerankJson('{"scores":[]}', 3)).toBeNull();
+  });
+});
+
+describe("orderByScores", () => {
+  it("sorts by score, unscored last, ties keep order", () => {
+    const scores = new Map([
+      [1, 3],
+      [2, 8],
+      [4, 3]
+    ]);
+    expect(orderByScores(["a", "b", "c", "d"], scores)).toEqual(["b", "a", "d", "c"]);
+  });
+});
+
+describe("llmRerankCandidates", () => {
+  beforeEach(() => clearLlmRerankCache());
+
+  it("reorders by model scores and caches per query", async () => {
+    const subtask = vi.fn(async () => ({ text: '{"scores":[{"id":1,"score":1},{"id":2,"score":4},{"id":3,"score":9}]}' }));
+    const first = await llmRerankCandidates("install guide", CANDIDATES, { subtask });
+    expect(first).toEqual({ order: ["c", "b", "a"], applied: true, cached: false });
+    const second = await llmRerankCandidates("  Install Guide ", CANDIDATES, { subtask });
+    expect(second).toEqual({ order: ["c", "b", "a"], applied: true, cached: true });
+    expect(subtask).toHaveBeenCalledTimes(1);
+    await llmRerankCandidates("other query", CANDIDATES, { subtask });
+    expect(subtask).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the original order on error or unusable output", async () => {
+    const failing = vi.fn(async () => ({ error: "HTTP 500" }));
+    expect(await llmRerankCandidates("q", CANDIDATES, { subtask: failing })).toEqual({
+      order: ["a", "b", "c"],
+      applied: false,
+      cached: false,
+      error: "HTTP 500"
+    });
+    const garbage = vi.fn(async () => ({ text: "I cannot rank these." }));
+    const out = await llmRerankCandidates("q", CANDIDATES, { subtask: garbage });
+    expect(out.applied).toBe(false);
+    expect(out.order).toEqual(["a", "b", "c"]);
+  });
+
+  it("falls back on timeout", async () => {
+    const hanging = vi.fn(() => new Promise<{ text: string }>(() => {}));
+    const out = await llmRerankCandidates("q", CANDIDATES, { subtask: hanging, timeoutMs: 20 });
+    expect(out.applied).toBe(false);
+    expect(out.error).toMatch(/timed out/);
+    expect(out.order).toEqual(["a", "b", "c"]);
+  });
+
+  it("wraps candidates as untrusted content in the prompt", () => {
+    const prompt = buildLlmRerankPrompt("install", CANDIDATES);
+    expect(prompt).toContain("Search query: install");
+    expect(prompt).toContain("[2] Beta");
+    expect(prompt).toContain("Section: Guide › Install");
+  });
+
+  it("clamps stored settings", () => {
+    expect(parseLlmRerankSettings({ llmRerankEnabled: true, llmRerankTopN: 100, llmRerankTimeoutMs: 10 })).toEqual({
+      enabled: true,
+      topN: 30,
+      timeoutMs: 15_000
+    });
+  });
+});
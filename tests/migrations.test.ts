@@ -0,0 +1,233 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import {
+  DB_VERSION,
+  MIGRATIONS,
+  MigrationError,
+  migrationsFor,
+  openDatabaseWithMigrations,
+  type Migration
+} from "../src/storage/migrations";
+import {
+  UPGRADE_BACKUP_TTL_DAYS,
+  backupBeforeUpgrade,
+  deleteExpiredUpgradeBackup,
+  deleteUpgradeBackup,
+  loadUpgradeBackup,
+  loadUpgradeBackupInfo,
+  purgeUpgradeBackupPages,
+  readDatabaseVersion
+} from "../src/storage/upgrade-backup";
+import { LEGACY_CONVERSATION_ID } from "../src/chat/conversations";
+
+let dbCounter = 0;
+function uniqueName(): string {
+  dbCounter += 1;
+  return `pageai_test_${dbCounter}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** База в том виде, в каком её оставляла версия 6: без бесед, кеш LLM по тексту запроса. */
+async function createV6Fixture(name: string): Promise<void> {
+  const request = indexedDB.open(name, 6);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const pages = db.createObjectStore("pages", { keyPath: "id" });
+    pages.createIndex("by_updatedAt", "updatedAt");
+    pages.createIndex("by_spaceKey", "spaceKey");
+    const chat = db.createObjectStore("chat_history", { keyPath: "id", autoIncrement: true });
+    chat.createIndex("by_timestamp", "timestamp");
+    const cache = db.createObjectStore("llm_cache", { keyPath: "id", autoIncrement: true });
+    cache.createIndex("by_query", "query", { unique: false });
+    cache.createIndex("by_timestamp", "timestamp");
+    pages.put({ id: "p1", url: "https://example.com", title: "Example", contentText: "Text", createdAt: "2025-01-01", updatedAt: "2025-01-01" });
+    chat.add({ role: "user", content: "Hi", timestamp: "2025-01-02T10:00:00.000Z" });
+    chat.add({ role: "assistant", content: "Hello", timestamp: "2025-01-02T10:00:05.000Z" });
+    cache.add({ query: "Hi", response: "Hello", timestamp: 1, ttl: 1000 });
+  };
+  const db = await promisify(request);
+  db.close();
+}
+
+async function readAll(db: IDBDatabase, store: string): Promise<Record<string, unknown>[]> {
+  return promisify(db.transaction(store, "readonly").objectStore(store).getAll()) as Promise<Record<string, unknown>[]>;
+}
+
+describe("migrationsFor", () => {
+  it("runs every step for a new database and only the missing ones for an old one", () => {
+    expect(migrationsFor(0, DB_VERSION).map((m) => m.to)).toEqual(MIGRATIONS.map((m) => m.to));
+    expect(migrationsFor(6, DB_VERSION).map((m) => m.from)).toEqual([6, 7, 8, 9, 10, 11, 12]);
+    expect(migrationsFor(3, 6).map((m) => m.to)).toEqual([6]);
+    expect(migrationsFor(DB_VERSION, DB_VERSION)).toEqual([]);
+  });
+
+  it("rejects a chain with a gap", () => {
+    const broken: Migration[] = [
+      { from: 0, to: 2, description: "a", migrate: () => {} },
+      { from: 3, to: 4, description: "b", migrate: () => {} }
+    ];
+    expect(() => migrationsFor(0, 4, broken)).toThrow(/broken/);
+    expect(() => migrationsFor(0, 3, broken)).toThrow(/No migration path/);
+  });
+});
+
+describe("openDatabaseWithMigrations", () => {
+  it("creates the current schema from scratch", async () => {
+    const db = await openDatabaseWithMigrations(uniqueName());
+    expect(db.version).toBe(DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([
+      "chat_history",
+      "conversations",
+      "llm_cache",
+      "page_embeddings",
+      "page_snapshots",
+      "pages",
+      "search_docs",
+      "search_postings",
+      "web_cache"
+    ]);
+    expect(await readAll(db, "conversations")).toEqual([]);
+    db.close();
+  });
+
+  it("upgrades a v6 database and transforms its records", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const db = await openDatabaseWithMigrations(name);
+    expect(db.version).toBe(DB_VERSION);
+
+    const messages = await readAll(db, "chat_history");
+    expect(messages.map((m) => m.conversationId)).toEqual([LEGACY_CONVERSATION_ID, LEGACY_CONVERSATION_ID]);
+    const conversations = await readAll(db, "conversations");
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({ id: LEGACY_CONVERSATION_ID, createdAt: "2025-01-02T10:00:00.000Z" });
+    expect((await readAll(db, "pages"))[0]).toMatchObject({ id: "p1", contentText: "Text" });
+
+    const cache = db.transaction("llm_cache", "readonly").objectStore("llm_cache");
+    expect(cache.keyPath).toBe("key");
+    expect(await promisify(cache.count())).toBe(0);
+    db.close();
+  });
+
+  it("rolls back the whole upgrade when a step throws", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const failing: Migration[] = [
+      ...MIGRATIONS,
+      {
+        from: DB_VERSION,
+        to: DB_VERSION + 1,
+        description: "broken step",
+        migrate: () => {
+          throw new Error("boom");
+        }
+      }
+    ];
+
+    const err = await openDatabaseWithMigrations(name, DB_VERSION + 1, failing).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(MigrationError);
+    expect(err).toMatchObject({ fromVersion: 6, toVersion: DB_VERSION + 1, step: "broken step" });
+
+    expect(await readDatabaseVersion(name)).toBe(6);
+    const db = await promisify(indexedDB.open(name));
+    expect(db.objectStoreNames.contains("conversations")).toBe(false);
+    expect((await readAll(db, "chat_history")).every((m) => m.conversationId === undefined)).toBe(true);
+    db.close();
+  });
+
+  it("rolls back when a request inside a step fails", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const failing: Migration[] = [
+      ...MIGRATIONS.slice(0, 2),
+      {
+        from: 7,
+        to: 8,
+        description: "duplicate insert",
+        migrate: (_db, tx) => {
+          tx.objectStore("pages").add({ id: "p1" });
+        }
+      }
+    ];
+
+    const err = await openDatabaseWithMigrations(name, 8, failing).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(MigrationError);
+    expect(await readDatabaseVersion(name)).toBe(6);
+  });
+});
+
+describe("backupBeforeUpgrade", () => {
+  it("copies the stores of an outdated database without caches", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const info = await backupBeforeUpgrade(name, DB_VERSION);
+    expect(info).toMatchObject({ dbName: name, fromVersion: 6, toVersion: DB_VERSION });
+    const backup = await loadUpgradeBackup(name);
+    expect(backup).toMatchObject(info!);
+    expect(backup?.stores.chat_history).toHaveLength(2);
+    expect(backup?.stores.pages).toHaveLength(1);
+    expect(backup?.stores.llm_cache).toBeUndefined();
+    expect(await loadUpgradeBackupInfo(name)).toEqual(info);
+  });
+
+  it("writes large stores in several chunks and reads them back in order", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const db = await promisify(indexedDB.open(name, 6));
+    const tx = db.transaction("pages", "readwrite");
+    for (let i = 0; i < 250; i++) tx.objectStore("pages").put({ id: `p${String(i).padStart(3, "0")}`, url: `https://example.com/${i}` });
+    await new Promise((resolve) => (tx.oncomplete = resolve));
+    db.close();
+
+    await backupBeforeUpgrade(name, DB_VERSION);
+    const ids = (await loadUpgradeBackup(name))?.stores.pages.map((p) => p.id);
+    expect(ids).toHaveLength(251);
+    expect(ids?.slice(0, 2)).toEqual(["p000", "p001"]);
+  });
+
+  it("skips new and up-to-date databases", async () => {
+    expect(await backupBeforeUpgrade(uniqueName(), DB_VERSION)).toBeNull();
+    const name = uniqueName();
+    (await openDatabaseWithMigrations(name)).close();
+    expect(await backupBeforeUpgrade(name, DB_VERSION)).toBeNull();
+    expect(await loadUpgradeBackup(name)).toBeNull();
+  });
+
+  it("purges forgotten pages from the copy", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const db = await promisify(indexedDB.open(name, 6));
+    const tx = db.transaction("pages", "readwrite");
+    tx.objectStore("pages").put({ id: "p2", url: "https://docs.example.com/a" });
+    tx.objectStore("pages").put({ id: "p3", url: "https://other.org/b" });
+    await new Promise((resolve) => (tx.oncomplete = resolve));
+    db.close();
+    await backupBeforeUpgrade(name, DB_VERSION);
+
+    await purgeUpgradeBackupPages(name, (page) => new URL(page.url).hostname.endsWith("example.com"));
+    const backup = await loadUpgradeBackup(name);
+    expect(backup?.stores.pages.map((p) => p.id)).toEqual(["p3"]);
+    expect(backup?.stores.chat_history).toHaveLength(2);
+  });
+
+  it("deletes the copy on request and after the grace period", async () => {
+    const name = uniqueName();
+    await createV6Fixture(name);
+    const info = await backupBeforeUpgrade(name, DB_VERSION);
+    const createdAt = Date.parse(info!.createdAt);
+    const day = 24 * 60 * 60 * 1000;
+    expect(await deleteExpiredUpgradeBackup(name, createdAt + day)).toBe(false);
+    expect(await deleteExpiredUpgradeBackup(name, createdAt + UPGRADE_BACKUP_TTL_DAYS * day)).toBe(true);
+    expect(await loadUpgradeBackup(name)).toBeNull();
+
+    await backupBeforeUpgrade(name, DB_VERSION);
+    await deleteUpgradeBackup(name);
+    expect(await loadUpgradeBackupInfo(name)).toBeNull();
+  });
+});
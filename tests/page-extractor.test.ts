@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { extractPageId } from "../src/content/page-extractor";
+import { extractPageId, resolveCanonicalUrl } from "../src/content/page-extractor";
 
 describe("extractPageId", () => {
   it("returns origin + pathname for full URL", () => {
@@ -30,3 +30,15 @@ describe("extractPageId", () => {
     expect(extractPageId("not-a-url")).toBe("not-a-url");
   });
 });
+
+describe("resolveCanonicalUrl", () => {
+  it("resolves relative canonical links and drops the hash", () => {
+    expect(resolveCanonicalUrl("/post/42#top", "https://m.example.com/amp/post/42")).toBe("https://m.example.com/post/42");
+  });
+
+  it("ignores missing, non-http and self canonicals", () => {
+    expect(resolveCanonicalUrl(null, "https://example.com/a")).toBeUndefined();
+    expect(resolveCanonicalUrl("javascript:void(0)", "https://example.com/a")).toBeUndefined();
+    expect(resolveCanonicalUrl("https://example.com/a?utm_source=x", "https://example.com/a")).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { decodeBody, detectCharset, fetchText, isReadableMime, sniffMime } from "../src/search/page-fetch";
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+describe("detectCharset / decodeBody", () => {
+  it("prefers BOM, then Content-Type, then <meta>", () => {
+    expect(detectCharset("text/html; charset=windows-1251", bytes("<meta charset=koi8-r>"))).toBe("windows-1251");
+    expect(detectCharset("text/html", bytes('<meta http-equiv="Content-Type" content="text/html; charset=KOI8-R">'))).toBe("koi8-r");
+    expect(detectCharset("text/html; charset=windows-1251", Uint8Array.from([0xef, 0xbb, 0xbf, 0x41]))).toBe("utf-8");
+    expect(detectCharset("", bytes("<p>no hints</p>"))).toBe("utf-8");
+  });
+
+  it("decodes legacy encodings and falls back to UTF-8 for unknown labels", () => {
+    expect(decodeBody(Uint8Array.from([0xcc, 0xe8, 0xf0]), "windows-1251")).toEqual({ text: "Мир", charset: "windows-1251" });
+    expect(decodeBody(bytes("Мир"), "x-unknown")).toEqual({ text: "Мир", charset: "utf-8" });
+  });
+});
+
+describe("sniffMime / isReadableMime", () => {
+  it("recognizes HTML, PDF and binary bodies", () => {
+    expect(sniffMime(bytes("\n<!DOCTYPE html><html>"))).toBe("text/html");
+    expect(sniffMime(bytes("%PDF-1.7 ..."))).toBe("application/pdf");
+    expect(sniffMime(Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]))).toBe("application/octet-stream");
+    expect(sniffMime(bytes("plain notes"))).toBe("text/plain");
+    expect(isReadableMime("text/html")).toBe(true);
+    expect(isReadableMime("image/png")).toBe(false);
+  });
+});
+
+describe("fetchText", () => {
+  it("sniffs octet-stream bodies and rejects unreadable ones", async () => {
+    const fetchPdf = (() =>
+      Promise.resolve(new Response("%PDF-1.4", { headers: { "content-type": "application/octet-stream" } }))) as unknown as typeof fetch;
+    const res = await fetchText(fetchPdf, "https://x.example/file", { timeoutMs: 1000, readable: isReadableMime });
+    expect(res).toMatchObject({ ok: false, mime: "application/pdf" });
+  });
+});
@@ -0,0 +1,63 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { MAX_SNAPSHOTS_PER_PAGE, Storage } from "../src/storage/indexdb";
+import { createEncryptionMeta, isEncryptedValue } from "../src/storage/crypto";
+import type { Page } from "../src/types/messages";
+
+const storage = new Storage();
+
+function page(id: string, contentText: string, updatedAt: string): Page {
+  return { id, url: `https://${id}`, title: id, contentText, createdAt: "2026-01-01T00:00:00.000Z", updatedAt };
+}
+
+describe("page snapshots", () => {
+  it("stores one snapshot per distinct text and tracks the last visit", async () => {
+    await storage.savePage(page("docs.example/a", "Price: $10", "2026-01-01T00:00:00.000Z"));
+    await storage.savePage(page("docs.example/a", "  Price:   $10 ", "2026-01-02T00:00:00.000Z"));
+    await storage.savePage(page("docs.example/a", "Price: $12", "2026-01-03T00:00:00.000Z"));
+
+    const list = await storage.listPageSnapshots("docs.example/a");
+    expect(list.map((s) => s.contentText)).toEqual(["Price: $10", "Price: $12"]);
+    expect(list[0]).toMatchObject({ capturedAt: "2026-01-01T00:00:00.000Z", lastSeenAt: "2026-01-02T00:00:00.000Z" });
+  });
+
+  it("orders a returning version by its last visit", async () => {
+    await storage.savePage(page("docs.example/b", "v1", "2026-01-01T00:00:00.000Z"));
+    await storage.savePage(page("docs.example/b", "v2", "2026-01-02T00:00:00.000Z"));
+    await storage.savePage(page("docs.example/b", "v1", "2026-01-03T00:00:00.000Z"));
+    expect((await storage.listPageSnapshots("docs.example/b")).map((s) => s.contentText)).toEqual(["v2", "v1"]);
+  });
+
+  it("keeps at most MAX_SNAPSHOTS_PER_PAGE versions", async () => {
+    for (let i = 0; i < MAX_SNAPSHOTS_PER_PAGE + 3; i++) {
+      await storage.savePage(page("docs.example/c", `version ${i}`, new Date(Date.UTC(2026, 0, 1, i)).toISOString()));
+    }
+    const list = await storage.listPageSnapshots("docs.example/c");
+    expect(list).toHaveLength(MAX_SNAPSHOTS_PER_PAGE);
+    expect(list[0].contentText).toBe("version 3");
+  });
+
+  it("removes snapshots together with their page", async () => {
+    await storage.savePage(page("docs.example/d", "text", "2026-01-01T00:00:00.000Z"));
+    await storage.savePage(page("other.example/e", "text", "2026-01-01T00:00:00.000Z"));
+    await storage.deletePages(["docs.example/d"]);
+    expect(await storage.listPageSnapshots("docs.example/d")).toEqual([]);
+    await storage.deletePagesOfHost("other.example");
+    expect(await storage.listPageSnapshots("other.example/e")).toEqual([]);
+  });
+
+  it("re-hashes and encrypts snapshots when encryption is turned on and off", async () => {
+    await storage.savePage(page("docs.example/f", "secret plan", "2026-01-01T00:00:00.000Z"));
+    const [plain] = await storage.listPageSnapshots("docs.example/f");
+    const { key } = await createEncryptionMeta("correct horse", 1000);
+
+    await storage.reencryptAll(null, key);
+    const raw = (await storage.exportStores(["page_snapshots"])).page_snapshots.find((r) => r.pageId === "docs.example/f");
+    expect(isEncryptedValue(raw?.contentText)).toBe(true);
+    expect(raw?.contentHash).not.toBe(plain.contentHash);
+    expect(raw?.id).toBe(`docs.example/f:${String(raw?.contentHash)}`);
+
+    await storage.reencryptAll(key, null);
+    expect(await storage.listPageSnapshots("docs.example/f")).toEqual([plain]);
+  });
+});
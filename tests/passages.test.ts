@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateTokens,
+  formatPassageExcerpt,
+  locateHeadings,
+  passageText,
+  rankPassages,
+  selectPassages,
+  splitIntoPassages
+} from "../src/search/passages";
+import type { Page } from "../src/types/messages";
+
+const TEXT = [
+  "Intro paragraph about the product.",
+  "Installation",
+  "Run the installer and accept the license.",
+  "Linux",
+  "Use the tarball on Linux hosts.",
+  "Configuration",
+  "Set the proxy port in settings."
+].join("\n");
+
+const HEADINGS = locateHeadings(TEXT, [
+  { level: 2, text: "Installation" },
+  { level: 3, text: "Linux" },
+  { level: 2, text: " Configuration " }
+]);
+
+function page(contentText: string, headings = locateHeadings(contentText, [])): Page {
+  return { id: "p", url: "https://p", title: "Guide", contentText, headings, createdAt: "", updatedAt: "" };
+}
+
+describe("locateHeadings", () => {
+  it("finds headings in order and skips missing ones", () => {
+    const found = locateHeadings(TEXT, [
+      { level: 2, text: "Installation" },
+      { level: 2, text: "Not on the page" },
+      { level: 3, text: "Linux" }
+    ]);
+    expect(found).toEqual([
+      { level: 2, text: "Installation", offset: TEXT.indexOf("Installation") },
+      { level: 3, text: "Linux", offset: TEXT.indexOf("Linux\n") }
+    ]);
+  });
+});
+
+describe("splitIntoPassages", () => {
+  it("cuts at headings and records the section path and offsets", () => {
+    const passages = splitIntoPassages(TEXT, HEADINGS);
+    expect(passages.map((p) => p.sectionPath)).toEqual([
+      [],
+      ["Installation"],
+      ["Installation", "Linux"],
+      ["Configuration"]
+    ]);
+    expect(passages.map((p) => TEXT.slice(p.start, p.end))).toEqual([
+      "Intro paragraph about the product.",
+      "Installation\nRun the installer and accept the license.",
+      "Linux\nUse the tarball on Linux hosts.",
+      "Configuration\nSet the proxy port in settings."
+    ]);
+    expect(passages.map((p) => p.index)).toEqual([0, 1, 2, 3]);
+    expect(passages.every((p) => p.tokenEstimate === estimateTokens(TEXT.slice(p.start, p.end)))).toBe(true);
+  });
+
+  it("packs paragraphs up to the target and splits oversized ones", () => {
+    const para = "Short sentence here. ".repeat(10).trim();
+    const text = Array.from({ length: 6 }, () => para).join("\n");
+    const passages = splitIntoPassages(text, [], { targetTokens: 120, maxTokens: 150 });
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.length).toBeLessThan(6);
+    expect(passages.every((p) => p.tokenEstimate <= 150)).toBe(true);
+
+    const blob = "x".repeat(5000);
+    const hard = splitIntoPassages(blob, [], { targetTokens: 100, maxTokens: 100 });
+    expect(hard.map((p) => p.end - p.start).reduce((a, b) => a + b, 0)).toBe(5000);
+    expect(hard.every((p) => p.end - p.start <= 400)).toBe(true);
+  });
+});
+
+describe("passage selection", () => {
+  it("ranks the passage that matches the query", () => {
+    const p = page(TEXT, HEADINGS);
+    const [best] = rankPassages(p, "proxy port");
+    expect(best.sectionPath).toEqual(["Configuration"]);
+    expect(passageText(p, best)).toContain("proxy port");
+  });
+
+  it("prefers matching passages over the page head within the budget", () => {
+    const filler = Array.from({ length: 40 }, (_, i) => `Filler line number ${i} with unrelated words.`).join("\n");
+    const text = `${filler}\nTroubleshooting\nRestart the agent when the heartbeat stalls.`;
+    const p = page(text, locateHeadings(text, [{ level: 2, text: "Troubleshooting" }]));
+    const excerpt = formatPassageExcerpt(p, selectPassages(p, "heartbeat", 300));
+    expect(excerpt).toContain("Restart the agent when the heartbeat stalls.");
+    expect(excerpt.startsWith("[Troubleshooting]\n")).toBe(true);
+    expect(excerpt).not.toContain("Filler line number 0 ");
+  });
+
+  it("falls back to the head of the page and merges adjacent passages", () => {
+    const p = page(TEXT, HEADINGS);
+    const excerpt = formatPassageExcerpt(p, selectPassages(p, undefined, 60));
+    expect(excerpt).toBe(TEXT.slice(0, 60));
+  });
+});
@@ -0,0 +1,82 @@
+import "fake-indexeddb/auto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { Storage } from "../src/storage/indexdb";
+import { retrieveRagPassages, validateCitations, type RagPassage } from "../src/search/rag";
+import type { Page } from "../src/types/messages";
+
+type StorageGet = (keys: Record<string, unknown>, cb: (r: Record<string, unknown>) => void) => void;
+type ChromeMock = { storage: { sync: { get: StorageGet }; local: { get: StorageGet; remove: () => Promise<void> } } };
+
+const storage = new Storage();
+
+function page(id: string, title: string, contentText: string): Page {
+  return { id, url: `https://wiki.example.com/${id}`, title, contentText, createdAt: "2026-03-01T00:00:00.000Z", updatedAt: "2026-03-01T00:00:00.000Z" };
+}
+
+const filler = (topic: string) => Array.from({ length: 60 }, (_, i) => `${topic} note ${i}.`).join(" ");
+
+beforeAll(async () => {
+  const get: StorageGet = (keys, cb) => cb({ ...keys });
+  (global as unknown as { chrome: ChromeMock }).chrome = {
+    storage: { sync: { get }, local: { get, remove: async () => {} } }
+  };
+  await storage.savePage(
+    page(
+      "rag-runbook",
+      "Deploy runbook",
+      [`${filler("Intro")}`, "Rollback: scale the canary deployment to zero replicas.", filler("Monitoring"), "Rollback also needs the previous image tag."].join("\n\n")
+    )
+  );
+  await storage.savePage(page("rag-faq", "Release FAQ", "Who approves a rollback? The on-call lead approves every rollback."));
+  await storage.savePage(page("rag-other", "Recipes", "Sourdough needs a lively starter."));
+});
+
+describe("retrieveRagPassages", () => {
+  it("numbers the best passages of every found page, one page does not take the whole context", async () => {
+    const passages = await retrieveRagPassages(storage, "rollback");
+    expect(passages.map((p) => p.id)).toEqual(passages.map((_, i) => i + 1));
+    expect(new Set(passages.map((p) => p.pageId))).toEqual(new Set(["rag-runbook", "rag-faq"]));
+    // Первый круг — по одному пассажу на страницу
+    expect(new Set(passages.slice(0, 2).map((p) => p.pageId)).size).toBe(2);
+    expect(passages.some((p) => p.text.includes("scale the canary deployment"))).toBe(true);
+    expect(passages.every((p) => p.url.startsWith("https://wiki.example.com/"))).toBe(true);
+  });
+
+  it("retries questions with an unclosed quote and returns nothing when no page matches", async () => {
+    expect((await retrieveRagPassages(storage, 'what is "rollback')).length).toBeGreaterThan(0);
+    expect(await retrieveRagPassages(storage, "kubernetes operators")).toEqual([]);
+  });
+});
+
+describe("validateCitations", () => {
+  const passages: RagPassage[] = [
+    { id: 1, pageId: "a", title: "A", url: "https://a.example/", sectionPath: [], text: "First passage text." },
+    { id: 2, pageId: "b", title: "B", url: "https://b.example/", sectionPath: ["Setup"], text: `Second ${"long ".repeat(100)}` },
+    { id: 3, pageId: "a", title: "A", url: "https://a.example/", sectionPath: [], text: "Third passage." }
+  ];
+
+  it("keeps valid citations and lists cited passages with excerpts", () => {
+    const out = validateCitations("Scale down [2]. Approvals come first [1, 3].", passages);
+    expect(out.text).toBe("Scale down [2]. Approvals come first [1][3].");
+    expect(out.invalid).toEqual([]);
+    expect(out.sources.map((s) => [s.id, s.url])).toEqual([
+      [1, "https://a.example/"],
+      [2, "https://b.example/"],
+      [3, "https://a.example/"]
+    ]);
+    expect(out.sources[1].excerpt?.length).toBeLessThanOrEqual(241);
+    expect(out.sources[0].excerpt).toBe("First passage text.");
+  });
+
+  it("drops citations of passages that do not exist", () => {
+    const out = validateCitations("Fact [9]. Other fact [1-2, 7].", passages);
+    expect(out.text).toBe("Fact. Other fact [1][2].");
+    expect(out.invalid).toEqual([7, 9]);
+    expect(out.sources.map((s) => s.id)).toEqual([1, 2]);
+  });
+
+  it("ignores code indexes, links and years", () => {
+    const text = "Use items[5] as in [1](https://x.example/) since [2024].";
+    expect(validateCitations(text, passages)).toEqual({ text, sources: [], invalid: [] });
+  });
+});
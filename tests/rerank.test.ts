@@ -1,18 +1,123 @@
 import { describe, it, expect } from "vitest";
-import { rerank } from "../src/search/rerank";
-import type { SearchResult } from "../src/types/messages";
+import {
+  DEFAULT_RERANK_SETTINGS,
+  dedupeByPage,
+  domainFactor,
+  parseDomainBoosts,
+  parseRerankSettings,
+  recencyFactor,
+  rerank,
+  type RerankSettings
+} from "../src/search/rerank";
+import type { Page, PagePassage, SearchResult } from "../src/types/messages";
 
-describe("rerank", () => {
-  it("returns the same array (no reordering)", () => {
-    const results: SearchResult[] = [
-      { page: { id: "1", url: "u1", title: "A", contentText: "x", createdAt: "", updatedAt: "" }, score: 1 },
-      { page: { id: "2", url: "u2", title: "B", contentText: "y", createdAt: "", updatedAt: "" }, score: 2 },
-    ];
-    expect(rerank(results)).toBe(results);
-    expect(rerank(results)).toEqual(results);
+const NOW = Date.parse("2026-06-01T00:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+const page = (id: string, host: string, ageDays: number): Page => ({
+  id,
+  url: `https://${host}/${id}`,
+  title: id,
+  contentText: `${id} text`,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: new Date(NOW - ageDays * DAY).toISOString()
+});
+
+const passage = (index: number): PagePassage => ({ index, sectionPath: [], start: 0, end: 4, tokenEstimate: 1 });
+
+const PAGES = {
+  a: page("a", "docs.example.com", 400),
+  b: page("b", "wiki.example.com", 400),
+  c: page("c", "blog.example.org", 400),
+  d: page("d", "docs.example.com", 1)
+};
+
+const hit = (p: Page, score: number, passageIndex?: number): SearchResult => ({
+  page: p,
+  score,
+  ...(passageIndex != null ? { passage: passage(passageIndex) } : {})
+});
+
+const NO_BOOSTS: RerankSettings = { ...DEFAULT_RERANK_SETTINGS, recencyWeight: 0, domainBoosts: [] };
+
+describe("rerank (reciprocal rank fusion)", () => {
+  it("promotes pages found by both lists", () => {
+    const keyword = [hit(PAGES.a, 9), hit(PAGES.b, 5), hit(PAGES.c, 1)];
+    const vector = [hit(PAGES.b, 0.9), hit(PAGES.c, 0.8)];
+    const out = rerank({ keyword, vector }, NO_BOOSTS, { now: NOW });
+    expect(out.map((r) => r.page.id)).toEqual(["b", "c", "a"]);
+    expect(out[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+  });
+
+  it("keeps keyword order when there is no vector list", () => {
+    const keyword = [hit(PAGES.c, 3), hit(PAGES.a, 2), hit(PAGES.b, 1)];
+    expect(rerank({ keyword }, NO_BOOSTS, { now: NOW }).map((r) => r.page.id)).toEqual(["c", "a", "b"]);
+  });
+
+  it("applies list weights", () => {
+    const keyword = [hit(PAGES.a, 9), hit(PAGES.b, 5)];
+    const vector = [hit(PAGES.b, 0.9), hit(PAGES.a, 0.8)];
+    const out = rerank({ keyword, vector }, { ...NO_BOOSTS, vectorWeight: 2 }, { now: NOW });
+    expect(out.map((r) => r.page.id)).toEqual(["b", "a"]);
+    expect(rerank({ keyword, vector }, { ...NO_BOOSTS, vectorWeight: 0 }, { now: NOW })[0].page.id).toBe("a");
+  });
+
+  it("counts each page once and keeps the passage of its best rank", () => {
+    const keyword = [hit(PAGES.a, 9, 3), hit(PAGES.a, 8, 5), hit(PAGES.b, 5, 1)];
+    const vector = [hit(PAGES.b, 0.9, 7)];
+    const out = rerank({ keyword, vector }, NO_BOOSTS, { now: NOW });
+    expect(out.map((r) => r.page.id)).toEqual(["b", "a"]);
+    expect(out.find((r) => r.page.id === "a")?.passage?.index).toBe(3);
+    expect(out.find((r) => r.page.id === "b")?.passage?.index).toBe(7);
+  });
+
+  it("boosts recent pages and configured domains", () => {
+    const keyword = [hit(PAGES.a, 9), hit(PAGES.d, 8)];
+    const recent = rerank({ keyword }, { ...NO_BOOSTS, recencyWeight: 0.5 }, { now: NOW });
+    expect(recent.map((r) => r.page.id)).toEqual(["d", "a"]);
+
+    const boosted = rerank(
+      { keyword: [hit(PAGES.b, 9), hit(PAGES.c, 8)] },
+      { ...NO_BOOSTS, domainBoosts: parseDomainBoosts("example.org 1.5") },
+      { now: NOW }
+    );
+    expect(boosted.map((r) => r.page.id)).toEqual(["c", "b"]);
+  });
+
+  it("respects limit", () => {
+    const keyword = [hit(PAGES.a, 3), hit(PAGES.b, 2), hit(PAGES.c, 1)];
+    expect(rerank({ keyword }, NO_BOOSTS, { now: NOW, limit: 2 })).toHaveLength(2);
+    expect(rerank({ keyword: [] })).toEqual([]);
+  });
+});
+
+describe("rerank helpers", () => {
+  it("decays recency by half-life", () => {
+    const settings = { recencyWeight: 1, recencyHalfLifeDays: 10 };
+    expect(recencyFactor(new Date(NOW).toISOString(), NOW, settings)).toBeCloseTo(2);
+    expect(recencyFactor(new Date(NOW - 10 * DAY).toISOString(), NOW, settings)).toBeCloseTo(1.5);
+    expect(recencyFactor("not a date", NOW, settings)).toBe(1);
+  });
+
+  it("uses the most specific domain boost", () => {
+    const boosts = parseDomainBoosts("example.com 2\ndocs.example.com=0.5\nbroken line\n*.spam.example 0");
+    expect(boosts).toEqual([
+      { domain: "example.com", factor: 2 },
+      { domain: "docs.example.com", factor: 0.5 },
+      { domain: "spam.example", factor: 0 }
+    ]);
+    expect(domainFactor("https://docs.example.com/x", boosts)).toBe(0.5);
+    expect(domainFactor("https://wiki.example.com/x", boosts)).toBe(2);
+    expect(domainFactor("https://other.net/", boosts)).toBe(1);
+  });
+
+  it("parses and clamps stored settings", () => {
+    const s = parseRerankSettings({ rerankKeywordWeight: "2", rerankVectorWeight: -1, rerankRrfK: "abc" });
+    expect(s).toMatchObject({ keywordWeight: 2, vectorWeight: 0, rrfK: 60 });
   });
 
-  it("returns empty array for empty input", () => {
-    expect(rerank([])).toEqual([]);
+  it("dedupes by page keeping the first hit", () => {
+    const out = dedupeByPage([hit(PAGES.a, 2, 1), hit(PAGES.b, 1), hit(PAGES.a, 1, 2)]);
+    expect(out.map((r) => [r.page.id, r.passage?.index])).toEqual([["a", 1], ["b", undefined]]);
   });
 });
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { llmRequestCacheKey, parseLlmCacheMaxEntries, stableStringify } from "../src/llm/response-cache";
+
+const base = {
+  endpoint: "http://localhost:1234/v1/chat/completions",
+  model: "qwen/qwen3-4b-2507",
+  messages: [
+    { role: "system", content: "You verify answers." },
+    { role: "user", content: "Is it enough?" }
+  ],
+  temperature: 0.3,
+  maxTokens: 512
+};
+
+describe("llm response cache key", () => {
+  it("ignores object key order", () => {
+    expect(stableStringify({ b: 1, a: [{ y: 2, x: 1 }] })).toBe(stableStringify({ a: [{ x: 1, y: 2 }], b: 1 }));
+  });
+
+  it("is stable for the same request", async () => {
+    expect(await llmRequestCacheKey(base)).toBe(await llmRequestCacheKey({ ...base, messages: [...base.messages] }));
+  });
+
+  it("changes with model, system prompt, history and temperature", async () => {
+    const key = await llmRequestCacheKey(base);
+    const variants = [
+      { ...base, model: "other-model" },
+      { ...base, endpoint: "http://localhost:11434/v1/chat/completions" },
+      { ...base, messages: [{ role: "system", content: "Other prompt." }, base.messages[1]] },
+      { ...base, messages: [{ role: "user", content: "Earlier turn" }, ...base.messages] },
+      { ...base, temperature: 0.7 },
+      { ...base, tools: [{ type: "function", function: { name: "search" } }] }
+    ];
+    for (const v of variants) expect(await llmRequestCacheKey(v)).not.toBe(key);
+  });
+
+  it("parses the max entries setting", () => {
+    expect(parseLlmCacheMaxEntries("200")).toBe(200);
+    expect(parseLlmCacheMaxEntries(0)).toBe(0);
+    expect(parseLlmCacheMaxEntries(-5)).toBe(500);
+    expect(parseLlmCacheMaxEntries("abc")).toBe(500);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  PAGE_RETENTION_SYNC_DEFAULTS,
+  estimateRecordBytes,
+  formatBytes,
+  isUrlNeverIndexed,
+  parseDomainList,
+  parsePageRetention,
+  selectPagesToEvict,
+  type PageRetentionLimits,
+  type PageSizeEntry
+} from "../src/storage/retention";
+
+const now = Date.parse("2026-06-01T00:00:00.000Z");
+
+function entry(id: string, daysAgo: number, bytes = 100, url = `https://a.example/${id}`): PageSizeEntry {
+  return { id, url, updatedAt: new Date(now - daysAgo * 86_400_000).toISOString(), bytes };
+}
+
+function limits(p: Partial<PageRetentionLimits>): PageRetentionLimits {
+  return { maxPages: 0, maxAgeDays: 0, maxBytes: 0, neverIndexDomains: [], ...p };
+}
+
+describe("parsePageRetention", () => {
+  it("has no limits by default", () => {
+    expect(parsePageRetention({ ...PAGE_RETENTION_SYNC_DEFAULTS })).toEqual(limits({}));
+    expect(selectPagesToEvict([entry("a", 400, 500 * 1024 * 1024)], parsePageRetention({ ...PAGE_RETENTION_SYNC_DEFAULTS }), now)).toEqual([]);
+  });
+
+  it("converts MB to bytes", () => {
+    const l = parsePageRetention({ pageRetentionMaxPages: 5000, pageRetentionMaxMb: 200 });
+    expect(l.maxPages).toBe(5000);
+    expect(l.maxBytes).toBe(200 * 1024 * 1024);
+  });
+
+  it("treats garbage and negatives as no limit", () => {
+    const l = parsePageRetention({ pageRetentionMaxPages: "x", pageRetentionMaxAgeDays: -3 });
+    expect(l.maxPages).toBe(0);
+    expect(l.maxAgeDays).toBe(0);
+  });
+});
+
+describe("parseDomainList / isUrlNeverIndexed", () => {
+  it("normalizes hosts, urls and wildcards", () => {
+    expect(parseDomainList(" Mail.Example.com\n*.bank.example, https://intra.corp/path ;\n\n")).toEqual([
+      "mail.example.com",
+      "bank.example",
+      "intra.corp"
+    ]);
+  });
+
+  it("matches host and subdomains only", () => {
+    const list = ["bank.example"];
+    expect(isUrlNeverIndexed("https://bank.example/login", list)).toBe(true);
+    expect(isUrlNeverIndexed("https://my.bank.example/", list)).toBe(true);
+    expect(isUrlNeverIndexed("https://notbank.example/", list)).toBe(false);
+    expect(isUrlNeverIndexed("not a url", list)).toBe(false);
+  });
+});
+
+describe("selectPagesToEvict", () => {
+  it("keeps everything without limits", () => {
+    expect(selectPagesToEvict([entry("a", 1), entry("b", 400)], limits({}), now)).toEqual([]);
+  });
+
+  it("evicts least recently updated over maxPages", () => {
+    const pages = [entry("new", 1), entry("old", 30), entry("mid", 10)];
+    expect(selectPagesToEvict(pages, limits({ maxPages: 2 }), now)).toEqual(["old"]);
+  });
+
+  it("evicts by age", () => {
+    const pages = [entry("new", 1), entry("old", 100)];
+    expect(selectPagesToEvict(pages, limits({ maxAgeDays: 90 }), now)).toEqual(["old"]);
+  });
+
+  it("evicts until under byte budget", () => {
+    const pages = [entry("a", 1, 500), entry("b", 2, 500), entry("c", 3, 500)];
+    expect(selectPagesToEvict(pages, limits({ maxBytes: 1000 }), now).sort()).toEqual(["c"]);
+    expect(selectPagesToEvict(pages, limits({ maxBytes: 999 }), now).sort()).toEqual(["b", "c"]);
+  });
+
+  it("evicts never-index domains regardless of recency", () => {
+    const pages = [entry("a", 0, 1, "https://mail.example.com/inbox"), entry("b", 5)];
+    expect(selectPagesToEvict(pages, limits({ neverIndexDomains: ["example.com"] }), now)).toEqual(["a"]);
+  });
+});
+
+describe("size helpers", () => {
+  it("estimates UTF-8 JSON size", () => {
+    expect(estimateRecordBytes({ t: "я" })).toBe(new TextEncoder().encode('{"t":"я"}').length);
+  });
+
+  it("formats bytes", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { clearRobotsCache, isPathAllowed, parseRobotsTxt, robotsAllows } from "../src/search/robots";
+
+const ROBOTS = `# comments are ignored
+User-agent: Googlebot
+Disallow: /
+
+User-agent: *
+Disallow: /search
+Disallow: /*.pdf$
+Allow: /search/about
+
+User-agent: PageAI/1.0
+User-agent: other-bot
+Disallow: /drafts/
+Sitemap: https://site.example/sitemap.xml
+`;
+
+describe("parseRobotsTxt / isPathAllowed", () => {
+  it("uses the group for PageAI when there is one", () => {
+    const rules = parseRobotsTxt(ROBOTS);
+    expect(rules.rules).toEqual([{ allow: false, path: "/drafts/" }]);
+    expect(isPathAllowed(rules, "/search?q=x")).toBe(true);
+    expect(isPathAllowed(rules, "/drafts/a")).toBe(false);
+  });
+
+  it("falls back to the * group with longest match, wildcards and $", () => {
+    const rules = parseRobotsTxt(ROBOTS, "somebot");
+    expect(isPathAllowed(rules, "/search?q=x")).toBe(false);
+    expect(isPathAllowed(rules, "/search/about")).toBe(true);
+    expect(isPathAllowed(rules, "/files/report.pdf")).toBe(false);
+    expect(isPathAllowed(rules, "/files/report.pdf?download=1")).toBe(true);
+    expect(isPathAllowed(rules, "/robots.txt")).toBe(true);
+    expect(isPathAllowed(parseRobotsTxt("User-agent: *\nDisallow:\n"), "/any")).toBe(true);
+  });
+});
+
+describe("robotsAllows", () => {
+  beforeEach(() => clearRobotsCache());
+
+  const respond = (body: string, status: number) => Promise.resolve(new Response(body, { status }));
+
+  it("fetches robots.txt once per origin and treats 404 as allow, 5xx as disallow", async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = String(input);
+      if (url.startsWith("https://a.example/")) return respond("User-agent: *\nDisallow: /private\n", 200);
+      if (url.startsWith("https://b.example/")) return respond("", 404);
+      return respond("", 503);
+    });
+    const check = (url: string) => robotsAllows(url, fetchMock as typeof fetch, 1000, "PageAI/1.0");
+    expect(await Promise.all([check("https://a.example/private/x"), check("https://a.example/public")])).toEqual([false, true]);
+    expect(await check("https://b.example/private")).toBe(true);
+    expect(await check("https://c.example/page")).toBe(false);
+    expect(fetchMock.mock.calls.map(([u]) => String(u))).toEqual([
+      "https://a.example/robots.txt",
+      "https://b.example/robots.txt",
+      "https://c.example/robots.txt"
+    ]);
+  });
+
+  it("allows the page when robots.txt cannot be loaded and retries next time", async () => {
+    const fetchMock = vi.fn(() => Promise.reject(new Error("network down")));
+    expect(await robotsAllows("https://d.example/x", fetchMock as typeof fetch, 1000, "PageAI/1.0")).toBe(true);
+    expect(await robotsAllows("https://d.example/y", fetchMock as typeof fetch, 1000, "PageAI/1.0")).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
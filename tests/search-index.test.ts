@@ -0,0 +1,98 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { Storage } from "../src/storage/indexdb";
+import { createEncryptionMeta } from "../src/storage/crypto";
+import { bm25Idf, rankBm25 } from "../src/search/bm25";
+import type { Page } from "../src/types/messages";
+
+const storage = new Storage();
+
+function page(id: string, title: string, contentText: string): Page {
+  return {
+    id,
+    url: `https://${id}`,
+    title,
+    contentText,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  };
+}
+
+describe("rankBm25", () => {
+  it("gives rare terms a higher idf", () => {
+    expect(bm25Idf(1, 100)).toBeGreaterThan(bm25Idf(50, 100));
+    expect(bm25Idf(100, 100)).toBeGreaterThan(0);
+  });
+
+  it("prefers the shorter page for equal term frequency", () => {
+    const postings = [[
+      { pageId: "long", tf: 2, titleTf: 0 },
+      { pageId: "short", tf: 2, titleTf: 0 }
+    ]];
+    const lengths = new Map([["long", 1000], ["short", 50]]);
+    const hits = rankBm25(postings, lengths, { docCount: 10, avgLength: 300 });
+    expect(hits.map((h) => h.pageId)).toEqual(["short", "long"]);
+  });
+});
+
+describe("Storage.searchPages", () => {
+  it("ranks a title match above a long page repeating the term", async () => {
+    const filler = Array.from({ length: 400 }, (_, i) => `word${i}`).join(" ");
+    await storage.savePage(page("idx.example/long", "Release notes", `${"kafka ".repeat(6)}${filler}`));
+    await storage.savePage(page("idx.example/title", "Kafka consumer groups", "How offsets are committed."));
+    await storage.savePage(page("idx.example/other", "Unrelated", "Nothing here."));
+
+    const results = await storage.searchPages("Kafka");
+    expect(results.map((r) => r.page.id)).toEqual(["idx.example/title", "idx.example/long"]);
+    expect(results[0].page.title).toBe("Kafka consumer groups");
+  });
+
+  it("reindexes a page when its text changes", async () => {
+    await storage.savePage(page("idx.example/edit", "Draft", "zookeeper quorum"));
+    expect((await storage.searchPages("zookeeper")).map((r) => r.page.id)).toEqual(["idx.example/edit"]);
+    await storage.savePage(page("idx.example/edit", "Draft", "raft consensus"));
+    expect(await storage.searchPages("zookeeper")).toEqual([]);
+    expect((await storage.searchPages("raft")).map((r) => r.page.id)).toEqual(["idx.example/edit"]);
+  });
+
+  it("applies a page filter and lists filtered pages without terms", async () => {
+    await storage.savePage(page("filter.example/a", "Quarterly plan", "budget forecast"));
+    await storage.savePage(page("other.example/b", "Budget", "budget review"));
+    const onlyFilter = (p: Page) => p.url.includes("filter.example");
+    expect((await storage.searchPages("budget", { filter: onlyFilter })).map((r) => r.page.id)).toEqual(["filter.example/a"]);
+    expect((await storage.searchPages("", { filter: onlyFilter })).map((r) => r.page.id)).toEqual(["filter.example/a"]);
+  });
+
+  it("drops deleted pages from the index", async () => {
+    await storage.savePage(page("idx.example/gone", "Gone", "ephemeral marker"));
+    await storage.savePage(page("gone.example/x", "Gone too", "ephemeral marker"));
+    await storage.deletePages(["idx.example/gone"]);
+    await storage.deletePagesOfHost("gone.example");
+    expect(await storage.searchPages("ephemeral")).toEqual([]);
+    const docs = (await storage.exportStores(["search_docs"])).search_docs.map((d) => d.pageId);
+    expect(docs).not.toContain("idx.example/gone");
+  });
+
+  it("backfills pages saved before the index existed", async () => {
+    await storage.savePage(page("idx.example/old", "Legacy page", "backfilled content"));
+    await storage.importStores({}, ["search_postings", "search_docs"]);
+    expect((await storage.searchPages("backfilled")).map((r) => r.page.id)).toEqual(["idx.example/old"]);
+    const docs = (await storage.exportStores(["search_docs"])).search_docs.map((d) => d.pageId);
+    expect(docs).toContain("idx.example/old");
+  });
+
+  it("resets the index when pages are re-encrypted", async () => {
+    await storage.savePage(page("idx.example/enc", "Secret", "classified roadmap"));
+    const { key } = await createEncryptionMeta("correct horse", 1000);
+    await storage.reencryptAll(null, key);
+    const raw = await storage.exportStores(["search_postings", "search_docs"]);
+    expect(raw.search_postings).toEqual([]);
+    expect(raw.search_docs).toEqual([]);
+    await storage.reencryptAll(key, null);
+    expect((await storage.searchPages("roadmap")).map((r) => r.page.id)).toEqual(["idx.example/enc"]);
+  });
+
+  it("returns nothing for a query without terms", async () => {
+    expect(await storage.searchPages("  -- ")).toEqual([]);
+  });
+});
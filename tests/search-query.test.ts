@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  hasFilters,
+  isQuerySyntaxError,
+  matchesSearchQuery,
+  parseSearchQuery,
+  rankingText,
+  type SearchQuery
+} from "../src/search/query";
+import type { Page } from "../src/types/messages";
+
+const page = (overrides: Partial<Page>): Page => ({
+  id: "p",
+  url: "https://wiki.confluence.example.com/display/OPS/Runbook",
+  title: "Deploy runbook",
+  spaceKey: "OPS",
+  contentText: "Rolling deploys restart pods one by one. Never deploy on Friday.",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: new Date(2026, 2, 15, 12).toISOString(),
+  ...overrides
+});
+
+function parse(input: string): SearchQuery {
+  const q = parseSearchQuery(input);
+  if (isQuerySyntaxError(q)) throw new Error(q.error);
+  return q;
+}
+
+describe("parseSearchQuery", () => {
+  it("builds clauses for words, phrases, exclusions and operators", () => {
+    expect(parse('deploy "rolling restart" -friday site:Confluence.Example.com title:"runbook" space:OPS after:2026-01-01').clauses).toEqual([
+      { kind: "term", text: "deploy", field: "any", negated: false },
+      { kind: "phrase", text: "rolling restart", field: "any", negated: false },
+      { kind: "term", text: "friday", field: "any", negated: true },
+      { kind: "site", domain: "confluence.example.com", negated: false },
+      { kind: "phrase", text: "runbook", field: "title", negated: false },
+      { kind: "space", key: "OPS", negated: false },
+      { kind: "date", op: "after", date: "2026-01-01", time: new Date(2026, 0, 1).getTime() }
+    ]);
+  });
+
+  it("treats unknown prefixes and lone dashes as words", () => {
+    const q = parse("http:foo - bar");
+    expect(q.clauses.map((c) => c.kind === "term" && c.text)).toEqual(["http:foo", "bar"]);
+    expect(hasFilters(q)).toBe(false);
+  });
+
+  it("reports syntax errors with a position", () => {
+    expect(parseSearchQuery('kafka "unclosed')).toEqual({ error: "Unclosed quote", position: 6 });
+    expect(parseSearchQuery("x site:")).toMatchObject({ error: "site: needs a value", position: 2 });
+    expect(parseSearchQuery("after:2026-02-30")).toMatchObject({ position: 0 });
+    expect(parseSearchQuery("-after:2026-01-01")).toMatchObject({ error: "after: cannot be excluded" });
+    expect(isQuerySyntaxError(parseSearchQuery("after:2026-03-01 before:2026-02-01"))).toBe(true);
+  });
+
+  it("keeps positive words and phrases for ranking", () => {
+    expect(rankingText(parse('deploy "rolling restart" -friday title:runbook site:example.com'))).toBe(
+      "deploy rolling restart runbook"
+    );
+  });
+});
+
+describe("matchesSearchQuery", () => {
+  it("evaluates fields of the stored page", () => {
+    const p = page({});
+    expect(matchesSearchQuery(p, parse('"restart pods" site:example.com space:ops'))).toBe(true);
+    expect(matchesSearchQuery(p, parse('"pods restart"'))).toBe(false);
+    expect(matchesSearchQuery(p, parse("title:deploying"))).toBe(true);
+    expect(matchesSearchQuery(p, parse("title:friday"))).toBe(false);
+    expect(matchesSearchQuery(p, parse("-friday"))).toBe(false);
+    expect(matchesSearchQuery(p, parse("-site:confluence.example.com"))).toBe(false);
+    expect(matchesSearchQuery(p, parse("space:DEV"))).toBe(false);
+  });
+
+  it("compares dates by the local start of day", () => {
+    const p = page({});
+    expect(matchesSearchQuery(p, parse("after:2026-03-15"))).toBe(true);
+    expect(matchesSearchQuery(p, parse("after:2026-03-16"))).toBe(false);
+    expect(matchesSearchQuery(p, parse("before:2026-03-16"))).toBe(true);
+    expect(matchesSearchQuery(p, parse("before:2026-03-15"))).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/** @vitest-environment jsdom */
+import { describe, expect, it } from "vitest";
+import {
+  createSerpProvider,
+  customSerpProvider,
+  duckDuckGoSerpProvider,
+  normalizeSearxngUrl,
+  normalizeUrlKey,
+  parseSerpSettings,
+  resolveDuckRedirect,
+  searxngSerpProvider,
+  SERP_SYNC_DEFAULTS
+} from "../src/search/serp-providers";
+import serpResponses from "./mocks/serp-responses.json";
+
+describe("normalizeUrlKey / resolveDuckRedirect", () => {
+  it("normalizes https URL", () => {
+    expect(normalizeUrlKey("https://ExAmple.com/foo/?x=1#h")).toBe("https://example.com/foo/?x=1");
+  });
+
+  it("returns null for non-http(s)", () => {
+    expect(normalizeUrlKey("javascript:alert(1)")).toBe(null);
+  });
+
+  it("unwraps DuckDuckGo uddg redirect", () => {
+    const u =
+      "https://duckduckgo.com/l/?uddg=https%3A%2F%2Fwiki.example.org%2Fpage&rut=…";
+    expect(resolveDuckRedirect(u)).toBe("https://wiki.example.org/page");
+  });
+});
+
+describe("DuckDuckGo HTML", () => {
+  it("extracts result__a targets without ads and duplicates", () => {
+    const hits = duckDuckGoSerpProvider.parse(serpResponses.duckduckgo.results);
+    expect(hits).toEqual([
+      { title: "asyncio — Asynchronous I/O — Python 3 documentation", url: "https://docs.python.org/3/library/asyncio.html" },
+      { title: "Async IO in Python: A Complete Walkthrough", url: "https://realpython.com/async-io-python" }
+    ]);
+    expect(duckDuckGoSerpProvider.buildUrl("a b")).toBe("https://html.duckduckgo.com/html/?q=a%20b");
+  });
+
+  it("detects the anomaly (CAPTCHA) page", () => {
+    expect(duckDuckGoSerpProvider.parse(serpResponses.duckduckgo.anomaly)).toEqual([]);
+    expect(duckDuckGoSerpProvider.detectBlock(200, serpResponses.duckduckgo.anomaly)).toMatch(/CAPTCHA/);
+    expect(duckDuckGoSerpProvider.detectBlock(202, "")).toMatch(/CAPTCHA/);
+    expect(duckDuckGoSerpProvider.detectBlock(200, "<html><body>No results.</body></html>")).toBeNull();
+  });
+});
+
+describe("SearXNG JSON", () => {
+  const provider = searxngSerpProvider("https://searx.intranet.example/");
+
+  it("builds the JSON API URL", () => {
+    expect(normalizeSearxngUrl("https://searx.intranet.example/search/")).toBe("https://searx.intranet.example/search");
+    expect(provider.buildUrl("python asyncio")).toBe("https://searx.intranet.example/search?q=python%20asyncio&format=json");
+  });
+
+  it("parses results, skipping search engines and broken URLs", () => {
+    expect(provider.parse(serpResponses.searxng.results)).toEqual([
+      { title: "asyncio — Asynchronous I/O", url: "https://docs.python.org/3/library/asyncio.html" },
+      { title: "Asyncio guidelines - DEV", url: "https://wiki.intranet.example/display/DEV/Asyncio+guidelines" }
+    ]);
+  });
+
+  it("explains blocked engines, disabled JSON API and HTML answers", () => {
+    expect(provider.detectBlock(200, serpResponses.searxng.blocked)).toBe(
+      "no engine answered: google (CAPTCHA), bing (Suspended: too many requests)"
+    );
+    expect(provider.detectBlock(403, "Forbidden")).toMatch(/search\.formats/);
+    expect(provider.detectBlock(429, "")).toMatch(/429/);
+    expect(provider.detectBlock(200, "<!DOCTYPE html><html></html>")).toMatch(/not JSON/);
+    expect(provider.detectBlock(200, '{"results":[],"unresponsive_engines":[]}')).toBeNull();
+  });
+});
+
+describe("custom URL template and selectors", () => {
+  const provider = customSerpProvider({
+    url: serpResponses.custom.url,
+    resultSelector: "li.hit",
+    linkSelector: "a.hit-link",
+    titleSelector: ".hit-title"
+  });
+
+  it("takes titles and links from result blocks, skipping links to the search site", () => {
+    expect(provider.name).toBe("search.intranet.example");
+    expect(provider.buildUrl("deploy prod")).toBe("https://search.intranet.example/search?q=deploy%20prod");
+    expect(provider.parse(serpResponses.custom.results)).toEqual([
+      { title: "Deploy guide", url: "https://wiki.intranet.example/display/OPS/Deploy" },
+      { title: "Rollback checklist", url: "https://gitlab.intranet.example/ops/runbooks/-/blob/main/rollback.md" }
+    ]);
+  });
+
+  it("uses link text when there is no result selector", () => {
+    const linksOnly = customSerpProvider({ url: serpResponses.custom.url, linkSelector: "a.hit-link" });
+    expect(linksOnly.parse(serpResponses.custom.results).map((h) => h.title)).toEqual([
+      "wiki.intranet.example › OPS › Deploy",
+      "gitlab.intranet.example"
+    ]);
+  });
+
+  it("detects CAPTCHA pages", () => {
+    expect(provider.parse(serpResponses.custom.captcha)).toEqual([]);
+    expect(provider.detectBlock(200, serpResponses.custom.captcha)).toBe("CAPTCHA");
+    expect(provider.detectBlock(200, serpResponses.custom.results)).toBeNull();
+  });
+});
+
+describe("createSerpProvider", () => {
+  it("defaults to DuckDuckGo and validates SearXNG and custom settings", () => {
+    expect(createSerpProvider(parseSerpSettings(SERP_SYNC_DEFAULTS))).toBe(duckDuckGoSerpProvider);
+    expect(createSerpProvider(parseSerpSettings({ serpProvider: "searxng" }))).toEqual({
+      error: expect.stringContaining("SearXNG URL is not set")
+    });
+    const searx = createSerpProvider(parseSerpSettings({ serpProvider: "searxng", serpSearxngUrl: " http://searx.lan:8080 " }));
+    expect("error" in searx ? searx.error : searx.buildUrl("x")).toBe("http://searx.lan:8080/search?q=x&format=json");
+    expect(createSerpProvider(parseSerpSettings({ serpProvider: "custom", serpCustomUrl: "https://s.example/?q=" }))).toEqual({
+      error: expect.stringContaining("{query}")
+    });
+    expect(
+      createSerpProvider(parseSerpSettings({ serpProvider: "custom", serpCustomUrl: "https://s.example/?q={query}" }))
+    ).toEqual({ error: expect.stringContaining("link selector") });
+  });
+});
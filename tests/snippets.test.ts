@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { buildSnippet, highlightRanges, snippetSegments, textFragmentUrl } from "../src/search/snippets";
+
+describe("highlightRanges", () => {
+  it("matches other word forms by stem and ignores stop words", () => {
+    const text = "The servers were searched; сервера ответили.";
+    const ranges = highlightRanges(text, "the server search сервер");
+    expect(ranges.map((r) => text.slice(r.start, r.end))).toEqual(["servers", "searched", "сервера"]);
+  });
+
+  it("merges overlapping CJK bigrams into one range", () => {
+    const text = "我在东京旅游";
+    const ranges = highlightRanges(text, "东京旅");
+    expect(ranges.map((r) => text.slice(r.start, r.end))).toEqual(["东京旅"]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("windows around the first match with ellipses", () => {
+    const text = `${"lorem ipsum ".repeat(20)}kafka consumer ${"dolor sit ".repeat(30)}`;
+    const snippet = buildSnippet(text, "kafka", 100);
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(snippet.text.endsWith("…")).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(102);
+    const [h] = snippet.highlights;
+    expect(snippet.text.slice(h.start, h.end)).toBe("kafka");
+  });
+
+  it("keeps markup-like text as plain segments", () => {
+    const snippet = buildSnippet("<b>kafka</b> & <script>x</script>", "kafka");
+    expect(snippetSegments(snippet)).toEqual([
+      { text: "<b>", match: false },
+      { text: "kafka", match: true },
+      { text: "</b> & <script>x</script>", match: false }
+    ]);
+  });
+});
+
+describe("textFragmentUrl", () => {
+  it("uses the whole short passage", () => {
+    expect(textFragmentUrl("https://e.com/a", "Rolling deploy, step-by-step")).toBe(
+      "https://e.com/a#:~:text=Rolling%20deploy%2C%20step%2Dby%2Dstep"
+    );
+  });
+
+  it("uses start and end words of long passages and keeps an existing fragment", () => {
+    const passage = "Install guide\nRun the installer and wait until the progress bar finishes completely.";
+    expect(textFragmentUrl("https://e.com/a#setup", passage)).toBe(
+      "https://e.com/a#setup:~:text=Install%20guide,progress%20bar%20finishes%20completely."
+    );
+  });
+});
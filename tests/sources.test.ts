@@ -6,6 +6,7 @@ import {
   parseLlmResponse,
   formatSourcesForDisplay,
   createSourceListItems,
+  displaySources,
   highlightInlineCitations,
   getReferencedSources,
   validateSources,
@@ -224,6 +225,53 @@ See [API Guide](https://example.com/api-guide) for details.
       expect(items[1].title).toBe('Source 2');
       expect(items[2].title).toBe('Source 3');
     });
+
+    it('should show citation number and excerpt of passage sources', () => {
+      const items = createSourceListItems([
+        { id: 3, title: 'Runbook', url: 'https://example.com/runbook', excerpt: 'Scale the canary to zero.' },
+      ]);
+      const li = items[0].element;
+      expect(li.querySelector('.source-citation-number')?.textContent).toBe('[3] ');
+      expect(li.querySelector('.source-excerpt')?.textContent).toBe('Scale the canary to zero.');
+    });
+
+    it('should render web_research documents as cards with host, relevance and excerpt', () => {
+      const items = createSourceListItems([
+        { id: 1, kind: 'web', title: 'Glaze', url: 'https://www.kiln.test/glaze', excerpt: 'Cone 6 glazes.', score: 0.67, depth: 0 },
+      ]);
+      const li = items[0].element;
+      expect(li.className).toBe('source-card');
+      expect(li.querySelector('.source-citation-number')).toBeNull();
+      expect(li.querySelector('a')?.href).toBe('https://www.kiln.test/glaze');
+      expect(li.querySelector('.source-card-meta')?.textContent).toBe('kiln.test · 67%');
+      expect(li.querySelector('.source-excerpt')?.textContent).toBe('Cone 6 glazes.');
+    });
+  });
+
+  describe('displaySources', () => {
+    const parsed: Source[] = [{ id: 1, title: 'Parsed', url: 'https://example.com/parsed' }];
+
+    it('should prefer checked passage citations stored with the message', () => {
+      const stored = [{ id: 2, title: 'Runbook', url: 'https://example.com/runbook', excerpt: 'Scale down.' }];
+      expect(displaySources(stored, parsed)).toEqual(stored);
+    });
+
+    it('should fall back to parsed sources for plain stored sources', () => {
+      expect(displaySources([{ title: 'Page', url: 'https://example.com/page' }], parsed)).toBe(parsed);
+      expect(displaySources(undefined, parsed)).toBe(parsed);
+    });
+
+    it('should turn web_research documents into cards, listed or not', () => {
+      const stored = [
+        { kind: 'web' as const, title: 'Parsed page', url: 'https://example.com/parsed', excerpt: 'Fetched text.', depth: 0, score: 0.8 },
+        { kind: 'web' as const, title: 'Unlisted', url: 'https://docs.example.org/deep', excerpt: 'Other text.', depth: 1, score: 0.5 },
+      ];
+      expect(displaySources(stored, parsed)).toEqual([
+        { id: 1, title: 'Parsed', url: 'https://example.com/parsed', kind: 'web', excerpt: 'Fetched text.', depth: 0, score: 0.8 },
+        { id: 2, title: 'Unlisted', url: 'https://docs.example.org/deep', kind: 'web', excerpt: 'Other text.', depth: 1, score: 0.5 },
+      ]);
+      expect(displaySources(stored, []).map((s) => s.id)).toEqual([1, 2]);
+    });
   });
 
   describe('highlightInlineCitations', () => {
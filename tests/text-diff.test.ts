@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffLines,
+  diffStats,
+  diffWords,
+  formatLineDiff,
+  normalizeSnapshotText,
+  type DiffChunk
+} from "../src/search/text-diff";
+
+/** Восстановить старый и новый текст из построчного diff. */
+function sides(chunks: DiffChunk[]): { before: string; after: string } {
+  const before: string[] = [];
+  const after: string[] = [];
+  for (const c of chunks) {
+    if (c.op !== "insert") before.push(c.text);
+    if (c.op !== "delete") after.push(c.text);
+  }
+  return { before: before.join("\n"), after: after.join("\n") };
+}
+
+describe("diffLines", () => {
+  it("marks changed lines and keeps the rest equal", () => {
+    const chunks = diffLines("Plan\nPrice: $10\nSupport", "Plan\nPrice: $12\nSupport\nSLA 99.9%");
+    expect(chunks).toEqual([
+      { op: "equal", text: "Plan", count: 1 },
+      { op: "delete", text: "Price: $10", count: 1 },
+      { op: "insert", text: "Price: $12", count: 1 },
+      { op: "equal", text: "Support", count: 1 },
+      { op: "insert", text: "SLA 99.9%", count: 1 }
+    ]);
+    expect(diffStats(chunks)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it("returns a single equal chunk for identical text and handles empty sides", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([{ op: "equal", text: "a\nb", count: 2 }]);
+    expect(diffLines("", "a\nb")).toEqual([{ op: "insert", text: "a\nb", count: 2 }]);
+    expect(diffLines("a", "")).toEqual([{ op: "delete", text: "a", count: 1 }]);
+  });
+
+  it("finds a minimal edit script in the middle of the text", () => {
+    const before = ["a", "b", "c", "a", "b", "b", "a"].join("\n");
+    const after = ["c", "b", "a", "b", "a", "c"].join("\n");
+    const chunks = diffLines(before, after);
+    expect(sides(chunks)).toEqual({ before, after });
+    const { added, removed } = diffStats(chunks);
+    expect(added + removed).toBe(5);
+  });
+
+  it("falls back to a full replacement when there are too many edits", () => {
+    const before = Array.from({ length: 1500 }, (_, i) => `old ${i}`).join("\n");
+    const after = Array.from({ length: 1500 }, (_, i) => `new ${i}`).join("\n");
+    const chunks = diffLines(before, after);
+    expect(chunks.map((c) => c.op)).toEqual(["delete", "insert"]);
+    expect(sides(chunks)).toEqual({ before, after });
+  });
+});
+
+describe("diffWords", () => {
+  it("diffs words and keeps whitespace so chunks rebuild the text", () => {
+    const chunks = diffWords("Pro plan costs 10 dollars", "Pro plan costs 12 dollars monthly");
+    expect(chunks.filter((c) => c.op !== "equal")).toEqual([
+      { op: "delete", text: "10", count: 1 },
+      { op: "insert", text: "12", count: 1 },
+      { op: "insert", text: " monthly", count: 1 }
+    ]);
+    expect(chunks.filter((c) => c.op !== "delete").map((c) => c.text).join("")).toBe(
+      "Pro plan costs 12 dollars monthly"
+    );
+  });
+});
+
+describe("formatLineDiff", () => {
+  it("keeps context around changes and collapses long unchanged runs", () => {
+    const before = ["h1", "a", "b", "c", "d", "e", "f", "old", "t1"].join("\n");
+    const after = ["h1", "a", "b", "c", "d", "e", "f", "new", "t1"].join("\n");
+    expect(formatLineDiff(diffLines(before, after), { contextLines: 2 })).toBe(
+      ["  …", "  e", "  f", "- old", "+ new", "  t1"].join("\n")
+    );
+  });
+
+  it("truncates to maxChars", () => {
+    const text = formatLineDiff(diffLines("", "x".repeat(100)), { maxChars: 20 });
+    expect(text).toBe(`+ ${"x".repeat(18)}\n[diff truncated]`);
+  });
+});
+
+describe("normalizeSnapshotText", () => {
+  it("drops layout-only differences", () => {
+    expect(normalizeSnapshotText("  Title \n\n\tPrice:   $10  \n \n")).toBe("Title\nPrice: $10");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { analyze, isStopWord, stem, stemEnglish, stemRussian, tokenize } from "../src/search/tokenizer";
+
+describe("tokenize", () => {
+  it("keeps letters of any script and folds Latin diacritics and ё", () => {
+    expect(tokenize("Café naïve Ёлка їжак Ελληνικά test2024")).toEqual([
+      "cafe",
+      "naive",
+      "елка",
+      "їжак",
+      "ελληνικα",
+      "test2024"
+    ]);
+  });
+
+  it("splits CJK runs into bigrams and keeps mixed words apart", () => {
+    expect(tokenize("東京タワー")).toEqual(["東京", "京タ", "タワ", "ワー"]);
+    expect(tokenize("한국어 API文档")).toEqual(["한국", "국어", "api", "文档"]);
+    expect(tokenize("字")).toEqual(["字"]);
+  });
+});
+
+describe("stemmers", () => {
+  it("reduces English inflections to a common stem", () => {
+    expect(["search", "searches", "searching", "searched"].map(stemEnglish)).toEqual(Array(4).fill("search"));
+    expect(stemEnglish("communities")).toBe("communiti");
+    expect(stemEnglish("hopping")).toBe("hop");
+    expect(stemEnglish("relational")).toBe("relat");
+    expect(stemEnglish("is")).toBe("is");
+  });
+
+  it("reduces Russian case and verb endings to a common stem", () => {
+    expect(["страница", "страницы", "странице", "страницах"].map(stemRussian)).toEqual(Array(4).fill("страниц"));
+    expect(["работать", "работает", "работали"].map(stemRussian)).toEqual(Array(3).fill("работа"));
+    expect(stemRussian("красивого")).toBe("красив");
+    expect(stemRussian("организации")).toBe("организац");
+  });
+
+  it("leaves other scripts and numbers as they are", () => {
+    expect(stem("їжака")).toBe("їжака");
+    expect(stem("2024")).toBe("2024");
+  });
+});
+
+describe("analyze", () => {
+  it("drops stop words and stems the rest", () => {
+    expect(isStopWord("the")).toBe(true);
+    expect(isStopWord("что")).toBe(true);
+    expect(analyze("The foxes are running в поисках страниц")).toEqual(["fox", "run", "поиск", "страниц"]);
+  });
+});
@@ -0,0 +1,65 @@
+import "fake-indexeddb/auto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { clearWebCache, getCachedWebFetch, getWebCacheStats, setCachedWebFetch } from "../src/storage/indexdb";
+import { isCacheFresh, parseWebCacheSettings, type WebCacheRecord } from "../src/search/fetch-cache";
+
+type StorageGet = (keys: Record<string, unknown>, cb: (r: Record<string, unknown>) => void) => void;
+type ChromeMock = { storage: { sync: { get: StorageGet }; local: { get: StorageGet; remove: () => Promise<void> } } };
+
+beforeAll(() => {
+  const get: StorageGet = (keys, cb) => cb({ ...keys });
+  (global as unknown as { chrome: ChromeMock }).chrome = {
+    storage: { sync: { get }, local: { get, remove: async () => {} } }
+  };
+});
+
+function pageRecord(url: string, fetchedAt: number): WebCacheRecord {
+  return {
+    kind: "page",
+    url,
+    mime: "text/html",
+    charset: "utf-8",
+    etag: '"v1"',
+    page: { url, title: "Kiln", text: "Kiln firing notes", links: [] },
+    fetchedAt
+  };
+}
+
+describe("parseWebCacheSettings", () => {
+  it("defaults to an enabled online cache and clamps the TTL", () => {
+    expect(parseWebCacheSettings({})).toEqual({ enabled: true, ttlMs: 6 * 3_600_000, offline: false });
+    expect(parseWebCacheSettings({ webCacheEnabled: false, webCacheTtlHours: "0", webOfflineMode: true })).toEqual({
+      enabled: false,
+      ttlMs: 6 * 3_600_000,
+      offline: true
+    });
+    expect(parseWebCacheSettings({ webCacheTtlHours: 100_000 }).ttlMs).toBe(720 * 3_600_000);
+  });
+
+  it("treats records older than the TTL as stale", () => {
+    const record = pageRecord("https://a.example/", 1_000);
+    expect(isCacheFresh(record, 500, 1_400)).toBe(true);
+    expect(isCacheFresh(record, 500, 1_500)).toBe(false);
+  });
+});
+
+describe("web cache store", () => {
+  it("stores, replaces, trims and clears records", async () => {
+    await setCachedWebFetch(pageRecord("https://a.example/", 1_000));
+    await setCachedWebFetch({ kind: "serp", url: "https://search.example/?q=kiln", hits: [{ title: "A", url: "https://a.example/" }], fetchedAt: 2_000 });
+    expect(await getCachedWebFetch("https://a.example/")).toEqual(pageRecord("https://a.example/", 1_000));
+    expect(await getCachedWebFetch("https://missing.example/")).toBeNull();
+
+    await setCachedWebFetch(pageRecord("https://a.example/", 3_000));
+    expect((await getCachedWebFetch("https://a.example/"))?.fetchedAt).toBe(3_000);
+    expect(await getWebCacheStats()).toMatchObject({ entries: 2, oldestAt: 2_000, newestAt: 3_000 });
+
+    // Сверх предела вытесняются самые давно загруженные
+    await setCachedWebFetch(pageRecord("https://b.example/", 4_000), 2);
+    expect(await getCachedWebFetch("https://search.example/?q=kiln")).toBeNull();
+    expect((await getWebCacheStats()).entries).toBe(2);
+
+    await clearWebCache();
+    expect(await getWebCacheStats()).toEqual({ entries: 0, bytes: 0, oldestAt: null, newestAt: null });
+  });
+});
@@ -1,30 +1,21 @@
 /** @vitest-environment jsdom */
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
   extractLikelyYearsFromQuery,
   extractReadablePage,
-  normalizeUrlKey,
-  parseDuckDuckGoSerpHtml,
   prioritizeSerpHitsByYearInQuery,
-  resolveDuckRedirect,
-  runWebResearch
+  relevanceScore,
+  runWebResearch,
+  runWebResearchDetailed
 } from "../src/search/web-research";
+import { searxngSerpProvider } from "../src/search/serp-providers";
+import { clearRobotsCache } from "../src/search/robots";
+import type { WebCacheRecord, WebFetchCache } from "../src/search/fetch-cache";
+import serpResponses from "./mocks/serp-responses.json";
 
-describe("normalizeUrlKey / resolveDuckRedirect", () => {
-  it("normalizes https URL", () => {
-    expect(normalizeUrlKey("https://ExAmple.com/foo/?x=1#h")).toBe("https://example.com/foo/?x=1");
-  });
-
-  it("returns null for non-http(s)", () => {
-    expect(normalizeUrlKey("javascript:alert(1)")).toBe(null);
-  });
-
-  it("unwraps DuckDuckGo uddg redirect", () => {
-    const u =
-      "https://duckduckgo.com/l/?uddg=https%3A%2F%2Fwiki.example.org%2Fpage&rut=…";
-    expect(resolveDuckRedirect(u)).toBe("https://wiki.example.org/page");
-  });
-});
+function respond(body: string | Uint8Array, status = 200, contentType = "text/html"): Promise<Response> {
+  return Promise.resolve(new Response(body, { status, headers: { "content-type": contentType } }));
+}
 
 describe("extractLikelyYearsFromQuery / prioritizeSerpHitsByYearInQuery", () => {
   it("extracts unique 19xx/20xx years", () => {
@@ -42,18 +33,6 @@ describe("extractLikelyYearsFromQuery / prioritizeSerpHitsByYearInQuery", () =>
   });
 });
 
-describe("parseDuckDuckGoSerpHtml", () => {
-  it("extracts result__a targets", () => {
-    const html = `<!DOCTYPE html><html><body>
-      <a class="result__a" href="https://duckduckgo.com/l/?uddg=https%3A%2F%2Fsite.org%2Fa">Site A</a>
-      <a class="result__a" href="https://direct.example/b">Direct B</a>
-    </body></html>`;
-    const r = parseDuckDuckGoSerpHtml(html);
-    expect(r.map((x) => x.url)).toEqual(["https://site.org/a", "https://direct.example/b"]);
-    expect(r[0]?.title).toContain("Site A");
-  });
-});
-
 describe("extractReadablePage", () => {
   it("pulls main text and links", () => {
     const html = `<html><head><title>T</title></head><body>
@@ -67,6 +46,8 @@ describe("extractReadablePage", () => {
 });
 
 describe("runWebResearch", () => {
+  beforeEach(() => clearRobotsCache());
+
   it("chains SERP and pages with mocked fetch", async () => {
     const serp = `<html><body>
       <a class="result__a" href="https://duckduckgo.com/l/?uddg=https%3A%2F%2Forigin.test%2Farticle">Art</a>
@@ -82,15 +63,15 @@ describe("runWebResearch", () => {
     const fetchMock = vi.fn((input: RequestInfo) => {
       const url = typeof input === "string" ? input : input.url;
       if (url.includes("duckduckgo.com")) {
-        return Promise.resolve({ ok: true, text: () => Promise.resolve(serp) } as Response);
+        return respond(serp);
       }
       if (url.includes("origin.test/article")) {
-        return Promise.resolve({ ok: true, text: () => Promise.resolve(pageA) } as Response);
+        return respond(pageA);
       }
       if (url.includes("origin.test/deep")) {
-        return Promise.resolve({ ok: true, text: () => Promise.resolve(pageDeep) } as Response);
+        return respond(pageDeep);
       }
-      return Promise.resolve({ ok: false, status: 404, text: () => Promise.resolve("") } as Response);
+      return respond("", 404);
     });
 
     const out = await runWebResearch("python asyncio tutorial", fetchMock as typeof fetch, {
@@ -109,4 +90,227 @@ describe("runWebResearch", () => {
     expect(out).toContain("Deep");
     expect(fetchMock).toHaveBeenCalled();
   });
+
+  it("takes results from the configured provider and reports blocking", async () => {
+    const provider = searxngSerpProvider("https://searx.intranet.example/");
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = typeof input === "string" ? input : input.url;
+      if (url.startsWith("https://searx.intranet.example/search?q=python%20asyncio&format=json")) {
+        return respond(serpResponses.searxng.results, 200, "application/json");
+      }
+      return respond("<html><title>Doc</title><main><p>asyncio text</p></main></html>");
+    });
+    const out = await runWebResearch("python asyncio", fetchMock as typeof fetch, { maxDepth: 0, serpProvider: provider });
+    expect(out).toContain("docs.python.org/3/library/asyncio.html");
+    expect(out).toContain("wiki.intranet.example/display/DEV/Asyncio+guidelines");
+    expect(fetchMock.mock.calls.some(([u]) => String(u).includes("duckduckgo"))).toBe(false);
+
+    const blockedFetch = vi.fn(() => respond(serpResponses.searxng.blocked, 200, "application/json"));
+    const blocked = await runWebResearch("python asyncio", blockedFetch as typeof fetch, { serpProvider: provider });
+    expect(blocked).toContain("SearXNG refused the search request: no engine answered: google (CAPTCHA)");
+    expect(blockedFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runWebResearch fetching", () => {
+  beforeEach(() => clearRobotsCache());
+
+  const serpFor = (urls: string[]) =>
+    `<html><body>${urls.map((u) => `<a class="result__a" href="${u}">${u}</a>`).join("")}</body></html>`;
+  const page = (title: string) => `<html><head><title>${title}</title></head><body><main><p>kiln firing notes for ${title}</p></main></body></html>`;
+
+  it("reports every URL: robots.txt, content type, charset and HTTP errors", async () => {
+    // «Обжиг» в windows-1251, кодировка указана только в <meta>
+    const cp1251 = Uint8Array.from([
+      ...new TextEncoder().encode('<html><head><meta charset="windows-1251"><title>Kiln</title></head><body><main><p>kiln '),
+      0xce, 0xe1, 0xe6, 0xe8, 0xe3,
+      ...new TextEncoder().encode("</p></main></body></html>")
+    ]);
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = String(input);
+      if (url.includes("duckduckgo.com")) {
+        return respond(
+          serpFor([
+            "https://ru.example/kiln",
+            "https://closed.example/private/kiln",
+            "https://docs.example/kiln.pdf",
+            "https://gone.example/kiln"
+          ])
+        );
+      }
+      if (url === "https://closed.example/robots.txt") return respond("User-agent: *\nDisallow: /private/\n", 200, "text/plain");
+      if (url === "https://ru.example/kiln") return respond(cp1251, 200, "text/html");
+      if (url === "https://docs.example/kiln.pdf") return respond("%PDF-1.7", 200, "application/pdf");
+      return respond("", 404);
+    });
+    const out = await runWebResearch("kiln", fetchMock as typeof fetch, { maxDepth: 0 });
+    expect(out).toContain("kiln Обжиг");
+    expect(out).toContain("- https://ru.example/kiln — fetched (HTTP 200, text/html, windows-1251,");
+    expect(out).toContain("- https://closed.example/private/kiln — skipped: disallowed by robots.txt");
+    expect(out).toContain("- https://docs.example/kiln.pdf — skipped: application/pdf is not a readable page");
+    expect(out).toContain("- https://gone.example/kiln — failed: HTTP 404");
+    expect(fetchMock.mock.calls.some(([u]) => String(u) === "https://closed.example/private/kiln")).toBe(false);
+    // robots.txt запрошен один раз на сайт
+    expect(fetchMock.mock.calls.filter(([u]) => String(u) === "https://closed.example/robots.txt")).toHaveLength(1);
+  });
+
+  it("limits parallel fetches overall and per host", async () => {
+    const urls = ["a1", "a2", "a3", "b1", "b2", "c1"].map((p) => `https://${p[0]}.example/${p}`);
+    let active = 0;
+    let maxActive = 0;
+    const perHost = new Map<string, number>();
+    let maxPerHost = 0;
+    const fetchMock = vi.fn(async (input: RequestInfo) => {
+      const url = String(input);
+      if (url.includes("duckduckgo.com")) return respond(serpFor(urls));
+      if (url.endsWith("/robots.txt")) return respond("", 404);
+      const host = new URL(url).host;
+      active++;
+      perHost.set(host, (perHost.get(host) ?? 0) + 1);
+      maxActive = Math.max(maxActive, active);
+      maxPerHost = Math.max(maxPerHost, perHost.get(host)!);
+      await new Promise((r) => setTimeout(r, 20));
+      active--;
+      perHost.set(host, perHost.get(host)! - 1);
+      return respond(page(url));
+    });
+    const out = await runWebResearch("kiln firing", fetchMock as typeof fetch, {
+      maxDepth: 0,
+      serpLimit: 6,
+      concurrency: 3,
+      perHostConcurrency: 1
+    });
+    expect(maxActive).toBe(3);
+    expect(maxPerHost).toBe(1);
+    // Порядок отчёта — порядок выдачи, а не порядок завершения загрузок
+    const order = urls.map((u) => out.indexOf(`URL: ${u}`));
+    expect(order.every((pos, i) => pos > 0 && (i === 0 || pos > order[i - 1]))).toBe(true);
+  });
+
+  it("stops at the time budget and reports pages it could not fetch", async () => {
+    const fetchMock = vi.fn((input: RequestInfo, init?: RequestInit) => {
+      const url = String(input);
+      if (url.includes("duckduckgo.com")) return respond(serpFor(["https://slow.example/kiln", "https://late.example/kiln"]));
+      if (url.endsWith("/robots.txt")) return respond("", 404);
+      // Зависшая страница отвечает только отменой запроса
+      return new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new Error("The operation was aborted")));
+      });
+    });
+    const started = Date.now();
+    const out = await runWebResearch("kiln", fetchMock as typeof fetch, { maxDepth: 0, concurrency: 1, budgetMs: 700 });
+    expect(Date.now() - started).toBeLessThan(2_000);
+    expect(out).toMatch(/- https:\/\/slow\.example\/kiln — failed: timeout after \d+ ms/);
+    expect(out).toContain("- https://late.example/kiln — not fetched: time budget of 0.7 s ran out");
+  });
+});
+
+describe("runWebResearchDetailed documents", () => {
+  beforeEach(() => clearRobotsCache());
+
+  it("scores a page by the share of query terms in its title and text", () => {
+    expect(relevanceScore({ title: "Glaze recipes", text: "Cone 6 glaze chemistry." }, "glaze chemistry kiln")).toBe(0.67);
+    expect(relevanceScore({ title: "Bread", text: "Sourdough." }, "glaze chemistry")).toBe(0);
+    expect(relevanceScore({ title: "Anything", text: "" }, "  ")).toBe(0);
+  });
+
+  it("lists the pages of the report with excerpts, depth and score, most relevant first", async () => {
+    const serp = `<html><body>
+      <a class="result__a" href="https://kiln.test/notes">Notes</a>
+      <a class="result__a" href="https://kiln.test/glaze">Glaze</a>
+      <a class="result__a" href="https://kiln.test/report.pdf">PDF</a>
+    </body></html>`;
+    const long = "Glaze chemistry for cone 6 firing schedules and kiln venting. ".repeat(20);
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = typeof input === "string" ? input : input.url;
+      if (url.includes("duckduckgo.com")) return respond(serp);
+      if (url.endsWith("/robots.txt")) return respond("", 404);
+      if (url.endsWith("/notes")) return respond("<html><title>Notes</title><main><p>Studio notes about kiln maintenance and shelves.</p></main></html>");
+      if (url.endsWith("/glaze")) return respond(`<html><title>Glaze</title><main><p>${long}</p></main></html>`);
+      return respond("%PDF-1.4", 200, "application/pdf");
+    });
+
+    const { text, documents } = await runWebResearchDetailed("glaze chemistry kiln", fetchMock as typeof fetch, { maxDepth: 0 });
+    expect(text).toContain("## Fetch status");
+    expect(documents.map((d) => [d.url, d.depth, d.score])).toEqual([
+      ["https://kiln.test/glaze", 0, 1],
+      ["https://kiln.test/notes", 0, 0.33]
+    ]);
+    expect(documents[0].title).toBe("Glaze");
+    expect(documents[0].excerpt.length).toBeLessThanOrEqual(281);
+    expect(documents[0].excerpt.endsWith("…")).toBe(true);
+    expect(documents[1].excerpt).toBe("Studio notes about kiln maintenance and shelves.");
+  });
+
+  it("returns no documents when the search itself failed", async () => {
+    const fetchMock = vi.fn(() => Promise.reject(new Error("network down")));
+    const out = await runWebResearchDetailed("glaze", fetchMock as typeof fetch);
+    expect(out.documents).toEqual([]);
+    expect(out.text).toContain("Could not load search results");
+  });
+});
+
+describe("runWebResearch cache", () => {
+  beforeEach(() => clearRobotsCache());
+
+  const SERP = `<html><body><a class="result__a" href="https://kiln.example/guide">Guide</a></body></html>`;
+  const GUIDE = "<html><head><title>Kiln guide</title></head><body><main><p>kiln firing schedule for stoneware</p></main></body></html>";
+
+  function memoryCache(): WebFetchCache & { records: Map<string, WebCacheRecord> } {
+    const records = new Map<string, WebCacheRecord>();
+    return {
+      records,
+      get: async (url) => records.get(url) ?? null,
+      put: async (record) => {
+        records.set(record.url, record);
+      }
+    };
+  }
+
+  function siteFetch() {
+    return vi.fn((input: RequestInfo, init?: RequestInit) => {
+      const url = String(input);
+      if (url.includes("duckduckgo.com")) return respond(SERP);
+      if (url.endsWith("/robots.txt")) return respond("", 404);
+      if ((init?.headers as Record<string, string>)["If-None-Match"] === '"g1"') return Promise.resolve(new Response(null, { status: 304 }));
+      return Promise.resolve(new Response(GUIDE, { headers: { "content-type": "text/html", etag: '"g1"' } }));
+    });
+  }
+
+  it("reuses fresh SERPs and pages, revalidates stale pages with a conditional request", async () => {
+    const cache = memoryCache();
+    const first = await runWebResearch("kiln firing", siteFetch() as typeof fetch, { maxDepth: 0, cache });
+    expect(first).toContain("kiln firing schedule");
+    expect(cache.records.get("https://kiln.example/guide")).toMatchObject({ kind: "page", etag: '"g1"' });
+    expect([...cache.records.values()].some((r) => r.kind === "serp")).toBe(true);
+
+    const offlineNetwork = vi.fn(() => Promise.reject(new Error("no network")));
+    const second = await runWebResearch("kiln firing", offlineNetwork as typeof fetch, { maxDepth: 0, cache });
+    expect(offlineNetwork).not.toHaveBeenCalled();
+    expect(second).toContain("kiln firing schedule");
+    expect(second).toMatch(/- https:\/\/kiln\.example\/guide — from cache \(fetched /);
+
+    const revalidating = siteFetch();
+    const third = await runWebResearch("kiln firing", revalidating as typeof fetch, { maxDepth: 0, cache, cacheTtlMs: 0 });
+    expect(third).toContain("kiln firing schedule");
+    expect(third).toMatch(/- https:\/\/kiln\.example\/guide — not modified \(HTTP 304\), cached copy from /);
+    const pageCall = revalidating.mock.calls.find(([u]) => String(u) === "https://kiln.example/guide");
+    expect((pageCall?.[1]?.headers as Record<string, string>)["If-None-Match"]).toBe('"g1"');
+  });
+
+  it("works from the cache only in offline mode", async () => {
+    const cache = memoryCache();
+    await runWebResearch("kiln firing", siteFetch() as typeof fetch, { maxDepth: 0, cache });
+    cache.records.delete("https://kiln.example/guide");
+
+    const network = vi.fn(() => Promise.reject(new Error("air-gapped")));
+    const out = await runWebResearch("kiln firing", network as typeof fetch, { maxDepth: 0, cache, offline: true, cacheTtlMs: 0 });
+    expect(network).not.toHaveBeenCalled();
+    expect(out).toContain("Offline mode: cached pages only");
+    expect(out).toContain("- https://kiln.example/guide — not fetched: offline mode and no cached copy");
+
+    const missing = await runWebResearch("another topic", network as typeof fetch, { cache, offline: true });
+    expect(missing).toContain('Offline mode: there are no cached DuckDuckGo results for "another topic"');
+    expect(network).not.toHaveBeenCalled();
+  });
 });